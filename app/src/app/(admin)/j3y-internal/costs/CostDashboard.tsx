@@ -0,0 +1,513 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { FloatingPixels } from '@/components/landing/FloatingPixels'
+import { ShieldAlert, AlertCircle, AlertTriangle, Loader2, RefreshCw, Plus } from 'lucide-react'
+import type { CostDashboard as CostDashboardData, CostBreakdownRow } from '@/lib/cost-dashboard'
+import type { ModelPrice, ModelPricingRow } from '@/lib/ai/costs'
+
+interface CostDashboardProps {
+  adminEmail: string
+}
+
+const PERIOD_OPTIONS = [7, 30, 90] as const
+
+function formatUsd(cents: number | null): string {
+  if (cents === null) return '—'
+  const dollars = cents / 100
+  return `${dollars < 0 ? '-' : ''}$${Math.abs(dollars).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)}%`
+}
+
+function SummaryCard({ label, value, tone }: { label: string; value: string; tone?: 'good' | 'bad' }) {
+  return (
+    <div className="card" style={{ padding: '20px' }}>
+      <div className="font-mono text-[var(--text-dim)] uppercase" style={{ fontSize: '11px', letterSpacing: '0.05em', marginBottom: '8px' }}>
+        {label}
+      </div>
+      <div
+        className="font-mono"
+        style={{
+          fontSize: '1.5rem',
+          color: tone === 'bad' ? 'var(--red, #f87171)' : tone === 'good' ? 'var(--green)' : 'var(--text)',
+        }}
+      >
+        {value}
+      </div>
+    </div>
+  )
+}
+
+function SectionHeading({ children }: { children: React.ReactNode }) {
+  return (
+    <h3
+      className="font-mono text-[var(--green)] uppercase"
+      style={{ fontSize: '11px', letterSpacing: '0.1em', marginBottom: '16px' }}
+    >
+      {children}
+    </h3>
+  )
+}
+
+function BreakdownTable({ title, rows, totalCents }: { title: string; rows: CostBreakdownRow[]; totalCents: number }) {
+  return (
+    <div className="card" style={{ padding: '20px' }}>
+      <SectionHeading>{title}</SectionHeading>
+      {rows.length === 0 ? (
+        <p className="text-[var(--text-dim)] text-sm">No costs in this period</p>
+      ) : (
+        <table className="w-full font-mono text-xs">
+          <thead>
+            <tr className="text-[var(--text-dim)] text-left">
+              <th style={{ paddingBottom: '8px' }}>Key</th>
+              <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Calls</th>
+              <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Cost</th>
+              <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-t border-[var(--border)] text-[var(--text)]">
+                <td style={{ padding: '6px 0' }}>{row.key}</td>
+                <td style={{ padding: '6px 0', textAlign: 'right' }}>{row.requests.toLocaleString()}</td>
+                <td style={{ padding: '6px 0', textAlign: 'right' }}>{formatUsd(row.costCents)}</td>
+                <td className="text-[var(--text-dim)]" style={{ padding: '6px 0', textAlign: 'right' }}>
+                  {totalCents > 0 ? formatPercent((row.costCents / totalCents) * 100) : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function WeeklyChart({ rows }: { rows: CostBreakdownRow[] }) {
+  const max = Math.max(...rows.map(r => r.costCents), 1)
+
+  return (
+    <div className="card" style={{ padding: '20px' }}>
+      <SectionHeading>Cost by Week</SectionHeading>
+      {rows.length === 0 ? (
+        <p className="text-[var(--text-dim)] text-sm">No costs in this period</p>
+      ) : (
+        <div style={{ display: 'grid', gap: '6px' }}>
+          {rows.map(row => (
+            <div key={row.key} className="flex items-center font-mono text-xs" style={{ gap: '12px' }}>
+              <span className="text-[var(--text-dim)]" style={{ width: '88px' }}>{row.key}</span>
+              <div className="flex-1 bg-[var(--surface-elevated)]" style={{ height: '10px' }}>
+                <div className="bg-[var(--green)]" style={{ height: '100%', width: `${(row.costCents / max) * 100}%` }} />
+              </div>
+              <span className="text-[var(--text)]" style={{ width: '80px', textAlign: 'right' }}>{formatUsd(row.costCents)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function CustomersTable({ customers }: { customers: CostDashboardData['customers'] }) {
+  const flagged = customers.filter(c => c.overPlan).length
+
+  return (
+    <div className="card" style={{ padding: '20px' }}>
+      <SectionHeading>Customers</SectionHeading>
+      {flagged > 0 && (
+        <div
+          className="flex items-center font-mono text-xs text-[var(--gold)]"
+          style={{ gap: '8px', marginBottom: '12px' }}
+        >
+          <AlertTriangle size={14} />
+          {flagged} account{flagged === 1 ? '' : 's'} cost more per month than their plan price
+        </div>
+      )}
+      {customers.length === 0 ? (
+        <p className="text-[var(--text-dim)] text-sm">No customer activity in this period</p>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table className="w-full font-mono text-xs">
+            <thead>
+              <tr className="text-[var(--text-dim)] text-left">
+                <th style={{ paddingBottom: '8px' }}>Customer</th>
+                <th style={{ paddingBottom: '8px' }}>Tier</th>
+                <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Scans</th>
+                <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Cost</th>
+                <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Revenue</th>
+                <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Margin</th>
+                <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Cost / mo</th>
+                <th style={{ paddingBottom: '8px', textAlign: 'right' }}>Plan / mo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {customers.map(c => (
+                <tr
+                  key={`${c.kind}:${c.id}`}
+                  className="border-t border-[var(--border)]"
+                  style={{ color: c.overPlan ? 'var(--gold)' : 'var(--text)' }}
+                >
+                  <td style={{ padding: '6px 8px 6px 0' }}>
+                    <span className="flex items-center" style={{ gap: '6px' }}>
+                      {c.overPlan && <AlertTriangle size={12} />}
+                      {c.name}
+                      {c.kind === 'organization' && <span className="text-[var(--text-dim)]">(HB)</span>}
+                    </span>
+                  </td>
+                  <td style={{ padding: '6px 8px 6px 0' }}>{c.tier}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{c.scans}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{formatUsd(c.costCents)}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{formatUsd(c.revenueCents)}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>
+                    {formatUsd(c.marginCents)}{' '}
+                    <span className="text-[var(--text-dim)]">{formatPercent(c.marginPercent)}</span>
+                  </td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{formatUsd(c.monthlyCostCents)}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{formatUsd(c.planPriceCents)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PricingEditor() {
+  const [current, setCurrent] = useState<Record<string, ModelPrice>>({})
+  const [history, setHistory] = useState<ModelPricingRow[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({ model: '', input: '', output: '', perRequest: '0', effectiveFrom: '', note: '' })
+
+  const loadPricing = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/model-pricing')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load pricing')
+      setCurrent(data.current)
+      setHistory(data.history)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPricing()
+  }, [loadPricing])
+
+  // Prefill the form with the model's current price
+  const selectModel = (model: string) => {
+    const price = current[model]
+    setForm({
+      model,
+      input: price ? String(price.input) : '',
+      output: price ? String(price.output) : '',
+      perRequest: String(price?.perRequestCents ?? 0),
+      effectiveFrom: '',
+      note: '',
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/admin/model-pricing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: form.model,
+          input_per_1k: Number(form.input),
+          output_per_1k: Number(form.output),
+          per_request_cents: Number(form.perRequest),
+          effective_from: form.effectiveFrom ? new Date(form.effectiveFrom).toISOString() : undefined,
+          note: form.note || undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save price')
+
+      setForm({ model: '', input: '', output: '', perRequest: '0', effectiveFrom: '', note: '' })
+      await loadPricing()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'bg-[var(--bg)] border border-[var(--border)] text-[var(--text)] font-mono text-xs'
+
+  return (
+    <div className="card" style={{ padding: '20px' }}>
+      <SectionHeading>Model Pricing</SectionHeading>
+      <p className="text-[var(--text-dim)] text-sm" style={{ marginBottom: '16px' }}>
+        New prices apply from their effective date. Costs already recorded keep the price they were charged at.
+      </p>
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-400 font-mono text-xs" style={{ marginBottom: '12px' }}>
+          <AlertCircle size={14} />
+          {error}
+        </div>
+      )}
+
+      <table className="w-full font-mono text-xs" style={{ marginBottom: '20px' }}>
+        <thead>
+          <tr className="text-[var(--text-dim)] text-left">
+            <th style={{ paddingBottom: '8px' }}>Model</th>
+            <th style={{ paddingBottom: '8px', textAlign: 'right' }}>$ / 1K in</th>
+            <th style={{ paddingBottom: '8px', textAlign: 'right' }}>$ / 1K out</th>
+            <th style={{ paddingBottom: '8px', textAlign: 'right' }}>¢ / call</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Object.entries(current).sort(([a], [b]) => a.localeCompare(b)).map(([model, price]) => (
+            <tr
+              key={model}
+              onClick={() => selectModel(model)}
+              className="border-t border-[var(--border)] text-[var(--text)] cursor-pointer hover:bg-[var(--surface-elevated)]"
+            >
+              <td style={{ padding: '6px 0' }}>{model}</td>
+              <td style={{ padding: '6px 0', textAlign: 'right' }}>{price.input}</td>
+              <td style={{ padding: '6px 0', textAlign: 'right' }}>{price.output}</td>
+              <td style={{ padding: '6px 0', textAlign: 'right' }}>{price.perRequestCents ?? 0}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end" style={{ gap: '8px', marginBottom: '20px' }}>
+        <input
+          value={form.model}
+          onChange={e => setForm({ ...form, model: e.target.value })}
+          placeholder="model"
+          required
+          className={inputClass}
+          style={{ padding: '8px 10px', width: '200px' }}
+        />
+        <input
+          type="number" step="any" min="0"
+          value={form.input}
+          onChange={e => setForm({ ...form, input: e.target.value })}
+          placeholder="$ / 1K in"
+          required
+          className={inputClass}
+          style={{ padding: '8px 10px', width: '110px' }}
+        />
+        <input
+          type="number" step="any" min="0"
+          value={form.output}
+          onChange={e => setForm({ ...form, output: e.target.value })}
+          placeholder="$ / 1K out"
+          required
+          className={inputClass}
+          style={{ padding: '8px 10px', width: '110px' }}
+        />
+        <input
+          type="number" step="any" min="0"
+          value={form.perRequest}
+          onChange={e => setForm({ ...form, perRequest: e.target.value })}
+          placeholder="¢ / call"
+          className={inputClass}
+          style={{ padding: '8px 10px', width: '90px' }}
+        />
+        <input
+          type="datetime-local"
+          value={form.effectiveFrom}
+          onChange={e => setForm({ ...form, effectiveFrom: e.target.value })}
+          title="Effective from (defaults to now)"
+          className={inputClass}
+          style={{ padding: '8px 10px' }}
+        />
+        <input
+          value={form.note}
+          onChange={e => setForm({ ...form, note: e.target.value })}
+          placeholder="note"
+          className={inputClass}
+          style={{ padding: '8px 10px', flex: 1, minWidth: '140px' }}
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-[var(--green)] text-[var(--bg)] font-mono text-xs flex items-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-50"
+          style={{ padding: '9px 14px' }}
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+          Add price
+        </button>
+      </form>
+
+      {history.length > 0 && (
+        <details>
+          <summary className="font-mono text-xs text-[var(--text-dim)] cursor-pointer">
+            Price history ({history.length})
+          </summary>
+          <table className="w-full font-mono text-xs" style={{ marginTop: '12px' }}>
+            <tbody>
+              {history.map(row => (
+                <tr key={row.id} className="border-t border-[var(--border)] text-[var(--text-dim)]">
+                  <td style={{ padding: '6px 0' }}>{row.model}</td>
+                  <td style={{ padding: '6px 0' }}>{new Date(row.effective_from).toLocaleString()}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{Number(row.input_per_1k)}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{Number(row.output_per_1k)}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{Number(row.per_request_cents)}¢</td>
+                  <td style={{ padding: '6px 0 6px 12px' }}>{row.note}</td>
+                  <td style={{ padding: '6px 0' }}>{row.created_by}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+    </div>
+  )
+}
+
+export function CostDashboard({ adminEmail }: CostDashboardProps) {
+  const [days, setDays] = useState<number>(30)
+  const [dashboard, setDashboard] = useState<CostDashboardData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchDashboard = useCallback(async (period: number) => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/admin/costs?days=${period}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch costs')
+      }
+
+      setDashboard(data.dashboard)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDashboard(days)
+  }, [days, fetchDashboard])
+
+  const totals = dashboard?.totals
+
+  return (
+    <>
+      <div className="grid-bg" />
+      <FloatingPixels />
+
+      <div
+        className="fixed top-0 left-0 right-0 z-50 bg-red-600 text-white font-mono text-sm flex items-center justify-center gap-2"
+        style={{ padding: '8px 16px' }}
+      >
+        <ShieldAlert size={16} />
+        ADMIN MODE - Viewing as {adminEmail}
+      </div>
+
+      <main className="relative z-10 min-h-screen" style={{ paddingTop: '56px' }}>
+        <div style={{ maxWidth: '1200px', marginLeft: 'auto', marginRight: 'auto', padding: '32px 24px' }}>
+          <div className="flex items-center justify-between" style={{ marginBottom: '24px' }}>
+            <h1 className="font-mono text-[var(--text)]" style={{ fontSize: '1.25rem' }}>
+              Costs &amp; Margin
+            </h1>
+            <div className="flex items-center" style={{ gap: '8px' }}>
+              {PERIOD_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setDays(option)}
+                  className="font-mono text-xs border border-[var(--border)]"
+                  style={{
+                    padding: '6px 12px',
+                    background: days === option ? 'var(--green)' : 'transparent',
+                    color: days === option ? 'var(--bg)' : 'var(--text-dim)',
+                  }}
+                >
+                  {option}d
+                </button>
+              ))}
+              <button
+                onClick={() => fetchDashboard(days)}
+                disabled={loading}
+                className="text-[var(--text-dim)] hover:text-[var(--text)] transition-colors disabled:opacity-50"
+                style={{ padding: '6px' }}
+                title="Refresh"
+              >
+                <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div
+              className="flex items-center gap-3 bg-red-500/10 border border-red-500/30 text-red-400 font-mono text-sm"
+              style={{ padding: '16px', marginBottom: '24px' }}
+            >
+              <AlertCircle size={20} />
+              {error}
+            </div>
+          )}
+
+          {dashboard?.revenueError && (
+            <div
+              className="flex items-center gap-3 border border-[var(--border)] text-[var(--gold)] font-mono text-sm"
+              style={{ padding: '12px 16px', marginBottom: '24px' }}
+            >
+              <AlertTriangle size={16} />
+              Stripe revenue unavailable ({dashboard.revenueError}) - margins show cost only
+            </div>
+          )}
+
+          {loading && !dashboard && (
+            <div className="flex items-center justify-center" style={{ padding: '80px 24px' }}>
+              <Loader2 size={24} className="animate-spin text-[var(--green)]" />
+            </div>
+          )}
+
+          {dashboard && totals && (
+            <div style={{ display: 'grid', gap: '24px' }}>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '16px' }}>
+                <SummaryCard label="AI cost" value={formatUsd(totals.costCents)} />
+                <SummaryCard label="Revenue" value={formatUsd(totals.revenueCents)} />
+                <SummaryCard
+                  label="Gross margin"
+                  value={`${formatUsd(totals.marginCents)} · ${formatPercent(totals.marginPercent)}`}
+                  tone={totals.marginCents < 0 ? 'bad' : 'good'}
+                />
+                <SummaryCard label="Scans" value={totals.scans.toLocaleString()} />
+                <SummaryCard
+                  label="Cost / scan"
+                  value={formatUsd(totals.scans > 0 ? totals.costCents / totals.scans : null)}
+                />
+              </div>
+
+              <WeeklyChart rows={dashboard.byWeek} />
+
+              <CustomersTable customers={dashboard.customers} />
+
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))', gap: '24px' }}>
+                <BreakdownTable title="Cost by Step" rows={dashboard.byStep} totalCents={totals.costCents} />
+                <BreakdownTable title="Cost by Model" rows={dashboard.byModel} totalCents={totals.costCents} />
+                <BreakdownTable title="Cost by Platform" rows={dashboard.byPlatform} totalCents={totals.costCents} />
+                <BreakdownTable title="Cost by Tier" rows={dashboard.byTier} totalCents={totals.costCents} />
+              </div>
+
+              <PricingEditor />
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  )
+}
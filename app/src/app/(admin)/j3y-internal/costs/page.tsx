@@ -0,0 +1,25 @@
+import { redirect } from 'next/navigation'
+import { getAdminSession } from '@/lib/admin'
+import { CostDashboard } from './CostDashboard'
+
+/**
+ * Secret admin page for AI cost, revenue and margin
+ *
+ * URL: /j3y-internal/costs
+ *
+ * Only accessible by admin users
+ */
+export default async function AdminCostsPage() {
+  const session = await getAdminSession()
+
+  if (!session) {
+    redirect('/login?redirect=/j3y-internal/costs')
+  }
+
+  return <CostDashboard adminEmail={session.email} />
+}
+
+export const metadata = {
+  title: 'Admin Costs & Margin | outrankllm.io',
+  robots: 'noindex, nofollow',
+}
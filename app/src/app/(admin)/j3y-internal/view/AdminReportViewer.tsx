@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import { FloatingPixels } from '@/components/landing/FloatingPixels'
 import { ReportTabs } from '@/components/report/ReportTabs'
+import { BudgetLimitedNotice } from '@/components/report/BudgetLimitedNotice'
 import { AdminOverlay } from './AdminOverlay'
 import {
   Search,
@@ -18,6 +19,11 @@ import {
   ArrowLeft,
 } from 'lucide-react'
 import type { FeatureFlags } from '@/lib/features/flags'
+import type { BudgetLimit } from '@/lib/ai/budgets'
+import type { RenderComparison } from '@/lib/ai/render'
+import type { AiCrawlerAccess } from '@/lib/ai/robots'
+import type { AiDiscoveryAudit } from '@/lib/ai/llms-txt'
+import type { PageSchemaValidation } from '@/lib/ai/schema-validator'
 
 type EnrichmentStatus = 'pending' | 'processing' | 'complete' | 'failed' | 'not_applicable'
 
@@ -36,6 +42,7 @@ interface ReportData {
     expires_at: string | null
     subscriber_only: boolean
     enrichment_status: EnrichmentStatus
+    budget_limits?: BudgetLimit[]
   }
   analysis: {
     business_type: string
@@ -52,6 +59,10 @@ interface ReportData {
     pagesCrawled: number
     schemaTypes: string[]
     hasMetaDescriptions: boolean
+    renderComparison?: RenderComparison | null
+    aiCrawlerAccess?: AiCrawlerAccess[] | null
+    aiDiscovery?: AiDiscoveryAudit | null
+    schemaValidation?: PageSchemaValidation[] | null
   } | null
   responses: {
     platform: string
@@ -567,6 +578,8 @@ export function AdminReportViewer({ adminEmail }: AdminReportViewerProps) {
                 )}
               </div>
 
+              <BudgetLimitedNotice limits={reportData.report.budget_limits || []} />
+
               {/* Report tabs - showing exactly what user sees */}
               <ReportTabs
                 analysis={reportData.analysis}
@@ -38,7 +38,7 @@ export async function PATCH(
     // Verify the action item belongs to this user's plan (include fields for history)
     const { data: item, error: fetchError } = await supabase
       .from('action_items')
-      .select('id, plan_id, title, description, category, action_plans!inner(lead_id, domain_subscription_id)')
+      .select('id, plan_id, title, description, category, target_page, expectations, action_plans!inner(lead_id, domain_subscription_id)')
       .eq('id', id)
       .single()
 
@@ -100,6 +100,8 @@ export async function PATCH(
           title: item.title,
           description: item.description,
           category: item.category,
+          target_page: item.target_page,
+          expectations: item.expectations || [],
         }
 
         const { error: historyError } = await supabase
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { getSession } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getFeatureFlags, getFeatureFlagsForLead } from '@/lib/features/flags'
+import type { ActionExpectation, ExpectationResult, VerificationStatus } from '@/lib/ai/action-expectations'
 
 export interface ActionItem {
   id: string
@@ -20,6 +21,7 @@ export interface ActionItem {
   expected_outcome: string | null
   status: 'pending' | 'in_progress' | 'completed' | 'dismissed'
   completed_at: string | null
+  expectations: ActionExpectation[] | null
   sort_order: number
 }
 
@@ -29,6 +31,9 @@ export interface PageEdit {
   metaDescription: string | null
   h1Change: string
   contentToAdd: string | null
+  expectations?: ActionExpectation[]
+  verificationStatus?: VerificationStatus | null
+  verificationEvidence?: ExpectationResult[] | null
 }
 
 export interface KeywordEntry {
@@ -166,14 +171,14 @@ export async function GET(request: Request) {
     // For multi-domain: Include history matching EITHER the domain_subscription_id
     // OR history with NULL domain_subscription_id for this lead (legacy records before multi-domain)
     // This ensures we don't lose completed task history when transitioning to multi-domain
-    let historyFromTable: { id: string; original_action_id: string | null; title: string; description: string; category: string | null; completed_at: string | null }[] | null = null
+    let historyFromTable: { id: string; original_action_id: string | null; title: string; description: string; category: string | null; completed_at: string | null; verified_at: string | null; verified_change: string | null; verification_status: VerificationStatus | null; verification_evidence: ExpectationResult[] | null }[] | null = null
     let historyError: Error | null = null
 
     if (domainSubscriptionId) {
       // Query for both: matching domain_subscription_id OR legacy NULL records for this lead
       const { data, error } = await supabase
         .from('action_items_history')
-        .select('id, original_action_id, title, description, category, completed_at')
+        .select('id, original_action_id, title, description, category, completed_at, verified_at, verified_change, verification_status, verification_evidence')
         .eq('lead_id', leadId)
         .or(`domain_subscription_id.eq.${domainSubscriptionId},domain_subscription_id.is.null`)
         .order('completed_at', { ascending: false })
@@ -182,7 +187,7 @@ export async function GET(request: Request) {
     } else {
       const { data, error } = await supabase
         .from('action_items_history')
-        .select('id, original_action_id, title, description, category, completed_at')
+        .select('id, original_action_id, title, description, category, completed_at, verified_at, verified_change, verification_status, verification_evidence')
         .eq('lead_id', leadId)
         .order('completed_at', { ascending: false })
       historyFromTable = data
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdminSession } from '@/lib/admin'
+import { getCostDashboard } from '@/lib/cost-dashboard'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+/**
+ * Admin endpoint for the cost & margin dashboard
+ *
+ * GET /api/admin/costs?days=30
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdminSession()
+
+    const requested = Number(request.nextUrl.searchParams.get('days') || DEFAULT_DAYS)
+    const days = Number.isFinite(requested)
+      ? Math.min(MAX_DAYS, Math.max(1, Math.round(requested)))
+      : DEFAULT_DAYS
+
+    const dashboard = await getCostDashboard(days)
+
+    return NextResponse.json({ success: true, dashboard })
+  } catch (error) {
+    console.error('Admin costs fetch error:', error)
+
+    if (error instanceof Error && error.message === 'Admin access required') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
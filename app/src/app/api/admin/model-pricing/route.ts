@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServiceClient } from '@/lib/supabase/server'
+import { requireAdminSession } from '@/lib/admin'
+import { getCurrentPricing, invalidatePricingCache, type ModelPricingRow } from '@/lib/ai/costs'
+
+const ModelPriceSchema = z.object({
+  model: z.string().trim().min(1).max(100),
+  input_per_1k: z.number().min(0),          // USD per 1K input tokens
+  output_per_1k: z.number().min(0),         // USD per 1K output tokens
+  per_request_cents: z.number().min(0).default(0),
+  effective_from: z.string().datetime({ offset: true }).optional(), // Defaults to now
+  note: z.string().max(500).optional(),
+})
+
+/**
+ * Admin endpoint for model pricing
+ *
+ * GET  /api/admin/model-pricing - Current prices (DB over costs.ts defaults) and full history
+ * POST /api/admin/model-pricing - Add a price. Never updates existing rows, so costs
+ *                                 already recorded keep the price they were charged at
+ */
+export async function GET() {
+  try {
+    await requireAdminSession()
+
+    const supabase = createServiceClient()
+    const { data: history, error } = await supabase
+      .from('model_pricing')
+      .select('id, model, input_per_1k, output_per_1k, per_request_cents, effective_from, note, created_by, created_at')
+      .order('model', { ascending: true })
+      .order('effective_from', { ascending: false })
+
+    if (error) {
+      return NextResponse.json(
+        { error: `Failed to load pricing: ${error.message}` },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      current: await getCurrentPricing(),
+      history: (history || []) as ModelPricingRow[],
+    })
+  } catch (error) {
+    return handleError(error, 'Admin model-pricing fetch error:')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdminSession()
+
+    const body = await request.json()
+    const result = ModelPriceSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { model, input_per_1k, output_per_1k, per_request_cents, effective_from, note } = result.data
+
+    const supabase = createServiceClient()
+    const { data: row, error } = await supabase
+      .from('model_pricing')
+      .insert({
+        model,
+        input_per_1k,
+        output_per_1k,
+        per_request_cents,
+        effective_from: effective_from || new Date().toISOString(),
+        note: note || null,
+        created_by: session.email,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json(
+        { error: `Failed to save price: ${error.message}` },
+        { status: error.code === '23505' ? 409 : 500 }
+      )
+    }
+
+    invalidatePricingCache()
+
+    return NextResponse.json({ success: true, price: row as ModelPricingRow })
+  } catch (error) {
+    return handleError(error, 'Admin model-pricing save error:')
+  }
+}
+
+function handleError(error: unknown, logPrefix: string) {
+  console.error(logPrefix, error)
+
+  if (error instanceof Error && error.message === 'Admin access required') {
+    return NextResponse.json(
+      { error: 'Admin access required' },
+      { status: 403 }
+    )
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  )
+}
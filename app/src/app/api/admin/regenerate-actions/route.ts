@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getAdminSession } from '@/lib/admin'
+import { ALL_PLATFORMS } from '@/lib/ai/platforms'
+import type { AiCrawlerAccess } from '@/lib/ai/robots'
 import {
   generateActionPlan,
   type ActionPlanInput,
@@ -106,8 +108,9 @@ export async function POST(request: NextRequest) {
     // Get LLM responses
     const { data: responsesData } = await supabase
       .from('llm_responses')
-      .select('platform, response_text, domain_mentioned, competitors_mentioned, prompt:scan_prompts(prompt_text)')
+      .select('platform, response_text, domain_mentioned, competitors_mentioned, sources, prompt:scan_prompts(prompt_text)')
       .eq('run_id', scanRunId)
+      .eq('sample_index', 0)
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const responses: LLMResponseData[] = (responsesData || []).map((r: any) => ({
@@ -116,6 +119,7 @@ export async function POST(request: NextRequest) {
       responseText: r.response_text || '',
       domainMentioned: r.domain_mentioned || false,
       competitorsMentioned: r.competitors_mentioned || [],
+      sources: r.sources || [],
     }))
 
     // Get brand awareness results
@@ -169,6 +173,7 @@ export async function POST(request: NextRequest) {
       rendersClientSide: analysis.renders_client_side || false,
       likelyAiGenerated: analysis.likely_ai_generated || false,
       aiSignals: analysis.ai_generated_signals || [],
+      aiCrawlerAccess: (analysis.ai_crawler_access as AiCrawlerAccess[] | null) || [],
     } : null
 
     console.log(`[regenerate-actions] Platform data:`, {
@@ -198,7 +203,7 @@ export async function POST(request: NextRequest) {
     const completedActionTitles = (previouslyCompleted || []).map((h: any) => h.title as string)
 
     // Build platform scores
-    const platforms = ['chatgpt', 'claude', 'gemini', 'perplexity']
+    const platforms = ALL_PLATFORMS
     const platformScores: Record<string, { score: number; mentioned: number; total: number }> = {}
     for (const platform of platforms) {
       const platformResponses = responses.filter((r) => r.platform === platform)
@@ -295,6 +300,7 @@ export async function POST(request: NextRequest) {
       consensus: action.consensus,
       implementation_steps: action.implementationSteps,
       expected_outcome: action.expectedOutcome,
+      expectations: action.expectations,
       sort_order: index,
       status: 'pending',
     }))
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
 import { requireAdminSession } from '@/lib/admin'
 import { getFeatureFlagsForLead } from '@/lib/features/flags'
+import type { RenderComparison } from '@/lib/ai/render'
+import type { AiCrawlerAccess } from '@/lib/ai/robots'
+import type { AiDiscoveryAudit } from '@/lib/ai/llms-txt'
+import type { PageSchemaValidation } from '@/lib/ai/schema-validator'
 
 /**
  * Admin endpoint to fetch report data with user information
@@ -36,6 +40,7 @@ export async function GET(request: NextRequest) {
           created_at,
           completed_at,
           enrichment_status,
+          budget_limits,
           domain_subscription_id,
           domain,
           lead:leads(
@@ -130,7 +135,8 @@ export async function GET(request: NextRequest) {
       .from('site_analyses')
       .select(`
         business_type, business_name, services, location, target_audience, key_phrases, industry,
-        pages_crawled, has_sitemap, has_robots_txt, schema_types, has_meta_descriptions
+        pages_crawled, has_sitemap, has_robots_txt, schema_types, has_meta_descriptions,
+        render_comparison, ai_crawler_access, ai_discovery, schema_validation
       `)
       .eq('run_id', runId)
       .single()
@@ -163,9 +169,15 @@ export async function GET(request: NextRequest) {
         platform,
         response_text,
         domain_mentioned,
-        prompt:scan_prompts(prompt_text)
+        mention_evidence,
+        mention_rank,
+        ranked_count,
+        sources,
+        response_translation,
+        prompt:scan_prompts(prompt_text, prompt_translation, template_text, template_values, persona_name)
       `)
       .eq('run_id', runId)
+      .eq('sample_index', 0)
       .order('created_at', { ascending: true })
 
     // Fetch brand awareness
@@ -260,6 +272,7 @@ export async function GET(request: NextRequest) {
         expires_at: report.expires_at,
         subscriber_only: report.subscriber_only ?? false,
         enrichment_status: enrichmentStatus,
+        budget_limits: report.run?.budget_limits || [],
       },
       analysis: analysis ? {
         business_type: analysis.business_type,
@@ -276,6 +289,10 @@ export async function GET(request: NextRequest) {
         pagesCrawled: analysis.pages_crawled ?? 0,
         schemaTypes: analysis.schema_types ?? [],
         hasMetaDescriptions: analysis.has_meta_descriptions ?? false,
+        renderComparison: (analysis.render_comparison as RenderComparison | null) ?? null,
+      aiCrawlerAccess: (analysis.ai_crawler_access as AiCrawlerAccess[] | null) ?? null,
+      aiDiscovery: (analysis.ai_discovery as AiDiscoveryAudit | null) ?? null,
+      schemaValidation: (analysis.schema_validation as PageSchemaValidation[] | null) ?? null,
       } : null,
       responses,
       prompts,
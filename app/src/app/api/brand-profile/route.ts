@@ -0,0 +1,164 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getFeatureFlags } from '@/lib/features/flags'
+import { getSubscriptionById } from '@/lib/subscriptions'
+
+export interface BrandEntityProfileRow {
+  id: string
+  lead_id: string
+  domain_subscription_id: string
+  brand_name: string | null
+  aliases: string[]
+  products: string[]
+  exclusions: string[]
+  created_at: string
+  updated_at: string
+}
+
+const MAX_TERMS_PER_LIST = 25 // Every term is matched against every response
+
+const termList = z
+  .array(z.string().trim().min(1).max(100))
+  .max(MAX_TERMS_PER_LIST)
+  .transform(terms => Array.from(new Set(terms)))
+
+// Validation schema for saving a profile
+const BrandProfileSchema = z.object({
+  domain_subscription_id: z.string().uuid(),
+  brand_name: z.string().trim().max(100).nullable().optional(),
+  aliases: termList,
+  products: termList,
+  exclusions: termList,
+})
+
+/**
+ * GET /api/brand-profile?domain_subscription_id=...
+ * Get the brand entity profile used for mention matching
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await requireSession()
+    const supabase = createServiceClient()
+
+    const { searchParams } = new URL(request.url)
+    const domainSubscriptionId = searchParams.get('domain_subscription_id')
+
+    if (!domainSubscriptionId) {
+      return NextResponse.json(
+        { error: 'domain_subscription_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const subscription = await getSubscriptionById(domainSubscriptionId)
+    if (!subscription || subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    const { data: profile, error } = await supabase
+      .from('brand_entity_profiles')
+      .select('*')
+      .eq('domain_subscription_id', domainSubscriptionId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching brand profile:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch brand profile' },
+        { status: 500 }
+      )
+    }
+
+    const flags = await getFeatureFlags(session.tier)
+
+    return NextResponse.json({
+      profile: profile || null,
+      maxTermsPerList: MAX_TERMS_PER_LIST,
+      canEdit: flags.isSubscriber,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Error in GET /api/brand-profile:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/brand-profile
+ * Create or replace the brand entity profile for a domain subscription
+ * Takes effect from the next scan
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await requireSession()
+    const supabase = createServiceClient()
+
+    const flags = await getFeatureFlags(session.tier)
+
+    if (!flags.isSubscriber) {
+      return NextResponse.json(
+        { error: 'Upgrade to edit your brand profile' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const parsed = BrandProfileSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { domain_subscription_id, brand_name, aliases, products, exclusions } = parsed.data
+
+    const subscription = await getSubscriptionById(domain_subscription_id)
+    if (!subscription || subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    const { data: profile, error } = await supabase
+      .from('brand_entity_profiles')
+      .upsert(
+        {
+          lead_id: session.lead_id,
+          domain_subscription_id,
+          brand_name: brand_name || null,
+          aliases,
+          products,
+          exclusions,
+        },
+        { onConflict: 'domain_subscription_id' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving brand profile:', error)
+      return NextResponse.json(
+        { error: 'Failed to save brand profile' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ profile })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Error in PUT /api/brand-profile:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,10 +2,11 @@ import { NextResponse } from 'next/server'
 import { requireSession } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getFeatureFlags } from '@/lib/features/flags'
+import { parseCompetitorDomain } from '@/lib/ai/competitor-sites'
 
 /**
  * PATCH /api/competitors/[id]
- * Update a competitor (toggle active status)
+ * Update a competitor (toggle active status, set its website)
  */
 export async function PATCH(
   request: Request,
@@ -27,6 +28,14 @@ export async function PATCH(
 
     const body = await request.json()
     const { is_active, domain_subscription_id } = body
+    const domain = body.domain === undefined ? undefined : parseCompetitorDomain(body.domain)
+
+    if (body.domain !== undefined && domain === undefined) {
+      return NextResponse.json(
+        { error: 'Website must be a domain like competitor.com' },
+        { status: 400 }
+      )
+    }
 
     // Verify ownership with domain isolation
     let ownershipQuery = supabase
@@ -53,6 +62,10 @@ export async function PATCH(
       updates.is_active = is_active
     }
 
+    if (domain !== undefined) {
+      updates.domain = domain
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json(
         { error: 'No updates provided' },
@@ -2,11 +2,13 @@ import { NextResponse } from 'next/server'
 import { requireSession } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getFeatureFlags } from '@/lib/features/flags'
+import { parseCompetitorDomain } from '@/lib/ai/competitor-sites'
 
 export interface SubscriberCompetitor {
   id: string
   lead_id: string
   name: string
+  domain: string | null // Website crawled when competitor site scans are on
   source: 'detected' | 'user_added'
   is_active: boolean
   created_at: string
@@ -97,6 +99,14 @@ export async function POST(request: Request) {
 
     const body = await request.json()
     const { name, source = 'user_added', domain_subscription_id } = body
+    const domain = parseCompetitorDomain(body.domain ?? null)
+
+    if (domain === undefined) {
+      return NextResponse.json(
+        { error: 'Website must be a domain like competitor.com' },
+        { status: 400 }
+      )
+    }
 
     // Check current active competitor count (only count active ones toward limit)
     let countQuery = supabase
@@ -152,6 +162,7 @@ export async function POST(request: Request) {
         lead_id: session.lead_id,
         domain_subscription_id: domain_subscription_id || null,
         name: name.trim(),
+        domain,
         source: source === 'detected' ? 'detected' : 'user_added',
       })
       .select()
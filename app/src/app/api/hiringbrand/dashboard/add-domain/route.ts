@@ -7,17 +7,22 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireHBAdmin } from '@/lib/hiringbrand-auth'
 import { canAddPrimaryDomain, addMonitoredDomain } from '@/lib/organization'
 import { inngest } from '@/inngest/client'
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '@/lib/ai/language'
 
 export async function POST(request: NextRequest) {
   try {
     const { session, org } = await requireHBAdmin()
 
-    const { domain, companyName } = await request.json()
+    const { domain, companyName, language } = await request.json()
 
     if (!domain) {
       return NextResponse.json({ error: 'domain is required' }, { status: 400 })
     }
 
+    if (language && !isSupportedLanguage(language)) {
+      return NextResponse.json({ error: 'Unsupported language' }, { status: 400 })
+    }
+
     // Clean domain
     const cleanDomain = domain
       .toLowerCase()
@@ -37,6 +42,7 @@ export async function POST(request: NextRequest) {
     // Add the domain
     const monitoredDomain = await addMonitoredDomain(org.id, cleanDomain, {
       companyName: companyName || undefined,
+      language: language || DEFAULT_LANGUAGE,
       isPrimary: true,
       addedBy: session.lead_id,
     })
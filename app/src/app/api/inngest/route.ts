@@ -3,6 +3,7 @@ import { inngest } from "@/inngest/client"
 import { processScan } from "@/inngest/functions/process-scan"
 import { hourlyScanDispatcher } from "@/inngest/functions/hourly-scan-dispatcher"
 import { enrichSubscriber } from "@/inngest/functions/enrich-subscriber"
+import { scanCompetitorSites } from "@/inngest/functions/scan-competitor-sites"
 import { processHiringBrandScan } from "@/inngest/functions/process-hiringbrand-scan"
 import { hiringBrandWeeklyDispatcher } from "@/inngest/functions/hiringbrand-weekly-dispatcher"
 
@@ -15,5 +16,5 @@ export const maxDuration = 600
 // This route handles all Inngest events and cron triggers
 export const { GET, POST, PUT } = serve({
   client: inngest,
-  functions: [processScan, hourlyScanDispatcher, enrichSubscriber, processHiringBrandScan, hiringBrandWeeklyDispatcher],
+  functions: [processScan, hourlyScanDispatcher, enrichSubscriber, scanCompetitorSites, processHiringBrandScan, hiringBrandWeeklyDispatcher],
 })
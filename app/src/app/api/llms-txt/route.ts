@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getFeatureFlagsForLead } from '@/lib/features/flags'
+import { generateLlmsTxt, type AiDiscoveryAudit, type LlmsTxtPage } from '@/lib/ai/llms-txt'
+
+/**
+ * GET /api/llms-txt?run_id=xxx
+ * Generate a ready-to-publish llms.txt from a scan's crawl and business analysis,
+ * along with what the scan found at /llms.txt
+ *
+ * Same access model as /api/actions: anyone with the run_id can fetch it if the
+ * report owner's tier includes action plans. The next scan re-validates the
+ * published file.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const runId = searchParams.get('run_id')
+
+    if (!runId) {
+      return NextResponse.json(
+        { error: 'run_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: scanRun, error: scanError } = await supabase
+      .from('scan_runs')
+      .select('lead_id, domain')
+      .eq('id', runId)
+      .single()
+
+    if (scanError || !scanRun) {
+      return NextResponse.json(
+        { error: 'Invalid run_id' },
+        { status: 400 }
+      )
+    }
+
+    const flags = await getFeatureFlagsForLead(scanRun.lead_id)
+    if (!flags.showActionPlans) {
+      return NextResponse.json(
+        { error: 'Upgrade to access action plans' },
+        { status: 403 }
+      )
+    }
+
+    const [{ data: analysis }, { data: pages }] = await Promise.all([
+      supabase
+        .from('site_analyses')
+        .select('business_name, business_type, services, products, location, locations, target_audience, industry, ai_discovery')
+        .eq('run_id', runId)
+        .single(),
+      supabase
+        .from('crawled_pages')
+        .select('url, path, title, meta_description, h1')
+        .eq('run_id', runId),
+    ])
+
+    if (!analysis) {
+      return NextResponse.json(
+        { error: 'Site analysis not found' },
+        { status: 404 }
+      )
+    }
+
+    const content = generateLlmsTxt({
+      domain: scanRun.domain,
+      analysis: {
+        businessName: analysis.business_name,
+        businessType: analysis.business_type || 'Business',
+        services: analysis.services || [],
+        products: analysis.products || [],
+        location: analysis.location,
+        locations: analysis.locations || [],
+        targetAudience: analysis.target_audience,
+        industry: analysis.industry,
+      },
+      pages: (pages || []).map((p: { url: string; path: string; title: string | null; meta_description: string | null; h1: string | null }): LlmsTxtPage => ({
+        url: p.url,
+        path: p.path,
+        title: p.title,
+        description: p.meta_description,
+        h1: p.h1,
+      })),
+    })
+
+    const audit = analysis.ai_discovery as AiDiscoveryAudit | null
+
+    return NextResponse.json({
+      content,
+      filename: 'llms.txt',
+      published: audit?.files.find(f => f.kind === 'llms_txt') ?? null,
+      checkedAt: audit?.checkedAt ?? null,
+    })
+  } catch (error) {
+    console.error('llms.txt generation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
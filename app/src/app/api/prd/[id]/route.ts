@@ -44,6 +44,7 @@ export async function PATCH(
         description,
         section,
         category,
+        expectations,
         prd_id,
         prd_documents!inner(lead_id, run_id, domain_subscription_id)
       `)
@@ -105,6 +106,7 @@ export async function PATCH(
           description: task.description,
           section: task.section,
           category: task.category,
+          expectations: task.expectations || [],
           scan_run_id: prdDoc.run_id,
         }
 
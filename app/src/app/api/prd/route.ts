@@ -13,6 +13,9 @@ import {
   type SiteContext,
 } from '@/lib/ai/generate-prd'
 import { type PlatformDataInput } from '@/lib/ai/generate-actions'
+import type { AiCrawlerAccess } from '@/lib/ai/robots'
+import type { PageSchemaValidation } from '@/lib/ai/schema-validator'
+import type { ActionExpectation, ExpectationResult, VerificationStatus } from '@/lib/ai/action-expectations'
 
 export interface PrdTask {
   id: string
@@ -30,6 +33,7 @@ export interface PrdTask {
   sort_order: number
   status: 'pending' | 'completed' | 'dismissed'
   completed_at: string | null
+  expectations: ActionExpectation[] | null
 }
 
 export interface PrdDocument {
@@ -116,14 +120,14 @@ export async function GET(request: Request) {
     // OR history with NULL domain_subscription_id for this lead (legacy records before multi-domain)
     // This ensures we don't lose completed task history when transitioning to multi-domain
     const prdDomainSubId = prd.domain_subscription_id
-    let historyFromTable: { id: string; original_task_id: string | null; title: string; description: string; section: string; category: string | null; completed_at: string | null }[] | null = null
+    let historyFromTable: { id: string; original_task_id: string | null; title: string; description: string; section: string; category: string | null; completed_at: string | null; verified_at: string | null; verification_status: VerificationStatus | null; verification_evidence: ExpectationResult[] | null }[] | null = null
     let historyError: Error | null = null
 
     if (prdDomainSubId) {
       // Query for both: matching domain_subscription_id OR legacy NULL records for this lead
       const { data, error } = await supabase
         .from('prd_tasks_history')
-        .select('id, original_task_id, title, description, section, category, completed_at')
+        .select('id, original_task_id, title, description, section, category, completed_at, verified_at, verification_status, verification_evidence')
         .eq('lead_id', session.lead_id)
         .or(`domain_subscription_id.eq.${prdDomainSubId},domain_subscription_id.is.null`)
         .order('completed_at', { ascending: false })
@@ -133,7 +137,7 @@ export async function GET(request: Request) {
       // Fallback to lead_id for legacy PRDs without domain_subscription_id
       const { data, error } = await supabase
         .from('prd_tasks_history')
-        .select('id, original_task_id, title, description, section, category, completed_at')
+        .select('id, original_task_id, title, description, section, category, completed_at, verified_at, verification_status, verification_evidence')
         .eq('lead_id', session.lead_id)
         .order('completed_at', { ascending: false })
       historyFromTable = data
@@ -305,7 +309,8 @@ export async function POST(request: Request) {
         detected_ecommerce, detected_hosting, detected_analytics, detected_lead_capture,
         has_blog, has_case_studies, has_resources, has_faq, has_about_page, has_team_page,
         has_testimonials, is_ecommerce, has_ai_readability_issues, ai_readability_issues,
-        renders_client_side, likely_ai_generated, ai_generated_signals
+        renders_client_side, likely_ai_generated, ai_generated_signals, ai_crawler_access,
+        schema_validation
       `)
       .eq('run_id', targetRunId)
       .single()
@@ -376,6 +381,7 @@ export async function POST(request: Request) {
         consensus: string[] | null
         implementation_steps: string[] | null
         expected_outcome: string | null
+        expectations: ActionExpectation[] | null
       }) => ({
         id: item.id,
         title: item.title,
@@ -391,6 +397,7 @@ export async function POST(request: Request) {
         consensus: item.consensus,
         implementationSteps: item.implementation_steps,
         expectedOutcome: item.expected_outcome,
+        expectations: item.expectations,
       })),
       pageEdits: actionPlan.page_edits,
       keywordMap: actionPlan.keyword_map,
@@ -421,6 +428,7 @@ export async function POST(request: Request) {
       rendersClientSide: analysis.renders_client_side || false,
       likelyAiGenerated: analysis.likely_ai_generated || false,
       aiSignals: analysis.ai_generated_signals || [],
+      aiCrawlerAccess: (analysis.ai_crawler_access as AiCrawlerAccess[] | null) || [],
     } : null
 
     // Build tech stack from platform detection or use defaults
@@ -440,6 +448,7 @@ export async function POST(request: Request) {
       services: analysis?.services || null,
       platformData,
       visibilityScore: report?.visibility_score || null,
+      schemaValidation: (analysis?.schema_validation as PageSchemaValidation[] | null) ?? null,
     }
 
     // Generate PRD using AI
@@ -501,6 +510,7 @@ export async function POST(request: Request) {
       implementation_notes: task.implementationNotes,
       requires_content: task.requiresContent,
       content_prompts: task.contentPrompts,
+      expectations: task.expectations,
       sort_order: index,
     }))
 
@@ -28,6 +28,7 @@ import {
   type LocationContext,
 } from '@/lib/ai/search-providers'
 import { extractTopCompetitors } from '@/lib/ai/query'
+import { expandSubscriberQuestions, templateValueLists } from '@/lib/ai/question-templates'
 // Brand awareness imports - disabled for free reports, will be used in subscriber pipeline
 // import {
 //   generateBrandAwarenessQueries,
@@ -36,7 +37,7 @@ import { extractTopCompetitors } from '@/lib/ai/query'
 import { sendVerificationEmail, sendScanCompleteEmail } from '@/lib/email/resend'
 import { detectGeography, extractTldCountry, countryToIsoCode } from '@/lib/geo/detect'
 import { log } from '@/lib/logger'
-import { getUserTier } from '@/lib/features/flags'
+import { getUserTier, getFeatureFlags } from '@/lib/features/flags'
 import crypto from 'crypto'
 
 // Allow up to ~13 minutes for processing (Vercel Pro max is 800s)
@@ -177,15 +178,28 @@ export async function POST(request: NextRequest) {
         if (subscriberQuestions && subscriberQuestions.length > 0) {
           log.info(scanId, `Using ${subscriberQuestions.length} subscriber questions (consistent scans)`)
 
-          // Save subscriber questions as scan_prompts for this run
+          // Save subscriber questions as scan_prompts for this run (templates expanded per value)
+          // Expanded prompts count against the tier's question limit
+          const { customQuestionLimit } = await getFeatureFlags(userTier)
+          const { rows: promptRows, skipped } = expandSubscriberQuestions(
+            subscriberQuestions,
+            templateValueLists({ ...analysis, location: finalLocation }),
+            customQuestionLimit
+          )
+          for (const template of skipped) {
+            log.warn(scanId, `Skipped question template with no values for this business: "${template}"`)
+          }
           const { data: insertedPrompts, error: insertError } = await supabase
             .from('scan_prompts')
             .insert(
-              subscriberQuestions.map((q: { id: string; prompt_text: string; category: string }) => ({
+              promptRows.map(row => ({
                 run_id: scanId,
-                prompt_text: q.prompt_text,
-                category: q.category,
+                prompt_text: row.prompt_text,
+                category: row.category,
                 source: 'subscriber',
+                subscriber_question_id: row.subscriber_question_id,
+                template_text: row.template_text,
+                template_values: row.template_values,
               }))
             )
             .select('id, prompt_text, category')
@@ -341,6 +355,10 @@ export async function POST(request: NextRequest) {
         response_text: r.response,
         domain_mentioned: r.domainMentioned,
         mention_position: r.mentionPosition,
+        mention_evidence: r.mentionEvidence ?? null,
+        mention_rank: r.mentionRank ?? null,
+        ranked_count: r.rankedCount ?? null,
+        ranked_entities: r.rankedEntities ?? null,
         competitors_mentioned: r.competitorsMentioned,
         response_time_ms: r.responseTimeMs,
         error_message: r.error,
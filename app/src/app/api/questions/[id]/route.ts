@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { requireSession } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getFeatureFlags } from '@/lib/features/flags'
+import { validateTemplate } from '@/lib/ai/question-templates'
 
 /**
  * GET /api/questions/[id]
@@ -74,7 +75,7 @@ export async function PUT(
     }
 
     const body = await request.json()
-    const { prompt_text, category, is_active, sort_order, domain_subscription_id } = body
+    const { prompt_text, category, is_active, sort_order, persona_id, domain_subscription_id } = body
 
     // Verify ownership with domain isolation
     let ownershipQuery = supabase
@@ -110,6 +111,10 @@ export async function PUT(
           { status: 400 }
         )
       }
+      const templateError = validateTemplate(prompt_text)
+      if (templateError) {
+        return NextResponse.json({ error: templateError }, { status: 400 })
+      }
       updates.prompt_text = prompt_text.trim()
     }
 
@@ -125,6 +130,24 @@ export async function PUT(
       updates.sort_order = sort_order
     }
 
+    // null clears the persona; otherwise it must belong to the question's subscription
+    if (persona_id !== undefined) {
+      if (persona_id !== null) {
+        const { data: persona } = existing.domain_subscription_id
+          ? await supabase
+            .from('buyer_personas')
+            .select('id')
+            .eq('id', persona_id)
+            .eq('domain_subscription_id', existing.domain_subscription_id)
+            .maybeSingle()
+          : { data: null }
+        if (!persona) {
+          return NextResponse.json({ error: 'Persona not found' }, { status: 400 })
+        }
+      }
+      updates.persona_id = persona_id
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json(
         { error: 'No updates provided' },
@@ -0,0 +1,228 @@
+import { NextResponse } from 'next/server'
+import { requireSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { dedupeAndRankQueries, type RawQuerySuggestion, type ResearchedQuery } from '@/lib/ai/query-research'
+import {
+  computeQuestionPerformance,
+  excludeExistingQuestions,
+  findRetireCandidates,
+  normalizeQuestionText,
+  type QuestionPerformance,
+  type QuestionResponseSample,
+} from '@/lib/ai/question-performance'
+
+// Completed scans included in the stats
+const RUN_WINDOW = 12
+
+// Replacement suggestions returned alongside the stats
+const SUGGESTION_LIMIT = 8
+
+const PAGE_SIZE = 1000
+
+interface QuestionRow {
+  id: string
+  prompt_text: string
+  is_archived: boolean
+  created_at: string
+}
+
+/**
+ * GET /api/questions/performance
+ * Per-question stats across recent scans, questions worth retiring and
+ * replacement ideas from earlier query research
+ * Pass domain_subscription_id query param for multi-domain isolation
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await requireSession()
+    const supabase = createServiceClient()
+
+    const { searchParams } = new URL(request.url)
+    const domainSubscriptionId = searchParams.get('domain_subscription_id')
+
+    if (domainSubscriptionId) {
+      const subscription = await getSubscriptionById(domainSubscriptionId)
+      if (!subscription) {
+        return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+      }
+      if (subscription.lead_id !== session.lead_id) {
+        return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+      }
+    }
+
+    // Questions (archived ones too, so retired questions aren't suggested again)
+    let questionsQuery = supabase
+      .from('subscriber_questions')
+      .select('id, prompt_text, is_archived, created_at')
+
+    let runsQuery = supabase
+      .from('scan_runs')
+      .select('id, created_at')
+      .eq('status', 'complete')
+      .order('created_at', { ascending: false })
+      .limit(RUN_WINDOW)
+
+    if (domainSubscriptionId) {
+      questionsQuery = questionsQuery.eq('domain_subscription_id', domainSubscriptionId)
+      runsQuery = runsQuery.eq('domain_subscription_id', domainSubscriptionId)
+    } else {
+      // Legacy fallback
+      questionsQuery = questionsQuery.eq('lead_id', session.lead_id)
+      runsQuery = runsQuery.eq('lead_id', session.lead_id)
+    }
+
+    const [{ data: questionRows, error: questionsError }, { data: runs }] = await Promise.all([
+      questionsQuery,
+      runsQuery,
+    ])
+
+    if (questionsError) {
+      console.error('Error fetching questions for performance:', questionsError)
+      return NextResponse.json({ error: 'Failed to fetch questions' }, { status: 500 })
+    }
+
+    const allQuestions = (questionRows || []) as QuestionRow[]
+    const questions = allQuestions.filter(q => !q.is_archived)
+    const runList = (runs || []) as { id: string; created_at: string }[]
+
+    if (questions.length === 0 || runList.length === 0) {
+      return NextResponse.json({ performance: [], retireCandidates: [], suggestions: [], runsAnalyzed: runList.length })
+    }
+
+    const runIds = runList.map(r => r.id)
+    const runDates = new Map(runList.map(r => [r.id, r.created_at]))
+
+    // 12 scans easily pass the 1000-row limit, so prompts and responses are paged
+    const [prompts, { data: history }, responses] = await Promise.all([
+      selectAllPages((from, to) =>
+        supabase
+          .from('scan_prompts')
+          .select('id, run_id, prompt_text, subscriber_question_id')
+          .in('run_id', runIds)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      supabase
+        .from('question_history')
+        .select('question_id, prompt_text, created_at')
+        .in('question_id', questions.map(q => q.id)),
+      selectAllPages((from, to) =>
+        supabase
+          .from('llm_responses')
+          .select('run_id, prompt_id, platform, domain_mentioned, competitors_mentioned')
+          .in('run_id', runIds)
+          .is('error_message', null)
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+    ])
+
+    // Prompts from before scan_prompts were linked are matched on current or past wording.
+    // A history row is written each time the text is edited, so the latest one is the last change
+    const questionByText = new Map<string, string>()
+    const lastEdited = new Map<string, string>()
+    for (const row of (history || []) as { question_id: string; prompt_text: string; created_at: string }[]) {
+      questionByText.set(normalizeQuestionText(row.prompt_text), row.question_id)
+      const previous = lastEdited.get(row.question_id)
+      if (!previous || row.created_at > previous) lastEdited.set(row.question_id, row.created_at)
+    }
+    for (const q of questions) {
+      questionByText.set(normalizeQuestionText(q.prompt_text), q.id)
+    }
+
+    const questionByPrompt = new Map<string, string>()
+    for (const prompt of prompts as { id: string; prompt_text: string; subscriber_question_id: string | null }[]) {
+      const questionId = prompt.subscriber_question_id || questionByText.get(normalizeQuestionText(prompt.prompt_text))
+      if (questionId) questionByPrompt.set(prompt.id, questionId)
+    }
+
+    const samplesByQuestion = new Map<string, QuestionResponseSample[]>()
+    for (const response of responses as {
+      run_id: string
+      prompt_id: string
+      platform: QuestionResponseSample['platform']
+      domain_mentioned: boolean | null
+      competitors_mentioned: { name: string }[] | null
+    }[]) {
+      const questionId = questionByPrompt.get(response.prompt_id)
+      if (!questionId) continue
+
+      const list = samplesByQuestion.get(questionId) || []
+      list.push({
+        runId: response.run_id,
+        runDate: runDates.get(response.run_id) || '',
+        platform: response.platform,
+        mentioned: response.domain_mentioned || false,
+        competitors: (response.competitors_mentioned || []).map(c => c.name).filter(Boolean),
+      })
+      samplesByQuestion.set(questionId, list)
+    }
+
+    const performance: QuestionPerformance[] = questions.map(q =>
+      computeQuestionPerformance(
+        { id: q.id, promptText: q.prompt_text, lastChangedAt: lastEdited.get(q.id) || q.created_at },
+        samplesByQuestion.get(q.id) || []
+      )
+    )
+
+    const retireCandidates = findRetireCandidates(performance).map(p => p.questionId)
+
+    // Replacement ideas from query research already stored for these scans
+    let suggestions: ResearchedQuery[] = []
+    if (retireCandidates.length > 0) {
+      const [{ data: research }, { data: latestAnalysis }] = await Promise.all([
+        supabase
+          .from('query_research_results')
+          .select('platform, suggested_query, category')
+          .in('run_id', runIds),
+        supabase
+          .from('site_analyses')
+          .select('key_phrases')
+          .eq('run_id', runIds[0])
+          .maybeSingle(),
+      ])
+
+      const raw: RawQuerySuggestion[] = ((research || []) as {
+        platform: RawQuerySuggestion['platform']
+        suggested_query: string
+        category: RawQuerySuggestion['category']
+      }[]).map(r => ({ query: r.suggested_query, category: r.category, platform: r.platform }))
+
+      const ranked = dedupeAndRankQueries(raw, raw.length, latestAnalysis?.key_phrases || [])
+      suggestions = excludeExistingQuestions(ranked, allQuestions.map(q => q.prompt_text)).slice(0, SUGGESTION_LIMIT)
+    }
+
+    return NextResponse.json({
+      performance,
+      retireCandidates,
+      suggestions,
+      runsAnalyzed: runList.length,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Error in GET /api/questions/performance:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Every row of a query, fetched PAGE_SIZE rows at a time
+ */
+async function selectAllPages(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<unknown[]> {
+  const rows: unknown[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load question performance rows: ${error.message}`)
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
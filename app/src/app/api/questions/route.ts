@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { requireSession } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getFeatureFlags } from '@/lib/features/flags'
+import { validateTemplate } from '@/lib/ai/question-templates'
 
 export interface SubscriberQuestion {
   id: string
@@ -16,6 +17,7 @@ export interface SubscriberQuestion {
   updated_at: string
   original_prompt_id: string | null
   source_run_id: string | null
+  persona_id: string | null
 }
 
 /**
@@ -98,7 +100,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { prompt_text, category = 'custom', domain_subscription_id } = body
+    const { prompt_text, category = 'custom', domain_subscription_id, persona_id } = body
 
     // Check current question count
     let countQuery = supabase
@@ -147,6 +149,26 @@ export async function POST(request: Request) {
       )
     }
 
+    const templateError = validateTemplate(prompt_text)
+    if (templateError) {
+      return NextResponse.json({ error: templateError }, { status: 400 })
+    }
+
+    // Personas belong to a domain subscription
+    if (persona_id) {
+      const { data: persona } = domain_subscription_id
+        ? await supabase
+          .from('buyer_personas')
+          .select('id')
+          .eq('id', persona_id)
+          .eq('domain_subscription_id', domain_subscription_id)
+          .maybeSingle()
+        : { data: null }
+      if (!persona) {
+        return NextResponse.json({ error: 'Persona not found' }, { status: 400 })
+      }
+    }
+
     // Get the highest sort_order for this domain subscription or lead
     let sortQuery = supabase
       .from('subscriber_questions')
@@ -175,6 +197,7 @@ export async function POST(request: Request) {
         category,
         source: 'user_created',
         sort_order: nextSortOrder,
+        persona_id: persona_id || null,
       })
       .select()
       .single()
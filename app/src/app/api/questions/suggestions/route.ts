@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server'
+import { requireSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getFeatureFlags } from '@/lib/features/flags'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { getBudgetStatus, STEP_COST_ESTIMATES_CENTS } from '@/lib/ai/budgets'
+import { researchQueries, dedupeAndRankQueries } from '@/lib/ai/query-research'
+import { excludeExistingQuestions } from '@/lib/ai/question-performance'
+import type { BusinessAnalysis } from '@/lib/ai/analyze'
+
+// Replacement suggestions returned per request
+const SUGGESTION_LIMIT = 8
+
+/**
+ * POST /api/questions/suggestions
+ * Research fresh questions to replace ones that aren't performing, using the
+ * business analysis from the latest scan. Cost is tracked against that scan
+ * Body: { domain_subscription_id? }
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession()
+    const supabase = createServiceClient()
+
+    const body = await request.json().catch(() => ({}))
+    const domainSubscriptionId: string | null = body.domain_subscription_id || null
+
+    // Research is paid for from the subscription's budget - it must be the caller's
+    let tier = session.tier
+    if (domainSubscriptionId) {
+      const subscription = await getSubscriptionById(domainSubscriptionId)
+      if (!subscription) {
+        return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+      }
+      if (subscription.lead_id !== session.lead_id) {
+        return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+      }
+      tier = subscription.tier
+    }
+
+    const flags = await getFeatureFlags(tier)
+    if (!flags.editablePrompts) {
+      return NextResponse.json(
+        { error: 'Upgrade to add custom questions' },
+        { status: 403 }
+      )
+    }
+
+    let runQuery = supabase
+      .from('scan_runs')
+      .select('id')
+      .eq('status', 'complete')
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    let questionsQuery = supabase
+      .from('subscriber_questions')
+      .select('prompt_text')
+
+    if (domainSubscriptionId) {
+      runQuery = runQuery.eq('domain_subscription_id', domainSubscriptionId)
+      questionsQuery = questionsQuery.eq('domain_subscription_id', domainSubscriptionId)
+    } else {
+      // Legacy fallback
+      runQuery = runQuery.eq('lead_id', session.lead_id)
+      questionsQuery = questionsQuery.eq('lead_id', session.lead_id)
+    }
+
+    const { data: latestRun } = await runQuery.maybeSingle()
+    if (!latestRun) {
+      return NextResponse.json({ error: 'Run a scan before researching new questions' }, { status: 400 })
+    }
+
+    const { data: analysisRow } = await supabase
+      .from('site_analyses')
+      .select('business_name, business_type, services, products, location, locations, target_audience, key_phrases, industry')
+      .eq('run_id', latestRun.id)
+      .maybeSingle()
+
+    if (!analysisRow) {
+      return NextResponse.json({ error: 'Site analysis not found for your latest scan' }, { status: 404 })
+    }
+
+    // Monthly headroom decides - the latest scan's own run budget is usually spent
+    const budget = await getBudgetStatus({ runId: latestRun.id, domainSubscriptionId })
+    const remainingCents = budget.monthBudgetCents === null
+      ? budget.remainingCents
+      : budget.monthBudgetCents - budget.monthSpentCents
+    if (remainingCents < STEP_COST_ESTIMATES_CENTS.questionResearch) {
+      return NextResponse.json(
+        { error: 'AI budget for this month is used up. Try again next month.' },
+        { status: 429 }
+      )
+    }
+
+    const analysis: BusinessAnalysis = {
+      businessName: analysisRow.business_name,
+      businessType: analysisRow.business_type || 'business',
+      services: analysisRow.services || [],
+      products: analysisRow.products || [],
+      location: analysisRow.location,
+      locations: analysisRow.locations || [],
+      targetAudience: analysisRow.target_audience,
+      keyPhrases: analysisRow.key_phrases || [],
+      industry: analysisRow.industry || '',
+    }
+
+    // Suggestions come back in the language the domain is scanned in
+    let language: string | undefined
+    if (domainSubscriptionId) {
+      const { data: subscription } = await supabase
+        .from('domain_subscriptions')
+        .select('language')
+        .eq('id', domainSubscriptionId)
+        .maybeSingle()
+      language = subscription?.language || undefined
+    }
+
+    const raw = await researchQueries(analysis, latestRun.id, undefined, analysis.keyPhrases, language)
+
+    // Keep the research with the scan so later performance checks can reuse it
+    if (raw.length > 0) {
+      const { error: insertError } = await supabase.from('query_research_results').insert(
+        raw.map(q => ({
+          run_id: latestRun.id,
+          platform: q.platform,
+          suggested_query: q.query,
+          category: q.category,
+          selected_for_scan: false,
+        }))
+      )
+      if (insertError) {
+        console.error('Error saving question research:', insertError)
+      }
+    }
+
+    const { data: existing } = await questionsQuery
+    const ranked = dedupeAndRankQueries(raw, raw.length, analysis.keyPhrases)
+    const suggestions = excludeExistingQuestions(
+      ranked,
+      ((existing || []) as { prompt_text: string }[]).map(q => q.prompt_text)
+    ).slice(0, SUGGESTION_LIMIT)
+
+    return NextResponse.json({ suggestions })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Error in POST /api/questions/suggestions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
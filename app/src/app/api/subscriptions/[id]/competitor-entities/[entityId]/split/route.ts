@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { CompetitorEntity } from '@/lib/ai/competitor-entities'
+
+interface RouteParams {
+  params: Promise<{ id: string; entityId: string }>
+}
+
+// Validation schema for splitting an alias off into its own competitor
+const SplitSchema = z.object({
+  alias: z.string().trim().min(1).max(200),
+})
+
+/**
+ * POST /api/subscriptions/[id]/competitor-entities/[entityId]/split
+ * Split an alias off into its own competitor. Entity names resolve before any
+ * fuzzy match, so later scans keep the name on the new competitor rather than
+ * merging it back
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, entityId } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const result = SplitSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceClient()
+    const { data: row } = await supabase
+      .from('competitor_entities')
+      .select('*')
+      .eq('id', entityId)
+      .eq('domain_subscription_id', id)
+      .maybeSingle()
+
+    if (!row) {
+      return NextResponse.json({ error: 'Competitor not found' }, { status: 404 })
+    }
+
+    const entity = row as CompetitorEntity
+    const alias = entity.aliases.find(a => a.toLowerCase() === result.data.alias.toLowerCase())
+
+    if (!alias) {
+      return NextResponse.json({ error: 'Alias not found on this competitor' }, { status: 404 })
+    }
+
+    const { error: updateError } = await supabase
+      .from('competitor_entities')
+      .update({ aliases: entity.aliases.filter(a => a !== alias) })
+      .eq('id', entityId)
+
+    if (updateError) {
+      console.error('Error splitting competitor:', updateError)
+      return NextResponse.json({ error: 'Failed to split competitor' }, { status: 500 })
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('competitor_entities')
+      .insert({ domain_subscription_id: id, name: alias, aliases: [] })
+      .select()
+      .single()
+
+    if (insertError) {
+      console.error('Error creating split competitor:', insertError)
+      return NextResponse.json({ error: 'Failed to split competitor' }, { status: 500 })
+    }
+
+    return NextResponse.json({ entity: created })
+  } catch (error) {
+    console.error('Error splitting competitor:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
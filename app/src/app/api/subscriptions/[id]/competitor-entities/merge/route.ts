@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { CompetitorEntity } from '@/lib/ai/competitor-entities'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// Validation schema for merging competitors into one
+const MergeSchema = z.object({
+  target_id: z.string().uuid(),
+  source_ids: z.array(z.string().uuid()).min(1).max(20),
+})
+
+/**
+ * POST /api/subscriptions/[id]/competitor-entities/merge
+ * Merge competitors into the target: their names and aliases become the
+ * target's aliases. Reports regroup past scans under the target
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const result = MergeSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { target_id, source_ids } = result.data
+    const sourceIds = source_ids.filter(sourceId => sourceId !== target_id)
+
+    if (sourceIds.length === 0) {
+      return NextResponse.json({ error: 'Choose at least one other competitor to merge' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: rows } = await supabase
+      .from('competitor_entities')
+      .select('*')
+      .eq('domain_subscription_id', id)
+      .in('id', [target_id, ...sourceIds])
+
+    const entities = (rows || []) as CompetitorEntity[]
+    const target = entities.find(e => e.id === target_id)
+    const sources = entities.filter(e => e.id !== target_id)
+
+    if (!target || sources.length !== sourceIds.length) {
+      return NextResponse.json({ error: 'Competitor not found' }, { status: 404 })
+    }
+
+    const targetName = target.name.toLowerCase()
+    const aliases = Array.from(new Map(
+      [...target.aliases, ...sources.flatMap(s => [s.name, ...s.aliases])]
+        .filter(alias => alias.toLowerCase() !== targetName)
+        .map(alias => [alias.toLowerCase(), alias])
+    ).values())
+
+    const { data: entity, error: updateError } = await supabase
+      .from('competitor_entities')
+      .update({
+        aliases,
+        domain: target.domain || sources.find(s => s.domain)?.domain || null,
+      })
+      .eq('id', target_id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error merging competitors:', updateError)
+      return NextResponse.json({ error: 'Failed to merge competitors' }, { status: 500 })
+    }
+
+    const { error: deleteError } = await supabase
+      .from('competitor_entities')
+      .delete()
+      .eq('domain_subscription_id', id)
+      .in('id', sourceIds)
+
+    if (deleteError) {
+      console.error('Error removing merged competitors:', deleteError)
+      return NextResponse.json({ error: 'Failed to merge competitors' }, { status: 500 })
+    }
+
+    return NextResponse.json({ entity })
+  } catch (error) {
+    console.error('Error merging competitors:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
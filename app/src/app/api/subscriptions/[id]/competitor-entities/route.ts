@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { createServiceClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/subscriptions/[id]/competitor-entities
+ * List the subscription's canonical competitors with their aliases
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: entities, error } = await supabase
+      .from('competitor_entities')
+      .select('*')
+      .eq('domain_subscription_id', id)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching competitor entities:', error)
+      return NextResponse.json({ error: 'Failed to fetch competitors' }, { status: 500 })
+    }
+
+    return NextResponse.json({ entities: entities || [] })
+  } catch (error) {
+    console.error('Error fetching competitor entities:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { getSubscriptionById, updateDomainSubscription } from '@/lib/subscriptions'
+import { getFeatureFlags } from '@/lib/features/flags'
+import {
+  toCrawlScope,
+  validateScopePattern,
+  MAX_SCOPE_PATTERNS,
+  MAX_PRIORITY_URLS,
+} from '@/lib/ai/crawl-scope'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const scopePatterns = z
+  .array(
+    z.string().trim().min(1).max(200).superRefine((pattern, ctx) => {
+      const problem = validateScopePattern(pattern)
+      if (problem) ctx.addIssue({ code: 'custom', message: `${pattern}: ${problem}` })
+    })
+  )
+  .max(MAX_SCOPE_PATTERNS)
+  .transform(patterns => Array.from(new Set(patterns)))
+
+// Validation schema for saving crawl settings
+const CrawlScopeSchema = z.object({
+  include_patterns: scopePatterns,
+  exclude_patterns: scopePatterns,
+  priority_urls: z
+    .array(z.string().trim().min(1).max(500).refine(
+      url => url.startsWith('/') || /^https?:\/\//i.test(url),
+      'Priority URLs must be a path ("/services") or a full URL'
+    ))
+    .max(MAX_PRIORITY_URLS)
+    .transform(urls => Array.from(new Set(urls))),
+  // null uses the tier limit
+  max_pages: z.number().int().min(1).nullable(),
+  include_subdomains: z.boolean(),
+  locale: z.string().trim().regex(/^[a-z]{2}(?:[-_][a-z]{2})?$/i, 'Locale must look like "en" or "en-au"').nullable(),
+})
+
+/**
+ * GET /api/subscriptions/[id]/crawl-scope
+ * Get crawl settings and the tier's page limit
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const flags = await getFeatureFlags(subscription.tier)
+
+    return NextResponse.json({
+      scope: toCrawlScope(subscription),
+      maxPagesLimit: flags.maxCrawlPages,
+    })
+  } catch (error) {
+    console.error('Error fetching crawl scope:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/subscriptions/[id]/crawl-scope
+ * Replace crawl settings. Takes effect from the next scan
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    // Only active subscriptions can be updated
+    if (subscription.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Only active subscriptions can be updated' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const result = CrawlScopeSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { include_patterns, exclude_patterns, priority_urls, max_pages, include_subdomains, locale } = result.data
+
+    const flags = await getFeatureFlags(subscription.tier)
+    if (max_pages !== null && max_pages > flags.maxCrawlPages) {
+      return NextResponse.json(
+        { error: `Your plan crawls up to ${flags.maxCrawlPages} pages per scan` },
+        { status: 400 }
+      )
+    }
+
+    const updated = await updateDomainSubscription(id, {
+      crawl_include_patterns: include_patterns,
+      crawl_exclude_patterns: exclude_patterns,
+      crawl_priority_urls: priority_urls,
+      crawl_max_pages: max_pages,
+      crawl_include_subdomains: include_subdomains,
+      crawl_locale: locale ? locale.toLowerCase().replace('_', '-') : null,
+    })
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Failed to update crawl settings' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      scope: toCrawlScope(updated),
+      maxPagesLimit: flags.maxCrawlPages,
+    })
+  } catch (error) {
+    console.error('Error updating crawl scope:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { createServiceClient } from '@/lib/supabase/server'
+import { MAX_FACT_SHEET_SERVICES, MAX_FACT_SHEET_PEOPLE } from '@/lib/ai/fact-sheet'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const optionalText = (max: number) => z
+  .string()
+  .trim()
+  .max(max)
+  .nullable()
+  .transform(value => value || null)
+
+// Validation schema for saving the fact sheet
+const FactSheetSchema = z.object({
+  business_name: optionalText(200),
+  address: optionalText(500),
+  founded_year: z.number().int().min(1800).max(new Date().getFullYear()).nullable(),
+  services: z
+    .array(z.string().trim().min(1).max(200))
+    .max(MAX_FACT_SHEET_SERVICES)
+    .transform(services => Array.from(new Set(services))),
+  pricing: optionalText(1000),
+  people: z
+    .array(z.object({
+      name: z.string().trim().min(1).max(200),
+      role: z.string().trim().min(1).max(200),
+    }))
+    .max(MAX_FACT_SHEET_PEOPLE),
+  notes: optionalText(2000),
+})
+
+/**
+ * GET /api/subscriptions/[id]/fact-sheet
+ * Get the brand fact sheet AI answers are checked against (null until the first enrichment)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: factSheet, error } = await supabase
+      .from('brand_fact_sheets')
+      .select('*')
+      .eq('domain_subscription_id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching fact sheet:', error)
+      return NextResponse.json({ error: 'Failed to fetch fact sheet' }, { status: 500 })
+    }
+
+    return NextResponse.json({ factSheet })
+  } catch (error) {
+    console.error('Error fetching fact sheet:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/subscriptions/[id]/fact-sheet
+ * Replace the fact sheet. Edited sheets are kept as-is by later scans
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    // Only active subscriptions can be updated
+    if (subscription.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Only active subscriptions can be updated' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const result = FactSheetSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceClient()
+    const { data: factSheet, error } = await supabase
+      .from('brand_fact_sheets')
+      .upsert(
+        { domain_subscription_id: id, ...result.data, edited_by_user: true },
+        { onConflict: 'domain_subscription_id' }
+      )
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Error saving fact sheet:', error)
+      return NextResponse.json({ error: 'Failed to save fact sheet' }, { status: 500 })
+    }
+
+    return NextResponse.json({ factSheet })
+  } catch (error) {
+    console.error('Error saving fact sheet:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/subscriptions/[id]/fact-sheet
+ * Discard edits - the next scan rebuilds the sheet from the crawl
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: factSheet, error } = await supabase
+      .from('brand_fact_sheets')
+      .update({ edited_by_user: false })
+      .eq('domain_subscription_id', id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error resetting fact sheet:', error)
+      return NextResponse.json({ error: 'Failed to reset fact sheet' }, { status: 500 })
+    }
+
+    return NextResponse.json({ factSheet })
+  } catch (error) {
+    console.error('Error resetting fact sheet:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getFeatureFlags } from '@/lib/features/flags'
+import { getBudgetStatus, STEP_COST_ESTIMATES_CENTS } from '@/lib/ai/budgets'
+import { researchQueries, dedupeAndRankQueries } from '@/lib/ai/query-research'
+import { excludeExistingQuestions } from '@/lib/ai/question-performance'
+import { PERSONA_QUESTION_COUNT, type BuyerPersona } from '@/lib/ai/personas'
+import type { BusinessAnalysis } from '@/lib/ai/analyze'
+
+interface RouteParams {
+  params: Promise<{ id: string; personaId: string }>
+}
+
+/**
+ * POST /api/subscriptions/[id]/personas/[personaId]/questions
+ * Research questions from the persona's viewpoint, using the business analysis
+ * from the latest scan, and add them as subscriber questions tagged with the
+ * persona. Asked from the next scan. Cost is tracked against the latest scan
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, personaId } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const flags = await getFeatureFlags(subscription.tier)
+    if (!flags.editablePrompts) {
+      return NextResponse.json(
+        { error: 'Upgrade to add custom questions' },
+        { status: 403 }
+      )
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: persona } = await supabase
+      .from('buyer_personas')
+      .select('*')
+      .eq('id', personaId)
+      .eq('domain_subscription_id', id)
+      .maybeSingle()
+
+    if (!persona) {
+      return NextResponse.json({ error: 'Persona not found' }, { status: 404 })
+    }
+
+    const { data: existingQuestions } = await supabase
+      .from('subscriber_questions')
+      .select('prompt_text, sort_order, is_archived')
+      .eq('domain_subscription_id', id)
+
+    const existing = (existingQuestions || []) as { prompt_text: string; sort_order: number; is_archived: boolean }[]
+    const activeCount = existing.filter(q => !q.is_archived).length
+    const room = Math.min(PERSONA_QUESTION_COUNT, flags.customQuestionLimit - activeCount)
+
+    if (room <= 0) {
+      return NextResponse.json(
+        {
+          error: `Question limit reached (${flags.customQuestionLimit} max)`,
+          limit: flags.customQuestionLimit,
+          current: activeCount,
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: latestRun } = await supabase
+      .from('scan_runs')
+      .select('id')
+      .eq('domain_subscription_id', id)
+      .eq('status', 'complete')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!latestRun) {
+      return NextResponse.json({ error: 'Run a scan before researching new questions' }, { status: 400 })
+    }
+
+    const { data: analysisRow } = await supabase
+      .from('site_analyses')
+      .select('business_name, business_type, services, products, location, locations, target_audience, key_phrases, industry')
+      .eq('run_id', latestRun.id)
+      .maybeSingle()
+
+    if (!analysisRow) {
+      return NextResponse.json({ error: 'Site analysis not found for your latest scan' }, { status: 404 })
+    }
+
+    // Monthly headroom decides - the latest scan's own run budget is usually spent
+    const budget = await getBudgetStatus({ runId: latestRun.id, domainSubscriptionId: id })
+    const remainingCents = budget.monthBudgetCents === null
+      ? budget.remainingCents
+      : budget.monthBudgetCents - budget.monthSpentCents
+    if (remainingCents < STEP_COST_ESTIMATES_CENTS.questionResearch) {
+      return NextResponse.json(
+        { error: 'AI budget for this month is used up. Try again next month.' },
+        { status: 429 }
+      )
+    }
+
+    const analysis: BusinessAnalysis = {
+      businessName: analysisRow.business_name,
+      businessType: analysisRow.business_type || 'business',
+      services: analysisRow.services || [],
+      products: analysisRow.products || [],
+      location: analysisRow.location,
+      locations: analysisRow.locations || [],
+      targetAudience: analysisRow.target_audience,
+      keyPhrases: analysisRow.key_phrases || [],
+      industry: analysisRow.industry || '',
+    }
+
+    const raw = await researchQueries(
+      analysis,
+      latestRun.id,
+      undefined,
+      analysis.keyPhrases,
+      subscription.language,
+      persona as BuyerPersona
+    )
+
+    const ranked = dedupeAndRankQueries(raw, raw.length, analysis.keyPhrases)
+    const picked = excludeExistingQuestions(ranked, existing.map(q => q.prompt_text)).slice(0, room)
+
+    if (picked.length === 0) {
+      return NextResponse.json(
+        { error: 'No new questions found for this persona - try adding pain points' },
+        { status: 422 }
+      )
+    }
+
+    const nextSortOrder = Math.max(0, ...existing.map(q => q.sort_order || 0)) + 1
+
+    const { data: questions, error: insertError } = await supabase
+      .from('subscriber_questions')
+      .insert(
+        picked.map((q, index) => ({
+          lead_id: session.lead_id,
+          domain_subscription_id: id,
+          prompt_text: q.query,
+          category: q.category,
+          source: 'ai_generated',
+          sort_order: nextSortOrder + index,
+          source_run_id: latestRun.id,
+          persona_id: personaId,
+        }))
+      )
+      .select()
+
+    if (insertError) {
+      console.error('Error saving persona questions:', insertError)
+      return NextResponse.json({ error: 'Failed to save questions' }, { status: 500 })
+    }
+
+    return NextResponse.json({ questions: questions || [] })
+  } catch (error) {
+    console.error('Error generating persona questions:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
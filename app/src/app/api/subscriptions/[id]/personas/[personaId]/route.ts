@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { createServiceClient } from '@/lib/supabase/server'
+import { MAX_PAIN_POINTS } from '@/lib/ai/personas'
+
+interface RouteParams {
+  params: Promise<{ id: string; personaId: string }>
+}
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().transform(value => value || null)
+
+// Validation schema for editing a persona - only provided fields change
+const PersonaUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Persona name is required').max(80).optional(),
+  role: optionalText(200).optional(),
+  budget: optionalText(80).optional(),
+  company_size: optionalText(80).optional(),
+  pain_points: z
+    .array(z.string().trim().min(1).max(200))
+    .max(MAX_PAIN_POINTS)
+    .transform(points => Array.from(new Set(points)))
+    .optional(),
+})
+
+/**
+ * PATCH /api/subscriptions/[id]/personas/[personaId]
+ * Edit a persona. Past reports keep the name it had when they were scanned
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, personaId } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const result = PersonaUpdateSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    if (Object.keys(result.data).length === 0) {
+      return NextResponse.json({ error: 'No updates provided' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: persona, error } = await supabase
+      .from('buyer_personas')
+      .update(result.data)
+      .eq('id', personaId)
+      .eq('domain_subscription_id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating persona:', error)
+      return NextResponse.json({ error: 'Failed to update persona' }, { status: 500 })
+    }
+
+    if (!persona) {
+      return NextResponse.json({ error: 'Persona not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ persona })
+  } catch (error) {
+    console.error('Error updating persona:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/subscriptions/[id]/personas/[personaId]
+ * Remove a persona. Its questions stay, as general questions
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, personaId } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('buyer_personas')
+      .delete()
+      .eq('id', personaId)
+      .eq('domain_subscription_id', id)
+
+    if (error) {
+      console.error('Error deleting persona:', error)
+      return NextResponse.json({ error: 'Failed to delete persona' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting persona:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
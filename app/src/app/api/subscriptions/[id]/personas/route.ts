@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSession } from '@/lib/auth'
+import { getSubscriptionById } from '@/lib/subscriptions'
+import { createServiceClient } from '@/lib/supabase/server'
+import { MAX_PERSONAS, MAX_PAIN_POINTS } from '@/lib/ai/personas'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().transform(value => value || null)
+
+// Validation schema for creating a persona
+const PersonaSchema = z.object({
+  name: z.string().trim().min(1, 'Persona name is required').max(80),
+  role: optionalText(200),
+  budget: optionalText(80),
+  company_size: optionalText(80),
+  pain_points: z
+    .array(z.string().trim().min(1).max(200))
+    .max(MAX_PAIN_POINTS)
+    .transform(points => Array.from(new Set(points))),
+})
+
+/**
+ * GET /api/subscriptions/[id]/personas
+ * List the subscription's buyer personas
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: personas, error } = await supabase
+      .from('buyer_personas')
+      .select('*')
+      .eq('domain_subscription_id', id)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching personas:', error)
+      return NextResponse.json({ error: 'Failed to fetch personas' }, { status: 500 })
+    }
+
+    return NextResponse.json({ personas: personas || [], maxPersonas: MAX_PERSONAS })
+  } catch (error) {
+    console.error('Error fetching personas:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/subscriptions/[id]/personas
+ * Add a buyer persona. Its questions are generated separately
+ * (POST /api/subscriptions/[id]/personas/[personaId]/questions)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const subscription = await getSubscriptionById(id)
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+
+    // Verify ownership
+    if (subscription.lead_id !== session.lead_id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    // Only active subscriptions can be updated
+    if (subscription.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Only active subscriptions can be updated' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const result = PersonaSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServiceClient()
+    const { data: existing } = await supabase
+      .from('buyer_personas')
+      .select('sort_order')
+      .eq('domain_subscription_id', id)
+      .order('sort_order', { ascending: false })
+
+    if ((existing?.length || 0) >= MAX_PERSONAS) {
+      return NextResponse.json(
+        { error: `Persona limit reached (${MAX_PERSONAS} max)` },
+        { status: 403 }
+      )
+    }
+
+    const { data: persona, error } = await supabase
+      .from('buyer_personas')
+      .insert({
+        domain_subscription_id: id,
+        ...result.data,
+        sort_order: (existing?.[0]?.sort_order || 0) + 1,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating persona:', error)
+      return NextResponse.json({ error: 'Failed to create persona' }, { status: 500 })
+    }
+
+    return NextResponse.json({ persona })
+  } catch (error) {
+    console.error('Error creating persona:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
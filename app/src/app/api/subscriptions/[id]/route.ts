@@ -6,6 +6,9 @@ import {
   updateDomainSubscription,
   getReportsForSubscription,
 } from '@/lib/subscriptions'
+import { MIN_SAMPLES_PER_QUERY, MAX_SAMPLES_PER_QUERY } from '@/lib/ai/sampling'
+import { lookupCity } from '@/lib/geo/searcher-location'
+import { isSupportedLanguage } from '@/lib/ai/language'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -52,11 +55,24 @@ const UpdateSubscriptionSchema = z.object({
   scan_schedule_day: z.number().int().min(0).max(6).optional(),
   scan_schedule_hour: z.number().int().min(0).max(23).optional(),
   scan_timezone: z.string().min(1).max(100).optional(),
+  // null resets to the default sample count
+  samples_per_query: z.number().int().min(MIN_SAMPLES_PER_QUERY).max(MAX_SAMPLES_PER_QUERY).nullable().optional(),
+  // Simulated customer location - a null city clears it
+  simulated_location: z
+    .object({
+      city: z.string().trim().min(1).max(100),
+      region: z.string().trim().max(100).nullable().optional(),
+      country_code: z.string().trim().regex(/^[a-z]{2}$/i, 'Country must be a 2-letter code like "AU"').nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+  language: z.string().refine(isSupportedLanguage, 'Unsupported language').optional(),
+  scan_competitor_sites: z.boolean().optional(),
 })
 
 /**
  * PATCH /api/subscriptions/[id]
- * Update a subscription (schedule settings)
+ * Update a subscription (schedule and scan settings)
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
@@ -95,7 +111,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    const { scan_schedule_day, scan_schedule_hour, scan_timezone } = result.data
+    const { scan_schedule_day, scan_schedule_hour, scan_timezone, samples_per_query, simulated_location, language, scan_competitor_sites } = result.data
 
     // Validate timezone if provided
     if (scan_timezone) {
@@ -106,10 +122,34 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // Known cities fill in their region and country
+    let simulatedFields = {}
+    if (simulated_location === null) {
+      simulatedFields = { simulated_city: null, simulated_region: null, simulated_country_code: null }
+    } else if (simulated_location) {
+      const known = lookupCity(simulated_location.city, simulated_location.country_code)
+      const countryCode = simulated_location.country_code?.toUpperCase() || known?.countryCode
+      if (!countryCode) {
+        return NextResponse.json(
+          { error: `Add a country code for ${simulated_location.city}` },
+          { status: 400 }
+        )
+      }
+      simulatedFields = {
+        simulated_city: known?.city || simulated_location.city,
+        simulated_region: simulated_location.region || known?.region || null,
+        simulated_country_code: countryCode,
+      }
+    }
+
     const updated = await updateDomainSubscription(id, {
       ...(scan_schedule_day !== undefined && { scan_schedule_day }),
       ...(scan_schedule_hour !== undefined && { scan_schedule_hour }),
       ...(scan_timezone !== undefined && { scan_timezone }),
+      ...(samples_per_query !== undefined && { samples_per_query }),
+      ...simulatedFields,
+      ...(language !== undefined && { language }),
+      ...(scan_competitor_sites !== undefined && { scan_competitor_sites }),
     })
 
     if (!updated) {
@@ -2,12 +2,15 @@ import { NextResponse } from 'next/server'
 import { requireSession } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getFeatureFlags } from '@/lib/features/flags'
+import { regroupCompetitorCounts, type CompetitorEntity } from '@/lib/ai/competitor-entities'
 
 export interface CompetitorSnapshot {
   run_id: string
   recorded_at: string
   domain_mentions: number
   competitors: { name: string; count: number }[]
+  share_of_voice: number | null // % of recommendation slots that went to us (null before share tracking)
+  competitor_share: Record<string, number> | null
 }
 
 export interface CompetitorTrendData {
@@ -103,7 +106,7 @@ export async function GET(request: Request) {
     // Also get total domain mentions from score_history for each run
     let scoreHistoryQuery = supabase
       .from('score_history')
-      .select('run_id, total_mentions')
+      .select('run_id, total_mentions, share_of_voice, competitor_share')
 
     if (domainSubscriptionId) {
       scoreHistoryQuery = scoreHistoryQuery.eq('domain_subscription_id', domainSubscriptionId)
@@ -113,8 +116,24 @@ export async function GET(request: Request) {
 
     const { data: scoreHistory } = await scoreHistoryQuery
 
-    const mentionsByRun = new Map<string, number | null>(
-      (scoreHistory || []).map((s: { run_id: string; total_mentions: number | null }) => [s.run_id, s.total_mentions])
+    // Name variants are counted under the subscription's canonical competitors
+    let competitorEntities: Pick<CompetitorEntity, 'name' | 'domain' | 'aliases'>[] = []
+    if (domainSubscriptionId) {
+      const { data: entities } = await supabase
+        .from('competitor_entities')
+        .select('name, domain, aliases')
+        .eq('domain_subscription_id', domainSubscriptionId)
+      competitorEntities = entities || []
+    }
+
+    type HistoryRow = {
+      run_id: string
+      total_mentions: number | null
+      share_of_voice: number | null
+      competitor_share: Record<string, number> | null
+    }
+    const historyByRun = new Map<string, HistoryRow>(
+      ((scoreHistory || []) as HistoryRow[]).map(s => [s.run_id, s])
     )
 
     // Transform data into snapshots
@@ -129,7 +148,10 @@ export async function GET(request: Request) {
 
       if (!reportData) continue
 
-      const competitors = (reportData.top_competitors || []) as { name: string; count: number }[]
+      const competitors = regroupCompetitorCounts(
+        (reportData.top_competitors || []) as { name: string; count: number }[],
+        competitorEntities
+      )
 
       // Track total counts for determining top competitors
       for (const comp of competitors) {
@@ -142,8 +164,10 @@ export async function GET(request: Request) {
       snapshots.push({
         run_id: run.id,
         recorded_at: run.created_at,
-        domain_mentions: mentionsByRun.get(run.id) ?? 0,
+        domain_mentions: historyByRun.get(run.id)?.total_mentions ?? 0,
         competitors,
+        share_of_voice: historyByRun.get(run.id)?.share_of_voice ?? null,
+        competitor_share: historyByRun.get(run.id)?.competitor_share ?? null,
       })
     }
 
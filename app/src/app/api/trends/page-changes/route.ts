@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { requireSession } from '@/lib/auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getFeatureFlags } from '@/lib/features/flags'
+import type { PageChange } from '@/lib/ai/page-changes'
+
+export interface PageChangeRecord extends PageChange {
+  id: string
+  run_id: string
+  detected_at: string
+}
+
+/**
+ * GET /api/trends/page-changes
+ * Pages added, edited or removed between scans (subscribers only), for
+ * lining up site edits with visibility movement
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await requireSession()
+    const supabase = createServiceClient()
+
+    // Check feature flags - trends require subscriber status
+    const flags = await getFeatureFlags(session.tier)
+    if (!flags.isSubscriber) {
+      return NextResponse.json(
+        { error: 'Upgrade to view page change history' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limitParam = searchParams.get('limit')
+    const limit = limitParam ? parseInt(limitParam, 10) : 100
+    const domainSubscriptionId = searchParams.get('domain_subscription_id')
+
+    let query = supabase
+      .from('page_changes')
+      .select('id, run_id, url, path, change_type, changed_fields, word_count_before, word_count_after, summary, detected_at')
+      .eq('lead_id', session.lead_id)
+
+    if (domainSubscriptionId) {
+      query = query.eq('domain_subscription_id', domainSubscriptionId)
+    }
+
+    const { data, error } = await query
+      .order('detected_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching page changes:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch page changes' },
+        { status: 500 }
+      )
+    }
+
+    const changes: PageChangeRecord[] = (data || []).map((row: {
+      id: string
+      run_id: string
+      url: string
+      path: string
+      change_type: PageChange['changeType']
+      changed_fields: PageChange['changedFields'] | null
+      word_count_before: number | null
+      word_count_after: number | null
+      summary: string
+      detected_at: string
+    }) => ({
+      id: row.id,
+      run_id: row.run_id,
+      detected_at: row.detected_at,
+      url: row.url,
+      path: row.path,
+      changeType: row.change_type,
+      changedFields: row.changed_fields || [],
+      wordCountBefore: row.word_count_before,
+      wordCountAfter: row.word_count_after,
+      summary: row.summary,
+    }))
+
+    return NextResponse.json({ changes })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    console.error('Error in GET /api/trends/page-changes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
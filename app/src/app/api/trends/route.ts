@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { requireSession } from '@/lib/auth'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getFeatureFlags } from '@/lib/features/flags'
+import type { CitationSnapshot } from '@/lib/ai/citations'
 
 export interface ScoreSnapshot {
   id: string
@@ -15,6 +16,15 @@ export interface ScoreSnapshot {
   total_queries: number | null
   total_mentions: number | null
   readiness_score: number | null
+  platform_scores: Record<string, number> | null   // All registered engines (056)
+  platform_mentions: Record<string, number> | null
+  visibility_score_low: number | null              // 95% interval (057); null before multi-sampling
+  visibility_score_high: number | null
+  platform_intervals: Record<string, { low: number; high: number }> | null
+  samples_per_query: number | null
+  position_score: number | null                    // Position-weighted visibility (059)
+  sentiment_adjusted_score: number | null          // Mentions credited by sentiment (079)
+  citation_stats: CitationSnapshot | null          // Cited-source rollup (060)
   recorded_at: string
 }
 
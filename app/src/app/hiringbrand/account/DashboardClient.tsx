@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { HBNav } from '../report/components/HBNav'
 import type { NavBrand } from '../report/components/HBNav'
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from '@/lib/ai/language'
 
 // ============================================
 // DESIGN TOKENS
@@ -398,6 +399,7 @@ function AddDomainModal({
 }) {
   const [domain, setDomain] = useState('')
   const [companyName, setCompanyName] = useState('')
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -413,6 +415,7 @@ function AddDomainModal({
         body: JSON.stringify({
           domain: domain.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, ''),
           companyName: companyName || undefined,
+          language,
         }),
       })
 
@@ -506,7 +509,7 @@ function AddDomainModal({
             />
           </div>
 
-          <div style={{ marginBottom: '24px' }}>
+          <div style={{ marginBottom: '16px' }}>
             <label
               style={{
                 display: 'block',
@@ -528,6 +531,35 @@ function AddDomainModal({
             />
           </div>
 
+          <div style={{ marginBottom: '24px' }}>
+            <label
+              style={{
+                display: 'block',
+                fontSize: '13px',
+                fontWeight: 600,
+                color: hb.slateMid,
+                marginBottom: '6px',
+                fontFamily: fonts.body,
+              }}
+            >
+              Language
+            </label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              style={{ ...inputStyle, background: hb.surface }}
+            >
+              {SUPPORTED_LANGUAGES.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.code === DEFAULT_LANGUAGE ? l.name : `${l.name} (${l.nativeName})`}
+                </option>
+              ))}
+            </select>
+            <p style={{ fontSize: '12px', color: hb.slateLight, marginTop: '6px', fontFamily: fonts.body }}>
+              Questions are asked in this language. Reports include English translations.
+            </p>
+          </div>
+
           {error && (
             <div
               style={{
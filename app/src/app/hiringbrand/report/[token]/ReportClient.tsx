@@ -135,6 +135,21 @@ export function ReportClient({ data, userRole = null, isSuperAdmin = false }: Re
           Viewing as super admin &mdash; {organization?.name}
         </div>
       )}
+      {report.budgetLimits && report.budgetLimits.length > 0 && (
+        <div style={{
+          background: hbColors.goldLight,
+          borderBottom: `2px solid ${hbColors.gold}`,
+          padding: '10px 24px',
+          fontFamily: hbFonts.body,
+          fontSize: '13px',
+          color: hbColors.slateMid,
+          lineHeight: 1.6,
+        }}>
+          <strong style={{ color: hbColors.slate }}>Budget-limited scan.</strong>{' '}
+          This scan reached its AI usage budget, so some steps were reduced:{' '}
+          {report.budgetLimits.map((limit) => limit.detail).join('; ')}.
+        </div>
+      )}
 
       {/* Report Header */}
       <header
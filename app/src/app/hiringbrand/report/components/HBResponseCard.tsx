@@ -17,6 +17,7 @@ import rehypeRaw from 'rehype-raw'
 import remarkGfm from 'remark-gfm'
 import { hbColors, hbFonts, hbShadows, hbRadii, hbPlatformConfig, hbCategoryConfig } from './shared/constants'
 import type { HBResponse, HBQuestionCategory, HBSentimentCategory } from './shared/types'
+import { formatRank } from '@/lib/ai/recommendation-rank'
 
 interface HBResponseCardProps {
   response: HBResponse
@@ -68,14 +69,17 @@ function formatCitations(text: string): string {
 
 export function HBResponseCard({ response }: HBResponseCardProps) {
   const [showDetails, setShowDetails] = useState(false)
+  const [showTranslation, setShowTranslation] = useState(false)
 
   const platformConfig = hbPlatformConfig[response.platform]
   const sentiment = response.sentimentCategory
     ? sentimentConfig[response.sentimentCategory]
     : sentimentConfig.mixed
 
-  // Format the response text with styled citations
-  const formattedResponseText = formatCitations(response.responseText)
+  // Format the response text with styled citations (English translation when toggled on)
+  const formattedResponseText = formatCitations(
+    showTranslation && response.responseTranslation ? response.responseTranslation : response.responseText
+  )
 
   // Combine all positive evidence
   const positiveEvidence = [
@@ -188,6 +192,22 @@ export function HBResponseCard({ response }: HBResponseCardProps) {
             >
               {hbCategoryConfig[response.promptCategory as HBQuestionCategory]?.label || 'General'}
             </span>
+            {response.mentionRank && response.rankedCount && (
+              <>
+                <span style={{ color: hbColors.slateLight, fontSize: '12px' }}>·</span>
+                <span
+                  title="Position in this answer's list of recommended employers"
+                  style={{
+                    fontSize: '12px',
+                    fontWeight: 600,
+                    color: hbColors.slate,
+                    fontFamily: hbFonts.body,
+                  }}
+                >
+                  {formatRank(response.mentionRank, response.rankedCount)}
+                </span>
+              </>
+            )}
           </div>
 
           <div
@@ -201,6 +221,20 @@ export function HBResponseCard({ response }: HBResponseCardProps) {
           >
             {response.promptText || 'Employer reputation question'}
           </div>
+          {showTranslation && response.promptTranslation && (
+            <div
+              style={{
+                fontFamily: hbFonts.body,
+                fontSize: '13px',
+                fontStyle: 'italic',
+                color: hbColors.slateLight,
+                lineHeight: 1.5,
+                marginTop: '4px',
+              }}
+            >
+              {response.promptTranslation}
+            </div>
+          )}
         </div>
 
         {/* Sentiment Score - prominent visual indicator */}
@@ -492,6 +526,25 @@ export function HBResponseCard({ response }: HBResponseCardProps) {
           />
         </button>
 
+        {showDetails && response.responseTranslation && (
+          <button
+            onClick={() => setShowTranslation(!showTranslation)}
+            style={{
+              background: 'none',
+              border: 'none',
+              padding: '0',
+              cursor: 'pointer',
+              marginBottom: '12px',
+              fontSize: '12px',
+              fontWeight: 600,
+              color: hbColors.teal,
+              fontFamily: hbFonts.body,
+            }}
+          >
+            {showTranslation ? 'Show original' : 'Show English translation'}
+          </button>
+        )}
+
         {showDetails && (
           <div
             style={{
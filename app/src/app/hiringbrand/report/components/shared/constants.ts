@@ -3,6 +3,7 @@
  * Extracted from docs/hiringbrand-design-system.css
  */
 
+import { REACH_WEIGHTS } from '@/lib/ai/platforms'
 import type { HBTab, HBPlatform, HBQuestionCategory, HBJobFamily } from './types'
 
 // Design Tokens
@@ -79,7 +80,7 @@ export const hbPlatformConfig: Record<
   chatgpt: {
     name: 'ChatGPT',
     color: '#10A37F',
-    weight: 10, // 80% market share
+    weight: REACH_WEIGHTS.chatgpt,
     icon: '🤖',
     iconPath: '/images/ChatGPT-Logo.png',
     iconSize: { width: 32, height: 32 }, // Larger for ChatGPT logo
@@ -87,7 +88,7 @@ export const hbPlatformConfig: Record<
   claude: {
     name: 'Claude',
     color: '#D97706',
-    weight: 1, // 1% market share
+    weight: REACH_WEIGHTS.claude,
     icon: '🧠',
     iconPath: '/images/Claude_AI_symbol.svg.png',
     iconSize: { width: 20, height: 20 },
@@ -95,7 +96,7 @@ export const hbPlatformConfig: Record<
   gemini: {
     name: 'Gemini',
     color: '#4285F4',
-    weight: 2, // 5% market share
+    weight: REACH_WEIGHTS.gemini,
     icon: '✨',
     iconPath: '/images/Google_Gemini_icon_2025.svg.png',
     iconSize: { width: 20, height: 20 },
@@ -103,7 +104,7 @@ export const hbPlatformConfig: Record<
   perplexity: {
     name: 'Perplexity',
     color: '#6366F1',
-    weight: 4, // 12% market share
+    weight: REACH_WEIGHTS.perplexity,
     icon: '🔍',
     iconPath: '/images/perplexity-color.png',
     iconSize: { width: 20, height: 20 },
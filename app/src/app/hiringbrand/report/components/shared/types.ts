@@ -3,6 +3,9 @@
  * Completely separate from outrankllm types
  */
 
+import type { SearchPlatform } from '@/lib/ai/platforms'
+import type { BudgetLimit } from '@/lib/ai/budgets'
+
 // 4-tier sentiment system: strong (9-10), positive (6-8), mixed (4-5), negative (1-3)
 export type HBSentimentCategory = 'strong' | 'positive' | 'mixed' | 'negative'
 
@@ -53,6 +56,7 @@ export interface HBReportData {
     mentionStats: HBMentionStats | null // Web mention aggregate stats
     monitoredDomainId: string | null
     roleActionPlans?: HBRoleActionPlans // Role-specific action plans
+    budgetLimits?: BudgetLimit[] // Steps trimmed to stay within the AI budget
   }
   sentimentCounts: HBSentimentCounts
   company: {
@@ -85,10 +89,14 @@ export interface HBResponse {
   id: string
   platform: HBPlatform
   promptText: string
+  promptTranslation: string | null // English translation for non-English scans
   promptCategory: string
   responseText: string
+  responseTranslation: string | null
   domainMentioned: boolean
   mentionPosition: number | null
+  mentionRank: number | null // Place in the answer's list of recommended employers
+  rankedCount: number | null
   competitorsMentioned: Array<{ name: string; context?: string }>
   sources: Array<{ url: string; title?: string }> | null
   responseTimeMs: number | null
@@ -123,7 +131,7 @@ export interface HBPrompt {
   category: HBQuestionCategory
 }
 
-export type HBPlatform = 'chatgpt' | 'claude' | 'gemini' | 'perplexity'
+export type HBPlatform = SearchPlatform
 
 export type HBQuestionCategory =
   | 'reputation'
@@ -6,10 +6,20 @@ import { ReportTabs } from '@/components/report/ReportTabs'
 import { VerificationGate } from '@/components/report/VerificationGate'
 import { OptInModal } from '@/components/report/OptInModal'
 import { ExpiryCountdown } from '@/components/report/ExpiryCountdown'
+import { BudgetLimitedNotice } from '@/components/report/BudgetLimitedNotice'
 import { Nav } from '@/components/nav/Nav'
 import { ArrowLeft, ExternalLink, Sparkles, Lock, Crown, Check } from 'lucide-react'
 import Link from 'next/link'
 import type { FeatureFlags } from '@/lib/features/flags'
+import type { ScoreConfidence } from '@/lib/ai/sampling'
+import type { ShareOfVoice } from '@/lib/ai/share-of-voice'
+import type { SentimentScores } from '@/lib/ai/sentiment'
+import type { CompetitorSiteScan } from '@/lib/ai/competitor-sites'
+import type { BudgetLimit } from '@/lib/ai/budgets'
+import type { RenderComparison } from '@/lib/ai/render'
+import type { AiCrawlerAccess } from '@/lib/ai/robots'
+import type { AiDiscoveryAudit } from '@/lib/ai/llms-txt'
+import type { PageSchemaValidation } from '@/lib/ai/schema-validator'
 import { trackEventOnce, ANALYTICS_EVENTS } from '@/lib/analytics'
 import { trackLinkedInConversionOnce, LINKEDIN_CONVERSIONS } from '@/lib/linkedin'
 
@@ -146,7 +156,10 @@ interface ReportData {
     url_token: string
     visibility_score: number
     platform_scores: Record<string, number>
+    score_confidence: ScoreConfidence | null
+    sentiment_scores?: SentimentScores | null
     top_competitors: { name: string; count: number }[]
+    share_of_voice?: ShareOfVoice | null
     summary: string
     run_id: string
     created_at: string
@@ -154,6 +167,7 @@ interface ReportData {
     expires_at: string | null
     subscriber_only: boolean
     enrichment_status: EnrichmentStatus
+    budget_limits: BudgetLimit[]
   }
   analysis: {
     business_type: string
@@ -170,6 +184,10 @@ interface ReportData {
     pagesCrawled: number
     schemaTypes: string[]
     hasMetaDescriptions: boolean
+    renderComparison?: RenderComparison | null
+    aiCrawlerAccess?: AiCrawlerAccess[] | null
+    aiDiscovery?: AiDiscoveryAudit | null
+    schemaValidation?: PageSchemaValidation[] | null
   } | null
   platformData: {
     detected_cms?: string | null
@@ -223,6 +241,7 @@ interface ReportData {
     compared_to: string | null
     positioning: string | null
   }[] | null
+  competitorSites?: CompetitorSiteScan[]
   competitiveSummary: {
     strengths: string[]
     weaknesses: string[]
@@ -246,7 +265,7 @@ interface ReportClientProps {
 }
 
 export function ReportClient({ data, showLockedModal = false }: ReportClientProps) {
-  const { report, analysis, crawlData, platformData, responses, prompts, subscriberQuestions, brandAwareness, competitiveSummary, email, domain, runId, domainSubscriptionId, isVerified, featureFlags, hasMarketingOptIn } = data
+  const { report, analysis, crawlData, platformData, responses, prompts, subscriberQuestions, brandAwareness, competitorSites, competitiveSummary, email, domain, runId, domainSubscriptionId, isVerified, featureFlags, hasMarketingOptIn } = data
   const [showModal, setShowModal] = useState(false)
   const [showLocked, setShowLocked] = useState(showLockedModal)
   const isSubscriber = featureFlags.isSubscriber
@@ -404,6 +423,9 @@ export function ReportClient({ data, showLockedModal = false }: ReportClientProp
             />
           )}
 
+          {/* Note when the scan was trimmed to stay within its AI budget */}
+          <BudgetLimitedNotice limits={report.budget_limits || []} />
+
           {/* Tabbed Content */}
           <ReportTabs
             analysis={analysis}
@@ -415,7 +437,11 @@ export function ReportClient({ data, showLockedModal = false }: ReportClientProp
             platformData={platformData ?? undefined}
             visibilityScore={report.visibility_score}
             platformScores={report.platform_scores}
+            scoreConfidence={report.score_confidence}
+            sentimentScores={report.sentiment_scores}
             competitors={report.top_competitors}
+            shareOfVoice={report.share_of_voice}
+            competitorSites={competitorSites}
             domain={domain}
             domainSubscriptionId={domainSubscriptionId}
             onUpgradeClick={handleUpgradeClick}
@@ -3,6 +3,17 @@ import { cookies } from 'next/headers'
 import { createServiceClient } from '@/lib/supabase/server'
 import { getFeatureFlagsForLead, type FeatureFlags } from '@/lib/features/flags'
 import { getSession } from '@/lib/auth'
+import type { ScoreConfidence } from '@/lib/ai/sampling'
+import type { ShareOfVoice } from '@/lib/ai/share-of-voice'
+import type { SentimentScores } from '@/lib/ai/sentiment'
+import { regroupCompetitorCounts, type CompetitorEntity } from '@/lib/ai/competitor-entities'
+import type { CompetitorSiteScan } from '@/lib/ai/competitor-sites'
+import type { MentionEvidence } from '@/lib/ai/brand-matcher'
+import type { BudgetLimit } from '@/lib/ai/budgets'
+import type { RenderComparison } from '@/lib/ai/render'
+import type { AiCrawlerAccess } from '@/lib/ai/robots'
+import type { AiDiscoveryAudit } from '@/lib/ai/llms-txt'
+import type { PageSchemaValidation } from '@/lib/ai/schema-validator'
 import { ReportClient } from './ReportClient'
 
 interface ReportPageProps {
@@ -18,7 +29,10 @@ interface ReportData {
     url_token: string
     visibility_score: number
     platform_scores: Record<string, number>
+    score_confidence: ScoreConfidence | null
+    sentiment_scores: SentimentScores | null
     top_competitors: { name: string; count: number }[]
+    share_of_voice: ShareOfVoice | null
     summary: string
     run_id: string
     created_at: string
@@ -26,6 +40,7 @@ interface ReportData {
     expires_at: string | null
     subscriber_only: boolean
     enrichment_status: EnrichmentStatus
+    budget_limits: BudgetLimit[]
   }
   analysis: {
     business_type: string
@@ -42,6 +57,10 @@ interface ReportData {
     pagesCrawled: number
     schemaTypes: string[]
     hasMetaDescriptions: boolean
+    renderComparison: RenderComparison | null
+    aiCrawlerAccess: AiCrawlerAccess[] | null
+    aiDiscovery: AiDiscoveryAudit | null
+    schemaValidation: PageSchemaValidation[] | null
   } | null
   platformData: {
     detected_cms?: string | null
@@ -70,6 +89,10 @@ interface ReportData {
     platform: string
     response_text: string
     domain_mentioned: boolean
+    mention_evidence?: MentionEvidence[] | null
+    mention_rank?: number | null
+    ranked_count?: number | null
+    sources?: Array<{ url: string; title?: string | null }> | null
     prompt: { prompt_text: string } | null
   }[] | null
   prompts: {
@@ -95,6 +118,7 @@ interface ReportData {
     compared_to: string | null
     positioning: string | null
   }[] | null
+  competitorSites: CompetitorSiteScan[]
   competitiveSummary: {
     strengths: string[]
     weaknesses: string[]
@@ -127,6 +151,7 @@ async function getReport(token: string): Promise<ReportData | null> {
         id,
         created_at,
         enrichment_status,
+        budget_limits,
         domain_subscription_id,
         lead:leads(id, email, domain, email_verified, tier, marketing_opt_in),
         domain_subscription:domain_subscriptions(id, domain)
@@ -174,7 +199,7 @@ async function getReport(token: string): Promise<ReportData | null> {
       detected_ecommerce, detected_hosting, detected_analytics, detected_lead_capture,
       has_blog, has_case_studies, has_resources, has_faq, has_about_page, has_team_page, has_testimonials,
       is_ecommerce, has_ai_readability_issues, ai_readability_issues, renders_client_side,
-      likely_ai_generated, ai_generated_signals
+      likely_ai_generated, ai_generated_signals, render_comparison, ai_crawler_access, ai_discovery, schema_validation
     `)
     .eq('run_id', runId)
     .single()
@@ -251,6 +276,16 @@ async function getReport(token: string): Promise<ReportData | null> {
     subscriberQuestions = data as SubscriberQuestion[] | null
   }
 
+  // Competitor name variants are counted under the subscription's canonical competitors
+  let competitorEntities: Pick<CompetitorEntity, 'name' | 'domain' | 'aliases'>[] = []
+  if (domainSubscriptionId) {
+    const { data } = await supabase
+      .from('competitor_entities')
+      .select('name, domain, aliases')
+      .eq('domain_subscription_id', domainSubscriptionId)
+    competitorEntities = data || []
+  }
+
   // Fetch all LLM responses for the AI Responses tab
   const { data: responses } = await supabase
     .from('llm_responses')
@@ -258,9 +293,19 @@ async function getReport(token: string): Promise<ReportData | null> {
       platform,
       response_text,
       domain_mentioned,
-      prompt:scan_prompts(prompt_text)
+      mention_evidence,
+      mention_rank,
+      ranked_count,
+      sources,
+      response_translation,
+      sentiment_category,
+      recommendation_strength,
+      sentiment_positive_phrases,
+      sentiment_negative_phrases,
+      prompt:scan_prompts(prompt_text, prompt_translation, template_text, template_values, persona_name)
     `)
     .eq('run_id', runId)
+    .eq('sample_index', 0) // Extra samples only feed the score
     .order('created_at', { ascending: true })
 
   // Fetch brand awareness results
@@ -276,11 +321,24 @@ async function getReport(token: string): Promise<ReportData | null> {
       response_text,
       confidence_score,
       compared_to,
-      positioning
+      positioning,
+      accuracy,
+      false_claims
     `)
     .eq('run_id', runId)
     .order('created_at', { ascending: true })
 
+  // Tracked competitors' websites, crawled after the scan when the subscription opts in
+  let competitorSites: CompetitorSiteScan[] = []
+  if (featureFlags.isSubscriber) {
+    const { data } = await supabase
+      .from('competitor_site_scans')
+      .select('*')
+      .eq('run_id', runId)
+      .order('competitor_name', { ascending: true })
+    competitorSites = (data || []) as CompetitorSiteScan[]
+  }
+
   // Check if sitemap was used
   const sitemapUsed = analysis?.has_sitemap ?? (analysis?.pages_crawled || 0) > 5
 
@@ -293,7 +351,10 @@ async function getReport(token: string): Promise<ReportData | null> {
       url_token: report.url_token,
       visibility_score: report.visibility_score,
       platform_scores: report.platform_scores || {},
-      top_competitors: report.top_competitors || [],
+      score_confidence: (report.score_confidence as ScoreConfidence | null) ?? null,
+      sentiment_scores: (report.sentiment_scores as SentimentScores | null) ?? null,
+      top_competitors: regroupCompetitorCounts(report.top_competitors || [], competitorEntities),
+      share_of_voice: (report.share_of_voice as ShareOfVoice | null) ?? null,
       summary: report.summary || '',
       run_id: runId,
       created_at: runCreatedAt,
@@ -301,6 +362,7 @@ async function getReport(token: string): Promise<ReportData | null> {
       expires_at: isSubscriber ? null : (report.expires_at || null),
       subscriber_only: report.subscriber_only ?? false,
       enrichment_status: enrichmentStatus,
+      budget_limits: (report.run?.budget_limits as BudgetLimit[] | null) || [],
     },
     analysis: analysis ? {
       business_type: analysis.business_type,
@@ -317,6 +379,10 @@ async function getReport(token: string): Promise<ReportData | null> {
       pagesCrawled: analysis.pages_crawled ?? 0,
       schemaTypes: analysis.schema_types ?? [],
       hasMetaDescriptions: analysis.has_meta_descriptions ?? false,
+      renderComparison: (analysis.render_comparison as RenderComparison | null) ?? null,
+    aiCrawlerAccess: (analysis.ai_crawler_access as AiCrawlerAccess[] | null) ?? null,
+    aiDiscovery: (analysis.ai_discovery as AiDiscoveryAudit | null) ?? null,
+    schemaValidation: (analysis.schema_validation as PageSchemaValidation[] | null) ?? null,
     } : null,
     platformData: analysis ? {
       detected_cms: analysis.detected_cms ?? null,
@@ -345,6 +411,7 @@ async function getReport(token: string): Promise<ReportData | null> {
     prompts: prompts as ReportData['prompts'],
     subscriberQuestions,
     brandAwareness: brandAwareness as ReportData['brandAwareness'],
+    competitorSites,
     competitiveSummary: report.competitive_summary as ReportData['competitiveSummary'],
     email: lead.email,
     domain: reportDomain,
@@ -0,0 +1,39 @@
+'use client'
+
+import { Gauge } from 'lucide-react'
+import type { BudgetLimit } from '@/lib/ai/budgets'
+
+interface BudgetLimitedNoticeProps {
+  limits: BudgetLimit[]
+}
+
+/**
+ * Shown when the scan was trimmed to stay within its AI budget
+ */
+export function BudgetLimitedNotice({ limits }: BudgetLimitedNoticeProps) {
+  if (limits.length === 0) return null
+
+  return (
+    <div
+      className="bg-[var(--surface-elevated)] border border-[var(--border)]"
+      style={{ padding: '16px 20px', marginBottom: '32px' }}
+    >
+      <div className="flex items-start" style={{ gap: '12px' }}>
+        <Gauge size={18} className="text-[var(--gold)] flex-shrink-0" style={{ marginTop: '2px' }} />
+        <div>
+          <p className="text-[var(--text)] text-sm" style={{ marginBottom: '6px' }}>
+            <strong>Budget-limited scan.</strong>{' '}
+            <span className="text-[var(--text-mid)]">
+              This scan reached its AI usage budget, so some steps were reduced:
+            </span>
+          </p>
+          <ul className="text-[var(--text-dim)] text-sm" style={{ display: 'grid', gap: '2px', lineHeight: '1.5' }}>
+            {limits.map(limit => (
+              <li key={limit.step}>• {limit.detail}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { FileText, Download, CheckCircle2, AlertCircle, ChevronDown, ChevronUp } from 'lucide-react'
+import type { AiDiscoveryFile } from '@/lib/ai/llms-txt'
+
+interface LlmsTxtCardProps {
+  runId: string
+}
+
+interface LlmsTxtResponse {
+  content: string
+  filename: string
+  published: AiDiscoveryFile | null
+  checkedAt: string | null
+}
+
+/**
+ * Generated llms.txt ready to download and publish, with the status of the
+ * site's current /llms.txt (re-checked on every scan)
+ */
+export function LlmsTxtCard({ runId }: LlmsTxtCardProps) {
+  const [data, setData] = useState<LlmsTxtResponse | null>(null)
+  const [showPreview, setShowPreview] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/llms-txt?run_id=${encodeURIComponent(runId)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(json => {
+        if (!cancelled) setData(json)
+      })
+      .catch(() => {
+        // Card is supplementary - hide it if generation fails
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [runId])
+
+  if (!data) return null
+
+  const handleDownload = () => {
+    const blob = new Blob([data.content], { type: 'text/plain;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = data.filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const published = data.published
+  const status = !published
+    ? null
+    : published.found && published.valid
+      ? { icon: CheckCircle2, color: 'var(--green)', text: 'Your /llms.txt is live and valid' }
+      : published.found
+        ? { icon: AlertCircle, color: 'var(--amber)', text: `Your /llms.txt has issues: ${published.issues.join('; ')}` }
+        : { icon: AlertCircle, color: 'var(--text-dim)', text: 'No /llms.txt found on your site yet' }
+
+  return (
+    <div className="card" style={{ padding: '24px' }}>
+      <div className="flex items-start justify-between flex-wrap" style={{ gap: '16px' }}>
+        <div className="flex items-start" style={{ gap: '16px' }}>
+          <FileText size={20} className="text-[var(--green)] flex-shrink-0" style={{ marginTop: '2px' }} />
+          <div>
+            <h3 className="text-[var(--text)] font-medium" style={{ marginBottom: '6px' }}>
+              llms.txt for your site
+            </h3>
+            <p className="text-[var(--text-mid)] text-sm" style={{ lineHeight: '1.6', marginBottom: status ? '8px' : 0 }}>
+              A summary and map of your key pages for AI assistants, generated from this scan.
+              Upload it to your site root as <code className="font-mono text-[var(--text)]">/llms.txt</code> -
+              we&apos;ll check it on your next scan.
+            </p>
+            {status && (
+              <p className="flex items-center text-sm" style={{ gap: '6px', color: status.color }}>
+                <status.icon size={14} />
+                {status.text}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={handleDownload}
+          className="flex items-center font-mono text-sm bg-[var(--green)] text-[var(--bg)] hover:opacity-90 transition-opacity"
+          style={{ padding: '10px 16px', gap: '8px' }}
+        >
+          <Download size={14} />
+          Download llms.txt
+        </button>
+      </div>
+
+      <button
+        onClick={() => setShowPreview(!showPreview)}
+        className="flex items-center font-mono text-xs text-[var(--text-dim)] hover:text-[var(--text)] transition-colors"
+        style={{ gap: '6px', marginTop: '16px' }}
+      >
+        {showPreview ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        {showPreview ? 'Hide preview' : 'Preview'}
+      </button>
+
+      {showPreview && (
+        <pre
+          className="bg-[var(--bg)] border border-[var(--border)] text-[var(--text-mid)] font-mono text-xs overflow-x-auto"
+          style={{ padding: '16px', marginTop: '12px', maxHeight: '400px', whiteSpace: 'pre-wrap' }}
+        >
+          {data.content}
+        </pre>
+      )}
+    </div>
+  )
+}
@@ -1,52 +1,36 @@
 'use client'
 
 import { CheckCircle, XCircle } from 'lucide-react'
+import { ALL_PLATFORMS, PLATFORM_REGISTRY, type SearchPlatform } from '@/lib/ai/platforms'
+import { formatRank } from '@/lib/ai/recommendation-rank'
 
 interface PlatformScore {
-  platform: 'chatgpt' | 'claude' | 'gemini' | 'perplexity'
+  platform: SearchPlatform
   score: number
 }
 
-interface PlatformResultsProps {
-  scores: Record<string, number>
+interface PlatformPosition {
+  medianRank: number | null
+  medianRankedCount: number | null
 }
 
-const platformConfig = {
-  chatgpt: {
-    name: 'ChatGPT',
-    color: 'var(--red)',
-    description: 'OpenAI GPT-4',
-  },
-  claude: {
-    name: 'Claude',
-    color: 'var(--green)',
-    description: 'Anthropic Claude',
-  },
-  gemini: {
-    name: 'Gemini',
-    color: 'var(--blue)',
-    description: 'Google Gemini',
-  },
-  perplexity: {
-    name: 'Perplexity',
-    color: '#1FB8CD',
-    description: 'Perplexity AI',
-  },
+interface PlatformResultsProps {
+  scores: Record<string, number>
+  positions?: Record<string, PlatformPosition> // reports.position_scores.platforms
 }
 
-export function PlatformResults({ scores }: PlatformResultsProps) {
-  const platforms: PlatformScore[] = [
-    { platform: 'chatgpt', score: scores.chatgpt || 0 },
-    { platform: 'claude', score: scores.claude || 0 },
-    { platform: 'gemini', score: scores.gemini || 0 },
-    { platform: 'perplexity', score: scores.perplexity || 0 },
-  ]
+export function PlatformResults({ scores, positions }: PlatformResultsProps) {
+  // Show every engine this report was scored on (older reports only have the original four)
+  const platforms: PlatformScore[] = ALL_PLATFORMS
+    .filter(platform => platform in scores)
+    .map(platform => ({ platform, score: scores[platform] || 0 }))
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
       {platforms.map(({ platform, score }) => {
-        const config = platformConfig[platform]
+        const config = PLATFORM_REGISTRY[platform]
         const isMentioned = score > 0
+        const position = positions?.[platform]
 
         return (
           <div key={platform} className="card">
@@ -74,6 +58,11 @@ export function PlatformResults({ scores }: PlatformResultsProps) {
                 ? `Mentioned in ${score}% of queries`
                 : 'Not mentioned in any queries'}
             </p>
+            {isMentioned && position?.medianRank && position.medianRankedCount && (
+              <p className="text-[var(--text-dim)] text-xs font-mono mt-1">
+                Typically {formatRank(Math.round(position.medianRank), Math.round(position.medianRankedCount))} recommended
+              </p>
+            )}
           </div>
         )
       })}
@@ -6,6 +6,10 @@ import { Lock, Lightbulb, FileCode } from 'lucide-react'
 import { tabs } from './shared/constants'
 
 import { trackEvent, ANALYTICS_EVENTS } from '@/lib/analytics'
+import type { ScoreConfidence } from '@/lib/ai/sampling'
+import type { ShareOfVoice } from '@/lib/ai/share-of-voice'
+import type { SentimentScores } from '@/lib/ai/sentiment'
+import type { CompetitorSiteScan } from '@/lib/ai/competitor-sites'
 import type { TabId, Analysis, Response, Prompt, Competitor, CrawlData, BrandAwarenessResult, CompetitiveSummary, PlatformData } from './shared/types'
 
 import {
@@ -14,6 +18,7 @@ import {
   AIReadinessTab,
   ResponsesTab,
   MeasurementsTab,
+  CitationsTab,
   CompetitorsTab,
   BrandAwarenessTab,
   ActionsTab,
@@ -33,7 +38,15 @@ interface ReportTabsProps {
   competitiveSummary?: CompetitiveSummary | null
   visibilityScore: number
   platformScores: Record<string, number>
+  /** Mention-rate confidence intervals (multi-sample scans) */
+  scoreConfidence?: ScoreConfidence | null
+  /** Visibility with mentions credited by sentiment and recommendation strength */
+  sentimentScores?: SentimentScores | null
   competitors?: Competitor[]
+  /** Recommendation slots vs tracked competitors, with head-to-head results */
+  shareOfVoice?: ShareOfVoice | null
+  /** Tracked competitors' websites crawled after this scan */
+  competitorSites?: CompetitorSiteScan[]
   crawlData?: CrawlData
   platformData?: PlatformData | null
   domain: string
@@ -62,7 +75,11 @@ export function ReportTabs({
   competitiveSummary,
   visibilityScore,
   platformScores,
+  scoreConfidence,
+  sentimentScores,
   competitors = [],
+  shareOfVoice,
+  competitorSites,
   crawlData,
   platformData,
   domain,
@@ -254,6 +271,8 @@ export function ReportTabs({
           <MeasurementsTab
             visibilityScore={visibilityScore}
             platformScores={platformScores}
+            scoreConfidence={scoreConfidence}
+            sentimentScores={sentimentScores}
             responses={responses}
             analysis={analysis}
             brandAwareness={brandAwareness}
@@ -265,9 +284,22 @@ export function ReportTabs({
             isTrial={isTrial}
           />
         )}
+        {activeTab === 'citations' && (
+          <CitationsTab
+            responses={responses}
+            domain={domain}
+            competitors={competitors}
+            domainSubscriptionId={domainSubscriptionId}
+            isSubscriber={isSubscriber}
+          />
+        )}
         {activeTab === 'competitors' && (
           <CompetitorsTab
             competitors={competitors}
+            shareOfVoice={shareOfVoice}
+            competitorSites={competitorSites}
+            crawlData={crawlData}
+            platformData={platformData}
             responses={responses}
             brandAwareness={brandAwareness}
             competitiveSummary={competitiveSummary}
@@ -291,6 +323,7 @@ export function ReportTabs({
             enrichmentStatus={enrichmentStatus}
             runId={currentRunId}
             blurContent={shouldBlurCompetitors}
+            domainSubscriptionId={domainSubscriptionId}
           />
         )}
         {activeTab === 'actions' && (
@@ -7,6 +7,8 @@ export interface TrendDataPoint {
   date: string
   value: number
   label?: string
+  low?: number  // Lower bound of the confidence interval (error band)
+  high?: number // Upper bound of the confidence interval (error band)
 }
 
 export interface MultiLineSeries {
@@ -329,7 +331,13 @@ function calculateMovingAverage(data: TrendDataPoint[], window = 3): TrendDataPo
     const end = Math.min(data.length, i + Math.ceil(window / 2))
     const windowData = data.slice(start, end)
     const avg = windowData.reduce((sum, d) => sum + d.value, 0) / windowData.length
-    result.push({ ...data[i], value: avg })
+    const point: TrendDataPoint = { ...data[i], value: avg }
+    // Smooth the error band alongside the line when every point in the window has one
+    if (windowData.every(d => d.low !== undefined && d.high !== undefined)) {
+      point.low = windowData.reduce((sum, d) => sum + (d.low ?? 0), 0) / windowData.length
+      point.high = windowData.reduce((sum, d) => sum + (d.high ?? 0), 0) / windowData.length
+    }
+    result.push(point)
   }
   return result
 }
@@ -477,8 +485,8 @@ export function MultiLineTrendChart({
     }
     allDates.sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
 
-    // Single axis: All values are percentages (0-100)
-    const allValues = displaySeries.flatMap(s => s.data.map(d => d.value))
+    // Single axis: All values are percentages (0-100), including error band bounds
+    const allValues = displaySeries.flatMap(s => s.data.flatMap(d => [d.value, d.low ?? d.value, d.high ?? d.value]))
     const minVal = Math.min(...allValues)
     const maxVal = Math.max(...allValues)
     const range = maxVal - minVal
@@ -532,6 +540,32 @@ export function MultiLineTrendChart({
     return `${visibleLength} ${totalLength}`
   }
 
+  // Confidence interval as a translucent band (upper edge, then lower edge reversed)
+  const renderErrorBand = (s: MultiLineSeries, opacity: number) => {
+    const banded = s.data.filter(d => d.low !== undefined && d.high !== undefined)
+    if (banded.length < 2) return null
+
+    const upper = banded.map(d => `${getX(d.date, viewBoxWidth)},${getY(d.high!)}`)
+    const lower = banded.map(d => `${getX(d.date, viewBoxWidth)},${getY(d.low!)}`).reverse()
+
+    return (
+      <polygon
+        key={`${s.key}-band`}
+        points={[...upper, ...lower].join(' ')}
+        fill={s.color}
+        fillOpacity={opacity * animationProgress}
+        stroke="none"
+      />
+    )
+  }
+
+  // Tooltip text, with the interval when the point has one
+  const formatTooltipValue = (p: { value: number; low?: number; high?: number }, decimals: number) => {
+    const value = `${p.value.toFixed(decimals)}% visibility`
+    if (p.low === undefined || p.high === undefined) return value
+    return `${value} (${p.low.toFixed(0)}–${p.high.toFixed(0)}%)`
+  }
+
   return (
     <div ref={chartRef} style={{ position: 'relative' }}>
       {/* Header with title and toggle */}
@@ -656,6 +690,10 @@ export function MultiLineTrendChart({
           </g>
         )}
 
+        {/* Error bands behind all lines */}
+        {platformSeries.map((s) => renderErrorBand(s, 0.06))}
+        {overallSeries && renderErrorBand(overallSeries, 0.15)}
+
         {/* Render platform series first so overall is on top */}
         {platformSeries.map((s) => {
           if (s.data.length === 0) return null
@@ -664,6 +702,8 @@ export function MultiLineTrendChart({
             x: getX(d.date, viewBoxWidth),
             y: getY(d.value),
             value: d.value,
+            low: d.low,
+            high: d.high,
             date: d.date,
           }))
 
@@ -723,7 +763,7 @@ export function MultiLineTrendChart({
                         x: rect.left + p.x * scaleX,
                         y: rect.top + p.y * scaleY - 10,
                         name: s.name,
-                        value: `${p.value.toFixed(0)}% visibility`,
+                        value: formatTooltipValue(p, 0),
                         date: formatDate(p.date),
                         color: s.color,
                       })
@@ -742,6 +782,8 @@ export function MultiLineTrendChart({
             x: getX(d.date, viewBoxWidth),
             y: getY(d.value),
             value: d.value,
+            low: d.low,
+            high: d.high,
             date: d.date,
           }))
 
@@ -799,7 +841,7 @@ export function MultiLineTrendChart({
                         x: rect.left + p.x * scaleX,
                         y: rect.top + p.y * scaleY - 10,
                         name: overallSeries.name,
-                        value: `${p.value.toFixed(1)}% visibility`,
+                        value: formatTooltipValue(p, 1),
                         date: formatDate(p.date),
                         color: overallSeries.color,
                       })
@@ -0,0 +1,82 @@
+'use client'
+
+import { CheckCircle, AlertTriangle, Clock, XCircle } from 'lucide-react'
+import {
+  describeExpectation,
+  type ActionExpectation,
+  type ExpectationResult,
+  type VerificationStatus,
+} from '@/lib/ai/action-expectations'
+
+const statusStyles: Record<VerificationStatus, { label: string; color: string; icon: typeof CheckCircle }> = {
+  verified: { label: 'Verified on your site', color: 'var(--green)', icon: CheckCircle },
+  not_met: { label: 'Not found on your site yet', color: 'var(--gold)', icon: Clock },
+  regressed: { label: 'Regressed - no longer on your site', color: 'var(--red)', icon: AlertTriangle },
+}
+
+/**
+ * What a later scan will check once the item is done
+ */
+export function ExpectationList({ expectations }: { expectations: ActionExpectation[] | null | undefined }) {
+  if (!expectations || expectations.length === 0) return null
+
+  return (
+    <ul style={{ display: 'grid', gap: '4px' }}>
+      {expectations.map((expectation, idx) => (
+        <li key={idx} className="text-[var(--text-mid)] text-sm flex items-start" style={{ gap: '8px', lineHeight: '1.5' }}>
+          <span className="text-[var(--text-ghost)] font-mono flex-shrink-0">-</span>
+          {describeExpectation(expectation)}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Verification status with the crawler's evidence for each expectation
+ */
+export function VerificationResult({
+  status,
+  evidence,
+  checkedAt,
+}: {
+  status: VerificationStatus | null | undefined
+  evidence: ExpectationResult[] | null | undefined
+  checkedAt?: string | null
+}) {
+  if (!status) return null
+  const { label, color, icon: Icon } = statusStyles[status]
+
+  return (
+    <div style={{ marginTop: '6px' }}>
+      <p className="text-xs flex items-center" style={{ gap: '6px', color }}>
+        <Icon size={12} />
+        {label}
+        {checkedAt && (
+          <span className="text-[var(--text-ghost)]">
+            · checked {new Date(checkedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </span>
+        )}
+      </p>
+      {evidence && evidence.length > 0 && (
+        <ul style={{ display: 'grid', gap: '2px', marginTop: '4px', paddingLeft: '18px' }}>
+          {evidence.map((result, idx) => (
+            <li key={idx} className="text-xs flex items-start" style={{ gap: '6px', lineHeight: '1.5' }}>
+              {result.outcome === 'met' ? (
+                <CheckCircle size={10} className="text-[var(--green)] flex-shrink-0" style={{ marginTop: '3px' }} />
+              ) : result.outcome === 'not_met' ? (
+                <XCircle size={10} className="text-[var(--red)] flex-shrink-0" style={{ marginTop: '3px' }} />
+              ) : (
+                <Clock size={10} className="text-[var(--text-ghost)] flex-shrink-0" style={{ marginTop: '3px' }} />
+              )}
+              <span className="text-[var(--text-dim)]">
+                {describeExpectation(result.expectation)}
+                <span className="text-[var(--text-ghost)]"> — {result.evidence}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
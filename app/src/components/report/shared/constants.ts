@@ -8,7 +8,9 @@ import {
   Brain,
   Lightbulb,
   FileCode,
+  Link2,
 } from 'lucide-react'
+import { PLATFORM_REGISTRY } from '@/lib/ai/platforms'
 import type { Tab } from './types'
 
 export const tabs: Tab[] = [
@@ -17,25 +19,21 @@ export const tabs: Tab[] = [
   { id: 'readiness', label: 'AI Readiness', icon: Shield },
   { id: 'responses', label: 'AI Responses', icon: MessageSquare },
   { id: 'measurements', label: 'Measurements', icon: BarChart3 },
+  { id: 'citations', label: 'Citations', icon: Link2 },
   { id: 'competitors', label: 'Competitors', icon: Users, premium: true },
   { id: 'brandAwareness', label: 'Brand Awareness', icon: Brain, premium: true },
   { id: 'actions', label: 'Action Plans', icon: Lightbulb, locked: true, premium: true, lockMessage: 'Subscribers get personalized action plans' },
   { id: 'prd', label: 'PRD & Specs', icon: FileCode, locked: true, premium: true, lockMessage: 'Subscribers get ready-to-ship PRDs' },
 ]
 
-export const platformColors: Record<string, string> = {
-  chatgpt: 'var(--red)',
-  claude: 'var(--green)',
-  gemini: 'var(--blue)',
-  perplexity: '#1FB8CD',
-}
+// Derived from the platform registry so new engines appear in every tab
+export const platformColors: Record<string, string> = Object.fromEntries(
+  Object.entries(PLATFORM_REGISTRY).map(([id, p]) => [id, p.color])
+)
 
-export const platformNames: Record<string, string> = {
-  chatgpt: 'ChatGPT',
-  claude: 'Claude',
-  gemini: 'Gemini',
-  perplexity: 'Perplexity',
-}
+export const platformNames: Record<string, string> = Object.fromEntries(
+  Object.entries(PLATFORM_REGISTRY).map(([id, p]) => [id, p.name])
+)
 
 export const categoryLabels: Record<string, string> = {
   // New research-based categories
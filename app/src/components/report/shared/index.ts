@@ -3,3 +3,4 @@ export * from './constants'
 export * from './utils'
 export * from './FilterButton'
 export * from './EnrichmentLoading'
+export * from './ActionVerification'
@@ -1,6 +1,14 @@
 import type React from 'react'
+import type { MentionEvidence } from '@/lib/ai/brand-matcher'
+import type { RenderComparison } from '@/lib/ai/render'
+import type { AiCrawlerAccess } from '@/lib/ai/robots'
+import type { AiDiscoveryAudit } from '@/lib/ai/llms-txt'
+import type { PageSchemaValidation } from '@/lib/ai/schema-validator'
+import type { TemplateValues } from '@/lib/ai/question-templates'
+import type { AnswerAccuracy, FalseClaim } from '@/lib/ai/fact-sheet'
+import type { RecommendationStrength, SentimentCategory } from '@/lib/ai/sentiment'
 
-export type TabId = 'startHere' | 'setup' | 'readiness' | 'responses' | 'measurements' | 'competitors' | 'brandAwareness' | 'actions' | 'prd'
+export type TabId = 'startHere' | 'setup' | 'readiness' | 'responses' | 'measurements' | 'citations' | 'competitors' | 'brandAwareness' | 'actions' | 'prd'
 
 export interface Tab {
   id: TabId
@@ -16,6 +24,7 @@ export interface Analysis {
   business_name: string | null
   services: string[]
   location: string | null
+  locations?: string[] | null
   target_audience?: string | null
   key_phrases?: string[]
   industry?: string
@@ -25,7 +34,22 @@ export interface Response {
   platform: string
   response_text: string
   domain_mentioned: boolean
-  prompt: { prompt_text: string } | null
+  mention_evidence?: MentionEvidence[] | null
+  mention_rank?: number | null // Place in the answer's recommendation list
+  ranked_count?: number | null
+  sources?: Array<{ url: string; title?: string | null }> | null
+  response_translation?: string | null // English translation for non-English scans
+  sentiment_category?: SentimentCategory | null // How the answer portrays us, when mentioned
+  recommendation_strength?: RecommendationStrength | null
+  sentiment_positive_phrases?: string[] | null
+  sentiment_negative_phrases?: string[] | null
+  prompt: {
+    prompt_text: string
+    prompt_translation?: string | null
+    template_text?: string | null
+    template_values?: TemplateValues | null
+    persona_name?: string | null // Buyer persona the question was asked for
+  } | null
 }
 
 export interface Prompt {
@@ -46,6 +70,10 @@ export interface CrawlData {
   pagesCrawled?: number
   schemaTypes?: string[]
   hasMetaDescriptions?: boolean
+  renderComparison?: RenderComparison | null
+  aiCrawlerAccess?: AiCrawlerAccess[] | null
+  aiDiscovery?: AiDiscoveryAudit | null
+  schemaValidation?: PageSchemaValidation[] | null
 }
 
 export interface PlatformData {
@@ -94,6 +122,8 @@ export interface BrandAwarenessResult {
   confidence_score: number
   compared_to: string | null
   positioning: string | null
+  accuracy?: AnswerAccuracy | null   // Fact check against the brand fact sheet
+  false_claims?: FalseClaim[]
 }
 
 export interface CompetitiveSummary {
@@ -8,11 +8,16 @@ import {
   AlertCircle,
   ChevronDown,
   Eye,
+  EyeOff,
   Sparkles,
-  Lock
+  Lock,
+  Code2
 } from 'lucide-react'
 import Link from 'next/link'
 import type { Analysis, CrawlData, ReadinessCheck } from '../shared'
+import type { RenderComparison } from '@/lib/ai/render'
+import type { PageSchemaValidation } from '@/lib/ai/schema-validator'
+import { isAiCrawlerRestricted } from '@/lib/ai/robots'
 import { handlePricingClick } from '../shared'
 import { UpgradeModal } from '../UpgradeModal'
 
@@ -97,6 +102,31 @@ const readinessChecks: ReadinessCheck[] = [
       return 'fail'
     }
   },
+  {
+    id: 'ai_crawler_access',
+    label: 'AI Crawlers Allowed',
+    description: 'robots.txt lets AI engines like GPTBot, ClaudeBot and PerplexityBot read your site',
+    impact: 'high',
+    check: (_, crawlData) => {
+      if (!crawlData?.aiCrawlerAccess) return 'unknown'
+      if (crawlData.aiCrawlerAccess.some(c => c.status === 'blocked')) return 'fail'
+      if (crawlData.aiCrawlerAccess.some(isAiCrawlerRestricted)) return 'warning'
+      return 'pass'
+    }
+  },
+  {
+    id: 'llms_txt',
+    label: 'llms.txt for AI Assistants',
+    description: 'A /llms.txt file gives AI a curated summary and map of your key pages',
+    impact: 'medium',
+    check: (_, crawlData) => {
+      const llmsTxt = crawlData?.aiDiscovery?.files.find(f => f.kind === 'llms_txt')
+      if (!llmsTxt) return 'unknown'
+      if (llmsTxt.found && llmsTxt.valid) return 'pass'
+      if (llmsTxt.found) return 'warning'
+      return 'fail'
+    }
+  },
   {
     id: 'page_depth',
     label: 'Sufficient Content Depth',
@@ -116,8 +146,10 @@ const readinessChecks: ReadinessCheck[] = [
     impact: 'high',
     check: (_, crawlData) => {
       if (!crawlData) return 'unknown'
-      if (crawlData.schemaTypes && crawlData.schemaTypes.length > 0) return 'pass'
-      return 'fail'
+      if (!crawlData.schemaTypes || crawlData.schemaTypes.length === 0) return 'fail'
+      // Markup with missing required properties or broken values may be ignored
+      if (crawlData.schemaValidation?.some(p => p.errorCount > 0)) return 'warning'
+      return 'pass'
     }
   },
   {
@@ -335,6 +367,16 @@ export function AIReadinessTab({
         </div>
       </div>
 
+      {/* JavaScript-only content (client-side rendered sites) */}
+      {crawlData?.renderComparison && (
+        <RenderComparisonCard comparison={crawlData.renderComparison} />
+      )}
+
+      {/* Per-page JSON-LD findings */}
+      {crawlData?.schemaValidation && crawlData.schemaValidation.length > 0 && (
+        <SchemaValidationCard pages={crawlData.schemaValidation} />
+      )}
+
       {/* What to do */}
       <div className="card" style={{ padding: '32px' }}>
         <h3
@@ -530,10 +572,33 @@ function ReadinessCheckRow({
         return analysis?.key_phrases?.slice(0, 3).join(', ') || null
       case 'sitemap':
         return crawlData?.hasSitemap ? 'Found' : 'Not found'
+      case 'ai_crawler_access': {
+        if (!crawlData?.aiCrawlerAccess) return null
+        const restricted = crawlData.aiCrawlerAccess.filter(isAiCrawlerRestricted)
+        if (restricted.length === 0) return 'All AI crawlers allowed'
+        return restricted
+          .map(c => `${c.agent} (${c.operator}): ${c.status === 'blocked' ? 'entire site' : c.blockedPaths.join(', ')}`)
+          .join(' · ')
+      }
+      case 'llms_txt': {
+        const files = crawlData?.aiDiscovery?.files
+        if (!files) return null
+        const found = files.filter(f => f.found)
+        if (found.length === 0) return 'No AI discovery files found (llms.txt, llms-full.txt, .well-known)'
+        return found
+          .map(f => `${f.path}: ${f.valid ? 'valid' : f.issues.join('; ')}`)
+          .join(' · ')
+      }
       case 'page_depth':
         return crawlData?.pagesCrawled ? `${crawlData.pagesCrawled} pages` : null
-      case 'schema_markup':
-        return crawlData?.schemaTypes?.join(', ') || null
+      case 'schema_markup': {
+        const types = crawlData?.schemaTypes?.join(', ')
+        if (!types) return null
+        const pagesWithErrors = crawlData?.schemaValidation?.filter(p => p.errorCount > 0).length ?? 0
+        return pagesWithErrors > 0
+          ? `${types} · errors on ${pagesWithErrors} page${pagesWithErrors === 1 ? '' : 's'}`
+          : types
+      }
       case 'meta_descriptions':
         return crawlData?.hasMetaDescriptions ? 'Found' : 'Not found'
       default:
@@ -614,3 +679,198 @@ function ReadinessCheckRow({
     </div>
   )
 }
+
+/**
+ * What AI crawlers that don't run JavaScript miss, page by page
+ */
+function RenderComparisonCard({ comparison }: { comparison: RenderComparison }) {
+  const affectedPages = comparison.pages.filter(p =>
+    p.missingWordPercent > 0 || p.missingTitle || p.missingH1 || p.missingHeadings.length > 0 || p.missingSchemaTypes.length > 0
+  )
+  const severityColor = comparison.missingWordPercent >= 50
+    ? 'var(--red)'
+    : comparison.missingWordPercent >= 20 ? 'var(--amber)' : 'var(--green)'
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <h3
+        className="text-[var(--green)] font-mono uppercase tracking-wider"
+        style={{ fontSize: '11px', marginBottom: '20px', letterSpacing: '0.1em' }}
+      >
+        Hidden Without JavaScript
+      </h3>
+
+      <div className="flex items-start" style={{ gap: '16px', marginBottom: '24px' }}>
+        <EyeOff size={20} className="flex-shrink-0" style={{ color: severityColor, marginTop: '2px' }} />
+        <p className="text-[var(--text-mid)] text-sm" style={{ lineHeight: '1.6' }}>
+          Your site builds its content with JavaScript. Many AI crawlers don&apos;t run JavaScript, so they
+          only see the initial HTML. On the {comparison.pages.length} page{comparison.pages.length === 1 ? '' : 's'} we
+          rendered, <strong style={{ color: severityColor }}>{comparison.missingWordPercent}%</strong> of the
+          text ({comparison.renderedWordCount - Math.min(comparison.rawWordCount, comparison.renderedWordCount)} of {comparison.renderedWordCount} words)
+          only appears after JavaScript runs.
+        </p>
+      </div>
+
+      {affectedPages.length === 0 ? (
+        <p className="text-[var(--text-dim)] text-sm">
+          Rendered pages matched the raw HTML - AI crawlers see the same content as visitors.
+        </p>
+      ) : (
+        <div style={{ display: 'grid', gap: '12px' }}>
+          {affectedPages.map(page => {
+            const missingElements = [
+              page.missingTitle && 'title',
+              page.missingDescription && 'meta description',
+              page.missingH1 && 'H1',
+              ...page.missingSchemaTypes.map(type => `${type} schema`),
+            ].filter(Boolean) as string[]
+
+            return (
+              <div
+                key={page.path}
+                className="bg-[var(--surface-elevated)] border border-[var(--border)]"
+                style={{ padding: '16px 20px' }}
+              >
+                <div className="flex items-center justify-between" style={{ marginBottom: '8px' }}>
+                  <span className="font-mono text-sm text-[var(--text)]">{page.path || '/'}</span>
+                  <span className="font-mono text-xs text-[var(--text-dim)]">
+                    {page.rawWordCount} → {page.renderedWordCount} words
+                  </span>
+                </div>
+
+                {missingElements.length > 0 && (
+                  <p className="text-[var(--text-dim)] text-sm" style={{ marginBottom: '6px' }}>
+                    <span className="text-[var(--text-mid)]">Missing without JS:</span> {missingElements.join(', ')}
+                  </p>
+                )}
+
+                {page.missingHeadings.length > 0 && (
+                  <p className="text-[var(--text-dim)] text-sm" style={{ marginBottom: '6px' }}>
+                    <span className="text-[var(--text-mid)]">Headings:</span> {page.missingHeadings.slice(0, 5).join(' | ')}
+                  </p>
+                )}
+
+                {page.missingTextSamples.length > 0 && (
+                  <ul className="text-[var(--text-ghost)] text-sm font-mono" style={{ display: 'grid', gap: '4px', marginTop: '8px' }}>
+                    {page.missingTextSamples.map((sample, i) => (
+                      <li key={i}>&ldquo;{sample}&rdquo;</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Structured data found on each page, with what's missing or broken
+ */
+function SchemaValidationCard({ pages }: { pages: PageSchemaValidation[] }) {
+  const [showAll, setShowAll] = useState(false)
+  const totalErrors = pages.reduce((sum, p) => sum + p.errorCount, 0)
+  const totalWarnings = pages.reduce((sum, p) => sum + p.warningCount, 0)
+  // Pages with errors first, then warnings
+  const sorted = [...pages].sort((a, b) => b.errorCount - a.errorCount || b.warningCount - a.warningCount)
+  const visible = showAll ? sorted : sorted.slice(0, 5)
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <h3
+        className="text-[var(--green)] font-mono uppercase tracking-wider"
+        style={{ fontSize: '11px', marginBottom: '20px', letterSpacing: '0.1em' }}
+      >
+        Structured Data Validation
+      </h3>
+
+      <div className="flex items-start" style={{ gap: '16px', marginBottom: '24px' }}>
+        <Code2
+          size={20}
+          className="flex-shrink-0"
+          style={{ color: totalErrors > 0 ? 'var(--amber)' : 'var(--green)', marginTop: '2px' }}
+        />
+        <p className="text-[var(--text-mid)] text-sm" style={{ lineHeight: '1.6' }}>
+          We checked the JSON-LD on {pages.length} page{pages.length === 1 ? '' : 's'} against schema.org and
+          search engine requirements. {totalErrors > 0
+            ? <>Found <strong style={{ color: 'var(--amber)' }}>{totalErrors} error{totalErrors === 1 ? '' : 's'}</strong> that
+              can stop AI and search engines using your markup, and {totalWarnings} missing recommended
+              propert{totalWarnings === 1 ? 'y' : 'ies'}.</>
+            : totalWarnings > 0
+              ? <>No errors, but {totalWarnings} recommended propert{totalWarnings === 1 ? 'y is' : 'ies are'} missing.</>
+              : 'Everything is valid.'}
+        </p>
+      </div>
+
+      <div style={{ display: 'grid', gap: '12px' }}>
+        {visible.map(page => (
+          <div
+            key={page.url}
+            className="bg-[var(--surface-elevated)] border border-[var(--border)]"
+            style={{ padding: '16px 20px' }}
+          >
+            <div className="flex items-center justify-between flex-wrap" style={{ gap: '8px', marginBottom: '8px' }}>
+              <span className="font-mono text-sm text-[var(--text)]">{page.path || '/'}</span>
+              <span className="font-mono text-xs text-[var(--text-dim)]">{page.types.join(', ') || 'Unparseable'}</span>
+            </div>
+
+            {page.parseErrors > 0 && (
+              <p className="text-sm" style={{ color: 'var(--red)', marginBottom: '6px' }}>
+                {page.parseErrors} JSON-LD block{page.parseErrors === 1 ? ' is' : 's are'} not valid JSON and will be ignored
+              </p>
+            )}
+
+            {page.items.filter(item => item.validatedAs).map((item, i) => (
+              <div key={`${item.type}-${i}`} className="text-sm" style={{ marginBottom: '6px' }}>
+                {item.missingRequired.length === 0 && item.invalidValues.length === 0 && item.missingRecommended.length === 0 ? (
+                  <p className="flex items-center text-[var(--text-dim)]" style={{ gap: '6px' }}>
+                    <CheckCircle2 size={12} className="text-[var(--green)]" />
+                    {item.type}: valid
+                  </p>
+                ) : (
+                  <>
+                    {item.missingRequired.length > 0 && (
+                      <p className="text-[var(--text-dim)]">
+                        <span style={{ color: 'var(--red)' }}>{item.type}</span> missing required: {item.missingRequired.join(', ')}
+                      </p>
+                    )}
+                    {item.invalidValues.map((invalid, j) => (
+                      <p key={j} className="text-[var(--text-dim)]">
+                        <span style={{ color: 'var(--amber)' }}>{item.type}</span> {invalid.property} {invalid.reason}
+                        {invalid.value && <span className="font-mono text-[var(--text-ghost)]"> ({invalid.value})</span>}
+                      </p>
+                    ))}
+                    {item.missingRecommended.length > 0 && (
+                      <p className="text-[var(--text-ghost)]">
+                        {item.type} recommended: {item.missingRecommended.join(', ')}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+
+            {page.linkageIssues.map((issue, i) => (
+              <p key={i} className="text-sm text-[var(--text-dim)]" style={{ marginBottom: '6px' }}>
+                <span style={{ color: 'var(--amber)' }}>Linking:</span> {issue}
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {sorted.length > 5 && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="flex items-center font-mono text-xs text-[var(--text-dim)] hover:text-[var(--text)] transition-colors"
+          style={{ gap: '6px', marginTop: '16px' }}
+        >
+          <ChevronDown size={14} style={{ transform: showAll ? 'rotate(180deg)' : undefined }} />
+          {showAll ? 'Show fewer pages' : `Show all ${sorted.length} pages`}
+        </button>
+      )}
+    </div>
+  )
+}
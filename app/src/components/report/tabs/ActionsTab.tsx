@@ -19,7 +19,10 @@ import {
   ArrowRight,
 } from 'lucide-react'
 import { EnrichmentLoading } from '../shared/EnrichmentLoading'
+import { ExpectationList, VerificationResult } from '../shared/ActionVerification'
+import type { ActionExpectation, ExpectationResult, VerificationStatus } from '@/lib/ai/action-expectations'
 import { UpgradeModal } from '../UpgradeModal'
+import { LlmsTxtCard } from '../LlmsTxtCard'
 
 type EnrichmentStatus = 'pending' | 'processing' | 'complete' | 'failed' | 'not_applicable'
 
@@ -39,6 +42,7 @@ interface ActionItem {
   consensus: string[] | null
   implementation_steps: string[] | null
   expected_outcome: string | null
+  expectations?: ActionExpectation[] | null
   status: 'pending' | 'in_progress' | 'completed' | 'dismissed'
   sort_order: number
 }
@@ -49,6 +53,9 @@ interface PageEdit {
   metaDescription: string | null
   h1Change: string
   contentToAdd: string | null
+  expectations?: ActionExpectation[]
+  verificationStatus?: VerificationStatus | null
+  verificationEvidence?: ExpectationResult[] | null
 }
 
 interface KeywordEntry {
@@ -80,6 +87,10 @@ interface ActionHistoryItem {
   description: string
   category: string | null
   completed_at: string
+  verified_at?: string | null     // A later scan confirmed the change on the site
+  verified_change?: string | null
+  verification_status?: VerificationStatus | null  // From the action's expectations, re-checked every scan
+  verification_evidence?: ExpectationResult[] | null
 }
 
 type Tier = 'free' | 'starter' | 'pro' | 'agency'
@@ -514,6 +525,9 @@ export function ActionsTab({ runId, domainSubscriptionId, enrichmentStatus = 'no
         )}
       </div>
 
+      {/* Generated llms.txt */}
+      <LlmsTxtCard runId={plan.run_id} />
+
       {/* Page Edits Section */}
       {plan.page_edits && plan.page_edits.length > 0 && (
         <CollapsibleSection
@@ -539,9 +553,12 @@ export function ActionsTab({ runId, domainSubscriptionId, enrichmentStatus = 'no
                 className="bg-[var(--surface-elevated)] border border-[var(--border)]"
                 style={{ padding: '16px 20px' }}
               >
-                <div className="flex items-center gap-2" style={{ marginBottom: '16px' }}>
-                  <span className="text-sm font-medium text-[var(--text)]">Page: </span>
-                  <span className="text-sm text-[var(--gold)]">{edit.page}</span>
+                <div style={{ marginBottom: '16px' }}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-[var(--text)]">Page: </span>
+                    <span className="text-sm text-[var(--gold)]">{edit.page}</span>
+                  </div>
+                  <VerificationResult status={edit.verificationStatus} evidence={edit.verificationEvidence} />
                 </div>
                 {edit.metaTitle && (
                   <div className="bg-[var(--surface)]" style={{ marginBottom: '12px', padding: '12px', borderRadius: '4px' }}>
@@ -675,6 +692,7 @@ export function ActionsTab({ runId, domainSubscriptionId, enrichmentStatus = 'no
           >
             <p className="text-[var(--text-mid)] text-sm" style={{ lineHeight: '1.6' }}>
               Actions you've completed are tracked here. Similar recommendations won't be regenerated in future scans.
+              Each scan re-checks your site and flags anything that has been undone.
             </p>
           </div>
 
@@ -701,6 +719,14 @@ export function ActionsTab({ runId, domainSubscriptionId, enrichmentStatus = 'no
                         Completed {formatDate(item.completed_at)}
                       </p>
                     )}
+                    {item.verification_status ? (
+                      <VerificationResult status={item.verification_status} evidence={item.verification_evidence} />
+                    ) : item.verified_at && (
+                      <p className="text-[var(--green)] text-xs" style={{ marginTop: '4px' }} title={item.verified_change || undefined}>
+                        Verified on your site {formatDate(item.verified_at)}
+                        {item.verified_change && <span className="text-[var(--text-ghost)]"> — {item.verified_change}</span>}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -973,6 +999,19 @@ function ActionCard({
             </div>
           )}
 
+          {/* How we'll check - expectations the next scan verifies */}
+          {action.expectations && action.expectations.length > 0 && (
+            <div style={{ marginBottom: '20px' }}>
+              <h5 className="text-[var(--text-dim)] text-xs font-mono uppercase" style={{ marginBottom: '8px' }}>
+                How we'll check
+              </h5>
+              <ExpectationList expectations={action.expectations} />
+              <p className="text-[var(--text-ghost)] text-xs" style={{ marginTop: '6px' }}>
+                Mark this done and your next scan confirms it on your site.
+              </p>
+            </div>
+          )}
+
           {/* Expected result - highlighted as the payoff */}
           {action.expected_outcome && (
             <div
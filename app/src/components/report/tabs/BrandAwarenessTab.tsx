@@ -1,9 +1,17 @@
 'use client'
 
-import { useState } from 'react'
-import { Brain, Filter, CheckCircle2, XCircle, AlertCircle, Lock, Eye, Target, Sparkles } from 'lucide-react'
+import { useState, useEffect } from 'react'
+import { Brain, Filter, CheckCircle2, XCircle, AlertCircle, Lock, Eye, Target, Sparkles, ShieldAlert, Loader2 } from 'lucide-react'
 import type { Analysis, BrandAwarenessResult } from '../shared'
 import { platformColors, platformNames, formatResponseText, FilterButton, EnrichmentLoading } from '../shared'
+import type { AnswerAccuracy, BrandFactSheet, FalseClaim } from '@/lib/ai/fact-sheet'
+
+const accuracyLabels: Record<AnswerAccuracy, { label: string; color: string }> = {
+  correct: { label: 'Accurate', color: 'var(--green)' },
+  outdated: { label: 'Outdated', color: 'var(--amber)' },
+  wrong: { label: 'Wrong', color: 'var(--red)' },
+  fabricated: { label: 'Fabricated', color: 'var(--red)' },
+}
 
 type EnrichmentStatus = 'pending' | 'processing' | 'complete' | 'failed' | 'not_applicable'
 
@@ -18,6 +26,7 @@ export function BrandAwarenessTab({
   enrichmentStatus = 'not_applicable',
   runId,
   blurContent,
+  domainSubscriptionId,
 }: {
   brandAwareness?: BrandAwarenessResult[] | null
   analysis: Analysis | null
@@ -30,6 +39,7 @@ export function BrandAwarenessTab({
   runId?: string
   /** Whether to blur/hide content - defaults to !isSubscriber if not provided */
   blurContent?: boolean
+  domainSubscriptionId?: string | null
 }) {
   // Resolve blur state - use explicit prop or fall back to subscriber check
   const shouldBlur = blurContent ?? !isSubscriber
@@ -277,6 +287,9 @@ export function BrandAwarenessTab({
     .filter(([_, results]) => !results.some(r => r.attribute_mentioned))
     .map(([service]) => service)
 
+  // Fact-checked answers (brand recall and service checks the platform could answer)
+  const factChecked = [...brandRecallResults, ...serviceCheckResults].filter(r => r.accuracy)
+
   return (
     <div style={{ display: 'grid', gap: '32px' }}>
       {/* Methodology Explainer */}
@@ -370,6 +383,19 @@ export function BrandAwarenessTab({
                   </span>
                 </div>
                 <div className="flex items-center" style={{ gap: '8px' }}>
+                  {result.accuracy && (
+                    <span
+                      className="font-mono text-xs border"
+                      style={{
+                        padding: '2px 8px',
+                        marginRight: '8px',
+                        color: accuracyLabels[result.accuracy].color,
+                        borderColor: accuracyLabels[result.accuracy].color,
+                      }}
+                    >
+                      {accuracyLabels[result.accuracy].label}
+                    </span>
+                  )}
                   {result.entity_recognized ? (
                     <>
                       <CheckCircle2 size={16} className="text-[var(--green)]" />
@@ -417,6 +443,9 @@ export function BrandAwarenessTab({
         </div>
       </div>
 
+      {/* AI Misinformation Section */}
+      {factChecked.length > 0 && <AiMisinformationCard results={factChecked} />}
+
       {/* Service Knowledge Section */}
       {servicesByName.size > 0 && (
         <div className="card" style={{ padding: '32px' }}>
@@ -523,6 +552,9 @@ export function BrandAwarenessTab({
         </div>
       )}
 
+      {/* Fact Sheet (ground truth for the fact check) */}
+      {domainSubscriptionId && <FactSheetEditor domainSubscriptionId={domainSubscriptionId} />}
+
       {/* Why Brand Awareness Matters */}
       <div className="card" style={{ padding: '32px' }}>
         <h3
@@ -541,3 +573,314 @@ export function BrandAwarenessTab({
     </div>
   )
 }
+
+function AiMisinformationCard({ results }: { results: BrandAwarenessResult[] }) {
+  const byPlatform = new Map<string, BrandAwarenessResult[]>()
+  for (const result of results) {
+    byPlatform.set(result.platform, [...(byPlatform.get(result.platform) || []), result])
+  }
+
+  const falseClaimCount = results.reduce((sum, r) => sum + (r.false_claims?.length || 0), 0)
+  const accurateCount = results.filter(r => r.accuracy === 'correct').length
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between" style={{ marginBottom: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          AI Misinformation
+        </h3>
+        <span className="font-mono text-[var(--text-mid)]">
+          {accurateCount}/{results.length} answers accurate
+        </span>
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ marginBottom: '24px', lineHeight: '1.6' }}>
+        What each AI said about your business, checked against your fact sheet. Outdated or wrong details here are
+        what people hear when they ask about you.
+      </p>
+
+      {falseClaimCount === 0 ? (
+        <div className="flex items-center text-sm text-[var(--green)]" style={{ gap: '8px' }}>
+          <CheckCircle2 size={16} />
+          No false claims found
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gap: '16px' }}>
+          {[...byPlatform.entries()].map(([platform, platformResults]) => {
+            const claims = platformResults.flatMap(r =>
+              (r.false_claims || []).map(claim => ({ claim, service: r.query_type === 'service_check' ? r.tested_attribute : null }))
+            )
+            return (
+              <div
+                key={platform}
+                className="bg-[var(--surface-elevated)] border border-[var(--border)]"
+                style={{ padding: '20px' }}
+              >
+                <div className="flex items-center justify-between" style={{ marginBottom: claims.length > 0 ? '16px' : '0' }}>
+                  <div className="flex items-center" style={{ gap: '12px' }}>
+                    <span
+                      style={{
+                        width: '10px',
+                        height: '10px',
+                        backgroundColor: platformColors[platform] || 'var(--text-dim)',
+                      }}
+                    />
+                    <span className="font-mono text-sm text-[var(--text)]">
+                      {platformNames[platform] || platform}
+                    </span>
+                  </div>
+                  <span
+                    className="font-mono text-xs"
+                    style={{ color: claims.length > 0 ? 'var(--red)' : 'var(--green)' }}
+                  >
+                    {claims.length > 0 ? `${claims.length} false claim${claims.length === 1 ? '' : 's'}` : 'Accurate'}
+                  </span>
+                </div>
+
+                {claims.length > 0 && (
+                  <div style={{ display: 'grid', gap: '12px' }}>
+                    {claims.map(({ claim, service }, index) => (
+                      <FalseClaimRow key={index} claim={claim} service={service} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function FalseClaimRow({ claim, service }: { claim: FalseClaim; service: string | null }) {
+  const { label, color } = accuracyLabels[claim.verdict]
+
+  return (
+    <div className="flex items-start border-t border-[var(--border-subtle)]" style={{ gap: '12px', paddingTop: '12px' }}>
+      <ShieldAlert size={16} className="flex-shrink-0" style={{ color, marginTop: '2px' }} />
+      <div className="text-sm" style={{ lineHeight: '1.6' }}>
+        <div className="flex items-center flex-wrap" style={{ gap: '8px', marginBottom: '4px' }}>
+          <span className="font-mono text-xs" style={{ color }}>{label.toUpperCase()}</span>
+          <span className="font-mono text-xs text-[var(--text-ghost)]">
+            {claim.topic}{service ? ` · ${service}` : ''}
+          </span>
+        </div>
+        <p className="text-[var(--text)]">&ldquo;{claim.claim}&rdquo;</p>
+        {claim.fact && (
+          <p className="text-[var(--text-dim)]">
+            Actually: <span className="text-[var(--text-mid)]">{claim.fact}</span>
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function FactSheetEditor({ domainSubscriptionId }: { domainSubscriptionId: string }) {
+  const [factSheet, setFactSheet] = useState<BrandFactSheet | null>(null)
+  const [form, setForm] = useState({
+    business_name: '',
+    address: '',
+    founded_year: '',
+    services: '',
+    pricing: '',
+    people: '',
+    notes: '',
+  })
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  function loadForm(sheet: BrandFactSheet | null) {
+    setFactSheet(sheet)
+    setForm({
+      business_name: sheet?.business_name || '',
+      address: sheet?.address || '',
+      founded_year: sheet?.founded_year ? String(sheet.founded_year) : '',
+      services: (sheet?.services || []).join('\n'),
+      pricing: sheet?.pricing || '',
+      people: (sheet?.people || []).map(p => `${p.name} - ${p.role}`).join('\n'),
+      notes: sheet?.notes || '',
+    })
+  }
+
+  useEffect(() => {
+    async function fetchFactSheet() {
+      try {
+        const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/fact-sheet`)
+        if (res.ok) {
+          const data = await res.json()
+          loadForm(data.factSheet)
+        }
+      } catch (err) {
+        console.error('Failed to fetch fact sheet:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchFactSheet()
+  }, [domainSubscriptionId])
+
+  async function save() {
+    setIsSaving(true)
+    setError(null)
+    setSaved(false)
+
+    const lines = (value: string) => value.split('\n').map(l => l.trim()).filter(Boolean)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/fact-sheet`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          business_name: form.business_name,
+          address: form.address,
+          founded_year: form.founded_year ? Number(form.founded_year) : null,
+          services: lines(form.services),
+          pricing: form.pricing,
+          people: lines(form.people).map(line => {
+            const [name, ...role] = line.split(/\s+[-–—]\s+/)
+            return { name: name.trim(), role: role.join(' - ').trim() || 'Staff' }
+          }),
+          notes: form.notes,
+        }),
+      })
+
+      const data = await res.json()
+      if (res.ok) {
+        loadForm(data.factSheet)
+        setSaved(true)
+      } else {
+        setError(data.error || 'Failed to save fact sheet')
+      }
+    } catch (err) {
+      setError('Failed to save fact sheet')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function reset() {
+    setIsSaving(true)
+    setError(null)
+    setSaved(false)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/fact-sheet`, { method: 'DELETE' })
+      const data = await res.json()
+      if (res.ok) {
+        loadForm(data.factSheet)
+      } else {
+        setError(data.error || 'Failed to reset fact sheet')
+      }
+    } catch (err) {
+      setError('Failed to reset fact sheet')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const field = (key: keyof typeof form, label: string, options: { multiline?: boolean; placeholder?: string } = {}) => (
+    <label className="block">
+      <span className="block font-mono text-xs text-[var(--text-dim)]" style={{ marginBottom: '6px' }}>{label}</span>
+      {options.multiline ? (
+        <textarea
+          value={form[key]}
+          onChange={e => { setForm({ ...form, [key]: e.target.value }); setSaved(false) }}
+          placeholder={options.placeholder}
+          rows={4}
+          className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+          style={{ padding: '8px 12px' }}
+        />
+      ) : (
+        <input
+          value={form[key]}
+          onChange={e => { setForm({ ...form, [key]: e.target.value }); setSaved(false) }}
+          placeholder={options.placeholder}
+          className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+          style={{ padding: '8px 12px' }}
+        />
+      )}
+    </label>
+  )
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between" style={{ marginBottom: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          Your Fact Sheet
+        </h3>
+        {factSheet && (
+          <span className="font-mono text-xs text-[var(--text-dim)]">
+            {factSheet.edited_by_user ? 'Edited by you' : 'Built from your site'}
+          </span>
+        )}
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ marginBottom: '24px', lineHeight: '1.6' }}>
+        AI answers about your business are checked against these facts. We build them from your site&apos;s content and
+        schema markup - correct anything that&apos;s missing or wrong. Changes apply from the next scan.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center text-[var(--text-dim)] text-sm" style={{ gap: '8px' }}>
+          <Loader2 size={16} className="animate-spin" />
+          Loading fact sheet...
+        </div>
+      ) : (
+        <>
+          <div className="grid sm:grid-cols-2" style={{ gap: '16px', marginBottom: '16px' }}>
+            {field('business_name', 'Business name')}
+            {field('founded_year', 'Year founded', { placeholder: 'e.g. 2012' })}
+            {field('address', 'Address')}
+            {field('pricing', 'Pricing', { placeholder: 'e.g. From $99/month' })}
+            {field('services', 'Services (one per line)', { multiline: true })}
+            {field('people', 'People (one per line, "Name - Role")', { multiline: true, placeholder: 'Jane Smith - Founder' })}
+          </div>
+          {field('notes', 'Anything else AI should get right', {
+            multiline: true,
+            placeholder: 'e.g. We moved from Fitzroy to Collingwood in 2023. We no longer offer printing.',
+          })}
+
+          {error && (
+            <div
+              className="flex items-center text-sm text-[var(--red)] bg-[var(--red)]/10 border border-[var(--red)]/20"
+              style={{ padding: '12px 16px', marginTop: '16px', gap: '8px' }}
+            >
+              <AlertCircle size={16} />
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center" style={{ gap: '16px', marginTop: '20px' }}>
+            <button
+              onClick={save}
+              disabled={isSaving}
+              className="bg-[var(--green)] text-[var(--bg)] font-mono text-sm disabled:opacity-50"
+              style={{ padding: '8px 16px' }}
+            >
+              {isSaving ? 'Saving...' : 'Save fact sheet'}
+            </button>
+            {factSheet?.edited_by_user && (
+              <button
+                onClick={reset}
+                disabled={isSaving}
+                className="text-[var(--text-dim)] font-mono text-xs hover:underline disabled:opacity-50"
+              >
+                Rebuild from site on next scan
+              </button>
+            )}
+            {saved && <span className="text-[var(--green)] font-mono text-xs">Saved</span>}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
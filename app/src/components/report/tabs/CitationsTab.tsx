@@ -0,0 +1,314 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Link2, ExternalLink, Lock, Globe } from 'lucide-react'
+import { MultiLineTrendChart } from '../TrendChart'
+import type { Response, Competitor } from '../shared'
+import { platformColors, platformNames } from '../shared'
+import { aggregateCitations, findCitationOpportunities, type CitationCategory, type CitationSnapshot } from '@/lib/ai/citations'
+
+interface CitationTrendSnapshot {
+  recorded_at: string
+  citation_stats: CitationSnapshot | null
+}
+
+const categoryStyles: Record<CitationCategory, { label: string; color: string }> = {
+  own: { label: 'Your site', color: 'var(--green)' },
+  competitor: { label: 'Competitor', color: 'var(--red)' },
+  directory: { label: 'Directory', color: 'var(--blue)' },
+  review: { label: 'Review site', color: 'var(--amber)' },
+  forum: { label: 'Forum', color: 'var(--gold)' },
+  social: { label: 'Social', color: 'var(--text-mid)' },
+  reference: { label: 'Reference', color: 'var(--text-mid)' },
+  news: { label: 'News & media', color: 'var(--text-mid)' },
+  other: { label: 'Other', color: 'var(--text-dim)' },
+}
+
+function CategoryChip({ category }: { category: CitationCategory }) {
+  const style = categoryStyles[category]
+  return (
+    <span
+      className="font-mono uppercase"
+      style={{
+        fontSize: '10px',
+        letterSpacing: '0.05em',
+        padding: '2px 8px',
+        color: style.color,
+        border: `1px solid ${style.color}`,
+        opacity: 0.9,
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {style.label}
+    </span>
+  )
+}
+
+function StatCard({ label, value, detail, color }: { label: string; value: string; detail?: string; color?: string }) {
+  return (
+    <div className="card" style={{ padding: '20px 24px' }}>
+      <div className="text-[var(--text-dim)] font-mono uppercase" style={{ fontSize: '10px', letterSpacing: '0.05em', marginBottom: '8px' }}>
+        {label}
+      </div>
+      <div className="font-mono" style={{ fontSize: '28px', color: color || 'var(--text)' }}>
+        {value}
+      </div>
+      {detail && (
+        <div className="text-[var(--text-dim)] font-mono text-xs" style={{ marginTop: '4px' }}>
+          {detail}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function CitationsTab({
+  responses,
+  domain,
+  competitors = [],
+  domainSubscriptionId,
+  isSubscriber = false,
+}: {
+  responses: Response[] | null
+  domain: string
+  competitors?: Competitor[]
+  domainSubscriptionId?: string | null
+  isSubscriber?: boolean
+}) {
+  const [trendData, setTrendData] = useState<CitationTrendSnapshot[]>([])
+  const [showAllDomains, setShowAllDomains] = useState(false)
+
+  const summary = useMemo(
+    () => aggregateCitations(responses || [], domain, competitors.map(c => c.name)),
+    [responses, domain, competitors]
+  )
+  const opportunities = useMemo(() => findCitationOpportunities(summary, 5), [summary])
+
+  // Fetch citation history for subscribers
+  useEffect(() => {
+    if (!isSubscriber) return
+
+    const fetchTrends = async () => {
+      try {
+        const params = new URLSearchParams({ limit: '12' })
+        if (domainSubscriptionId) {
+          params.set('domain_subscription_id', domainSubscriptionId)
+        }
+        const res = await fetch(`/api/trends?${params}`)
+        if (res.ok) {
+          const data = await res.json()
+          setTrendData(data.snapshots || [])
+        }
+      } catch (error) {
+        console.error('Error fetching citation trends:', error)
+      }
+    }
+
+    fetchTrends()
+  }, [isSubscriber, domainSubscriptionId])
+
+  // Share of citations over time (snapshots recorded before citation tracking are skipped)
+  const trendSeries = useMemo(() => {
+    const withStats = trendData.filter(s => s.citation_stats && s.citation_stats.total > 0)
+    const share = (s: CitationTrendSnapshot, key: 'own' | 'competitor' | 'thirdParty') =>
+      Math.round((s.citation_stats![key] / s.citation_stats!.total) * 100)
+
+    return [
+      { key: 'own', name: 'Your site', color: '#22c55e', isOverall: true, data: withStats.map(s => ({ date: s.recorded_at, value: share(s, 'own') })) },
+      { key: 'competitor', name: 'Competitors', color: '#ef4444', data: withStats.map(s => ({ date: s.recorded_at, value: share(s, 'competitor') })) },
+      { key: 'thirdParty', name: 'Third parties', color: '#3b82f6', data: withStats.map(s => ({ date: s.recorded_at, value: share(s, 'thirdParty') })) },
+    ]
+  }, [trendData])
+
+  if (!responses || responses.length === 0 || summary.totalCitations === 0) {
+    return (
+      <div className="text-center text-[var(--text-dim)]" style={{ padding: '80px 0' }}>
+        <Link2 size={48} className="mx-auto mb-4 opacity-30" />
+        <p>No citations recorded for this scan</p>
+      </div>
+    )
+  }
+
+  const percent = (count: number) =>
+    summary.totalCitations > 0 ? Math.round((count / summary.totalCitations) * 100) : 0
+  const visibleDomains = showAllDomains ? summary.domains : summary.domains.slice(0, 10)
+
+  return (
+    <div style={{ display: 'grid', gap: '32px' }}>
+      {/* Description Box */}
+      <div
+        className="bg-[var(--surface-elevated)] border border-[var(--border)]"
+        style={{ padding: '20px 24px' }}
+      >
+        <div className="flex items-start" style={{ gap: '16px' }}>
+          <Link2 size={20} className="text-[var(--green)] flex-shrink-0" style={{ marginTop: '2px' }} />
+          <p className="text-[var(--text-mid)] text-sm" style={{ lineHeight: '1.6' }}>
+            <strong className="text-[var(--text)]">Where AI gets its answers:</strong> These are the websites AI assistants cited
+            when answering your questions. Sites that keep appearing are the sources AI trusts for your market — being listed
+            on them is one of the fastest ways into future answers.
+          </p>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4" style={{ gap: '16px' }}>
+        <StatCard
+          label="Citations"
+          value={String(summary.totalCitations)}
+          detail={`${summary.responsesWithCitations} of ${summary.totalResponses} answers cited sources`}
+        />
+        <StatCard
+          label="Your site"
+          value={`${percent(summary.ownCitations)}%`}
+          detail={`${summary.ownCitations} citation${summary.ownCitations === 1 ? '' : 's'}`}
+          color="var(--green)"
+        />
+        <StatCard
+          label="Competitors"
+          value={`${percent(summary.competitorCitations)}%`}
+          detail={`${summary.competitorCitations} citation${summary.competitorCitations === 1 ? '' : 's'}`}
+          color="var(--red)"
+        />
+        <StatCard
+          label="Third parties"
+          value={`${percent(summary.thirdPartyCitations)}%`}
+          detail="Directories, reviews, forums, media"
+          color="var(--blue)"
+        />
+      </div>
+
+      {/* Most cited domains */}
+      <div className="card" style={{ padding: '32px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em', marginBottom: '24px' }}
+        >
+          Most Cited Domains
+        </h3>
+
+        <div style={{ display: 'grid', gap: '2px' }}>
+          {visibleDomains.map(d => (
+            <div
+              key={d.host}
+              className="flex items-center justify-between border-b border-[var(--border-subtle)]"
+              style={{ padding: '10px 0', gap: '16px' }}
+            >
+              <div className="flex items-center" style={{ gap: '12px', minWidth: 0 }}>
+                <Globe size={14} className="text-[var(--text-ghost)] flex-shrink-0" />
+                <span
+                  className="font-mono text-sm truncate"
+                  style={{ color: d.category === 'own' ? 'var(--green)' : 'var(--text)' }}
+                >
+                  {d.host}
+                </span>
+                <CategoryChip category={d.category} />
+              </div>
+              <div className="flex items-center flex-shrink-0" style={{ gap: '16px' }}>
+                <div className="flex items-center" style={{ gap: '4px' }}>
+                  {d.platforms.map(p => (
+                    <div
+                      key={p}
+                      title={platformNames[p] || p}
+                      style={{ width: '8px', height: '8px', backgroundColor: platformColors[p] || 'var(--text-dim)' }}
+                    />
+                  ))}
+                </div>
+                <span className="text-[var(--text-dim)] font-mono text-xs" style={{ minWidth: '72px', textAlign: 'right' }}>
+                  {d.count} citation{d.count === 1 ? '' : 's'}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {summary.domains.length > 10 && (
+          <button
+            onClick={() => setShowAllDomains(!showAllDomains)}
+            className="text-[var(--green)] font-mono text-sm hover:underline"
+            style={{ marginTop: '16px' }}
+          >
+            {showAllDomains ? 'Show fewer' : `Show all ${summary.domains.length} domains`}
+          </button>
+        )}
+      </div>
+
+      {/* Recurring third-party pages */}
+      {(summary.pages.length > 0 || opportunities.length > 0) && (
+        <div className="card" style={{ padding: '32px' }}>
+          <h3
+            className="text-[var(--green)] font-mono uppercase tracking-wider"
+            style={{ fontSize: '11px', letterSpacing: '0.1em', marginBottom: '8px' }}
+          >
+            Pages AI Keeps Citing
+          </h3>
+          <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.6', marginBottom: '24px' }}>
+            Third-party pages cited in more than one answer. Getting listed, reviewed or mentioned here puts you
+            in front of AI when it next answers these questions.
+          </p>
+
+          <div style={{ display: 'grid', gap: '12px' }}>
+            {summary.pages.map(page => (
+              <a
+                key={page.url}
+                href={page.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center justify-between bg-[var(--surface-elevated)] border border-[var(--border)] hover:border-[var(--green)] transition-colors"
+                style={{ padding: '14px 16px', gap: '16px' }}
+              >
+                <div style={{ minWidth: 0 }}>
+                  <div className="text-[var(--text)] text-sm truncate">{page.title || page.url}</div>
+                  <div className="text-[var(--text-ghost)] font-mono text-xs truncate" style={{ marginTop: '2px' }}>
+                    {page.host}
+                  </div>
+                </div>
+                <div className="flex items-center flex-shrink-0" style={{ gap: '12px' }}>
+                  <CategoryChip category={page.category} />
+                  <span className="text-[var(--text-dim)] font-mono text-xs">{page.count}×</span>
+                  <ExternalLink size={14} className="text-[var(--text-ghost)]" />
+                </div>
+              </a>
+            ))}
+            {summary.pages.length === 0 && opportunities.map(o => (
+              <div
+                key={o.host}
+                className="flex items-center justify-between bg-[var(--surface-elevated)] border border-[var(--border)]"
+                style={{ padding: '14px 16px', gap: '16px' }}
+              >
+                <span className="font-mono text-sm text-[var(--text)]">{o.host}</span>
+                <div className="flex items-center" style={{ gap: '12px' }}>
+                  <CategoryChip category={o.category} />
+                  <span className="text-[var(--text-dim)] font-mono text-xs">{o.count}×</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Citation share over time */}
+      <div className="card" style={{ padding: '32px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em', marginBottom: '24px' }}
+        >
+          Citation Share Over Time
+        </h3>
+        {isSubscriber ? (
+          trendSeries[0].data.length >= 2 ? (
+            <MultiLineTrendChart series={trendSeries} height={240} defaultToMovingAverage={false} />
+          ) : (
+            <p className="text-[var(--text-dim)] text-sm">
+              Citation trends appear after your next weekly scan.
+            </p>
+          )
+        ) : (
+          <div className="flex items-center text-[var(--text-dim)] text-sm" style={{ gap: '10px' }}>
+            <Lock size={14} className="text-[var(--gold)]" />
+            Subscribers see how their share of citations changes week to week.
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
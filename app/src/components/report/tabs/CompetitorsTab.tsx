@@ -2,15 +2,30 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { Users, Lock, Sparkles, CheckCircle2, XCircle, AlertCircle, Plus, Minus, Loader2, X, ChevronDown, Download } from 'lucide-react'
-import type { Competitor, Analysis, Response, BrandAwarenessResult, CompetitiveSummary } from '../shared'
+import type { Competitor, Analysis, Response, BrandAwarenessResult, CompetitiveSummary, CrawlData, PlatformData } from '../shared'
 import { platformColors, platformNames, formatResponseText, FilterButton } from '../shared'
-
-type PlatformFilter = 'all' | 'chatgpt' | 'claude' | 'gemini' | 'perplexity'
+import { ALL_PLATFORMS, type SearchPlatform } from '@/lib/ai/platforms'
+import { shareOf, questionsLostTo, type ShareOfVoice, type HeadToHeadCell } from '@/lib/ai/share-of-voice'
+import type { CompetitorEntity } from '@/lib/ai/competitor-entities'
+import {
+  SITE_READINESS_CHECKS,
+  COMPETITOR_CRAWL_MAX_PAGES,
+  competitorReadinessInput,
+  readinessScore,
+  type CompetitorSiteScan,
+  type SiteReadinessInput,
+  type SiteTechStack,
+  type ReadinessStatus,
+} from '@/lib/ai/competitor-sites'
+import { MultiLineTrendChart, type MultiLineSeries } from '../TrendChart'
+
+type PlatformFilter = 'all' | SearchPlatform
 
 interface SubscriberCompetitor {
   id: string
   lead_id: string
   name: string
+  domain: string | null
   source: 'detected' | 'user_added'
   is_active: boolean
   created_at: string
@@ -60,7 +75,7 @@ function PositioningMatrix({
   const [isVisible, setIsVisible] = useState(false)
   const [animatedCells, setAnimatedCells] = useState<Set<string>>(new Set())
 
-  const platforms = ['chatgpt', 'claude', 'gemini', 'perplexity'] as const
+  const platforms = ALL_PLATFORMS
   const competitorNames = [...resultsByCompetitor.keys()]
 
   // Calculate summary stats
@@ -302,6 +317,822 @@ function PositioningMatrix({
   )
 }
 
+function ReadinessIcon({ status }: { status: ReadinessStatus }) {
+  if (status === 'pass') return <CheckCircle2 size={14} className="text-[var(--green)]" />
+  if (status === 'warning') return <AlertCircle size={14} className="text-[var(--amber)]" />
+  if (status === 'fail') return <XCircle size={14} className="text-[var(--red)]" />
+  return <span className="text-[var(--text-ghost)] text-xs">—</span>
+}
+
+/**
+ * Our site next to each tracked competitor's: crawl-based readiness, schema
+ * coverage and tech stack. Subscribers turn the crawl on and set each
+ * competitor's website here
+ */
+function CompetitorSitesCard({
+  competitorSites,
+  crawlData,
+  platformData,
+  domain,
+  domainSubscriptionId,
+  isSubscriber,
+}: {
+  competitorSites: CompetitorSiteScan[]
+  crawlData?: CrawlData
+  platformData?: PlatformData | null
+  domain: string
+  domainSubscriptionId?: string | null
+  isSubscriber: boolean
+}) {
+  const [enabled, setEnabled] = useState(false)
+  const [tracked, setTracked] = useState<SubscriberCompetitor[]>([])
+  const [domainDrafts, setDomainDrafts] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isSubscriber || !domainSubscriptionId) return
+
+    const fetchSettings = async () => {
+      try {
+        const [subscriptionRes, competitorsRes] = await Promise.all([
+          fetch(`/api/subscriptions/${domainSubscriptionId}`),
+          fetch(`/api/competitors?domain_subscription_id=${domainSubscriptionId}`),
+        ])
+        if (subscriptionRes.ok) {
+          const data = await subscriptionRes.json()
+          setEnabled(data.subscription?.scan_competitor_sites === true)
+        }
+        if (competitorsRes.ok) {
+          const data = await competitorsRes.json()
+          const active = ((data.competitors || []) as SubscriberCompetitor[]).filter(c => c.is_active)
+          setTracked(active)
+          setDomainDrafts(Object.fromEntries(active.map(c => [c.id, c.domain || ''])))
+        }
+      } catch (err) {
+        console.error('Failed to fetch competitor site settings:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchSettings()
+  }, [isSubscriber, domainSubscriptionId])
+
+  const toggleEnabled = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scan_competitor_sites: !enabled }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to update setting')
+      }
+      setEnabled(!enabled)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update setting')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const saveDomain = async (competitor: SubscriberCompetitor) => {
+    const value = (domainDrafts[competitor.id] || '').trim()
+    if (value === (competitor.domain || '')) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/competitors/${competitor.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain: value || null, domain_subscription_id: domainSubscriptionId }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save website')
+
+      setTracked(prev => prev.map(c => c.id === competitor.id ? data.competitor : c))
+      setDomainDrafts(prev => ({ ...prev, [competitor.id]: data.competitor.domain || '' }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save website')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isSubscriber || !domainSubscriptionId) return null
+
+  const ourSite: SiteReadinessInput = {
+    hasSitemap: crawlData?.hasSitemap,
+    pagesCrawled: crawlData?.pagesCrawled,
+    schemaTypes: crawlData?.schemaTypes,
+    schemaErrorPages: crawlData?.schemaValidation?.filter(p => p.errorCount > 0).length,
+    hasMetaDescriptions: crawlData?.hasMetaDescriptions,
+    aiCrawlerAccess: crawlData?.aiCrawlerAccess,
+    aiDiscovery: crawlData?.aiDiscovery,
+    rendersClientSide: platformData?.renders_client_side,
+  }
+  const ourStack: SiteTechStack | null = platformData ? {
+    cms: platformData.detected_cms && platformData.detected_cms !== 'unknown' ? platformData.detected_cms : null,
+    framework: platformData.detected_framework ?? null,
+    cssFramework: platformData.detected_css_framework ?? null,
+    hosting: platformData.detected_hosting ?? null,
+    ecommerce: platformData.detected_ecommerce ?? null,
+    analytics: platformData.detected_analytics ?? [],
+    rendersClientSide: platformData.renders_client_side ?? false,
+  } : null
+
+  const columns = [
+    { key: 'you', label: domain, isUser: true, site: ourSite, stack: ourStack, schemaTypes: crawlData?.schemaTypes ?? [], failed: null as string | null },
+    ...competitorSites.map(scan => ({
+      key: scan.id,
+      label: scan.competitor_name,
+      isUser: false,
+      site: competitorReadinessInput(scan),
+      stack: scan.tech_stack,
+      schemaTypes: scan.schema_types,
+      failed: scan.status === 'failed' ? (scan.error || 'Could not be crawled') : null,
+    })),
+  ]
+
+  // Checks a competitor passes that we don't - the likely reasons AI prefers them
+  const aheadOn = columns
+    .filter(c => !c.isUser && !c.failed)
+    .map(c => ({
+      name: c.label,
+      checks: SITE_READINESS_CHECKS
+        .filter(check => check.check(c.site) === 'pass' && check.check(ourSite) !== 'pass')
+        .map(check => check.label),
+    }))
+    .filter(c => c.checks.length > 0)
+
+  const stackRows: { label: string; value: (stack: SiteTechStack | null) => string }[] = [
+    { label: 'Platform', value: stack => stack ? stack.cms || 'Custom-built' : '—' },
+    { label: 'Framework', value: stack => stack?.framework || '—' },
+    { label: 'Hosting', value: stack => stack?.hosting || '—' },
+    { label: 'Analytics', value: stack => stack && stack.analytics.length > 0 ? stack.analytics.join(', ') : '—' },
+  ]
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between flex-wrap" style={{ marginBottom: '8px', gap: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          Competitor Websites
+        </h3>
+        {!isLoading && (
+          <label className="flex items-center text-sm text-[var(--text-mid)] cursor-pointer" style={{ gap: '8px' }}>
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={toggleEnabled}
+              disabled={isSaving}
+            />
+            Crawl competitor websites each scan
+          </label>
+        )}
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ marginBottom: '20px', lineHeight: '1.6' }}>
+        Tracked competitors&apos; sites go through the same AI readiness and platform checks as yours,
+        so you can see what they do that AI picks up on. Up to {COMPETITOR_CRAWL_MAX_PAGES} pages per site.
+      </p>
+
+      {error && (
+        <div
+          className="flex items-center text-[var(--red)] text-sm bg-[var(--red)]/10 border border-[var(--red)]/20"
+          style={{ padding: '10px 14px', marginBottom: '16px', gap: '8px' }}
+        >
+          <AlertCircle size={14} />
+          {error}
+        </div>
+      )}
+
+      {/* Websites to crawl */}
+      {enabled && tracked.length > 0 && (
+        <div className="flex flex-col" style={{ gap: '8px', marginBottom: '24px' }}>
+          {tracked.map(competitor => (
+            <div key={competitor.id} className="flex items-center flex-wrap" style={{ gap: '12px' }}>
+              <span className="text-[var(--text)] text-sm" style={{ minWidth: '160px' }}>{competitor.name}</span>
+              <input
+                type="text"
+                value={domainDrafts[competitor.id] ?? ''}
+                onChange={e => setDomainDrafts(prev => ({ ...prev, [competitor.id]: e.target.value }))}
+                onBlur={() => saveDomain(competitor)}
+                placeholder="Found automatically, or enter competitor.com"
+                disabled={isSaving}
+                className="bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+                style={{ padding: '8px 12px', minWidth: '260px' }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {competitorSites.length === 0 ? (
+        <p className="text-[var(--text-ghost)] text-sm">
+          {enabled
+            ? 'Competitor websites are crawled after your next scan.'
+            : 'Turn on crawling to compare your site with your tracked competitors.'}
+        </p>
+      ) : (
+        <>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th
+                    className="text-left font-mono text-xs text-[var(--text-ghost)] uppercase"
+                    style={{ padding: '12px 16px', borderBottom: '1px solid var(--border)' }}
+                  >
+                    Signal
+                  </th>
+                  {columns.map(column => (
+                    <th
+                      key={column.key}
+                      className={`text-center font-mono text-xs ${column.isUser ? 'text-[var(--green)]' : 'text-[var(--text-mid)]'}`}
+                      style={{ padding: '12px 8px', borderBottom: '1px solid var(--border)', minWidth: '110px' }}
+                      title={column.failed || undefined}
+                    >
+                      {column.isUser ? 'You' : column.label}
+                      {column.failed && <span className="block text-[var(--red)] normal-case">not crawled</span>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {SITE_READINESS_CHECKS.map(check => (
+                  <tr key={check.id} className="border-b border-[var(--border-subtle)]">
+                    <td className="text-[var(--text)] text-sm" style={{ padding: '10px 16px' }}>{check.label}</td>
+                    {columns.map(column => (
+                      <td key={column.key} style={{ padding: '10px 8px', textAlign: 'center' }}>
+                        <span className="inline-flex justify-center">
+                          <ReadinessIcon status={column.failed ? 'unknown' : check.check(column.site)} />
+                        </span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="border-b border-[var(--border-subtle)]">
+                  <td className="text-[var(--text)] text-sm" style={{ padding: '10px 16px' }}>Schema types</td>
+                  {columns.map(column => (
+                    <td
+                      key={column.key}
+                      className="text-[var(--text-mid)] text-xs"
+                      style={{ padding: '10px 8px', textAlign: 'center' }}
+                      title={column.schemaTypes.join(', ')}
+                    >
+                      {column.failed ? '—' : column.schemaTypes.length}
+                    </td>
+                  ))}
+                </tr>
+                {stackRows.map(row => (
+                  <tr key={row.label} className="border-b border-[var(--border-subtle)]">
+                    <td className="text-[var(--text)] text-sm" style={{ padding: '10px 16px' }}>{row.label}</td>
+                    {columns.map(column => (
+                      <td
+                        key={column.key}
+                        className="text-[var(--text-mid)] text-xs"
+                        style={{ padding: '10px 8px', textAlign: 'center' }}
+                      >
+                        {column.failed ? '—' : row.value(column.stack)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="text-[var(--text)] text-sm font-medium" style={{ padding: '12px 16px' }}>Readiness</td>
+                  {columns.map(column => {
+                    const { passed, scored } = readinessScore(column.site)
+                    return (
+                      <td
+                        key={column.key}
+                        className="font-mono text-sm text-[var(--text)]"
+                        style={{ padding: '12px 8px', textAlign: 'center' }}
+                      >
+                        {column.failed ? '—' : `${passed}/${scored}`}
+                      </td>
+                    )
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {aheadOn.length > 0 && (
+            <div
+              className="bg-[var(--surface-elevated)] border border-[var(--border)]"
+              style={{ padding: '16px 20px', marginTop: '24px' }}
+            >
+              <p
+                className="text-[var(--text-ghost)] font-mono uppercase text-xs"
+                style={{ marginBottom: '10px', letterSpacing: '0.05em' }}
+              >
+                Where they&apos;re ahead
+              </p>
+              <ul className="flex flex-col" style={{ gap: '6px' }}>
+                {aheadOn.map(c => (
+                  <li key={c.name} className="text-sm text-[var(--text-mid)]">
+                    <span className="text-[var(--text)]">{c.name}</span>: {c.checks.join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Canonical competitors and the name variants grouped under each.
+ * Subscribers can merge two competitors or split a variant off
+ */
+function CompetitorAliasManager({
+  domainSubscriptionId,
+  isSubscriber,
+}: {
+  domainSubscriptionId?: string | null
+  isSubscriber: boolean
+}) {
+  const [entities, setEntities] = useState<CompetitorEntity[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [hasChanges, setHasChanges] = useState(false)
+  const [showAll, setShowAll] = useState(false)
+
+  useEffect(() => {
+    if (!isSubscriber || !domainSubscriptionId) return
+
+    async function fetchEntities() {
+      try {
+        const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/competitor-entities`)
+        if (res.ok) {
+          const data = await res.json()
+          setEntities(data.entities || [])
+        }
+      } catch (err) {
+        console.error('Failed to fetch competitor entities:', err)
+      }
+    }
+
+    fetchEntities()
+  }, [isSubscriber, domainSubscriptionId])
+
+  async function mergeInto(targetId: string, sourceId: string) {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/competitor-entities/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ target_id: targetId, source_ids: [sourceId] }),
+      })
+
+      const data = await res.json()
+      if (res.ok) {
+        setEntities(prev => prev
+          .filter(e => e.id !== sourceId)
+          .map(e => e.id === targetId ? data.entity : e))
+        setHasChanges(true)
+      } else {
+        setError(data.error || 'Failed to merge competitors')
+      }
+    } catch (err) {
+      setError('Failed to merge competitors')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function splitAlias(entityId: string, alias: string) {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/competitor-entities/${entityId}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alias }),
+      })
+
+      const data = await res.json()
+      if (res.ok) {
+        setEntities(prev => [
+          ...prev.map(e => e.id === entityId ? { ...e, aliases: e.aliases.filter(a => a !== alias) } : e),
+          data.entity,
+        ].sort((a, b) => a.name.localeCompare(b.name)))
+        setHasChanges(true)
+      } else {
+        setError(data.error || 'Failed to split competitor')
+      }
+    } catch (err) {
+      setError('Failed to split competitor')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isSubscriber || !domainSubscriptionId || entities.length < 2) return null
+
+  // Grouped competitors first - they're the ones worth checking
+  const sorted = [...entities].sort((a, b) =>
+    (b.aliases.length > 0 ? 1 : 0) - (a.aliases.length > 0 ? 1 : 0) || a.name.localeCompare(b.name)
+  )
+  const visible = showAll ? sorted : sorted.slice(0, 8)
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <h3
+        className="text-[var(--green)] font-mono uppercase tracking-wider"
+        style={{ fontSize: '11px', marginBottom: '8px', letterSpacing: '0.1em' }}
+      >
+        Competitor Names
+      </h3>
+      <p className="text-[var(--text-dim)] text-sm" style={{ marginBottom: '20px', lineHeight: '1.6' }}>
+        AI names the same business in different ways. Variants are grouped under one competitor so mentions
+        aren&apos;t split. Split off a variant that&apos;s really a different business, or merge two that are the same.
+      </p>
+
+      {error && (
+        <div
+          className="flex items-center text-[var(--red)] text-sm bg-[var(--red)]/10 border border-[var(--red)]/20"
+          style={{ padding: '10px 14px', marginBottom: '16px', gap: '8px' }}
+        >
+          <AlertCircle size={14} />
+          {error}
+        </div>
+      )}
+
+      {hasChanges && (
+        <div
+          className="flex items-center justify-between text-sm bg-[var(--surface-elevated)] border border-[var(--border)]"
+          style={{ padding: '10px 14px', marginBottom: '16px', gap: '8px' }}
+        >
+          <span className="text-[var(--text-mid)]">Reload to see mentions regrouped across your reports.</span>
+          <button
+            onClick={() => window.location.reload()}
+            className="font-mono text-xs text-[var(--green)] hover:underline"
+          >
+            Reload
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col">
+        {visible.map(entity => (
+          <div
+            key={entity.id}
+            className="flex items-center justify-between flex-wrap border-b border-[var(--border-subtle)]"
+            style={{ padding: '12px 0', gap: '12px' }}
+          >
+            <div className="flex items-center flex-wrap" style={{ gap: '8px' }}>
+              <span className="text-[var(--text)] text-sm font-medium">{entity.name}</span>
+              {entity.domain && (
+                <span className="text-[var(--text-ghost)] font-mono text-xs">{entity.domain}</span>
+              )}
+              {entity.aliases.map(alias => (
+                <span
+                  key={alias}
+                  className="flex items-center text-xs text-[var(--text-mid)] border border-[var(--border)]"
+                  style={{ padding: '2px 8px', gap: '4px' }}
+                >
+                  {alias}
+                  <button
+                    onClick={() => splitAlias(entity.id, alias)}
+                    disabled={isSaving}
+                    className="text-[var(--text-ghost)] hover:text-[var(--red)] disabled:opacity-50"
+                    title={`Split "${alias}" into its own competitor`}
+                  >
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <select
+              value=""
+              onChange={e => e.target.value && mergeInto(e.target.value, entity.id)}
+              disabled={isSaving}
+              className="bg-[var(--surface)] border border-[var(--border)] text-[var(--text-dim)] text-xs font-mono disabled:opacity-50"
+              style={{ padding: '4px 8px' }}
+            >
+              <option value="">Merge into…</option>
+              {entities
+                .filter(other => other.id !== entity.id)
+                .map(other => (
+                  <option key={other.id} value={other.id}>{other.name}</option>
+                ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {sorted.length > visible.length && (
+        <button
+          onClick={() => setShowAll(true)}
+          className="font-mono text-xs text-[var(--text-dim)] hover:text-[var(--green)]"
+          style={{ marginTop: '12px' }}
+        >
+          Show all {sorted.length} competitors
+        </button>
+      )}
+    </div>
+  )
+}
+
+// Line colors for competitors in the share-of-voice trend (we're always green)
+const SHARE_COLORS = ['var(--gold)', 'var(--red)', 'var(--blue)', 'var(--amber)', 'var(--lime)']
+
+interface ShareSnapshot {
+  recorded_at: string
+  share_of_voice: number | null
+  competitor_share: Record<string, number> | null
+}
+
+function ShareOfVoicePanel({
+  shareOfVoice,
+  businessName,
+  domainSubscriptionId,
+  isSubscriber,
+}: {
+  shareOfVoice: ShareOfVoice
+  businessName: string
+  domainSubscriptionId?: string | null
+  isSubscriber: boolean
+}) {
+  const [platformFilter, setPlatformFilter] = useState<PlatformFilter>('all')
+  const [history, setHistory] = useState<ShareSnapshot[]>([])
+
+  // Share over time comes from score_history (subscribers only)
+  useEffect(() => {
+    if (!isSubscriber) return
+
+    const fetchHistory = async () => {
+      try {
+        const params = new URLSearchParams({ limit: '12' })
+        if (domainSubscriptionId) {
+          params.set('domain_subscription_id', domainSubscriptionId)
+        }
+        const res = await fetch(`/api/trends/competitors?${params}`)
+        if (res.ok) {
+          const data = await res.json()
+          setHistory((data.snapshots || []).filter((s: ShareSnapshot) => s.share_of_voice !== null))
+        }
+      } catch (error) {
+        console.error('Error fetching share of voice history:', error)
+      }
+    }
+
+    fetchHistory()
+  }, [isSubscriber, domainSubscriptionId])
+
+  const platforms = ALL_PLATFORMS.filter(p => shareOfVoice.byPlatform[p]?.total)
+  const slots = platformFilter === 'all'
+    ? shareOfVoice.slots
+    : shareOfVoice.byPlatform[platformFilter] || shareOfVoice.slots
+
+  const rows = [
+    { name: businessName, share: shareOf(slots), held: slots.ours, isUser: true },
+    ...shareOfVoice.competitors.map(name => ({
+      name,
+      share: shareOf(slots, name),
+      held: slots.competitors[name] || 0,
+      isUser: false,
+    })),
+  ].sort((a, b) => b.share - a.share)
+  const trackedHeld = rows.reduce((sum, row) => sum + row.held, 0)
+  const otherShare = slots.total > 0 ? Math.round(((slots.total - trackedHeld) / slots.total) * 100) : 0
+
+  const trendSeries: MultiLineSeries[] = history.length >= 2
+    ? [
+        {
+          key: 'you',
+          name: businessName,
+          color: 'var(--green)',
+          isOverall: true,
+          data: history.map(s => ({ date: s.recorded_at, value: Number(s.share_of_voice) })),
+        },
+        ...shareOfVoice.competitors.map((name, index) => ({
+          key: name,
+          name,
+          color: SHARE_COLORS[index % SHARE_COLORS.length],
+          data: history
+            .filter(s => s.competitor_share && name in s.competitor_share)
+            .map(s => ({ date: s.recorded_at, value: Number(s.competitor_share![name]) })),
+        })).filter(series => series.data.length > 0),
+      ]
+    : []
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between flex-wrap" style={{ marginBottom: '8px', gap: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          Share of Voice
+        </h3>
+        {platforms.length > 1 && (
+          <div className="flex items-center flex-wrap" style={{ gap: '8px' }}>
+            <FilterButton active={platformFilter === 'all'} onClick={() => setPlatformFilter('all')}>
+              All
+            </FilterButton>
+            {platforms.map(p => (
+              <FilterButton
+                key={p}
+                active={platformFilter === p}
+                onClick={() => setPlatformFilter(p)}
+                color={platformColors[p]}
+              >
+                {platformNames[p]}
+              </FilterButton>
+            ))}
+          </div>
+        )}
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.6', marginBottom: '24px' }}>
+        Of the {slots.total} businesses AI recommended across your questions, how many places went to you
+        and to each {shareOfVoice.tracked ? 'tracked competitor' : 'of your most-mentioned competitors'}.
+      </p>
+
+      <div className="flex flex-col" style={{ gap: '14px' }}>
+        {rows.map(row => (
+          <div key={row.name}>
+            <div className="flex items-center justify-between" style={{ marginBottom: '6px' }}>
+              <span className={`text-sm ${row.isUser ? 'text-[var(--green)] font-medium' : 'text-[var(--text)]'}`}>
+                {row.name}{row.isUser ? ' (you)' : ''}
+              </span>
+              <span className="font-mono text-sm text-[var(--text-mid)]">
+                {row.share}% <span className="text-[var(--text-ghost)] text-xs">({row.held})</span>
+              </span>
+            </div>
+            <div style={{ height: '6px', background: 'var(--border)' }}>
+              <div
+                style={{
+                  width: `${row.share}%`,
+                  height: '100%',
+                  background: row.isUser ? 'var(--green)' : 'var(--text-dim)',
+                  transition: 'width 0.6s ease',
+                }}
+              />
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center justify-between text-[var(--text-ghost)] text-xs">
+          <span>Everyone else</span>
+          <span className="font-mono">{otherShare}%</span>
+        </div>
+      </div>
+
+      {trendSeries.length > 0 && (
+        <div style={{ marginTop: '32px' }}>
+          <MultiLineTrendChart series={trendSeries} title="Share of voice over time" defaultToMovingAverage={false} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function HeadToHeadMatrix({
+  shareOfVoice,
+}: {
+  shareOfVoice: ShareOfVoice
+}) {
+  const { competitors, questions } = shareOfVoice
+  if (competitors.length === 0 || questions.length === 0) return null
+
+  const getOutcomeStyle = (cell: HeadToHeadCell | undefined) => {
+    if (!cell || (cell.wins === 0 && cell.losses === 0)) {
+      return { bg: 'var(--surface)', color: 'var(--text-ghost)', icon: '—', label: 'Neither recommended' }
+    }
+    if (cell.wins > cell.losses) {
+      return { bg: 'var(--green)', color: 'var(--bg)', icon: '▲', label: `You placed higher in ${cell.wins} of ${cell.wins + cell.losses} answers` }
+    }
+    if (cell.losses > cell.wins) {
+      return { bg: 'var(--red)', color: 'var(--bg)', icon: '▼', label: `They placed higher in ${cell.losses} of ${cell.wins + cell.losses} answers` }
+    }
+    return { bg: 'var(--amber)', color: 'var(--bg)', icon: '=', label: `Split ${cell.wins}-${cell.losses}` }
+  }
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <h3
+        className="text-[var(--green)] font-mono uppercase tracking-wider"
+        style={{ fontSize: '11px', marginBottom: '8px', letterSpacing: '0.1em' }}
+      >
+        Head-to-Head by Question
+      </h3>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.6', marginBottom: '20px' }}>
+        For each question, who AI placed higher across every platform&apos;s answer.
+      </p>
+
+      {/* Per-competitor summary */}
+      <div
+        className="flex items-center flex-wrap bg-[var(--surface-elevated)] border border-[var(--border)]"
+        style={{ padding: '16px 20px', marginBottom: '24px', gap: '24px' }}
+      >
+        {competitors.map(name => (
+          <div key={name} className="text-sm">
+            <span className="text-[var(--text)]">{name}</span>{' '}
+            <span className="text-[var(--text-dim)]">
+              beats you on <span className="font-mono text-[var(--red)]">{questionsLostTo(shareOfVoice, name).length}</span> of {questions.length}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th
+                className="text-left font-mono text-xs text-[var(--text-ghost)] uppercase"
+                style={{ padding: '12px 16px', borderBottom: '1px solid var(--border)' }}
+              >
+                Question
+              </th>
+              {competitors.map(name => (
+                <th
+                  key={name}
+                  className="text-center font-mono text-xs text-[var(--text-mid)]"
+                  style={{ padding: '12px 8px', borderBottom: '1px solid var(--border)', minWidth: '90px' }}
+                >
+                  vs. {name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {questions.map(question => (
+              <tr key={question.question} className="border-b border-[var(--border-subtle)]">
+                <td className="text-[var(--text)] text-sm" style={{ padding: '12px 16px' }}>
+                  {question.question}
+                  <span className="text-[var(--text-ghost)] font-mono text-xs" style={{ marginLeft: '8px' }}>
+                    {shareOf(question.slots)}% share
+                  </span>
+                </td>
+                {competitors.map(name => {
+                  const style = getOutcomeStyle(question.headToHead[name])
+                  return (
+                    <td key={name} style={{ padding: '8px', textAlign: 'center' }}>
+                      <div
+                        style={{
+                          display: 'inline-flex',
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                          width: '32px',
+                          height: '32px',
+                          backgroundColor: style.bg,
+                          color: style.color,
+                          fontWeight: 600,
+                          fontSize: '13px',
+                          borderRadius: '4px',
+                        }}
+                        title={style.label}
+                      >
+                        {style.icon}
+                      </div>
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Legend */}
+      <div
+        className="flex items-center flex-wrap text-xs text-[var(--text-ghost)]"
+        style={{ marginTop: '16px', gap: '16px' }}
+      >
+        <span className="flex items-center" style={{ gap: '6px' }}>
+          <span style={{ color: 'var(--green)' }}>▲</span> You placed higher
+        </span>
+        <span className="flex items-center" style={{ gap: '6px' }}>
+          <span style={{ color: 'var(--amber)' }}>=</span> Split
+        </span>
+        <span className="flex items-center" style={{ gap: '6px' }}>
+          <span style={{ color: 'var(--red)' }}>▼</span> They placed higher
+        </span>
+        <span className="flex items-center" style={{ gap: '6px' }}>
+          <span>—</span> Neither recommended
+        </span>
+      </div>
+    </div>
+  )
+}
+
 function HorizontalBarChart({
   data,
   isBlurred = false,
@@ -636,6 +1467,7 @@ function CompetitorManager({
       id: `existing-${name}`,
       lead_id: '',
       name,
+      domain: null,
       source: 'detected' as const,
       is_active: true,
       created_at: '',
@@ -869,6 +1701,10 @@ function CompetitorManager({
 
 export function CompetitorsTab({
   competitors,
+  shareOfVoice,
+  competitorSites = [],
+  crawlData,
+  platformData,
   responses,
   brandAwareness,
   competitiveSummary,
@@ -880,6 +1716,10 @@ export function CompetitorsTab({
   blurCompetitors,
 }: {
   competitors: Competitor[]
+  shareOfVoice?: ShareOfVoice | null
+  competitorSites?: CompetitorSiteScan[]
+  crawlData?: CrawlData
+  platformData?: PlatformData | null
   responses?: Response[] | null
   brandAwareness?: BrandAwarenessResult[] | null
   competitiveSummary?: CompetitiveSummary | null
@@ -940,6 +1780,46 @@ export function CompetitorsTab({
       markdown += `---\n\n`
     }
 
+    // Add share of voice and head-to-head by question
+    if (shareOfVoice && shareOfVoice.slots.total > 0) {
+      markdown += `## Share of Voice\n\n`
+      markdown += `Share of the ${shareOfVoice.slots.total} recommendation slots across all platforms.\n\n`
+      markdown += `| Business | Slots | Share |\n|---|---|---|\n`
+      markdown += `| ${businessName} (you) | ${shareOfVoice.slots.ours} | ${shareOf(shareOfVoice.slots)}% |\n`
+      shareOfVoice.competitors.forEach(name => {
+        markdown += `| ${name} | ${shareOfVoice.slots.competitors[name] || 0} | ${shareOf(shareOfVoice.slots, name)}% |\n`
+      })
+      markdown += `\n`
+
+      if (shareOfVoice.competitors.length > 0 && shareOfVoice.questions.length > 0) {
+        markdown += `## Head-to-Head by Question\n\n`
+        markdown += `▲ you placed higher, ▼ they placed higher, = split, — neither recommended\n\n`
+        markdown += `| Question | ${shareOfVoice.competitors.join(' | ')} |\n`
+        markdown += `|---|${shareOfVoice.competitors.map(() => '---').join('|')}|\n`
+        shareOfVoice.questions.forEach(q => {
+          const cells = shareOfVoice.competitors.map(name => {
+            const cell = q.headToHead[name]
+            if (!cell || (cell.wins === 0 && cell.losses === 0)) return '—'
+            return cell.wins > cell.losses ? '▲' : cell.losses > cell.wins ? '▼' : '='
+          })
+          markdown += `| ${q.question.replace(/\|/g, '\\|')} | ${cells.join(' | ')} |\n`
+        })
+        markdown += `\n`
+
+        shareOfVoice.competitors.forEach(name => {
+          const lost = questionsLostTo(shareOfVoice, name)
+          if (lost.length === 0) return
+          markdown += `### Where ${name} beats you (${lost.length} of ${shareOfVoice.questions.length})\n`
+          lost.forEach(question => {
+            markdown += `- ${question}\n`
+          })
+          markdown += `\n`
+        })
+      }
+
+      markdown += `---\n\n`
+    }
+
     // Add per-competitor positioning from brand awareness
     const competitorCompareResults = brandAwareness?.filter(r => r.query_type === 'competitor_compare') || []
     const resultsByCompetitor = new Map<string, BrandAwarenessResult[]>()
@@ -957,7 +1837,7 @@ export function CompetitorsTab({
       for (const [competitorName, results] of resultsByCompetitor) {
         markdown += `### ${businessName} vs. ${competitorName}\n\n`
 
-        const platforms = ['chatgpt', 'claude', 'gemini', 'perplexity'] as const
+        const platforms = ALL_PLATFORMS
         for (const platform of platforms) {
           const result = results.find(r => r.platform === platform)
           if (result?.response_text) {
@@ -1127,6 +2007,19 @@ export function CompetitorsTab({
         </div>
       </div>
 
+      {/* Share of recommendation slots and head-to-head by question (Subscribers/Trial) */}
+      {!shouldBlur && shareOfVoice && shareOfVoice.slots.total > 0 && (
+        <>
+          <ShareOfVoicePanel
+            shareOfVoice={shareOfVoice}
+            businessName={businessName}
+            domainSubscriptionId={domainSubscriptionId}
+            isSubscriber={isSubscriber}
+          />
+          <HeadToHeadMatrix shareOfVoice={shareOfVoice} />
+        </>
+      )}
+
       {/* Competitor Management (Subscribers only) */}
       <CompetitorManager
         detectedCompetitors={competitors}
@@ -1135,6 +2028,22 @@ export function CompetitorsTab({
         isSubscriber={isSubscriber}
       />
 
+      {/* Tracked competitors' websites next to ours (Subscribers only) */}
+      <CompetitorSitesCard
+        competitorSites={competitorSites}
+        crawlData={crawlData}
+        platformData={platformData}
+        domain={domain}
+        domainSubscriptionId={domainSubscriptionId}
+        isSubscriber={isSubscriber}
+      />
+
+      {/* Name variants grouped under one competitor (Subscribers only) */}
+      <CompetitorAliasManager
+        domainSubscriptionId={domainSubscriptionId}
+        isSubscriber={isSubscriber}
+      />
+
       {/* Positioning Matrix - Visual overview (Subscribers/Trial) */}
       {!shouldBlur && resultsByCompetitor.size > 0 && (
         <PositioningMatrix
@@ -1249,7 +2158,7 @@ export function CompetitorsTab({
               >
                 All
               </FilterButton>
-              {(['chatgpt', 'claude', 'gemini', 'perplexity'] as const).map((p) => (
+              {ALL_PLATFORMS.map((p) => (
                 <FilterButton
                   key={p}
                   active={platformFilter === p}
@@ -1283,7 +2192,7 @@ export function CompetitorsTab({
               <div style={{ display: 'grid', gap: '24px' }}>
                 {competitorNames.map((competitorName) => {
                   const competitorResults = resultsByCompetitor.get(competitorName) || []
-                  const platforms = ['chatgpt', 'claude', 'gemini', 'perplexity'] as const
+                  const platforms = ALL_PLATFORMS
 
                   // Filter results by selected platform
                   const filteredPlatforms = platformFilter === 'all'
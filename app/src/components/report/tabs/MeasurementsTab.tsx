@@ -1,12 +1,17 @@
 'use client'
 
 import { useState, useEffect, useMemo, useRef } from 'react'
-import { BarChart3, Lock, AlertCircle, Sparkles, TrendingUp, Lightbulb, ChevronDown, ChevronUp } from 'lucide-react'
+import { BarChart3, Lock, AlertCircle, Sparkles, TrendingUp, TrendingDown, Lightbulb, ChevronDown, ChevronUp, FileEdit } from 'lucide-react'
 import { ScoreGauge } from '../ScoreGauge'
 import { MultiLineTrendChart, CompetitorMentionsTrendChart, type MultiLineSeries, type CompetitorMentionsSeries } from '../TrendChart'
 import { UpgradeModal } from '../UpgradeModal'
 import type { Response, Analysis, BrandAwarenessResult } from '../shared'
 import { platformColors, platformNames, calculateReadinessScore, handlePricingClick } from '../shared'
+import { ALL_PLATFORMS, PLATFORM_REGISTRY, REACH_WEIGHTS, type SearchPlatform } from '@/lib/ai/platforms'
+import { estimateInterval, getSignificantChange, type ConfidenceInterval, type ScoreConfidence } from '@/lib/ai/sampling'
+import type { PageChange } from '@/lib/ai/page-changes'
+import { groupResultsByPersona } from '@/lib/ai/personas'
+import type { SentimentScores } from '@/lib/ai/sentiment'
 
 interface ScoreSnapshot {
   id: string
@@ -21,10 +26,41 @@ interface ScoreSnapshot {
   gemini_mentions: number | null
   perplexity_mentions: number | null
   query_coverage: number | null
+  total_queries?: number | null
   total_mentions: number | null
+  platform_scores?: Record<string, number> | null
+  visibility_score_low?: number | null
+  visibility_score_high?: number | null
+  platform_intervals?: Record<string, ConfidenceInterval> | null
+  samples_per_query?: number | null
+  sentiment_adjusted_score?: number | null
   recorded_at: string
 }
 
+// Legacy snapshots only have the per-platform columns for the original four engines
+function getSnapshotPlatformScore(snapshot: ScoreSnapshot, platform: SearchPlatform): number | null {
+  const fromJson = snapshot.platform_scores?.[platform]
+  if (fromJson !== undefined && fromJson !== null) return fromJson
+  const legacyKey = `${platform}_score` as keyof ScoreSnapshot
+  const legacy = snapshot[legacyKey]
+  return typeof legacy === 'number' || typeof legacy === 'string' ? Number(legacy) : null
+}
+
+// Snapshots before multi-sampling have no stored bounds; estimate from the query count
+function getSnapshotInterval(snapshot: ScoreSnapshot): { value: number } & ConfidenceInterval {
+  const value = Number(snapshot.visibility_score)
+  if (snapshot.visibility_score_low != null && snapshot.visibility_score_high != null) {
+    return { value, low: Number(snapshot.visibility_score_low), high: Number(snapshot.visibility_score_high) }
+  }
+  return { value, ...estimateInterval(value, snapshot.total_queries) }
+}
+
+interface PageChangeRecord extends PageChange {
+  id: string
+  run_id: string
+  detected_at: string
+}
+
 interface CompetitorSnapshot {
   run_id: string
   recorded_at: string
@@ -35,6 +71,8 @@ interface CompetitorSnapshot {
 export function MeasurementsTab({
   visibilityScore,
   platformScores,
+  scoreConfidence,
+  sentimentScores,
   responses,
   analysis,
   brandAwareness,
@@ -47,6 +85,8 @@ export function MeasurementsTab({
 }: {
   visibilityScore: number
   platformScores: Record<string, number>
+  scoreConfidence?: ScoreConfidence | null
+  sentimentScores?: SentimentScores | null
   responses: Response[] | null
   analysis: Analysis | null
   brandAwareness?: BrandAwarenessResult[] | null
@@ -67,6 +107,7 @@ export function MeasurementsTab({
   const [rawCompetitorData, setRawCompetitorData] = useState<CompetitorSnapshot[]>([])
   const [competitorTopNames, setCompetitorTopNames] = useState<string[]>([])
   const [competitorLoading, setCompetitorLoading] = useState(false)
+  const [pageChanges, setPageChanges] = useState<PageChangeRecord[]>([])
   const [animatedPlatformScores, setAnimatedPlatformScores] = useState<Record<string, number>>({})
   const [platformGaugesVisible, setPlatformGaugesVisible] = useState(false)
   const platformGaugesRef = useRef<HTMLDivElement>(null)
@@ -124,6 +165,32 @@ export function MeasurementsTab({
     fetchCompetitorTrends()
   }, [isSubscriber, domainSubscriptionId])
 
+  // Fetch page edits between scans for subscribers
+  useEffect(() => {
+    if (!isSubscriber) return
+
+    const fetchPageChanges = async () => {
+      try {
+        const params = new URLSearchParams()
+        if (domainSubscriptionId) {
+          params.set('domain_subscription_id', domainSubscriptionId)
+        }
+        const res = await fetch(`/api/trends/page-changes?${params}`)
+        if (res.ok) {
+          const data = await res.json()
+          setPageChanges(data.changes || [])
+        }
+      } catch (error) {
+        console.error('Error fetching page changes:', error)
+      }
+    }
+
+    fetchPageChanges()
+  }, [isSubscriber, domainSubscriptionId])
+
+  // Visibility per buyer persona (empty when no question was asked for a persona)
+  const personaBreakdowns = useMemo(() => groupResultsByPersona(responses || []), [responses])
+
   // Filter trend data to only show data up to and including the current report
   // This ensures the trend chart values match the gauges shown above it
   const trendData = useMemo(() => {
@@ -215,8 +282,16 @@ export function MeasurementsTab({
   // Calculate readiness score based on analysis quality
   const readinessScore = calculateReadinessScore(analysis)
 
+  const samplesPerQuery = scoreConfidence?.samplesPerQuery ?? 1
+
   // Calculate per-platform mention stats from responses
+  // Multi-sample scans only show the first sample in responses, so use the stored sample counts
   const platformStats = useMemo(() => {
+    if (scoreConfidence?.platforms && Object.keys(scoreConfidence.platforms).length > 0) {
+      return Object.fromEntries(
+        Object.entries(scoreConfidence.platforms).map(([platform, { mentioned, total }]) => [platform, { mentioned, total }])
+      ) as Record<string, { mentioned: number; total: number }>
+    }
     if (!responses) return {}
 
     const stats: Record<string, { mentioned: number; total: number }> = {}
@@ -232,10 +307,64 @@ export function MeasurementsTab({
     }
 
     return stats
-  }, [responses])
+  }, [responses, scoreConfidence])
+
+  // Mentions that warned people off (they earn no sentiment-adjusted credit)
+  const sentimentSummary = useMemo(() => {
+    if (!sentimentScores) return null
+    const platforms = Object.values(sentimentScores.platforms)
+    return {
+      scored: platforms.reduce((sum, p) => sum + p.scored, 0),
+      discouraged: platforms.reduce((sum, p) => sum + (p.byStrength.discouraged || 0), 0),
+    }
+  }, [sentimentScores])
+
+  // Latest scan-to-scan change, only flagged when it exceeds sampling noise
+  const latestChange = useMemo(() => {
+    if (trendData.length < 2) return null
+    const previous = getSnapshotInterval(trendData[trendData.length - 2])
+    const current = getSnapshotInterval(trendData[trendData.length - 1])
+    return {
+      diff: current.value - previous.value,
+      direction: getSignificantChange(previous, current),
+    }
+  }, [trendData])
+
+  // Site edits grouped by the scan that detected them, with visibility from the
+  // scan before the edit to the current report
+  const siteChangeTimeline = useMemo(() => {
+    if (pageChanges.length === 0 || trendData.length === 0) return []
+
+    const byRun = new Map<string, PageChangeRecord[]>()
+    for (const change of pageChanges) {
+      byRun.set(change.run_id, [...(byRun.get(change.run_id) || []), change])
+    }
+
+    const latest = Number(trendData[trendData.length - 1].visibility_score)
+    return Array.from(byRun.entries())
+      .map(([runId, changes]) => {
+        const index = trendData.findIndex(s => s.run_id === runId)
+        if (index === -1) return null
+        const before = Number(trendData[Math.max(index - 1, 0)].visibility_score)
+        return {
+          runId,
+          detectedAt: trendData[index].recorded_at,
+          changes,
+          before,
+          diff: latest - before,
+        }
+      })
+      .filter((group): group is NonNullable<typeof group> => group !== null)
+      .sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime())
+  }, [pageChanges, trendData])
 
   // Platform display order
-  const platformOrder = ['chatgpt', 'claude', 'gemini', 'perplexity']
+  const platformOrder: string[] = ALL_PLATFORMS
+
+  // Trend lines: every engine with at least one recorded score, highest reach first
+  const trendPlatforms = [...ALL_PLATFORMS]
+    .filter(p => trendData.some(s => getSnapshotPlatformScore(s, p) !== null))
+    .sort((a, b) => REACH_WEIGHTS[b] - REACH_WEIGHTS[a])
 
   // Use platformStats from responses if available, otherwise fall back to platformScores from report
   const hasResponseStats = Object.keys(platformStats).length > 0
@@ -380,6 +509,33 @@ export function MeasurementsTab({
         <div className="flex justify-center" style={{ marginBottom: '24px' }}>
           <ScoreGauge score={visibilityScore} size="lg" />
         </div>
+        {scoreConfidence && (
+          <p
+            className="text-center text-[var(--text-dim)] text-xs font-mono"
+            style={{ marginTop: '-12px', marginBottom: '24px' }}
+            title="95% confidence interval - the range your true visibility likely falls in, given how much AI answers vary between runs"
+          >
+            Likely range {Math.round(scoreConfidence.overall.low)}–{Math.round(scoreConfidence.overall.high)}%
+            {samplesPerQuery > 1 && ` · each question asked ${samplesPerQuery}× per platform`}
+          </p>
+        )}
+        {sentimentScores && sentimentSummary && (
+          <p
+            className="text-center text-[var(--text-mid)] text-xs font-mono"
+            style={{ marginTop: scoreConfidence ? '-16px' : '-12px', marginBottom: '24px' }}
+            title="Each mention credited by how the answer talks about you: a strong top recommendation counts fully, a neutral listing counts for less, and a mention that warns people off counts for nothing"
+          >
+            Sentiment-adjusted score{' '}
+            <span style={{ color: sentimentScores.overall < visibilityScore * 0.6 ? 'var(--amber)' : 'var(--green)' }}>
+              {Math.round(sentimentScores.overall)}%
+            </span>
+            {sentimentSummary.discouraged > 0 && (
+              <span className="text-[var(--red)]">
+                {' '}· {sentimentSummary.discouraged} of {sentimentSummary.scored} mentions discouraged you
+              </span>
+            )}
+          </p>
+        )}
 
         {/* Score Context Callout - Collapsible to manage number shock */}
         <div
@@ -608,6 +764,7 @@ export function MeasurementsTab({
             const score = stats
               ? (stats.total > 0 ? Math.round((stats.mentioned / stats.total) * 100) : 0)
               : (platformScores[platform] ?? 0)
+            const platformInterval = scoreConfidence?.platforms[platform]
             const color = platformColors[platform] || 'var(--text-dim)'
             // Use animated score for display, fall back to 0 if not yet initialized
             const animatedScore = animatedPlatformScores[platform] ?? 0
@@ -671,14 +828,73 @@ export function MeasurementsTab({
 
                 {/* Mention Count */}
                 <p className="text-[var(--text-dim)] text-xs">
-                  {stats ? `${stats.mentioned}/${stats.total} questions mentioned` : `Score: ${formatVisibility(score)}`}
+                  {stats
+                    ? `${stats.mentioned}/${stats.total} ${samplesPerQuery > 1 ? 'answers' : 'questions'} mentioned`
+                    : `Score: ${formatVisibility(score)}`}
                 </p>
+                {platformInterval && (
+                  <p className="text-[var(--text-ghost)] text-xs font-mono" style={{ marginTop: '4px' }}>
+                    range {Math.round(platformInterval.low)}–{Math.round(platformInterval.high)}%
+                  </p>
+                )}
               </div>
             )
           })}
         </div>
       </div>
 
+      {/* Per-Persona Visibility */}
+      {personaBreakdowns.length > 0 && (
+        <div className="card" style={{ padding: '32px' }}>
+          <h3
+            className="text-[var(--text-dim)] font-mono uppercase tracking-wider"
+            style={{ fontSize: '11px', marginBottom: '8px', letterSpacing: '0.1em' }}
+          >
+            AI Visibility by Persona
+          </h3>
+          <p className="text-[var(--text-ghost)] text-xs" style={{ marginBottom: '24px' }}>
+            How often AI mentioned your brand when each of your buyer personas asked their questions.
+          </p>
+
+          <div style={{ display: 'grid', gap: '20px' }}>
+            {personaBreakdowns.map((persona) => (
+              <div key={persona.personaName ?? 'general'}>
+                <div className="flex items-center justify-between" style={{ marginBottom: '8px' }}>
+                  <span className="font-mono text-sm text-[var(--text)]">
+                    {persona.personaName ?? 'General questions'}
+                  </span>
+                  <span className="font-mono text-sm" style={{ color: persona.score >= 50 ? 'var(--green)' : persona.score > 0 ? 'var(--gold)' : 'var(--text-dim)' }}>
+                    {persona.score}%
+                  </span>
+                </div>
+                <div style={{ height: '6px', background: 'var(--border)' }}>
+                  <div
+                    style={{
+                      width: `${persona.score}%`,
+                      height: '100%',
+                      background: persona.score >= 50 ? 'var(--green)' : 'var(--gold)',
+                      transition: 'width 0.6s ease',
+                    }}
+                  />
+                </div>
+                <div className="flex flex-wrap items-center text-[var(--text-dim)] text-xs" style={{ gap: '12px', marginTop: '8px' }}>
+                  <span>{persona.mentions}/{persona.responses} answers mentioned</span>
+                  {ALL_PLATFORMS.map(p => {
+                    const counts = persona.byPlatform[p]
+                    if (!counts) return null
+                    return (
+                      <span key={p} className="font-mono" style={{ color: platformColors[p] || 'var(--text-dim)' }}>
+                        {platformNames[p] || p} {Math.round((counts.mentions / counts.responses) * 100)}%
+                      </span>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Trend Chart - Real data for subscribers, mocked preview for free */}
       <div className="card relative overflow-hidden" style={{ padding: '32px' }}>
         <div className="flex items-center justify-between" style={{ marginBottom: '8px' }}>
@@ -700,9 +916,33 @@ export function MeasurementsTab({
             </div>
           )}
         </div>
-        <p className="text-[var(--text-ghost)] text-xs" style={{ marginBottom: '24px' }}>
-          AI Visibility Score and total mentions over time
+        <p className="text-[var(--text-ghost)] text-xs" style={{ marginBottom: latestChange ? '8px' : '24px' }}>
+          AI Visibility Score and total mentions over time. Shaded bands show the likely range for each scan.
         </p>
+        {isSubscriber && latestChange && (
+          <div
+            className="flex items-center gap-2 text-xs font-mono"
+            style={{
+              marginBottom: '24px',
+              color: latestChange.direction === 'up'
+                ? 'var(--green)'
+                : latestChange.direction === 'down'
+                ? 'var(--red)'
+                : 'var(--text-dim)',
+            }}
+          >
+            {latestChange.direction === 'up' && <TrendingUp size={12} />}
+            {latestChange.direction === 'down' && <TrendingDown size={12} />}
+            <span>
+              {latestChange.diff > 0 ? '+' : ''}{latestChange.diff.toFixed(0)} pts since last scan
+              {latestChange.direction === 'none'
+                ? ' — within normal run-to-run variation'
+                : latestChange.direction === 'up'
+                ? ' — a real improvement'
+                : ' — a real drop, worth investigating'}
+            </span>
+          </div>
+        )}
 
         {isSubscriber ? (
           // Subscriber view: Real trend data
@@ -747,45 +987,32 @@ export function MeasurementsTab({
                       data: trendData.map(s => ({
                         date: s.recorded_at,
                         value: Number(s.visibility_score),
+                        ...(s.visibility_score_low != null && s.visibility_score_high != null && {
+                          low: Number(s.visibility_score_low),
+                          high: Number(s.visibility_score_high),
+                        }),
                       })),
                     },
-                    // Per-platform visibility percentages
-                    {
-                      key: 'chatgpt',
-                      name: 'ChatGPT',
-                      color: '#ef4444',
-                      data: trendData.map(s => ({
-                        date: s.recorded_at,
-                        value: Number(s.chatgpt_score ?? 0),
-                      })),
-                    },
-                    {
-                      key: 'perplexity',
-                      name: 'Perplexity',
-                      color: '#1FB8CD',
-                      data: trendData.map(s => ({
-                        date: s.recorded_at,
-                        value: Number(s.perplexity_score ?? 0),
-                      })),
-                    },
-                    {
-                      key: 'gemini',
-                      name: 'Gemini',
-                      color: '#3b82f6',
-                      data: trendData.map(s => ({
-                        date: s.recorded_at,
-                        value: Number(s.gemini_score ?? 0),
-                      })),
-                    },
-                    {
-                      key: 'claude',
-                      name: 'Claude',
-                      color: '#22c55e',
+                    // Same score with each mention credited by its sentiment (079 onwards)
+                    ...(trendData.some(s => s.sentiment_adjusted_score != null) ? [{
+                      key: 'sentiment',
+                      name: 'Sentiment-adjusted',
+                      color: '#D4AF37',
+                      data: trendData
+                        .filter(s => s.sentiment_adjusted_score != null)
+                        .map(s => ({ date: s.recorded_at, value: Number(s.sentiment_adjusted_score) })),
+                    }] : []),
+                    // Per-platform visibility percentages (highest-reach engine first)
+                    ...trendPlatforms.map((platform) => ({
+                      key: platform,
+                      name: PLATFORM_REGISTRY[platform].name,
+                      color: PLATFORM_REGISTRY[platform].chartColor,
                       data: trendData.map(s => ({
                         date: s.recorded_at,
-                        value: Number(s.claude_score ?? 0),
+                        value: Number(getSnapshotPlatformScore(s, platform) ?? 0),
+                        ...s.platform_intervals?.[platform],
                       })),
-                    },
+                    })),
                   ]}
                 />
               </div>
@@ -1000,6 +1227,54 @@ export function MeasurementsTab({
         </div>
       )}
 
+      {/* Site changes between scans - Subscribers only */}
+      {isSubscriber && siteChangeTimeline.length > 0 && (
+        <div className="card" style={{ padding: '32px' }}>
+          <h3
+            className="text-[var(--green)] font-mono uppercase tracking-wider"
+            style={{ fontSize: '11px', marginBottom: '8px', letterSpacing: '0.1em' }}
+          >
+            Site Changes
+          </h3>
+          <p className="text-[var(--text-ghost)] text-xs" style={{ marginBottom: '24px' }}>
+            Page edits we detected between scans, and how your visibility has moved since. AI engines can take
+            a few weeks to pick up changes.
+          </p>
+
+          <div style={{ display: 'grid', gap: '12px' }}>
+            {siteChangeTimeline.map(group => (
+              <div
+                key={group.runId}
+                className="bg-[var(--surface-elevated)] border border-[var(--border)]"
+                style={{ padding: '16px 20px' }}
+              >
+                <div className="flex items-center justify-between flex-wrap" style={{ gap: '8px', marginBottom: '10px' }}>
+                  <span className="flex items-center font-mono text-sm text-[var(--text)]" style={{ gap: '8px' }}>
+                    <FileEdit size={14} className="text-[var(--text-dim)]" />
+                    Detected {new Date(group.detectedAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                  </span>
+                  <span
+                    className="font-mono text-xs"
+                    style={{ color: group.diff > 0 ? 'var(--green)' : group.diff < 0 ? 'var(--red)' : 'var(--text-dim)' }}
+                  >
+                    Visibility since: {group.before.toFixed(0)}% → {(group.before + group.diff).toFixed(0)}%
+                    {' '}({group.diff > 0 ? '+' : ''}{group.diff.toFixed(0)} pts)
+                  </span>
+                </div>
+                <ul style={{ display: 'grid', gap: '4px' }}>
+                  {group.changes.map(change => (
+                    <li key={change.id} className="text-sm text-[var(--text-dim)]">
+                      <span className="font-mono text-[var(--text-mid)]">{change.path || '/'}</span>
+                      {' '}{change.summary}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Sticky Floating Upsell - Free and Starter only (no meaningful upgrade path for Pro/Agency) */}
       {(() => {
         const shouldShowUpsell = queryCoverage < 50 // Show if less than 50% query coverage
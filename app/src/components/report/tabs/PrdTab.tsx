@@ -21,6 +21,8 @@ import {
   History,
 } from 'lucide-react'
 import { EnrichmentLoading } from '../shared/EnrichmentLoading'
+import { ExpectationList, VerificationResult } from '../shared/ActionVerification'
+import { describeExpectation, type ActionExpectation, type ExpectationResult, type VerificationStatus } from '@/lib/ai/action-expectations'
 
 type EnrichmentStatus = 'pending' | 'processing' | 'complete' | 'failed' | 'not_applicable'
 
@@ -49,6 +51,7 @@ interface PrdTask {
   sort_order: number
   status?: 'pending' | 'completed' | 'dismissed'
   completed_at?: string | null
+  expectations?: ActionExpectation[] | null
 }
 
 interface PrdDocument {
@@ -71,6 +74,9 @@ interface PrdHistoryItem {
   section: string
   category: string | null
   completed_at: string
+  verified_at?: string | null
+  verification_status?: VerificationStatus | null  // Re-checked against the site every scan
+  verification_evidence?: ExpectationResult[] | null
 }
 
 interface PrdTabProps {
@@ -204,6 +210,14 @@ export function PrdTab({ runId, domainSubscriptionId, enrichmentStatus = 'not_ap
             md += '\n'
           }
 
+          if (task.expectations && task.expectations.length > 0) {
+            md += `**Verified by the next scan:**\n`
+            task.expectations.forEach(e => {
+              md += `- ${describeExpectation(e)}\n`
+            })
+            md += '\n'
+          }
+
           if (task.estimated_hours) {
             md += `**Estimated Time:** ${task.estimated_hours} hours\n\n`
           }
@@ -265,6 +279,14 @@ export function PrdTab({ runId, domainSubscriptionId, enrichmentStatus = 'not_ap
       md += '\n'
     }
 
+    if (task.expectations && task.expectations.length > 0) {
+      md += `## Verified By\n\nThe next scan checks the live site for:\n\n`
+      task.expectations.forEach(e => {
+        md += `- ${describeExpectation(e)}\n`
+      })
+      md += '\n'
+    }
+
     if (task.estimated_hours) {
       md += `**Estimated Time:** ${task.estimated_hours} hours\n\n`
     }
@@ -897,6 +919,7 @@ export function PrdTab({ runId, domainSubscriptionId, enrichmentStatus = 'not_ap
               >
                 <p className="text-[var(--text-mid)] text-sm" style={{ lineHeight: '1.6' }}>
                   Tasks you've completed are tracked here. Similar tasks won't be regenerated in future scans.
+                  Each scan re-checks your site and flags anything that has been undone.
                 </p>
               </div>
 
@@ -941,6 +964,7 @@ export function PrdTab({ runId, domainSubscriptionId, enrichmentStatus = 'not_ap
                             </span>
                           )}
                         </div>
+                        <VerificationResult status={item.verification_status} evidence={item.verification_evidence} />
                       </div>
                     </div>
                   </div>
@@ -1202,6 +1226,16 @@ function TaskCard({
             </div>
           )}
 
+          {/* Expectations the next scan checks on the live site */}
+          {task.expectations && task.expectations.length > 0 && (
+            <div style={{ marginTop: '20px' }}>
+              <h5 className="text-[var(--text-dim)] text-xs font-mono uppercase" style={{ marginBottom: '8px' }}>
+                Verified By Next Scan
+              </h5>
+              <ExpectationList expectations={task.expectations} />
+            </div>
+          )}
+
           {/* File paths */}
           {task.file_paths && task.file_paths.length > 0 && (
             <div style={{ marginTop: '20px' }}>
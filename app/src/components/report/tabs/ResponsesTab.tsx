@@ -1,10 +1,46 @@
 'use client'
 
 import { useState, useEffect, useRef, useMemo } from 'react'
-import { MessageSquare, Filter, CheckCircle2, ChevronDown, AlertCircle, Sparkles, Download } from 'lucide-react'
+import { MessageSquare, Filter, CheckCircle2, ChevronDown, AlertCircle, Sparkles, Download, Languages } from 'lucide-react'
 import type { Response, Analysis } from '../shared'
 import { platformColors, platformNames, formatResponseText, handlePricingClick, FilterButton } from '../shared'
 import { UpgradeModal } from '../UpgradeModal'
+import type { MentionEvidence, MentionMatchKind } from '@/lib/ai/brand-matcher'
+import { formatRank } from '@/lib/ai/recommendation-rank'
+import { SENTIMENT_LABELS, STRENGTH_LABELS, type RecommendationStrength } from '@/lib/ai/sentiment'
+import { groupResultsByTemplate, type TemplateBreakdown, type TemplateVariable } from '@/lib/ai/question-templates'
+import { groupResultsByPersona } from '@/lib/ai/personas'
+
+const evidenceLabels: Record<MentionMatchKind, string> = {
+  domain: 'domain name',
+  brand: 'brand name',
+  alias: 'alias',
+  product: 'product',
+  fuzzy: 'close match for',
+  source: 'cited your site',
+}
+
+const strengthColors: Record<RecommendationStrength, string> = {
+  top_pick: 'var(--green)',
+  recommended: 'var(--green)',
+  mentioned: 'var(--text-dim)',
+  discouraged: 'var(--red)',
+}
+
+// One short reason per matched term, e.g. 'alias "Lounge Lovers"'
+function describeEvidence(evidence: MentionEvidence[]): string[] {
+  const reasons = new Set<string>()
+  for (const e of evidence) {
+    if (e.kind === 'source') {
+      reasons.add(evidenceLabels.source)
+    } else if (e.kind === 'fuzzy') {
+      reasons.add(`${evidenceLabels.fuzzy} "${e.term}" ("${e.text}")`)
+    } else {
+      reasons.add(`${evidenceLabels[e.kind]} "${e.text}"`)
+    }
+  }
+  return Array.from(reasons)
+}
 
 // Individual response card component with animations
 function ResponseCard({
@@ -23,6 +59,11 @@ function ResponseCard({
   const cardRef = useRef<HTMLDivElement>(null)
   const [isVisible, setIsVisible] = useState(false)
   const [badgeAnimated, setBadgeAnimated] = useState(false)
+  const [showTranslation, setShowTranslation] = useState(false)
+
+  // Non-English scans store an English translation next to the original
+  const translation = response.response_translation || null
+  const promptTranslation = response.prompt?.prompt_translation || null
 
   // Default collapsed - show first ~3 lines worth of text
   const previewLength = 280
@@ -32,6 +73,14 @@ function ResponseCard({
     ? responseText
     : responseText.slice(0, previewLength) + '...'
 
+  // Highlight the spans the matcher counted; older responses have no evidence
+  const evidence = response.mention_evidence
+  const evidenceKeywords = useMemo(
+    () => Array.from(new Set((evidence || []).filter(e => e.kind !== 'source').map(e => e.text))),
+    [evidence]
+  )
+  const mentionReasons = useMemo(() => describeEvidence(evidence || []), [evidence])
+
   // Observe when card becomes visible
   useEffect(() => {
     const element = cardRef.current
@@ -80,6 +129,15 @@ function ResponseCard({
           <span className="font-mono text-sm text-[var(--text)]">
             {platformNames[response.platform] || response.platform}
           </span>
+          {response.prompt?.persona_name && (
+            <span
+              className="text-[var(--text-dim)] font-mono border border-[var(--border)]"
+              style={{ fontSize: '11px', padding: '2px 8px' }}
+              title="Buyer persona this question was asked for"
+            >
+              {response.prompt.persona_name}
+            </span>
+          )}
         </div>
 
         {response.domain_mentioned && (
@@ -102,6 +160,23 @@ function ResponseCard({
               ✓
             </span>{' '}
             Mentioned
+            {response.mention_rank && response.ranked_count ? (
+              <span className="text-[var(--text-dim)]" title="Position in this answer's list of recommendations">
+                {' '}· {formatRank(response.mention_rank, response.ranked_count)}
+              </span>
+            ) : null}
+            {response.recommendation_strength && (
+              <span
+                style={{ color: strengthColors[response.recommendation_strength] }}
+                title={[
+                  response.sentiment_category && `${SENTIMENT_LABELS[response.sentiment_category]} sentiment`,
+                  ...(response.sentiment_positive_phrases || []).map(p => `+ "${p}"`),
+                  ...(response.sentiment_negative_phrases || []).map(p => `− "${p}"`),
+                ].filter(Boolean).join('\n')}
+              >
+                {' '}· {STRENGTH_LABELS[response.recommendation_strength]}
+              </span>
+            )}
           </span>
         )}
       </div>
@@ -118,6 +193,11 @@ function ResponseCard({
           <p className="text-[var(--text-mid)]" style={{ fontSize: '14px', lineHeight: '1.6' }}>
             {response.prompt.prompt_text}
           </p>
+          {showTranslation && promptTranslation && (
+            <p className="text-[var(--text-dim)] italic" style={{ fontSize: '13px', lineHeight: '1.6', marginTop: '8px' }}>
+              {promptTranslation}
+            </p>
+          )}
         </div>
       )}
 
@@ -136,7 +216,7 @@ function ResponseCard({
             position: 'relative',
           }}
         >
-          {formatResponseText(displayText, highlightKeywords)}
+          {formatResponseText(displayText, evidenceKeywords.length > 0 ? evidenceKeywords : highlightKeywords)}
           {/* Fade overlay when collapsed */}
           {!isExpanded && shouldTruncate && (
             <div
@@ -153,19 +233,118 @@ function ResponseCard({
           )}
         </div>
 
-        {shouldTruncate && (
-          <button
-            onClick={onToggleExpand}
-            className="text-[var(--green)] font-mono text-sm hover:underline flex items-center gap-1"
-            style={{ marginTop: '12px' }}
+        {showTranslation && translation && (
+          <div
+            className="bg-[var(--surface-elevated)] border-l-2 border-[var(--border)]"
+            style={{ padding: '16px 20px', marginTop: '16px' }}
           >
-            {isExpanded ? 'Show less' : 'Read full response'}
-            <ChevronDown
-              size={14}
-              style={{ transform: isExpanded ? 'rotate(180deg)' : 'none', transition: 'transform 0.2s' }}
-            />
-          </button>
+            <span className="text-[var(--text-ghost)] font-mono text-xs block" style={{ marginBottom: '8px' }}>
+              ENGLISH TRANSLATION
+            </span>
+            <div className="text-[var(--text-mid)]" style={{ fontSize: '14px', lineHeight: '1.7' }}>
+              {formatResponseText(translation, highlightKeywords)}
+            </div>
+          </div>
+        )}
+
+        {response.domain_mentioned && mentionReasons.length > 0 && (
+          <p className="text-[var(--text-dim)] font-mono" style={{ fontSize: '12px', marginTop: '12px' }}>
+            Counted as a mention: {mentionReasons.join(' · ')}
+          </p>
         )}
+
+        {(shouldTruncate || translation) && (
+          <div className="flex items-center" style={{ gap: '20px', marginTop: '12px' }}>
+            {shouldTruncate && (
+              <button
+                onClick={onToggleExpand}
+                className="text-[var(--green)] font-mono text-sm hover:underline flex items-center gap-1"
+              >
+                {isExpanded ? 'Show less' : 'Read full response'}
+                <ChevronDown
+                  size={14}
+                  style={{ transform: isExpanded ? 'rotate(180deg)' : 'none', transition: 'transform 0.2s' }}
+                />
+              </button>
+            )}
+            {translation && (
+              <button
+                onClick={() => setShowTranslation(!showTranslation)}
+                className="text-[var(--text-dim)] font-mono text-sm hover:text-[var(--text)] flex items-center gap-1"
+              >
+                <Languages size={14} />
+                {showTranslation ? 'Hide translation' : 'Show English translation'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const templateVariableLabels: Record<TemplateVariable, string> = {
+  location: 'Location',
+  service: 'Service',
+  audience: 'Audience',
+}
+
+// Visibility per template question, split by the values it was asked with
+function TemplateResults({ breakdowns }: { breakdowns: TemplateBreakdown[] }) {
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <h3
+        className="text-[var(--green)] font-mono uppercase tracking-wider"
+        style={{ fontSize: '11px', letterSpacing: '0.1em', marginBottom: '12px' }}
+      >
+        Results By Question Template
+      </h3>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.7', marginBottom: '24px' }}>
+        Template questions are asked once for each of your locations, services or audiences.
+        See where AI recommends you and where it doesn't.
+      </p>
+
+      <div className="flex flex-col" style={{ gap: '24px' }}>
+        {breakdowns.map(breakdown => (
+          <div key={breakdown.templateText}>
+            <div className="flex items-start justify-between" style={{ gap: '16px', marginBottom: '12px' }}>
+              <p className="text-[var(--text)] text-sm font-mono">{breakdown.templateText}</p>
+              <span className="text-[var(--text-dim)] font-mono text-xs flex-shrink-0">
+                {breakdown.mentions}/{breakdown.responses} mentioned
+              </span>
+            </div>
+            <div className="flex flex-col" style={{ gap: '8px' }}>
+              {breakdown.values.map(result => {
+                const rate = result.responses > 0 ? Math.round((result.mentions / result.responses) * 100) : 0
+                return (
+                  <div key={`${result.variable}:${result.value}`} className="flex items-center" style={{ gap: '12px' }}>
+                    <span className="text-[var(--text-ghost)] font-mono uppercase flex-shrink-0" style={{ fontSize: '10px', width: '64px' }}>
+                      {templateVariableLabels[result.variable]}
+                    </span>
+                    <span className="text-[var(--text-mid)] text-sm flex-shrink-0" style={{ width: '160px' }}>
+                      {result.value}
+                    </span>
+                    <div className="flex-1 bg-[var(--surface-elevated)]" style={{ height: '6px' }}>
+                      <div
+                        style={{
+                          width: `${rate}%`,
+                          height: '100%',
+                          backgroundColor: rate > 0 ? 'var(--green)' : 'transparent',
+                        }}
+                      />
+                    </div>
+                    <span
+                      className="font-mono text-xs flex-shrink-0 text-right"
+                      style={{ width: '88px', color: rate > 0 ? 'var(--green)' : 'var(--red)' }}
+                    >
+                      {rate > 0 ? `${result.mentions}/${result.responses} visible` : 'invisible'}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))}
       </div>
     </div>
   )
@@ -226,6 +405,18 @@ export function ResponsesTab({
     markdown += `- **Total Responses**: ${totalCount}\n`
     markdown += `- **Mentions**: ${mentionCount} (${totalCount > 0 ? Math.round((mentionCount / totalCount) * 100) : 0}%)\n\n`
 
+    // Visibility per buyer persona, when questions were asked for personas
+    const personaBreakdowns = groupResultsByPersona(responses || [])
+    if (personaBreakdowns.length > 0) {
+      markdown += `## Visibility by Persona\n\n`
+      markdown += `| Persona | Visibility | Mentions |\n`
+      markdown += `|---|---|---|\n`
+      for (const persona of personaBreakdowns) {
+        markdown += `| ${persona.personaName ?? 'General questions'} | ${persona.score}% | ${persona.mentions}/${persona.responses} |\n`
+      }
+      markdown += `\n`
+    }
+
     // Group responses by platform
     const byPlatform = new Map<string, Response[]>()
     for (const response of responses || []) {
@@ -250,10 +441,16 @@ export function ResponsesTab({
         const question = response.prompt?.prompt_text || 'Unknown question'
 
         markdown += `### Q: ${question}\n\n`
+        if (response.prompt?.persona_name) {
+          markdown += `*Persona: ${response.prompt.persona_name}*\n\n`
+        }
         if (mentioned) {
           markdown += `**${mentioned}**\n\n`
         }
         markdown += `${response.response_text || 'No response'}\n\n`
+        if (response.response_translation) {
+          markdown += `*English translation:*\n\n${response.response_translation}\n\n`
+        }
         markdown += `---\n\n`
       }
     }
@@ -297,6 +494,9 @@ export function ResponsesTab({
     ? responses
     : responses.filter(r => r.platform === platformFilter)
 
+  // Template questions grouped by value, for the selected platform
+  const templateBreakdowns = groupResultsByTemplate(filteredResponses)
+
   // Then apply mentions filter
   if (mentionsOnly) {
     filteredResponses = filteredResponses.filter(r => r.domain_mentioned)
@@ -389,6 +589,10 @@ export function ResponsesTab({
         </div>
       </div>
 
+      {templateBreakdowns.length > 0 && (
+        <TemplateResults breakdowns={templateBreakdowns} />
+      )}
+
       {/* Empty state when filtering */}
       {filteredResponses.length === 0 && (
         <div className="text-center text-[var(--text-dim)]" style={{ padding: '60px 0' }}>
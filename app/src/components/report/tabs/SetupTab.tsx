@@ -4,7 +4,24 @@ import { useState, useRef, useEffect } from 'react'
 import { Settings, Globe, Lock, Sparkles, Lightbulb, Pencil, Plus, X, Check, Trash2, ChevronDown, RotateCcw, Bot, User, Library, CheckCircle, History } from 'lucide-react'
 import type { Analysis, Prompt, PlatformData } from '../shared'
 import { Monitor, Code, BarChart3, MessageSquare, FileText, AlertTriangle, Cpu, Info } from 'lucide-react'
-import { handlePricingClick, categoryLabels, categoryColors, selectableCategories } from '../shared'
+import { handlePricingClick, categoryLabels, categoryColors, selectableCategories, platformColors, platformNames } from '../shared'
+import { validateScopePattern, MAX_SCOPE_PATTERNS, MAX_PRIORITY_URLS, type CrawlScope } from '@/lib/ai/crawl-scope'
+import {
+  MIN_RUNS_FOR_VERDICT,
+  VOLATILE_THRESHOLD,
+  type QuestionPerformance,
+  type QuestionVerdict,
+} from '@/lib/ai/question-performance'
+import type { ResearchedQuery } from '@/lib/ai/query-research'
+import {
+  expandTemplate,
+  findTemplateVariables,
+  isQuestionTemplate,
+  templateValueLists,
+  type TemplateValueLists,
+} from '@/lib/ai/question-templates'
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from '@/lib/ai/language'
+import { MAX_PERSONAS, MAX_PAIN_POINTS, PERSONA_QUESTION_COUNT, type BuyerPersona } from '@/lib/ai/personas'
 
 // Simple tooltip component
 function InfoTooltip({ text }: { text: string }) {
@@ -58,6 +75,7 @@ interface EditableQuestion {
   source?: 'ai_generated' | 'user_created'
   isCustom?: boolean
   isEditing?: boolean
+  persona_id?: string | null
 }
 
 interface HistoryEntry {
@@ -708,6 +726,1475 @@ function QuestionHistoryModal({
   )
 }
 
+type BrandTermList = 'aliases' | 'products' | 'exclusions'
+
+const brandTermLists: { key: BrandTermList; label: string; hint: string; placeholder: string }[] = [
+  {
+    key: 'aliases',
+    label: 'Also Known As',
+    hint: 'Short names, former names or spellings AI might use for you',
+    placeholder: 'e.g. Lounge Lovers',
+  },
+  {
+    key: 'products',
+    label: 'Product Names',
+    hint: 'Products or services that only you sell. A mention of one counts as a mention of you',
+    placeholder: 'e.g. CloudSofa Pro',
+  },
+  {
+    key: 'exclusions',
+    label: 'Not Us',
+    hint: 'Phrases that contain your name but mean something else. These never count',
+    placeholder: 'e.g. Apex Legends',
+  },
+]
+
+// Brand entity profile editor - which names count as a mention of this brand
+function BrandProfileEditor({
+  domainSubscriptionId,
+  defaultBrandName,
+}: {
+  domainSubscriptionId: string
+  defaultBrandName: string | null
+}) {
+  const [brandName, setBrandName] = useState('')
+  const [terms, setTerms] = useState<Record<BrandTermList, string[]>>({ aliases: [], products: [], exclusions: [] })
+  const [drafts, setDrafts] = useState<Record<BrandTermList, string>>({ aliases: '', products: '', exclusions: '' })
+  const [maxTerms, setMaxTerms] = useState(25)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDirty, setIsDirty] = useState(false)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const res = await fetch(`/api/brand-profile?domain_subscription_id=${domainSubscriptionId}`)
+        if (!res.ok) return
+
+        const data = await res.json()
+        setMaxTerms(data.maxTermsPerList || 25)
+        if (data.profile) {
+          setBrandName(data.profile.brand_name || '')
+          setTerms({
+            aliases: data.profile.aliases || [],
+            products: data.profile.products || [],
+            exclusions: data.profile.exclusions || [],
+          })
+        }
+      } catch (err) {
+        console.error('Failed to fetch brand profile:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchProfile()
+  }, [domainSubscriptionId])
+
+  const addTerm = (list: BrandTermList) => {
+    const term = drafts[list].trim()
+    if (!term) return
+    if (terms[list].some(t => t.toLowerCase() === term.toLowerCase())) {
+      setDrafts(prev => ({ ...prev, [list]: '' }))
+      return
+    }
+    if (terms[list].length >= maxTerms) {
+      setError(`Maximum ${maxTerms} entries per list`)
+      return
+    }
+    setTerms(prev => ({ ...prev, [list]: [...prev[list], term] }))
+    setDrafts(prev => ({ ...prev, [list]: '' }))
+    setIsDirty(true)
+    setError(null)
+  }
+
+  const removeTerm = (list: BrandTermList, term: string) => {
+    setTerms(prev => ({ ...prev, [list]: prev[list].filter(t => t !== term) }))
+    setIsDirty(true)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/brand-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          domain_subscription_id: domainSubscriptionId,
+          brand_name: brandName.trim() || null,
+          ...terms,
+        }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to save brand profile')
+      }
+
+      setIsDirty(false)
+      setSavedAt(new Date())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save brand profile')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between" style={{ marginBottom: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          How AI Refers To You
+        </h3>
+        {savedAt && !isDirty && (
+          <span className="text-[var(--text-dim)] font-mono text-xs flex items-center gap-1">
+            <Check size={12} className="text-[var(--green)]" />
+            Saved - applies from your next scan
+          </span>
+        )}
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.7', marginBottom: '24px' }}>
+        We count a response as mentioning you when it names your domain, your brand or one of these names,
+        or cites a page on your site.
+      </p>
+
+      {isLoading ? (
+        <p className="text-[var(--text-ghost)] font-mono text-xs">Loading...</p>
+      ) : (
+        <div className="flex flex-col" style={{ gap: '24px' }}>
+          <div>
+            <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px', marginBottom: '8px' }}>
+              Brand Name
+              <InfoTooltip text="The name customers use for you. Leave blank to use the name we found on your site" />
+            </label>
+            <input
+              type="text"
+              value={brandName}
+              onChange={e => {
+                setBrandName(e.target.value)
+                setIsDirty(true)
+              }}
+              placeholder={defaultBrandName || 'Your brand name'}
+              maxLength={100}
+              className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm font-mono"
+              style={{ padding: '8px 12px' }}
+            />
+          </div>
+
+          {brandTermLists.map(({ key, label, hint, placeholder }) => (
+            <div key={key}>
+              <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px', marginBottom: '8px' }}>
+                {label}
+                <InfoTooltip text={hint} />
+              </label>
+              {terms[key].length > 0 && (
+                <div className="flex flex-wrap" style={{ gap: '8px', marginBottom: '10px' }}>
+                  {terms[key].map(term => (
+                    <span
+                      key={term}
+                      className={`flex items-center font-mono ${
+                        key === 'exclusions'
+                          ? 'bg-[var(--surface-elevated)] border border-[var(--border)] text-[var(--text-dim)] line-through'
+                          : 'bg-[var(--green)]/10 border border-[var(--green)]/20 text-[var(--green)]'
+                      }`}
+                      style={{ padding: '6px 10px', fontSize: '12px', gap: '6px' }}
+                    >
+                      {term}
+                      <button
+                        onClick={() => removeTerm(key, term)}
+                        className="text-[var(--text-ghost)] hover:text-[var(--red)]"
+                        aria-label={`Remove ${term}`}
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center" style={{ gap: '8px' }}>
+                <input
+                  type="text"
+                  value={drafts[key]}
+                  onChange={e => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') addTerm(key)
+                  }}
+                  placeholder={placeholder}
+                  maxLength={100}
+                  className="flex-1 bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm font-mono"
+                  style={{ padding: '8px 12px' }}
+                />
+                <button
+                  onClick={() => addTerm(key)}
+                  disabled={!drafts[key].trim()}
+                  className="flex items-center text-[var(--green)] font-mono text-sm hover:underline disabled:opacity-50"
+                  style={{ gap: '6px' }}
+                >
+                  <Plus size={14} />
+                  Add
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {error && (
+            <p className="text-[var(--red)] text-sm">{error}</p>
+          )}
+
+          <div>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !isDirty}
+              className="bg-[var(--green)] text-[var(--bg)] font-mono text-sm disabled:opacity-50"
+              style={{ padding: '8px 16px' }}
+            >
+              {isSaving ? 'Saving...' : 'Save Brand Profile'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+type CrawlPatternList = 'includePatterns' | 'excludePatterns' | 'priorityUrls'
+
+const crawlPatternLists: { key: CrawlPatternList; label: string; hint: string; placeholder: string }[] = [
+  {
+    key: 'includePatterns',
+    label: 'Only Crawl',
+    hint: 'Limit the crawl to these paths. Use * as a wildcard and $ to match the end. Leave empty to crawl the whole site',
+    placeholder: 'e.g. /services/*',
+  },
+  {
+    key: 'excludePatterns',
+    label: 'Never Crawl',
+    hint: 'Paths we skip, like tag archives, carts or PDFs',
+    placeholder: 'e.g. /tag/*  or  *.pdf$',
+  },
+  {
+    key: 'priorityUrls',
+    label: 'Always Crawl',
+    hint: 'Your most important pages. Crawled first every scan, even if they are not in your sitemap',
+    placeholder: 'e.g. /pricing',
+  },
+]
+
+// Crawl scope editor - which pages of the site each scan reads
+function CrawlScopeEditor({ domainSubscriptionId }: { domainSubscriptionId: string }) {
+  const [lists, setLists] = useState<Record<CrawlPatternList, string[]>>({ includePatterns: [], excludePatterns: [], priorityUrls: [] })
+  const [drafts, setDrafts] = useState<Record<CrawlPatternList, string>>({ includePatterns: '', excludePatterns: '', priorityUrls: '' })
+  const [maxPages, setMaxPages] = useState('')
+  const [maxPagesLimit, setMaxPagesLimit] = useState(15)
+  const [includeSubdomains, setIncludeSubdomains] = useState(false)
+  const [locale, setLocale] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isDirty, setIsDirty] = useState(false)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchScope = async () => {
+      try {
+        const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/crawl-scope`)
+        if (!res.ok) return
+
+        const data: { scope: CrawlScope; maxPagesLimit: number } = await res.json()
+        setMaxPagesLimit(data.maxPagesLimit)
+        setLists({
+          includePatterns: data.scope.includePatterns,
+          excludePatterns: data.scope.excludePatterns,
+          priorityUrls: data.scope.priorityUrls,
+        })
+        setMaxPages(data.scope.maxPages ? String(data.scope.maxPages) : '')
+        setIncludeSubdomains(data.scope.includeSubdomains)
+        setLocale(data.scope.locale || '')
+      } catch (err) {
+        console.error('Failed to fetch crawl scope:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchScope()
+  }, [domainSubscriptionId])
+
+  const addEntry = (list: CrawlPatternList) => {
+    const entry = drafts[list].trim()
+    if (!entry) return
+    if (lists[list].includes(entry)) {
+      setDrafts(prev => ({ ...prev, [list]: '' }))
+      return
+    }
+    const limit = list === 'priorityUrls' ? MAX_PRIORITY_URLS : MAX_SCOPE_PATTERNS
+    if (lists[list].length >= limit) {
+      setError(`Maximum ${limit} entries per list`)
+      return
+    }
+    if (list === 'priorityUrls') {
+      if (!entry.startsWith('/') && !/^https?:\/\//i.test(entry)) {
+        setError('Enter a path ("/pricing") or a full URL')
+        return
+      }
+    } else {
+      const problem = validateScopePattern(entry)
+      if (problem) {
+        setError(problem)
+        return
+      }
+    }
+    setLists(prev => ({ ...prev, [list]: [...prev[list], entry] }))
+    setDrafts(prev => ({ ...prev, [list]: '' }))
+    setIsDirty(true)
+    setError(null)
+  }
+
+  const removeEntry = (list: CrawlPatternList, entry: string) => {
+    setLists(prev => ({ ...prev, [list]: prev[list].filter(e => e !== entry) }))
+    setIsDirty(true)
+  }
+
+  const handleSave = async () => {
+    const pages = maxPages.trim() ? parseInt(maxPages, 10) : null
+    if (pages !== null && (isNaN(pages) || pages < 1 || pages > maxPagesLimit)) {
+      setError(`Pages per scan must be between 1 and ${maxPagesLimit}`)
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/crawl-scope`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          include_patterns: lists.includePatterns,
+          exclude_patterns: lists.excludePatterns,
+          priority_urls: lists.priorityUrls,
+          max_pages: pages,
+          include_subdomains: includeSubdomains,
+          locale: locale.trim() || null,
+        }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to save crawl settings')
+      }
+
+      setIsDirty(false)
+      setSavedAt(new Date())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save crawl settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between" style={{ marginBottom: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          Pages We Crawl
+        </h3>
+        {savedAt && !isDirty && (
+          <span className="text-[var(--text-dim)] font-mono text-xs flex items-center gap-1">
+            <Check size={12} className="text-[var(--green)]" />
+            Saved - applies from your next scan
+          </span>
+        )}
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.7', marginBottom: '24px' }}>
+        Each scan reads your homepage and the pages in your sitemap. Point it at the pages that matter
+        so recommendations focus on them.
+      </p>
+
+      {isLoading ? (
+        <p className="text-[var(--text-ghost)] font-mono text-xs">Loading...</p>
+      ) : (
+        <div className="flex flex-col" style={{ gap: '24px' }}>
+          {crawlPatternLists.map(({ key, label, hint, placeholder }) => (
+            <div key={key}>
+              <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px', marginBottom: '8px' }}>
+                {label}
+                <InfoTooltip text={hint} />
+              </label>
+              {lists[key].length > 0 && (
+                <div className="flex flex-wrap" style={{ gap: '8px', marginBottom: '10px' }}>
+                  {lists[key].map(entry => (
+                    <span
+                      key={entry}
+                      className={`flex items-center font-mono ${
+                        key === 'excludePatterns'
+                          ? 'bg-[var(--surface-elevated)] border border-[var(--border)] text-[var(--text-dim)] line-through'
+                          : 'bg-[var(--green)]/10 border border-[var(--green)]/20 text-[var(--green)]'
+                      }`}
+                      style={{ padding: '6px 10px', fontSize: '12px', gap: '6px' }}
+                    >
+                      {entry}
+                      <button
+                        onClick={() => removeEntry(key, entry)}
+                        className="text-[var(--text-ghost)] hover:text-[var(--red)]"
+                        aria-label={`Remove ${entry}`}
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center" style={{ gap: '8px' }}>
+                <input
+                  type="text"
+                  value={drafts[key]}
+                  onChange={e => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') addEntry(key)
+                  }}
+                  placeholder={placeholder}
+                  maxLength={key === 'priorityUrls' ? 500 : 200}
+                  className="flex-1 bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm font-mono"
+                  style={{ padding: '8px 12px' }}
+                />
+                <button
+                  onClick={() => addEntry(key)}
+                  disabled={!drafts[key].trim()}
+                  className="flex items-center text-[var(--green)] font-mono text-sm hover:underline disabled:opacity-50"
+                  style={{ gap: '6px' }}
+                >
+                  <Plus size={14} />
+                  Add
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 md:grid-cols-2" style={{ gap: '24px' }}>
+            <div>
+              <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px', marginBottom: '8px' }}>
+                Pages Per Scan
+                <InfoTooltip text={`Your plan crawls up to ${maxPagesLimit} pages per scan. Leave blank to use the maximum`} />
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={maxPagesLimit}
+                value={maxPages}
+                onChange={e => {
+                  setMaxPages(e.target.value)
+                  setIsDirty(true)
+                }}
+                placeholder={String(maxPagesLimit)}
+                className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm font-mono"
+                style={{ padding: '8px 12px' }}
+              />
+            </div>
+            <div>
+              <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px', marginBottom: '8px' }}>
+                Language Folder
+                <InfoTooltip text="For multi-language sites with folders like /en/ or /fr/. Only this folder is crawled; other language folders are skipped" />
+              </label>
+              <input
+                type="text"
+                value={locale}
+                onChange={e => {
+                  setLocale(e.target.value)
+                  setIsDirty(true)
+                }}
+                placeholder="e.g. en-au"
+                maxLength={5}
+                className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm font-mono"
+                style={{ padding: '8px 12px' }}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center text-[var(--text-mid)] text-sm cursor-pointer" style={{ gap: '10px' }}>
+            <input
+              type="checkbox"
+              checked={includeSubdomains}
+              onChange={e => {
+                setIncludeSubdomains(e.target.checked)
+                setIsDirty(true)
+              }}
+            />
+            Include subdomains (e.g. blog.yoursite.com)
+          </label>
+
+          {error && (
+            <p className="text-[var(--red)] text-sm">{error}</p>
+          )}
+
+          <div>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !isDirty}
+              className="bg-[var(--green)] text-[var(--bg)] font-mono text-sm disabled:opacity-50"
+              style={{ padding: '8px 16px' }}
+            >
+              {isSaving ? 'Saving...' : 'Save Crawl Settings'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SearcherLocationEditor({ domainSubscriptionId, businessLocation }: { domainSubscriptionId: string; businessLocation: string | null }) {
+  const [city, setCity] = useState('')
+  const [region, setRegion] = useState('')
+  const [countryCode, setCountryCode] = useState('')
+  const [savedCity, setSavedCity] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchLocation = async () => {
+      try {
+        const res = await fetch(`/api/subscriptions/${domainSubscriptionId}`)
+        if (!res.ok) return
+
+        const data = await res.json()
+        const subscription = data.subscription || {}
+        setCity(subscription.simulated_city || '')
+        setRegion(subscription.simulated_region || '')
+        setCountryCode(subscription.simulated_country_code || '')
+        setSavedCity(subscription.simulated_city || null)
+      } catch (err) {
+        console.error('Failed to fetch searcher location:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchLocation()
+  }, [domainSubscriptionId])
+
+  const saveLocation = async (clear: boolean) => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          simulated_location: clear || !city.trim()
+            ? null
+            : {
+                city: city.trim(),
+                region: region.trim() || null,
+                country_code: countryCode.trim() || null,
+              },
+        }),
+      })
+
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save location')
+      }
+
+      const subscription = data.subscription || {}
+      setCity(subscription.simulated_city || '')
+      setRegion(subscription.simulated_region || '')
+      setCountryCode(subscription.simulated_country_code || '')
+      setSavedCity(subscription.simulated_city || null)
+      setSavedAt(new Date())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save location')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between" style={{ marginBottom: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          Where Customers Search From
+        </h3>
+        {savedAt && (
+          <span className="text-[var(--text-dim)] font-mono text-xs flex items-center gap-1">
+            <Check size={12} className="text-[var(--green)]" />
+            Saved - applies from your next scan
+          </span>
+        )}
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.7', marginBottom: '24px' }}>
+        AI assistants tailor answers to where the user is. We ask every AI as if the customer were in{' '}
+        <strong className="text-[var(--text-mid)]">
+          {savedCity || businessLocation || 'the city named in each question'}
+        </strong>
+        {savedCity ? '.' : ' - set a city to see exactly what a local customer would see.'}
+      </p>
+
+      {isLoading ? (
+        <p className="text-[var(--text-ghost)] font-mono text-xs">Loading...</p>
+      ) : (
+        <div className="flex flex-col" style={{ gap: '16px' }}>
+          <div className="grid grid-cols-1 md:grid-cols-3" style={{ gap: '16px' }}>
+            <div>
+              <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider block" style={{ fontSize: '10px', marginBottom: '8px' }}>
+                City
+              </label>
+              <input
+                type="text"
+                value={city}
+                onChange={e => setCity(e.target.value)}
+                placeholder="e.g. Brisbane"
+                maxLength={100}
+                className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+                style={{ padding: '8px 12px' }}
+              />
+            </div>
+            <div>
+              <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider block" style={{ fontSize: '10px', marginBottom: '8px' }}>
+                State / Region
+              </label>
+              <input
+                type="text"
+                value={region}
+                onChange={e => setRegion(e.target.value)}
+                placeholder="Optional"
+                maxLength={100}
+                className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+                style={{ padding: '8px 12px' }}
+              />
+            </div>
+            <div>
+              <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px', marginBottom: '8px' }}>
+                Country Code
+                <InfoTooltip text="Two-letter code, e.g. AU, US, GB. Filled in for major cities" />
+              </label>
+              <input
+                type="text"
+                value={countryCode}
+                onChange={e => setCountryCode(e.target.value.toUpperCase())}
+                placeholder="e.g. AU"
+                maxLength={2}
+                className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm font-mono"
+                style={{ padding: '8px 12px' }}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-[var(--red)] text-sm">{error}</p>
+          )}
+
+          <div className="flex items-center" style={{ gap: '12px' }}>
+            <button
+              onClick={() => saveLocation(false)}
+              disabled={isSaving || !city.trim()}
+              className="bg-[var(--green)] text-[var(--bg)] font-mono text-sm disabled:opacity-50"
+              style={{ padding: '8px 16px' }}
+            >
+              {isSaving ? 'Saving...' : 'Save Location'}
+            </button>
+            {savedCity && (
+              <button
+                onClick={() => saveLocation(true)}
+                disabled={isSaving}
+                className="text-[var(--text-dim)] font-mono text-sm hover:text-[var(--text)] disabled:opacity-50"
+              >
+                Use business location
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ScanLanguageEditor({ domainSubscriptionId }: { domainSubscriptionId: string }) {
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE)
+  const [savedLanguage, setSavedLanguage] = useState(DEFAULT_LANGUAGE)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchLanguage = async () => {
+      try {
+        const res = await fetch(`/api/subscriptions/${domainSubscriptionId}`)
+        if (!res.ok) return
+
+        const data = await res.json()
+        const current = data.subscription?.language || DEFAULT_LANGUAGE
+        setLanguage(current)
+        setSavedLanguage(current)
+      } catch (err) {
+        console.error('Failed to fetch scan language:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchLanguage()
+  }, [domainSubscriptionId])
+
+  const saveLanguage = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to save language')
+      }
+
+      setSavedLanguage(language)
+      setSavedAt(new Date())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save language')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between" style={{ marginBottom: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          Scan Language
+        </h3>
+        {savedAt && language === savedLanguage && (
+          <span className="text-[var(--text-dim)] font-mono text-xs flex items-center gap-1">
+            <Check size={12} className="text-[var(--green)]" />
+            Saved - applies from your next scan
+          </span>
+        )}
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.7', marginBottom: '24px' }}>
+        New questions are researched and asked in this language, and AI answers come back in it.
+        Reports show the original answer with an English translation. Questions you&apos;ve already
+        saved keep their wording - edit them to ask in the new language.
+      </p>
+
+      {isLoading ? (
+        <p className="text-[var(--text-ghost)] font-mono text-xs">Loading...</p>
+      ) : (
+        <div className="flex flex-col" style={{ gap: '16px' }}>
+          <div className="flex items-center" style={{ gap: '12px' }}>
+            <select
+              value={language}
+              onChange={e => setLanguage(e.target.value)}
+              className="bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+              style={{ padding: '8px 12px', minWidth: '240px' }}
+            >
+              {SUPPORTED_LANGUAGES.map(l => (
+                <option key={l.code} value={l.code}>
+                  {l.code === DEFAULT_LANGUAGE ? l.name : `${l.name} (${l.nativeName})`}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={saveLanguage}
+              disabled={isSaving || language === savedLanguage}
+              className="bg-[var(--green)] text-[var(--bg)] font-mono text-sm disabled:opacity-50"
+              style={{ padding: '8px 16px' }}
+            >
+              {isSaving ? 'Saving...' : 'Save Language'}
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-[var(--red)] text-sm">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface PersonaDraft {
+  name: string
+  role: string
+  budget: string
+  company_size: string
+  pain_points: string // One per line
+}
+
+const emptyPersonaDraft: PersonaDraft = { name: '', role: '', budget: '', company_size: '', pain_points: '' }
+
+function PersonasEditor({
+  domainSubscriptionId,
+  personas,
+  onPersonasChange,
+  questionCounts,
+  onQuestionsAdded,
+}: {
+  domainSubscriptionId: string
+  personas: BuyerPersona[]
+  onPersonasChange: (personas: BuyerPersona[]) => void
+  questionCounts: Record<string, number>
+  onQuestionsAdded: (questions: EditableQuestion[]) => void
+}) {
+  const [draft, setDraft] = useState<PersonaDraft | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [generatingId, setGeneratingId] = useState<string | null>(null)
+  const [generated, setGenerated] = useState<Record<string, number>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const startAdd = () => {
+    setDraft(emptyPersonaDraft)
+    setEditingId(null)
+    setError(null)
+  }
+
+  const startEdit = (persona: BuyerPersona) => {
+    setDraft({
+      name: persona.name,
+      role: persona.role || '',
+      budget: persona.budget || '',
+      company_size: persona.company_size || '',
+      pain_points: persona.pain_points.join('\n'),
+    })
+    setEditingId(persona.id)
+    setError(null)
+  }
+
+  const cancelDraft = () => {
+    setDraft(null)
+    setEditingId(null)
+    setError(null)
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    if (!draft.name.trim()) {
+      setError('Give the persona a name')
+      return
+    }
+    const painPoints = draft.pain_points.split('\n').map(p => p.trim()).filter(Boolean)
+    if (painPoints.length > MAX_PAIN_POINTS) {
+      setError(`Up to ${MAX_PAIN_POINTS} pain points per persona`)
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(
+        editingId
+          ? `/api/subscriptions/${domainSubscriptionId}/personas/${editingId}`
+          : `/api/subscriptions/${domainSubscriptionId}/personas`,
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: draft.name.trim(),
+            role: draft.role.trim() || null,
+            budget: draft.budget.trim() || null,
+            company_size: draft.company_size.trim() || null,
+            pain_points: painPoints,
+          }),
+        }
+      )
+
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save persona')
+      }
+
+      onPersonasChange(
+        editingId
+          ? personas.map(p => (p.id === editingId ? data.persona : p))
+          : [...personas, data.persona]
+      )
+      setDraft(null)
+      setEditingId(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save persona')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deletePersona = async (persona: BuyerPersona) => {
+    if (!confirm(`Remove the "${persona.name}" persona? Its questions stay, as general questions.`)) return
+
+    setError(null)
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/personas/${persona.id}`, {
+        method: 'DELETE',
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to remove persona')
+      }
+      onPersonasChange(personas.filter(p => p.id !== persona.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove persona')
+    }
+  }
+
+  const generateQuestions = async (persona: BuyerPersona) => {
+    setGeneratingId(persona.id)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/personas/${persona.id}/questions`, {
+        method: 'POST',
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to generate questions')
+      }
+
+      const added: { id: string; prompt_text: string; category: string; persona_id: string | null }[] = data.questions || []
+      onQuestionsAdded(added.map(q => ({
+        id: q.id,
+        prompt_text: q.prompt_text,
+        category: q.category,
+        source: 'ai_generated',
+        isCustom: false,
+        persona_id: q.persona_id,
+      })))
+      setGenerated(prev => ({ ...prev, [persona.id]: added.length }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate questions')
+    } finally {
+      setGeneratingId(null)
+    }
+  }
+
+  const personaFields: { key: Exclude<keyof PersonaDraft, 'name' | 'pain_points'>; label: string; placeholder: string }[] = [
+    { key: 'role', label: 'Role', placeholder: 'e.g. Runs facilities and suppliers' },
+    { key: 'company_size', label: 'Company Size', placeholder: 'e.g. 20-50 staff' },
+    { key: 'budget', label: 'Budget', placeholder: 'e.g. $5k-10k a year' },
+  ]
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <div className="flex items-center justify-between" style={{ marginBottom: '12px' }}>
+        <h3
+          className="text-[var(--green)] font-mono uppercase tracking-wider"
+          style={{ fontSize: '11px', letterSpacing: '0.1em' }}
+        >
+          Buyer Personas
+        </h3>
+        {!draft && personas.length < MAX_PERSONAS && (
+          <button
+            onClick={startAdd}
+            className="flex items-center text-[var(--green)] font-mono text-sm hover:underline"
+            style={{ gap: '6px' }}
+          >
+            <Plus size={14} />
+            Add Persona
+          </button>
+        )}
+      </div>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.7', marginBottom: '24px' }}>
+        Different buyers ask AI different questions. Describe who buys from you, generate questions in
+        their words, and your Measurements tab shows how visible you are to each of them.
+      </p>
+
+      {personas.length > 0 && (
+        <div className="flex flex-col" style={{ gap: '12px', marginBottom: draft ? '24px' : 0 }}>
+          {personas.map(persona => (
+            <div
+              key={persona.id}
+              className="bg-[var(--surface)] border border-[var(--border)]"
+              style={{ padding: '16px' }}
+            >
+              <div className="flex items-start justify-between" style={{ gap: '12px' }}>
+                <div>
+                  <p className="text-[var(--text)] font-mono text-sm">{persona.name}</p>
+                  {persona.role && (
+                    <p className="text-[var(--text-mid)] text-sm" style={{ marginTop: '4px' }}>{persona.role}</p>
+                  )}
+                  {(persona.company_size || persona.budget) && (
+                    <p className="text-[var(--text-dim)] text-xs font-mono" style={{ marginTop: '4px' }}>
+                      {[persona.company_size, persona.budget].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center flex-shrink-0" style={{ gap: '4px' }}>
+                  <button
+                    onClick={() => startEdit(persona)}
+                    className="text-[var(--text-ghost)] hover:text-[var(--text)]"
+                    style={{ padding: '6px' }}
+                    aria-label={`Edit ${persona.name}`}
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => deletePersona(persona)}
+                    className="text-[var(--text-ghost)] hover:text-[var(--red)]"
+                    style={{ padding: '6px' }}
+                    aria-label={`Remove ${persona.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+
+              {persona.pain_points.length > 0 && (
+                <div className="flex flex-wrap" style={{ gap: '6px', marginTop: '10px' }}>
+                  {persona.pain_points.map(point => (
+                    <span
+                      key={point}
+                      className="bg-[var(--surface-elevated)] border border-[var(--border)] text-[var(--text-dim)] text-xs"
+                      style={{ padding: '4px 8px' }}
+                    >
+                      {point}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between" style={{ marginTop: '12px', gap: '12px' }}>
+                <span className="text-[var(--text-ghost)] font-mono text-xs">
+                  {questionCounts[persona.id] || 0} question{questionCounts[persona.id] === 1 ? '' : 's'}
+                  {generated[persona.id] ? ` · ${generated[persona.id]} added - asked from your next scan` : ''}
+                </span>
+                <button
+                  onClick={() => generateQuestions(persona)}
+                  disabled={generatingId !== null}
+                  className="flex items-center text-[var(--green)] font-mono text-xs hover:underline disabled:opacity-50"
+                  style={{ gap: '6px' }}
+                >
+                  <Sparkles size={12} />
+                  {generatingId === persona.id ? 'Researching...' : `Generate ${PERSONA_QUESTION_COUNT} Questions`}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="flex flex-col" style={{ gap: '16px' }}>
+          <div>
+            <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider" style={{ fontSize: '10px', marginBottom: '8px', display: 'block' }}>
+              Persona Name
+            </label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Office manager"
+              maxLength={80}
+              className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+              style={{ padding: '8px 12px' }}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3" style={{ gap: '16px' }}>
+            {personaFields.map(({ key, label, placeholder }) => (
+              <div key={key}>
+                <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider" style={{ fontSize: '10px', marginBottom: '8px', display: 'block' }}>
+                  {label}
+                </label>
+                <input
+                  type="text"
+                  value={draft[key]}
+                  onChange={e => setDraft({ ...draft, [key]: e.target.value })}
+                  placeholder={placeholder}
+                  maxLength={key === 'role' ? 200 : 80}
+                  className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+                  style={{ padding: '8px 12px' }}
+                />
+              </div>
+            ))}
+          </div>
+          <div>
+            <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px', marginBottom: '8px' }}>
+              Pain Points
+              <InfoTooltip text={`One per line, up to ${MAX_PAIN_POINTS}. The problems this buyer wants solved shape the questions we research for them`} />
+            </label>
+            <textarea
+              value={draft.pain_points}
+              onChange={e => setDraft({ ...draft, pain_points: e.target.value })}
+              placeholder={'e.g. Suppliers who never show up on time\nNo time to compare quotes'}
+              rows={3}
+              className="w-full bg-[var(--surface)] border border-[var(--border)] text-[var(--text)] text-sm"
+              style={{ padding: '8px 12px', resize: 'vertical' }}
+            />
+          </div>
+          <div className="flex items-center" style={{ gap: '12px' }}>
+            <button
+              onClick={saveDraft}
+              disabled={isSaving}
+              className="bg-[var(--green)] text-[var(--bg)] font-mono text-sm disabled:opacity-50"
+              style={{ padding: '8px 16px' }}
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save Persona' : 'Add Persona'}
+            </button>
+            <button
+              onClick={cancelDraft}
+              className="text-[var(--text-dim)] font-mono text-sm hover:text-[var(--text)]"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-[var(--red)] text-sm" style={{ marginTop: '16px' }}>{error}</p>
+      )}
+    </div>
+  )
+}
+
+// How many prompts a template question becomes in the next scan
+function TemplateBadge({ text, valueLists }: { text: string; valueLists: TemplateValueLists }) {
+  const expansions = expandTemplate(text, valueLists)
+  const missing = findTemplateVariables(text).filter(variable => valueLists[variable].length === 0)
+
+  if (missing.length > 0) {
+    return (
+      <span
+        className="flex items-center gap-1 font-mono text-xs bg-[var(--gold)]/10 text-[var(--gold)]"
+        style={{ padding: '2px 6px' }}
+        title={`We didn't find any ${missing.join(' or ')} values on your site, so this question is skipped`}
+      >
+        <AlertTriangle size={10} />
+        No {missing.join('/')} found
+      </span>
+    )
+  }
+
+  return (
+    <span
+      className="flex items-center gap-1 font-mono text-xs bg-[var(--amber)]/10 text-[var(--amber)]"
+      style={{ padding: '2px 6px' }}
+      title={expansions.map(e => e.text).join('\n')}
+    >
+      <Sparkles size={10} />
+      Template · {expansions.length} version{expansions.length === 1 ? '' : 's'}
+    </span>
+  )
+}
+
+const verdictStyles: Record<QuestionVerdict, { label: string; color: string; hint: string }> = {
+  new: { label: 'Too new', color: 'var(--text-dim)', hint: `Needs ${MIN_RUNS_FOR_VERDICT} scans with the current wording before we judge it` },
+  strong: { label: 'Strong', color: 'var(--green)', hint: 'You appear in most answers' },
+  contested: { label: 'Contested', color: 'var(--gold)', hint: 'You appear in some answers - room to grow' },
+  crowded_out: { label: 'Crowded out', color: 'var(--red)', hint: 'AI recommends competitors but not you - worth fighting for' },
+  dead: { label: 'Dead', color: 'var(--text-ghost)', hint: 'AI rarely recommends any business for this question - consider replacing it' },
+}
+
+function QuestionPerformancePanel({
+  domainSubscriptionId,
+  activeQuestionIds,
+  canAddMore,
+  onRetired,
+  onAdded,
+}: {
+  domainSubscriptionId?: string | null
+  activeQuestionIds: string[]
+  canAddMore: boolean
+  onRetired: (questionId: string) => void
+  onAdded: (question: EditableQuestion) => void
+}) {
+  const [performance, setPerformance] = useState<QuestionPerformance[]>([])
+  const [retireCandidates, setRetireCandidates] = useState<string[]>([])
+  const [suggestions, setSuggestions] = useState<ResearchedQuery[]>([])
+  const [runsAnalyzed, setRunsAnalyzed] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isResearching, setIsResearching] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchPerformance = async () => {
+      try {
+        const url = domainSubscriptionId
+          ? `/api/questions/performance?domain_subscription_id=${domainSubscriptionId}`
+          : '/api/questions/performance'
+        const res = await fetch(url)
+        if (!res.ok) return
+
+        const data = await res.json()
+        setPerformance(data.performance || [])
+        setRetireCandidates(data.retireCandidates || [])
+        setSuggestions(data.suggestions || [])
+        setRunsAnalyzed(data.runsAnalyzed || 0)
+      } catch (err) {
+        console.error('Failed to fetch question performance:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchPerformance()
+  }, [domainSubscriptionId])
+
+  const handleRetire = async (questionId: string) => {
+    setBusyId(questionId)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/questions/${questionId}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to retire question')
+      }
+      setRetireCandidates(prev => prev.filter(id => id !== questionId))
+      onRetired(questionId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retire question')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleFindReplacements = async () => {
+    setIsResearching(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/questions/suggestions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain_subscription_id: domainSubscriptionId }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to research questions')
+      }
+      setSuggestions(data.suggestions || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to research questions')
+    } finally {
+      setIsResearching(false)
+    }
+  }
+
+  const handleAddSuggestion = async (suggestion: ResearchedQuery) => {
+    setBusyId(suggestion.query)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/questions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt_text: suggestion.query,
+          category: suggestion.category,
+          domain_subscription_id: domainSubscriptionId,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to add question')
+      }
+      setSuggestions(prev => prev.filter(s => s.query !== suggestion.query))
+      onAdded({
+        id: data.question.id,
+        prompt_text: data.question.prompt_text,
+        category: data.question.category,
+        isCustom: true,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add question')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const rows = performance.filter(p => activeQuestionIds.includes(p.questionId))
+  const candidates = retireCandidates.filter(id => activeQuestionIds.includes(id))
+
+  if (!isLoading && (rows.length === 0 || runsAnalyzed === 0)) return null
+
+  return (
+    <div className="card" style={{ padding: '32px' }}>
+      <h3
+        className="text-[var(--green)] font-mono uppercase tracking-wider"
+        style={{ fontSize: '11px', letterSpacing: '0.1em', marginBottom: '12px' }}
+      >
+        Question Performance
+      </h3>
+      <p className="text-[var(--text-dim)] text-sm" style={{ lineHeight: '1.7', marginBottom: '24px' }}>
+        How each question has done across your last {runsAnalyzed} scan{runsAnalyzed === 1 ? '' : 's'}.
+        Keep the ones where you can win; swap out questions where AI doesn't recommend anyone.
+      </p>
+
+      {isLoading ? (
+        <p className="text-[var(--text-ghost)] font-mono text-xs">Loading...</p>
+      ) : (
+        <div className="flex flex-col" style={{ gap: '12px' }}>
+          {rows.map(row => {
+            const verdict = verdictStyles[row.verdict]
+            const isCandidate = candidates.includes(row.questionId)
+            return (
+              <div
+                key={row.questionId}
+                className="bg-[var(--surface-elevated)] border border-[var(--border)]"
+                style={{ padding: '16px 20px' }}
+              >
+                <div className="flex items-start justify-between" style={{ gap: '16px', marginBottom: '10px' }}>
+                  <p className="text-[var(--text)] text-sm" style={{ lineHeight: '1.5' }}>{row.promptText}</p>
+                  <span
+                    className="font-mono uppercase flex-shrink-0 flex items-center gap-1"
+                    style={{ fontSize: '10px', color: verdict.color, letterSpacing: '0.05em' }}
+                  >
+                    {verdict.label}
+                    <InfoTooltip text={verdict.hint} />
+                  </span>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4" style={{ gap: '12px', marginBottom: '10px' }}>
+                  <div>
+                    <span className="text-[var(--text-dim)] font-mono uppercase tracking-wider block" style={{ fontSize: '10px' }}>Mentioned</span>
+                    <span className="text-[var(--text)] font-mono text-sm">{row.mentionRate === null ? '—' : `${row.mentionRate}%`}</span>
+                  </div>
+                  <div>
+                    <span className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px' }}>
+                      Volatility
+                      <InfoTooltip text="Average change in mention rate from one scan to the next" />
+                    </span>
+                    <span
+                      className="font-mono text-sm"
+                      style={{ color: row.volatility !== null && row.volatility > VOLATILE_THRESHOLD ? 'var(--gold)' : 'var(--text)' }}
+                    >
+                      {row.volatility === null ? '—' : `±${row.volatility} pts`}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-[var(--text-dim)] font-mono uppercase tracking-wider flex items-center gap-1.5" style={{ fontSize: '10px' }}>
+                      Competitors
+                      <InfoTooltip text="Average number of competitors named per answer" />
+                    </span>
+                    <span className="text-[var(--text)] font-mono text-sm">{row.competitorCrowding === null ? '—' : row.competitorCrowding}</span>
+                  </div>
+                  <div>
+                    <span className="text-[var(--text-dim)] font-mono uppercase tracking-wider block" style={{ fontSize: '10px' }}>Last Changed</span>
+                    <span className="text-[var(--text)] font-mono text-sm">
+                      {new Date(row.lastChangedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </span>
+                  </div>
+                </div>
+
+                {Object.keys(row.platformMentionRates).length > 0 && (
+                  <div className="flex flex-wrap" style={{ gap: '6px' }}>
+                    {Object.entries(row.platformMentionRates).map(([platform, rate]) => (
+                      <span
+                        key={platform}
+                        className="font-mono border border-[var(--border)]"
+                        style={{ padding: '2px 8px', fontSize: '11px', color: platformColors[platform] || 'var(--text-mid)' }}
+                      >
+                        {platformNames[platform] || platform} {rate}%
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {row.topCompetitors.length > 0 && (
+                  <p className="text-[var(--text-dim)] text-xs" style={{ marginTop: '8px' }}>
+                    Most recommended instead: {row.topCompetitors.join(', ')}
+                  </p>
+                )}
+
+                {isCandidate && (
+                  <div className="flex items-center justify-between border-t border-[var(--border)]" style={{ marginTop: '12px', paddingTop: '12px', gap: '12px' }}>
+                    <p className="text-[var(--text-mid)] text-xs">
+                      AI hasn't recommended any business for this question in {row.runsSinceChange} scans.
+                    </p>
+                    <button
+                      onClick={() => handleRetire(row.questionId)}
+                      disabled={busyId === row.questionId}
+                      className="flex items-center text-[var(--red)] font-mono text-xs hover:underline disabled:opacity-50 flex-shrink-0"
+                      style={{ gap: '6px' }}
+                    >
+                      <Trash2 size={12} />
+                      Retire
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          {(candidates.length > 0 || suggestions.length > 0) && (
+            <div style={{ marginTop: '12px' }}>
+              <div className="flex items-center justify-between" style={{ marginBottom: '10px' }}>
+                <label className="text-[var(--text-dim)] font-mono uppercase tracking-wider" style={{ fontSize: '10px' }}>
+                  Suggested Replacements
+                </label>
+                <button
+                  onClick={handleFindReplacements}
+                  disabled={isResearching}
+                  className="flex items-center text-[var(--green)] font-mono text-xs hover:underline disabled:opacity-50"
+                  style={{ gap: '6px' }}
+                >
+                  <Sparkles size={12} />
+                  {isResearching ? 'Researching...' : 'Find fresh ideas'}
+                </button>
+              </div>
+              {suggestions.length === 0 ? (
+                <p className="text-[var(--text-ghost)] text-xs">
+                  No suggestions yet - we'll ask AI assistants what customers search for.
+                </p>
+              ) : (
+                <div className="flex flex-col" style={{ gap: '8px' }}>
+                  {suggestions.map(suggestion => (
+                    <div
+                      key={suggestion.query}
+                      className="flex items-center justify-between border border-[var(--border)]"
+                      style={{ padding: '10px 14px', gap: '12px' }}
+                    >
+                      <span className="text-[var(--text-mid)] text-sm">{suggestion.query}</span>
+                      <button
+                        onClick={() => handleAddSuggestion(suggestion)}
+                        disabled={!canAddMore || busyId === suggestion.query}
+                        title={canAddMore ? undefined : 'Retire a question first to make room'}
+                        className="flex items-center text-[var(--green)] font-mono text-xs hover:underline disabled:opacity-50 flex-shrink-0"
+                        style={{ gap: '6px' }}
+                      >
+                        <Plus size={12} />
+                        Add
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <p className="text-[var(--red)] text-sm">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function SetupTab({
   analysis,
   prompts,
@@ -747,6 +2234,7 @@ export function SetupTab({
   const [showLibrary, setShowLibrary] = useState(false)
   const [historyQuestionId, setHistoryQuestionId] = useState<string | null>(null)
   const [showPicker, setShowPicker] = useState<'edit' | 'add' | null>(null)
+  const [personas, setPersonas] = useState<BuyerPersona[]>([])
 
   // Fetch fresh questions from API when component mounts (for subscribers)
   // This ensures we have the latest data after tab switches, not stale SSR data
@@ -764,12 +2252,13 @@ export function SetupTab({
 
         const data = await res.json()
         if (data.questions && Array.isArray(data.questions)) {
-          setQuestions(data.questions.map((q: { id: string; prompt_text: string; category: string; source?: string }) => ({
+          setQuestions(data.questions.map((q: { id: string; prompt_text: string; category: string; source?: string; persona_id?: string | null }) => ({
             id: q.id,
             prompt_text: q.prompt_text,
             category: q.category,
             source: q.source,
             isCustom: q.source === 'user_created',
+            persona_id: q.persona_id ?? null,
           })))
         }
       } catch (err) {
@@ -781,6 +2270,25 @@ export function SetupTab({
     fetchQuestions()
   }, [isSubscriber, domainSubscriptionId])
 
+  // Buyer personas - shown in their own editor and as badges on their questions
+  useEffect(() => {
+    if (!isSubscriber || !domainSubscriptionId) return
+
+    const fetchPersonas = async () => {
+      try {
+        const res = await fetch(`/api/subscriptions/${domainSubscriptionId}/personas`)
+        if (!res.ok) return
+
+        const data = await res.json()
+        setPersonas(data.personas || [])
+      } catch (err) {
+        console.error('Failed to fetch personas:', err)
+      }
+    }
+
+    fetchPersonas()
+  }, [isSubscriber, domainSubscriptionId])
+
   if (!analysis) {
     return (
       <div className="text-center text-[var(--text-dim)]" style={{ padding: '80px 0' }}>
@@ -792,6 +2300,22 @@ export function SetupTab({
 
   const canAddMore = questions.length < customQuestionLimit
 
+  const personaNames = new Map(personas.map(p => [p.id, p.name]))
+  const personaQuestionCounts: Record<string, number> = {}
+  for (const question of questions) {
+    if (question.persona_id) {
+      personaQuestionCounts[question.persona_id] = (personaQuestionCounts[question.persona_id] || 0) + 1
+    }
+  }
+
+  // What template variables expand to for this business
+  const templateValues = templateValueLists({
+    location: analysis.location,
+    locations: analysis.locations,
+    services: analysis.services,
+    targetAudience: analysis.target_audience,
+  })
+
   const handleStartEdit = (question: EditableQuestion) => {
     setEditingId(question.id)
     setEditText(question.prompt_text)
@@ -1222,6 +2746,37 @@ export function SetupTab({
         </div>
       )}
 
+      {/* Brand entity profile - subscribers only (applies to scheduled scans) */}
+      {isSubscriber && domainSubscriptionId && (
+        <BrandProfileEditor
+          domainSubscriptionId={domainSubscriptionId}
+          defaultBrandName={analysis.business_name}
+        />
+      )}
+
+      {/* Crawl scope - subscribers only (applies to scheduled scans) */}
+      {isSubscriber && domainSubscriptionId && (
+        <CrawlScopeEditor domainSubscriptionId={domainSubscriptionId} />
+      )}
+
+      {isSubscriber && domainSubscriptionId && (
+        <SearcherLocationEditor domainSubscriptionId={domainSubscriptionId} businessLocation={analysis.location} />
+      )}
+
+      {isSubscriber && domainSubscriptionId && (
+        <ScanLanguageEditor domainSubscriptionId={domainSubscriptionId} />
+      )}
+
+      {isSubscriber && domainSubscriptionId && (
+        <PersonasEditor
+          domainSubscriptionId={domainSubscriptionId}
+          personas={personas}
+          onPersonasChange={setPersonas}
+          questionCounts={personaQuestionCounts}
+          onQuestionsAdded={added => setQuestions(prev => [...prev, ...added])}
+        />
+      )}
+
       {/* Key Phrases */}
       {analysis.key_phrases && analysis.key_phrases.length > 0 && (
         <div className="card" style={{ padding: '32px' }}>
@@ -1275,6 +2830,14 @@ export function SetupTab({
                 Click any question to edit it, add your own, or use <strong className="text-[var(--text-mid)]">Browse</strong> to select from your Question Library.
                 You can have up to {customQuestionLimit} questions. Changes will be used in your next scan.
               </p>
+              <p
+                className="text-[var(--text-dim)] text-sm"
+                style={{ marginTop: '12px', lineHeight: '1.7' }}
+              >
+                Use <code className="text-[var(--text-mid)] font-mono">{'{location}'}</code>, <code className="text-[var(--text-mid)] font-mono">{'{service}'}</code> or <code className="text-[var(--text-mid)] font-mono">{'{audience}'}</code> in a question to ask it once for each of your locations, services or audiences,
+                e.g. &quot;Who is the best {'{service}'} provider in {'{location}'}?&quot;
+                Each version counts toward your {customQuestionLimit}-question limit, so templates get extra versions only when you have room.
+              </p>
             </div>
           ) : (
             // Free user view: explanation with upgrade CTA
@@ -1460,6 +3023,19 @@ export function SetupTab({
                             Custom
                           </span>
                         ) : null}
+                        {isQuestionTemplate(question.prompt_text) && (
+                          <TemplateBadge text={question.prompt_text} valueLists={templateValues} />
+                        )}
+                        {question.persona_id && personaNames.has(question.persona_id) && (
+                          <span
+                            className="flex items-center gap-1 font-mono text-xs bg-[var(--surface-elevated)] text-[var(--text-dim)]"
+                            style={{ padding: '2px 6px' }}
+                            title="Asked from this buyer persona's viewpoint"
+                          >
+                            <User size={10} />
+                            {personaNames.get(question.persona_id)}
+                          </span>
+                        )}
                       </div>
                     </div>
 
@@ -1578,6 +3154,16 @@ export function SetupTab({
         </div>
       )}
 
+      {isSubscriber && (
+        <QuestionPerformancePanel
+          domainSubscriptionId={domainSubscriptionId}
+          activeQuestionIds={questions.map(q => q.id)}
+          canAddMore={canAddMore}
+          onRetired={(questionId) => setQuestions(prev => prev.filter(q => q.id !== questionId))}
+          onAdded={(question) => setQuestions(prev => [...prev, question])}
+        />
+      )}
+
       {/* Question Library Modal */}
       {showLibrary && (
         <QuestionLibraryModal
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { Briefcase, Code, Building2, Lock, ChevronRight, Eye, Target, Zap, Globe, CheckCircle2, AlertCircle, XCircle, Users, TrendingUp, Crown, Minus } from 'lucide-react'
 import type { Analysis, TabId, Response, CrawlData, Competitor } from '../shared'
 import { platformColors, platformNames } from '../shared'
+import { isAiCrawlerRestricted } from '@/lib/ai/robots'
 
 // Readiness check logic (duplicated from AIReadinessTab for calculation)
 const calculateReadinessResults = (analysis: Analysis | null, crawlData?: CrawlData) => {
@@ -15,8 +16,10 @@ const calculateReadinessResults = (analysis: Analysis | null, crawlData?: CrawlD
     { id: 'industry_context', check: () => analysis?.industry && analysis.industry !== 'General' ? 'pass' : 'warning' },
     { id: 'key_phrases', check: () => analysis?.key_phrases && analysis.key_phrases.length >= 5 ? 'pass' : analysis?.key_phrases && analysis.key_phrases.length > 0 ? 'warning' : 'fail' },
     { id: 'sitemap', check: () => crawlData?.hasSitemap ? 'pass' : 'fail' },
+    { id: 'ai_crawler_access', check: () => !crawlData?.aiCrawlerAccess ? 'unknown' : crawlData.aiCrawlerAccess.some(c => c.status === 'blocked') ? 'fail' : crawlData.aiCrawlerAccess.some(isAiCrawlerRestricted) ? 'warning' : 'pass' },
+    { id: 'llms_txt', check: () => { const f = crawlData?.aiDiscovery?.files.find(f => f.kind === 'llms_txt'); return !f ? 'unknown' : f.found && f.valid ? 'pass' : f.found ? 'warning' : 'fail' } },
     { id: 'page_depth', check: () => crawlData?.pagesCrawled && crawlData.pagesCrawled >= 10 ? 'pass' : crawlData?.pagesCrawled && crawlData.pagesCrawled >= 5 ? 'warning' : 'fail' },
-    { id: 'schema_markup', check: () => crawlData?.schemaTypes && crawlData.schemaTypes.length > 0 ? 'pass' : 'fail' },
+    { id: 'schema_markup', check: () => !crawlData?.schemaTypes || crawlData.schemaTypes.length === 0 ? 'fail' : crawlData.schemaValidation?.some(p => p.errorCount > 0) ? 'warning' : 'pass' },
     { id: 'meta_descriptions', check: () => crawlData?.hasMetaDescriptions ? 'pass' : 'warning' },
   ]
 
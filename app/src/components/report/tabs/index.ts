@@ -3,6 +3,7 @@ export { SetupTab } from './SetupTab'
 export { AIReadinessTab } from './AIReadinessTab'
 export { ResponsesTab } from './ResponsesTab'
 export { MeasurementsTab } from './MeasurementsTab'
+export { CitationsTab } from './CitationsTab'
 export { CompetitorsTab } from './CompetitorsTab'
 export { BrandAwarenessTab } from './BrandAwarenessTab'
 export { ActionsTab } from './ActionsTab'
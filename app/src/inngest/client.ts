@@ -29,6 +29,15 @@ export type SubscriberEnrichEvent = {
   }
 }
 
+// Crawl tracked competitors' websites after a subscriber scan (opt-in per subscription)
+export type CompetitorSitesScanEvent = {
+  name: "competitors/scan-sites"
+  data: {
+    scanRunId: string
+    domainSubscriptionId: string
+  }
+}
+
 // HiringBrand employer reputation scan
 export type HiringBrandScanEvent = {
   name: "hiringbrand/scan"
@@ -40,4 +49,4 @@ export type HiringBrandScanEvent = {
 }
 
 // Union type of all events for type inference
-export type InngestEvents = ScanProcessEvent | SubscriberEnrichEvent | HiringBrandScanEvent
+export type InngestEvents = ScanProcessEvent | SubscriberEnrichEvent | CompetitorSitesScanEvent | HiringBrandScanEvent
@@ -24,6 +24,13 @@ import {
 } from "@/lib/ai/generate-prd"
 import { getUserTier, getFeatureFlags } from "@/lib/features/flags"
 import { log } from "@/lib/logger"
+import { ALL_PLATFORMS } from "@/lib/ai/platforms"
+import { getBudgetStatus, recordBudgetLimit, STEP_COST_ESTIMATES_CENTS } from "@/lib/ai/budgets"
+import { buildFactSheet, hasFacts, type FactSheet } from "@/lib/ai/fact-sheet"
+import { checkBrandFacts, isFactCheckable } from "@/lib/ai/fact-check"
+import type { AiCrawlerAccess } from "@/lib/ai/robots"
+import type { PageSchemaValidation } from "@/lib/ai/schema-validator"
+import type { ActionExpectation } from "@/lib/ai/action-expectations"
 
 /**
  * Enrich Subscriber Report
@@ -323,6 +330,102 @@ export const enrichSubscriber = inngest.createFunction(
       }
     })
 
+    // Step 2g: Check brand recall and service answers against the brand's fact sheet
+    await step.run("fact-check-brand-answers", async () => {
+      const supabase = createServiceClient()
+
+      // A sheet the subscriber has edited is the ground truth; otherwise rebuild it from this crawl
+      let sheet: FactSheet | null = null
+      if (domainSubscriptionId) {
+        const { data: saved } = await supabase
+          .from("brand_fact_sheets")
+          .select("business_name, address, founded_year, services, pricing, people, notes, edited_by_user")
+          .eq("domain_subscription_id", domainSubscriptionId)
+          .maybeSingle()
+        if (saved?.edited_by_user) sheet = saved as FactSheet
+      }
+
+      if (!sheet) {
+        const { data: pages } = await supabase
+          .from("crawled_pages")
+          .select("schema_data")
+          .eq("run_id", scanRunId)
+
+        sheet = buildFactSheet(
+          scanData.analysis,
+          (pages || []).flatMap((p: { schema_data: unknown[] | null }) => p.schema_data || [])
+        )
+
+        if (domainSubscriptionId) {
+          const { error } = await supabase
+            .from("brand_fact_sheets")
+            .upsert(
+              { domain_subscription_id: domainSubscriptionId, ...sheet, edited_by_user: false },
+              { onConflict: "domain_subscription_id" }
+            )
+          if (error) {
+            log.warn(scanRunId, `Failed to save fact sheet: ${error.message}`)
+          }
+        }
+      }
+
+      if (!hasFacts(sheet)) {
+        log.info(scanRunId, "Fact sheet is empty, skipping fact check")
+        return null
+      }
+
+      const results = brandResults.rawResults as BrandAwarenessResult[]
+      const platformCount = new Set(results.filter(isFactCheckable).map((r) => r.platform)).size
+
+      const budget = await getBudgetStatus({ runId: scanRunId, domainSubscriptionId })
+      if (budget.remainingCents < STEP_COST_ESTIMATES_CENTS.factCheck * platformCount) {
+        log.warn(scanRunId, `Budget: skipping fact check (${budget.remainingCents}¢ left)`)
+        await recordBudgetLimit(scanRunId, budget, {
+          step: "fact_check",
+          action: "skipped_step",
+          detail: "AI answers about the brand were not fact-checked for this scan",
+        })
+        return null
+      }
+
+      log.step(scanRunId, "Fact-checking brand answers")
+
+      const checks = await checkBrandFacts(results, sheet, scanRunId)
+
+      // Brand recall is one answer per platform, service checks one per service
+      const { data: rows } = await supabase
+        .from("brand_awareness_results")
+        .select("id, platform, query_type, tested_attribute")
+        .eq("run_id", scanRunId)
+      const rowIds = new Map<string, string>()
+      for (const row of (rows || []) as { id: string; platform: string; query_type: string; tested_attribute: string | null }[]) {
+        rowIds.set(`${row.platform}|${row.query_type}|${row.tested_attribute || ""}`, row.id)
+      }
+
+      let checked = 0
+      let withFalseClaims = 0
+      for (const [i, check] of checks.entries()) {
+        if (!check) continue
+        const r = results[i]
+        const id = rowIds.get(`${r.platform}|${r.queryType}|${r.testedAttribute || ""}`)
+        if (!id) continue
+
+        const { error } = await supabase
+          .from("brand_awareness_results")
+          .update({ accuracy: check.accuracy, false_claims: check.falseClaims })
+          .eq("id", id)
+        if (error) {
+          log.warn(scanRunId, `Failed to save fact check: ${error.message}`)
+          continue
+        }
+        checked++
+        if (check.falseClaims.length > 0) withFalseClaims++
+      }
+
+      log.done(scanRunId, "Fact check", `${checked} answers, ${withFalseClaims} with false claims`)
+      return { checked, withFalseClaims }
+    })
+
     // Step 3: Generate competitive intelligence summary (if we have competitor data)
     const competitiveSummary = await step.run("competitive-summary", async () => {
       const supabase = createServiceClient()
@@ -415,8 +518,9 @@ export const enrichSubscriber = inngest.createFunction(
         // Get LLM responses for visibility analysis
         const { data: responsesData } = await supabase
           .from("llm_responses")
-          .select("platform, response_text, domain_mentioned, competitors_mentioned, prompt:scan_prompts(prompt_text)")
+          .select("platform, response_text, domain_mentioned, competitors_mentioned, sources, prompt:scan_prompts(prompt_text)")
           .eq("run_id", scanRunId)
+          .eq("sample_index", 0)
 
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const responses: LLMResponseData[] = (responsesData || []).map((r: any) => ({
@@ -425,6 +529,7 @@ export const enrichSubscriber = inngest.createFunction(
           responseText: r.response_text || "",
           domainMentioned: r.domain_mentioned || false,
           competitorsMentioned: r.competitors_mentioned || [],
+          sources: r.sources || [],
         }))
 
         // Get report for scores
@@ -443,7 +548,7 @@ export const enrichSubscriber = inngest.createFunction(
             detected_ecommerce, detected_hosting, detected_analytics, detected_lead_capture,
             has_blog, has_case_studies, has_resources, has_faq, has_about_page, has_team_page,
             has_testimonials, is_ecommerce, has_ai_readability_issues, ai_readability_issues,
-            renders_client_side, likely_ai_generated, ai_generated_signals
+            renders_client_side, likely_ai_generated, ai_generated_signals, ai_crawler_access
           `)
           .eq("run_id", scanRunId)
           .single()
@@ -512,6 +617,7 @@ export const enrichSubscriber = inngest.createFunction(
           rendersClientSide: analysis.renders_client_side || false,
           likelyAiGenerated: analysis.likely_ai_generated || false,
           aiSignals: analysis.ai_generated_signals || [],
+          aiCrawlerAccess: (analysis.ai_crawler_access as AiCrawlerAccess[] | null) || [],
         } : null
 
         // Build action plan input
@@ -562,11 +668,11 @@ export const enrichSubscriber = inngest.createFunction(
 
         const { data: existingPlan } = await existingPlanQuery.single()
 
-        let existingActions: { id: string; title: string; description: string; category: string | null; status: string }[] | null = null
+        let existingActions: { id: string; title: string; description: string; category: string | null; target_page: string | null; expectations: unknown; status: string }[] | null = null
         if (existingPlan) {
           const { data } = await supabase
             .from("action_items")
-            .select("id, title, description, category, status")
+            .select("id, title, description, category, target_page, expectations, status")
             .eq("plan_id", existingPlan.id)
             .in("status", ["completed", "dismissed"])
           existingActions = data
@@ -582,6 +688,8 @@ export const enrichSubscriber = inngest.createFunction(
             title: a.title,
             description: a.description,
             category: a.category,
+            target_page: a.target_page,
+            expectations: a.expectations || [],
             scan_run_id: scanRunId,
           }))
 
@@ -643,6 +751,7 @@ export const enrichSubscriber = inngest.createFunction(
             consensus: action.consensus,
             implementation_steps: action.implementationSteps,
             expected_outcome: action.expectedOutcome,
+            expectations: action.expectations,
             sort_order: index,
             status: "pending",
           }))
@@ -681,6 +790,18 @@ export const enrichSubscriber = inngest.createFunction(
         return { skipped: true, reason: "tier_not_eligible" }
       }
 
+      // PRD is the last and most optional enrichment - drop it first when over budget
+      const budget = await getBudgetStatus({ runId: scanRunId, domainSubscriptionId })
+      if (budget.remainingCents < STEP_COST_ESTIMATES_CENTS.prd) {
+        log.warn(scanRunId, `PRD generation skipped - AI budget exhausted (${budget.remainingCents}¢ left)`)
+        await recordBudgetLimit(scanRunId, budget, {
+          step: "prd",
+          action: "skipped_step",
+          detail: "Developer tasks (PRD) were not regenerated for this scan",
+        })
+        return { skipped: true, reason: "budget_exhausted" }
+      }
+
       // Delete existing PRD for this run (regenerate fresh like action plans)
       // Completed tasks are preserved in prd_tasks_history and filtered during generation
       const { data: existingPrd } = await supabase
@@ -727,7 +848,8 @@ export const enrichSubscriber = inngest.createFunction(
           detected_ecommerce, detected_hosting, detected_analytics, detected_lead_capture,
           has_blog, has_case_studies, has_resources, has_faq, has_about_page, has_team_page,
           has_testimonials, is_ecommerce, has_ai_readability_issues, ai_readability_issues,
-          renders_client_side, likely_ai_generated, ai_generated_signals
+          renders_client_side, likely_ai_generated, ai_generated_signals, ai_crawler_access,
+          schema_validation
         `)
         .eq("run_id", scanRunId)
         .single()
@@ -789,6 +911,7 @@ export const enrichSubscriber = inngest.createFunction(
             consensus: string[] | null
             implementation_steps: string[] | null
             expected_outcome: string | null
+            expectations: ActionExpectation[] | null
           }) => ({
             id: item.id,
             title: item.title,
@@ -804,6 +927,7 @@ export const enrichSubscriber = inngest.createFunction(
             consensus: item.consensus,
             implementationSteps: item.implementation_steps,
             expectedOutcome: item.expected_outcome,
+            expectations: item.expectations,
           })),
           pageEdits: actionPlan.page_edits,
           keywordMap: actionPlan.keyword_map,
@@ -834,6 +958,7 @@ export const enrichSubscriber = inngest.createFunction(
           rendersClientSide: analysis.renders_client_side || false,
           likelyAiGenerated: analysis.likely_ai_generated || false,
           aiSignals: analysis.ai_generated_signals || [],
+          aiCrawlerAccess: (analysis.ai_crawler_access as AiCrawlerAccess[] | null) || [],
         } : null
 
         // Build tech stack from platform detection or use defaults
@@ -853,6 +978,7 @@ export const enrichSubscriber = inngest.createFunction(
           services: analysis?.services || null,
           platformData, // Pass platform detection data
           visibilityScore: report?.visibility_score || null, // Pass visibility score for context
+          schemaValidation: (analysis?.schema_validation as PageSchemaValidation[] | null) ?? null,
         }
 
         // Generate PRD
@@ -903,6 +1029,7 @@ export const enrichSubscriber = inngest.createFunction(
           implementation_notes: task.implementationNotes,
           requires_content: task.requiresContent,
           content_prompts: task.contentPrompts,
+          expectations: task.expectations,
           sort_order: index,
         }))
 
@@ -968,7 +1095,7 @@ function buildPlatformScores(
   platformScores: Record<string, number> | null,
   responses: LLMResponseData[]
 ): Record<string, { score: number; mentioned: number; total: number }> {
-  const platforms = ["chatgpt", "claude", "gemini", "perplexity"]
+  const platforms = ALL_PLATFORMS
   const result: Record<string, { score: number; mentioned: number; total: number }> = {}
 
   for (const platform of platforms) {
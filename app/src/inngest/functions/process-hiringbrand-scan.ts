@@ -16,6 +16,7 @@ import {
   researchEmployer,
   researchEmployerWithRoles,
   generateFallbackEmployerQuestions,
+  localizeEmployerQuestions,
   type EmployerAnalysis,
   type CompetitorEmployer,
   type JobFamily,
@@ -27,10 +28,21 @@ import {
   type LocationContext,
   type PlatformResult,
 } from '@/lib/ai/search-providers'
+import { SEARCH_PLATFORMS, PLATFORM_REGISTRY, REACH_WEIGHTS, MAX_REACH_POINTS, type SearchPlatform } from '@/lib/ai/platforms'
 import { detectGeography, countryToIsoCode } from '@/lib/geo/detect'
 import { log } from '@/lib/logger'
 import { trackCost } from '@/lib/ai/costs'
+import {
+  getBudgetStatus,
+  chooseBudgetTier,
+  affordableCount,
+  estimateQueryRoundCents,
+  recordBudgetLimit,
+  STEP_COST_ESTIMATES_CENTS,
+} from '@/lib/ai/budgets'
 import { compareEmployers } from '@/lib/ai/compare-employers'
+import { DEFAULT_LANGUAGE, getLanguage, isEnglish, isSupportedLanguage } from '@/lib/ai/language'
+import { saveScanTranslations } from '@/lib/ai/translate'
 import { generateStrategicSummary } from '@/lib/ai/generate-strategic-summary'
 import {
   discoverWebMentions,
@@ -39,7 +51,7 @@ import {
   persistMentions,
   generateCoverageBriefing,
 } from '@/lib/ai/discover-mentions'
-import { generateText, generateObject } from 'ai'
+import { generateText, generateObject } from '@/lib/ai/replay'
 import { createOpenAI } from '@ai-sdk/openai'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { z } from 'zod'
@@ -197,7 +209,8 @@ interface ResponseForSentiment {
 async function batchAnalyzeSentiment(
   responses: ResponseForSentiment[],
   companyName: string,
-  runId: string
+  runId: string,
+  language?: string
 ): Promise<Map<string, SentimentResult>> {
   const results = new Map<string, SentimentResult>()
 
@@ -234,7 +247,10 @@ PHRASE EXTRACTION:
 For each response, extract 2-4 EXACT QUOTES (word-for-word from the text) that drove your score:
 - positivePhrases: Quotes that improve the score (praise, benefits, recommendations)
 - negativePhrases: Quotes that lower the score (concerns, warnings, negatives)
-Keep quotes SHORT (5-15 words each) and EXACT from the response text.`
+Keep quotes SHORT (5-15 words each) and EXACT from the response text.${isEnglish(language) ? '' : `
+
+LANGUAGE:
+The responses are in ${getLanguage(language).name}. Score them exactly as you would English responses - judge tone by what the words mean, not by unfamiliar phrasing. Quote phrases in ${getLanguage(language).name}, word-for-word as they appear.`}`
 
   try {
     const result = await generateObject({
@@ -541,9 +557,6 @@ RESPONSE_RECENCY: [current/recent/dated/unknown - does info seem current or outd
   }
 }
 
-// Platform weights (same as outrankllm for now)
-const PLATFORMS = ['chatgpt', 'claude', 'gemini', 'perplexity'] as const
-
 // HiringBrand report expiry (days)
 const HB_REPORT_EXPIRY_DAYS = 30
 
@@ -754,6 +767,23 @@ export const processHiringBrandScan = inngest.createFunction(
       return md?.company_name || employerAnalysis.analysis.companyName
     })
 
+    // Language employer questions are researched and asked in
+    const language = await step.run('resolve-scan-language', async () => {
+      const supabase = createServiceClient()
+      const { data: md } = await supabase
+        .from('monitored_domains')
+        .select('language')
+        .eq('id', monitoredDomainId)
+        .single()
+
+      const resolved = isSupportedLanguage(md?.language) ? md!.language as string : DEFAULT_LANGUAGE
+      if (!isEnglish(resolved)) {
+        log.info(scanId, `Scanning in ${getLanguage(resolved).name}`)
+        await supabase.from('scan_runs').update({ language: resolved }).eq('id', scanId)
+      }
+      return resolved
+    })
+
     // Step 4a: Check for frozen questions, competitors, and role families (for consistent refreshes)
     const frozenResult = await step.run('check-frozen-data', async () => {
       const supabase = createServiceClient()
@@ -863,10 +893,14 @@ export const processHiringBrandScan = inngest.createFunction(
 
             // Generate 1-2 role-specific questions per family
             const { generateRoleFamilyQuestions } = await import('@/lib/ai/employer-research')
-            const generatedQuestions = generateRoleFamilyQuestions(
-              { ...employerAnalysis.analysis, companyName: reliableCompanyName },
-              activeFamilies,
-              competitors
+            const generatedQuestions = await localizeEmployerQuestions(
+              generateRoleFamilyQuestions(
+                { ...employerAnalysis.analysis, companyName: reliableCompanyName },
+                activeFamilies,
+                competitors
+              ),
+              language,
+              scanId
             )
 
             // Convert to frozen question format
@@ -1009,7 +1043,8 @@ export const processHiringBrandScan = inngest.createFunction(
         scanId,
         (platform, status) => {
           log.platform(scanId, platform, status)
-        }
+        },
+        language
       )
 
       // Save competitors to monitored_domains as non-primary (competitors)
@@ -1182,10 +1217,14 @@ export const processHiringBrandScan = inngest.createFunction(
         // Get job families for fallback questions
         const jobFamilies = employerAnalysis.detectedFamilies?.map(f => f.family) || []
 
-        const fallbackQuestions = generateFallbackEmployerQuestions(
-          { ...employerAnalysis.analysis, companyName: reliableCompanyName },
-          researchResult.competitors,
-          jobFamilies
+        const fallbackQuestions = await localizeEmployerQuestions(
+          generateFallbackEmployerQuestions(
+            { ...employerAnalysis.analysis, companyName: reliableCompanyName },
+            researchResult.competitors,
+            jobFamilies
+          ),
+          language,
+          scanId
         )
         questions = []
         for (const q of fallbackQuestions) {
@@ -1235,11 +1274,31 @@ export const processHiringBrandScan = inngest.createFunction(
       city: employerAnalysis.geoResult.city || undefined,
       country: employerAnalysis.geoResult.country || undefined,
       countryCode: countryToIsoCode(employerAnalysis.geoResult.country) || undefined,
+      language,
     }
 
+    // Drop questions the run/monthly AI budget can't cover (never below one). Each question
+    // is asked on every platform, and each answer is analyzed and sentiment-scored
+    questions = await step.run('check-query-budget', async () => {
+      const questionCents = estimateQueryRoundCents(SEARCH_PLATFORMS) +
+        STEP_COST_ESTIMATES_CENTS.answerAnalysis * SEARCH_PLATFORMS.length
+      const budget = await getBudgetStatus({ runId: scanId, organizationId })
+      const affordable = affordableCount(budget, questionCents, questions.length)
+
+      if (affordable < questions.length) {
+        log.warn(scanId, `Budget: asking ${affordable} of ${questions.length} questions (${budget.remainingCents}¢ left)`)
+        await recordBudgetLimit(scanId, budget, {
+          step: 'queries',
+          action: 'reduced_questions',
+          detail: `Asked ${affordable} of ${questions.length} questions`,
+        })
+      }
+      return trimQuestionsAcrossFamilies(questions, affordable)
+    })
+
     // Step 5: Query platforms with employer questions
     // Query each platform in parallel, with batched parallelism within each platform
-    // Perplexity gets individual steps per query (sonar-pro web search is slow/flaky)
+    // Platforms marked granularSteps in the registry get individual steps per query
     const BATCH_SIZE = 3 // Process 3 questions at a time per platform to avoid rate limits
 
     type QuestionResult = {
@@ -1251,7 +1310,7 @@ export const processHiringBrandScan = inngest.createFunction(
 
     // Helper: process a single question for a platform (query + analysis + save)
     const processQuestion = async (
-      platform: typeof PLATFORMS[number],
+      platform: SearchPlatform,
       q: typeof questions[number],
     ): Promise<QuestionResult> => {
       const supabase = createServiceClient()
@@ -1279,6 +1338,10 @@ export const processHiringBrandScan = inngest.createFunction(
           response_text: queryResult.response,
           domain_mentioned: queryResult.domainMentioned,
           mention_position: queryResult.mentionPosition,
+          mention_evidence: queryResult.mentionEvidence ?? null,
+          mention_rank: queryResult.mentionRank ?? null,
+          ranked_count: queryResult.rankedCount ?? null,
+          ranked_entities: queryResult.rankedEntities ?? null,
           competitors_mentioned: queryResult.competitorsMentioned,
           response_time_ms: queryResult.responseTimeMs,
           error_message: queryResult.error,
@@ -1331,15 +1394,18 @@ export const processHiringBrandScan = inngest.createFunction(
     }
 
     // All platforms run in parallel via Inngest DAG
-    // Perplexity: Individual steps per query (sonar-pro web search can be slow/flaky)
+    // Granular platforms: Individual steps per query (intermittent failures need granular retries)
     // Other platforms: Single step per platform (batched parallelism within each step)
-    const otherPlatforms = PLATFORMS.filter(p => p !== 'perplexity')
-
-    const [perplexityResults, ...otherPlatformResults] = await Promise.all([
-      // Perplexity: individual steps per query
-      Promise.all(
-        questions.map((q, i) =>
-          step.run(`query-perplexity-${i}`, () => processQuestion('perplexity', q))
+    const granularPlatforms = SEARCH_PLATFORMS.filter(p => PLATFORM_REGISTRY[p].granularSteps)
+    const otherPlatforms = SEARCH_PLATFORMS.filter(p => !PLATFORM_REGISTRY[p].granularSteps)
+
+    const platformResults = await Promise.all([
+      // Granular platforms: individual steps per query
+      ...granularPlatforms.map((platform) =>
+        Promise.all(
+          questions.map((q, i) =>
+            step.run(`query-${platform}-${i}`, () => processQuestion(platform, q))
+          )
         )
       ),
       // Other platforms: single step per platform
@@ -1364,8 +1430,6 @@ export const processHiringBrandScan = inngest.createFunction(
       ),
     ])
 
-    const platformResults = [perplexityResults, ...otherPlatformResults]
-
     // Step 5b: Batch sentiment analysis using Claude
     // Collect all responses and analyze them together for consistent scoring
     const sentimentResults = await step.run('batch-sentiment-analysis', async () => {
@@ -1397,7 +1461,8 @@ export const processHiringBrandScan = inngest.createFunction(
       const sentimentMap = await batchAnalyzeSentiment(
         responsesForSentiment,
         reliableCompanyName,
-        scanId
+        scanId,
+        language
       )
 
       // Update all responses with sentiment scores and driving phrases
@@ -1419,6 +1484,25 @@ export const processHiringBrandScan = inngest.createFunction(
       return Object.fromEntries(sentimentMap)
     })
 
+    // Step 5c: English translations of a non-English scan's questions and answers
+    if (!isEnglish(language)) {
+      await step.run('translate-responses', async () => {
+        const budget = await getBudgetStatus({ runId: scanId, organizationId })
+        if (budget.remainingCents < STEP_COST_ESTIMATES_CENTS.translation) {
+          log.warn(scanId, `Budget: skipping translations (${budget.remainingCents}¢ left)`)
+          await recordBudgetLimit(scanId, budget, {
+            step: 'translation',
+            action: 'skipped_step',
+            detail: 'Answers were not translated into English for this scan',
+          })
+          return
+        }
+
+        const { translated, total } = await saveScanTranslations(scanId)
+        log.done(scanId, 'Translations', `${translated} of ${total}`)
+      })
+    }
+
     // Combine results for scoring (including sentiment and researchability)
     // Cast needed because Inngest serializes step results (loses type info)
     type SentimentData = { score: number; category: SentimentCategory }
@@ -1473,12 +1557,9 @@ export const processHiringBrandScan = inngest.createFunction(
 
       // Calculate sentiment-based reputation score
       // Collect all sentiments by platform
-      const platformSentiments: Record<string, { scores: number[]; categories: string[] }> = {
-        chatgpt: { scores: [], categories: [] },
-        claude: { scores: [], categories: [] },
-        gemini: { scores: [], categories: [] },
-        perplexity: { scores: [], categories: [] },
-      }
+      const platformSentiments: Record<string, { scores: number[]; categories: string[] }> = Object.fromEntries(
+        SEARCH_PLATFORMS.map((p) => [p, { scores: [], categories: [] }])
+      )
 
       for (const { results } of allResultsWithAnalysis) {
         for (const { result, sentiment } of results) {
@@ -1522,18 +1603,13 @@ export const processHiringBrandScan = inngest.createFunction(
         return Math.round(Math.min(100, Math.max(0, adjustedScore)))
       }
 
-      // Platform weights for overall score (based on AI market share)
-      const platformWeights: Record<string, number> = {
-        chatgpt: 10,  // ~60% market share
-        claude: 1,    // ~5% market share
-        gemini: 2,    // ~8% market share
-        perplexity: 4, // ~15% market share
-      }
-      const totalWeight = 17
+      // Platform weights for overall score (reach weights from the platform registry)
+      const totalWeight = MAX_REACH_POINTS
 
       // Calculate weighted overall score
       let weightedSum = 0
-      for (const [platform, weight] of Object.entries(platformWeights)) {
+      for (const platform of SEARCH_PLATFORMS) {
+        const weight = REACH_WEIGHTS[platform]
         const platformScore = calculatePlatformSentimentScore(
           platformSentiments[platform].scores,
           platformSentiments[platform].categories
@@ -1684,18 +1760,15 @@ export const processHiringBrandScan = inngest.createFunction(
       const scores = {
         // Desirability (sentiment-based with category weighting)
         overallScore, // This is now the "desirability" score
-        platformScores: {
-          chatgpt: calculatePlatformSentimentScore(platformSentiments.chatgpt.scores, platformSentiments.chatgpt.categories),
-          claude: calculatePlatformSentimentScore(platformSentiments.claude.scores, platformSentiments.claude.categories),
-          gemini: calculatePlatformSentimentScore(platformSentiments.gemini.scores, platformSentiments.gemini.categories),
-          perplexity: calculatePlatformSentimentScore(platformSentiments.perplexity.scores, platformSentiments.perplexity.categories),
-        },
-        platformSentiments: {
-          chatgpt: countCategories(platformSentiments.chatgpt.categories),
-          claude: countCategories(platformSentiments.claude.categories),
-          gemini: countCategories(platformSentiments.gemini.categories),
-          perplexity: countCategories(platformSentiments.perplexity.categories),
-        },
+        platformScores: Object.fromEntries(
+          SEARCH_PLATFORMS.map((p) => [
+            p,
+            calculatePlatformSentimentScore(platformSentiments[p].scores, platformSentiments[p].categories),
+          ])
+        ) as Record<SearchPlatform, number>,
+        platformSentiments: Object.fromEntries(
+          SEARCH_PLATFORMS.map((p) => [p, countCategories(platformSentiments[p].categories)])
+        ) as Record<SearchPlatform, ReturnType<typeof countCategories>>,
         sentimentCounts,
         totalResponses: allCategories.length,
         // Researchability (AI Awareness)
@@ -1789,6 +1862,17 @@ export const processHiringBrandScan = inngest.createFunction(
         return null
       }
 
+      const budget = await getBudgetStatus({ runId: scanId, organizationId })
+      if (budget.remainingCents < STEP_COST_ESTIMATES_CENTS.compareEmployers) {
+        log.warn(scanId, `Budget: skipping competitor analysis (${budget.remainingCents}¢ left)`)
+        await recordBudgetLimit(scanId, budget, {
+          step: 'compare-employers',
+          action: 'skipped_step',
+          detail: 'Competitor comparison was skipped for this scan',
+        })
+        return null
+      }
+
       log.step(scanId, 'Generating competitive employer analysis')
 
       const analysis = await compareEmployers({
@@ -1825,6 +1909,17 @@ export const processHiringBrandScan = inngest.createFunction(
     // Step 7b: Discover web mentions about employer
     await step.run('discover-web-mentions', async () => {
       try {
+        const budget = await getBudgetStatus({ runId: scanId, organizationId })
+        if (budget.remainingCents < STEP_COST_ESTIMATES_CENTS.webMentions) {
+          log.warn(scanId, `Budget: skipping web mentions (${budget.remainingCents}¢ left)`)
+          await recordBudgetLimit(scanId, budget, {
+            step: 'discover-web-mentions',
+            action: 'skipped_step',
+            detail: 'Web mentions were not refreshed for this scan',
+          })
+          return null
+        }
+
         log.step(scanId, 'Discovering web mentions')
 
         const supabase = createServiceClient()
@@ -1879,10 +1974,41 @@ export const processHiringBrandScan = inngest.createFunction(
       }
     })
 
+    // Budget tier for steps 8 + 8b: full (claude-sonnet), economy (cheaper model) or skip
+    // Decided once up front - the two steps run in parallel
+    const summaryBudgetTier = await step.run('check-summary-budget', async () => {
+      const familyCount = frozenResult.roleFamilies?.length || employerAnalysis.detectedFamilies.length || 3
+      const estimateCents = STEP_COST_ESTIMATES_CENTS.strategicSummary +
+        STEP_COST_ESTIMATES_CENTS.roleActionPlan * familyCount
+
+      const budget = await getBudgetStatus({ runId: scanId, organizationId })
+      const tier = chooseBudgetTier(budget, estimateCents)
+
+      if (tier === 'economy') {
+        log.warn(scanId, `Budget: using economy model for summaries (${budget.remainingCents}¢ left)`)
+        await recordBudgetLimit(scanId, budget, {
+          step: 'summaries',
+          action: 'cheaper_model',
+          detail: 'Strategic summary and role action plans were written with a faster, lower-cost model',
+        })
+      } else if (tier === 'skip') {
+        log.warn(scanId, `Budget: skipping summaries (${budget.remainingCents}¢ left)`)
+        await recordBudgetLimit(scanId, budget, {
+          step: 'summaries',
+          action: 'skipped_step',
+          detail: 'Strategic summary and role action plans were not refreshed for this scan',
+        })
+      }
+      return tier
+    })
+    const summaryEconomy = summaryBudgetTier === 'economy'
+
     // Steps 8 + 8b: Generate strategic summary and role action plans in parallel
     const [strategicSummaryResult, roleActionPlansResult] = await Promise.all([
       // Step 8: Generate strategic summary for recruitment agents
       step.run('generate-strategic-summary', async () => {
+        if (summaryBudgetTier === 'skip') return null
+
         const supabase = createServiceClient()
 
         // Use frozen/researched competitors (from Setup tab), not AI-mentioned competitors
@@ -1920,6 +2046,7 @@ export const processHiringBrandScan = inngest.createFunction(
           sentimentCounts: report.scores.sentimentCounts,
           topCompetitors: report.topCompetitors,
           runId: scanId,
+          economy: summaryEconomy,
         })
 
         // Update report with strategic summary
@@ -1941,6 +2068,8 @@ export const processHiringBrandScan = inngest.createFunction(
 
       // Step 8b: Generate role-specific action plans (in parallel)
       step.run('generate-role-action-plans', async () => {
+      if (summaryBudgetTier === 'skip') return null
+
       const supabase = createServiceClient()
 
       // Determine active families (frozen or detected)
@@ -2075,6 +2204,7 @@ export const processHiringBrandScan = inngest.createFunction(
             differentiationInsights, // NEW
             responses: familyResponses as any, // Type cast for compatibility
             runId: scanId,
+            economy: summaryEconomy,
           })
 
           log.info(scanId, `Generated ${family} action plan: ${actionPlan.recommendations.length} recommendations`)
@@ -2337,6 +2467,29 @@ export const processHiringBrandScan = inngest.createFunction(
 )
 
 // Helper: Update scan status
+/**
+ * The first `limit` questions taken in turn from each role family, so a trimmed
+ * scan still covers every family. Keeps the original order
+ */
+function trimQuestionsAcrossFamilies<T extends { jobFamily?: string | null }>(questions: T[], limit: number): T[] {
+  if (questions.length <= limit) return questions
+
+  const byFamily = new Map<string, T[]>()
+  for (const q of questions) {
+    const family = q.jobFamily || ''
+    byFamily.set(family, [...(byFamily.get(family) || []), q])
+  }
+
+  const kept = new Set<T>()
+  for (let round = 0; kept.size < limit; round++) {
+    for (const familyQuestions of byFamily.values()) {
+      if (kept.size >= limit) break
+      if (round < familyQuestions.length) kept.add(familyQuestions[round])
+    }
+  }
+  return questions.filter(q => kept.has(q))
+}
+
 async function updateScanStatus(
   supabase: ReturnType<typeof createServiceClient>,
   scanId: string,
@@ -1,7 +1,20 @@
 import { inngest } from "../client"
 import { enrichSubscriber } from "./enrich-subscriber"
 import { createServiceClient } from "@/lib/supabase/server"
-import { crawlSite, combineCrawledContent } from "@/lib/ai/crawl"
+import { crawlSite, combineCrawledContent, type PreviousCrawledPage } from "@/lib/ai/crawl"
+import { toCrawlScope, resolveMaxCrawlPages, type CrawlScope } from "@/lib/ai/crawl-scope"
+import {
+  normalizeExpectations,
+  evaluateExpectation,
+  resolveVerificationStatus,
+  describeExpectation,
+  editSatisfiesAction,
+  type ExpectationPage,
+  type VerificationStatus,
+} from "@/lib/ai/action-expectations"
+import type { PageEdit } from "@/lib/ai/generate-actions"
+import { normalizeTargetPath, normalizePath } from "@/lib/ai/page-changes"
+import type { PageSchemaValidation } from "@/lib/ai/schema-validator"
 import { analyzeWebsite } from "@/lib/ai/analyze"
 import {
   researchQueriesOnPlatform,
@@ -16,28 +29,57 @@ import {
   type LocationContext,
   type PlatformResult,
 } from "@/lib/ai/search-providers"
+import { PLATFORM_REGISTRY, SEARCH_PLATFORMS, type SearchPlatform } from "@/lib/ai/platforms"
+import { resolveSamplesPerQuery, MAX_SAMPLES_PER_QUERY, type ScoreConfidence } from "@/lib/ai/sampling"
+import type { BrandEntityProfile } from "@/lib/ai/brand-matcher"
+import { aggregateCitations, toCitationSnapshot } from "@/lib/ai/citations"
+import {
+  getBudgetStatus,
+  estimateQueryRoundCents,
+  affordableCount,
+  recordBudgetLimit,
+  STEP_COST_ESTIMATES_CENTS,
+} from "@/lib/ai/budgets"
 import { extractTopCompetitors } from "@/lib/ai/query"
+import { expandSubscriberQuestions, templateValueLists } from "@/lib/ai/question-templates"
+import { calculateShareOfVoice, toShareOfVoiceSnapshot } from "@/lib/ai/share-of-voice"
+import {
+  planCompetitorMerges,
+  createCompetitorResolver,
+  canonicalizeMentions,
+  resolveCompetitorDomain,
+  type CompetitorEntity,
+  type DetectedCompetitor,
+} from "@/lib/ai/competitor-entities"
+import { DEFAULT_LANGUAGE, getLanguage, isEnglish, isSupportedLanguage } from "@/lib/ai/language"
+import { translateTexts, saveScanTranslations } from "@/lib/ai/translate"
+import { mentionExcerpt, type BrandSentiment, type SentimentScores } from "@/lib/ai/sentiment"
+import { analyzeBrandSentiment, SENTIMENT_BATCH_SIZE } from "@/lib/ai/analyze-sentiment"
 // Brand awareness is now handled by enrich-subscriber function
 import { sendVerificationEmail, sendScanCompleteEmail } from "@/lib/email/resend"
 import { trackServerEvent, ANALYTICS_EVENTS } from "@/lib/analytics"
 import { detectGeography, extractTldCountry, countryToIsoCode } from "@/lib/geo/detect"
 import { log } from "@/lib/logger"
-import { getUserTier } from "@/lib/features/flags"
+import { getUserTier, getFeatureFlags } from "@/lib/features/flags"
 import crypto from "crypto"
 
 // Free report expiry (days from creation)
 const FREE_REPORT_EXPIRY_DAYS = parseInt(process.env.FREE_REPORT_EXPIRY_DAYS || "7", 10)
 
-// Platform weights for scoring (from CLAUDE.md)
-const PLATFORMS = ["chatgpt", "claude", "gemini", "perplexity"] as const
+// Times each question is asked per platform, unless the subscription overrides it
+const DEFAULT_SAMPLES_PER_QUERY = resolveSamplesPerQuery(process.env.SCAN_SAMPLES_PER_QUERY)
+
+// Function timeout: 10 minutes for one round of queries, plus 5 for each extra sample
+// (samples run as parallel steps, but share the platforms' rate limits)
+const SCAN_TIMEOUT_MINUTES = 10 + 5 * (MAX_SAMPLES_PER_QUERY - 1)
 
 export const processScan = inngest.createFunction(
   {
     id: "process-scan",
     retries: 3,
-    // Total function timeout: 10 minutes (parallel platform queries + finalization)
+    // Total function timeout: parallel platform queries + finalization, scaled for sampling
     timeouts: {
-      finish: "10m",
+      finish: `${SCAN_TIMEOUT_MINUTES}m`,
     },
     // Cancel any existing runs for the same scan when a new one starts
     cancelOn: [
@@ -122,8 +164,53 @@ export const processScan = inngest.createFunction(
       const supabase = createServiceClient()
       await updateScanStatus(supabase, scanId, "crawling", 10)
 
+      // Previous completed scan of this domain - unchanged pages are reused, edits recorded
+      let previousRunQuery = supabase
+        .from("scan_runs")
+        .select("id")
+        .eq("lead_id", leadId)
+        .eq("domain", domain)
+        .eq("status", "complete")
+        .neq("id", scanId)
+      if (domainSubscriptionId) {
+        previousRunQuery = previousRunQuery.eq("domain_subscription_id", domainSubscriptionId)
+      }
+      const { data: previousRun } = await previousRunQuery
+        .order("completed_at", { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      let previousPages: PreviousCrawledPage[] = []
+      if (previousRun) {
+        const { data: previousRows } = await supabase
+          .from("crawled_pages")
+          .select("*")
+          .eq("run_id", previousRun.id)
+        previousPages = (previousRows || []).map(toPreviousCrawledPage)
+      }
+
+      // Crawl scope and page limit for monitored domains (free scans use the defaults)
+      let scope: CrawlScope | undefined
+      let maxPages: number | undefined
+      if (domainSubscriptionId) {
+        const { data: subscriptionRow } = await supabase
+          .from("domain_subscriptions")
+          .select("tier, crawl_include_patterns, crawl_exclude_patterns, crawl_priority_urls, crawl_max_pages, crawl_include_subdomains, crawl_locale")
+          .eq("id", domainSubscriptionId)
+          .single()
+        if (subscriptionRow) {
+          const flags = await getFeatureFlags(subscriptionRow.tier)
+          scope = toCrawlScope(subscriptionRow)
+          maxPages = resolveMaxCrawlPages(scope, flags.maxCrawlPages)
+        }
+      }
+
+      // Pages recently completed items are checked on are crawled on top of the page
+      // limit, so verification isn't left to chance when the site is bigger than the limit
+      const verificationPaths = await loadVerificationPaths(supabase, leadId, domainSubscriptionId)
+
       log.step(scanId, "Crawling", domain)
-      const result = await crawlSite(domain)
+      const result = await crawlSite(domain, { previousPages, scope, maxPages, verificationPaths })
       log.done(scanId, "Crawl", `${result.totalPages} pages`)
 
       // Save page-level crawl data for specific, actionable recommendations
@@ -141,6 +228,14 @@ export const processScan = inngest.createFunction(
           has_meta_description: page.hasMetaDescription,
           schema_types: page.schemaData.map(s => s.type),
           schema_data: page.schemaData,
+          body_text: page.bodyText,
+          schema_validation: page.schemaValidation,
+          rendered_with_js: page.renderedWithJs ?? false,
+          content_hash: page.fingerprint.contentHash,
+          etag: page.fingerprint.etag,
+          last_modified: page.fingerprint.lastModified,
+          sitemap_lastmod: page.fingerprint.sitemapLastmod,
+          fetch_status: page.fetchStatus,
         }))
 
         const { error: crawlError } = await supabase.from("crawled_pages").insert(crawlInserts)
@@ -151,7 +246,167 @@ export const processScan = inngest.createFunction(
         }
       }
 
-      return result
+      // Per-page change history for the Measurements tab and action verification
+      if (previousRun && result.pageChanges.length > 0) {
+        const { error: changesError } = await supabase.from("page_changes").insert(
+          result.pageChanges.map(change => ({
+            run_id: scanId,
+            previous_run_id: previousRun.id,
+            lead_id: leadId,
+            domain_subscription_id: domainSubscriptionId || null,
+            domain,
+            url: change.url,
+            path: change.path,
+            change_type: change.changeType,
+            changed_fields: change.changedFields,
+            word_count_before: change.wordCountBefore,
+            word_count_after: change.wordCountAfter,
+            summary: change.summary,
+          }))
+        )
+        if (changesError) {
+          log.warn(scanId, `Failed to save page changes: ${changesError.message}`)
+        } else {
+          log.info(scanId, `Recorded ${result.pageChanges.length} page changes since last scan`)
+        }
+      }
+
+      return { ...result, verificationPaths }
+    })
+
+    // Step 2b: Verify completed actions, page edits and PRD tasks against this crawl.
+    // Items with expectations are re-checked every scan (verified / not met / regressed);
+    // older actions without any are verified by an edit to their target page that
+    // carries out the action's category (editSatisfiesAction)
+    await step.run("verify-completed-actions", async () => {
+      const supabase = createServiceClient()
+      const now = new Date().toISOString()
+      const pages = new Map<string, ExpectationPage>(
+        crawlResult.pages.map(page => [normalizePath(page.path), {
+          path: page.path,
+          title: page.title,
+          description: page.description,
+          h1: page.h1,
+          headings: page.headings,
+          bodyText: page.bodyText,
+          wordCount: page.wordCount,
+          schemaTypes: page.schemaValidation?.types.length ? page.schemaValidation.types : page.schemaData.map(s => s.type),
+        }])
+      )
+      const requestedPaths = new Set(crawlResult.verificationPaths.map(normalizePath))
+      const editedPages = new Map(
+        crawlResult.pageChanges
+          .filter(change => change.changeType !== "removed")
+          .map(change => [normalizePath(change.path), change])
+      )
+      const counts = { verified: 0, notMet: 0, regressed: 0 }
+
+      for (const table of VERIFIABLE_TABLES) {
+        const items = await loadCompletedItems(supabase, table, leadId, domainSubscriptionId)
+
+        for (const item of items) {
+          const expectations = normalizeExpectations(item.expectations)
+
+          if (expectations.length === 0) {
+            if (table !== "action_items_history" || item.verified_at) continue
+            const targetPath = normalizeTargetPath(item.target_page ?? null)
+            if (!targetPath) continue
+            const change = editedPages.get(targetPath)
+            if (!change || !editSatisfiesAction(change, item.category ?? null, pages.get(targetPath))) continue
+
+            await supabase
+              .from(table)
+              .update({ verified_at: now, verified_run_id: scanId, verified_change: change.summary })
+              .eq("id", item.id)
+            counts.verified++
+            continue
+          }
+
+          const results = expectations.map(expectation => evaluateExpectation(expectation, pages, requestedPaths))
+          const status = resolveVerificationStatus(results, item.verification_status)
+          if (!status) continue
+
+          const update: Record<string, unknown> = {
+            verification_status: status,
+            verification_evidence: results,
+            verification_checked_at: now,
+          }
+          if (status === "verified" && !item.verified_at) {
+            update.verified_at = now
+            if (table === "action_items_history") {
+              update.verified_run_id = scanId
+              update.verified_change = expectations.map(describeExpectation).join(", ")
+            }
+          }
+          await supabase.from(table).update(update).eq("id", item.id)
+
+          if (status === item.verification_status) continue
+          if (status === "verified") counts.verified++
+          else if (status === "regressed") counts.regressed++
+          else counts.notMet++
+        }
+      }
+
+      // Suggested page edits have no checkbox - once all their expectations pass they
+      // are archived to history as done (and re-checked for regressions from then on)
+      let planQuery = supabase.from("action_plans").select("id, run_id, page_edits")
+      planQuery = domainSubscriptionId
+        ? planQuery.eq("domain_subscription_id", domainSubscriptionId)
+        : planQuery.eq("lead_id", leadId)
+      const { data: plan } = await planQuery.order("created_at", { ascending: false }).limit(1).maybeSingle()
+
+      const pageEdits = (plan?.page_edits || []) as PageEdit[]
+      if (plan && plan.run_id !== scanId && pageEdits.length > 0) {
+        const checkedEdits: PageEdit[] = []
+        for (const edit of pageEdits) {
+          const expectations = normalizeExpectations(edit.expectations)
+          if (expectations.length === 0) {
+            checkedEdits.push(edit)
+            continue
+          }
+
+          const results = expectations.map(expectation => evaluateExpectation(expectation, pages, requestedPaths))
+          const status = resolveVerificationStatus(results, edit.verificationStatus ?? null)
+          checkedEdits.push(status ? { ...edit, verificationStatus: status, verificationEvidence: results } : edit)
+          if (status !== "verified" || edit.verificationStatus === "verified") continue
+
+          const title = `Page update: ${edit.page}`
+          let existingQuery = supabase
+            .from("action_items_history")
+            .select("id")
+            .eq("title", title)
+          existingQuery = domainSubscriptionId
+            ? existingQuery.eq("domain_subscription_id", domainSubscriptionId)
+            : existingQuery.eq("lead_id", leadId)
+          const { data: existing } = await existingQuery.limit(1)
+          if (existing && existing.length > 0) continue
+
+          await supabase.from("action_items_history").insert({
+            lead_id: leadId,
+            domain_subscription_id: domainSubscriptionId || null,
+            title,
+            description: expectations.map(describeExpectation).join(", "),
+            category: "content",
+            target_page: edit.page,
+            expectations,
+            scan_run_id: scanId,
+            verification_status: "verified",
+            verification_evidence: results,
+            verification_checked_at: now,
+            verified_at: now,
+            verified_run_id: scanId,
+            verified_change: "Suggested page update found on your site",
+          })
+          counts.verified++
+        }
+
+        await supabase.from("action_plans").update({ page_edits: checkedEdits }).eq("id", plan.id)
+      }
+
+      if (counts.verified + counts.notMet + counts.regressed > 0) {
+        log.info(scanId, `Action verification: ${counts.verified} verified, ${counts.notMet} not met, ${counts.regressed} regressed`)
+      }
+      return counts
     })
 
     // Step 3: Analyze content
@@ -226,6 +481,10 @@ export const processScan = inngest.createFunction(
           likely_ai_generated: platformData?.likelyAiGenerated ?? false,
           ai_generated_signals: platformData?.aiSignals ?? [],
           platform_detection_signals: platformData?.detectedSignals ?? [],
+          render_comparison: crawlResult.renderComparison,
+          ai_crawler_access: crawlResult.aiCrawlerAccess,
+          ai_discovery: crawlResult.aiDiscovery,
+          schema_validation: crawlResult.schemaValidation,
         },
         { onConflict: "run_id" }
       )
@@ -238,6 +497,25 @@ export const processScan = inngest.createFunction(
       }
     })
 
+    // Language questions are researched and asked in (subscription setting, else English)
+    const language = await step.run("resolve-scan-language", async () => {
+      if (!domainSubscriptionId) return DEFAULT_LANGUAGE
+
+      const supabase = createServiceClient()
+      const { data: subscription } = await supabase
+        .from("domain_subscriptions")
+        .select("language")
+        .eq("id", domainSubscriptionId)
+        .single()
+
+      const resolved = isSupportedLanguage(subscription?.language) ? subscription!.language as string : DEFAULT_LANGUAGE
+      if (!isEnglish(resolved)) {
+        log.info(scanId, `Scanning in ${getLanguage(resolved).name}`)
+        await supabase.from("scan_runs").update({ language: resolved }).eq("id", scanId)
+      }
+      return resolved
+    })
+
     // Step 4a: Check for existing subscriber questions (fast DB check)
     const subscriberQuestionsResult = await step.run("check-subscriber-questions", async () => {
       const supabase = createServiceClient()
@@ -252,7 +530,7 @@ export const processScan = inngest.createFunction(
       // Check for existing subscriber questions
       let questionsQuery = supabase
         .from("subscriber_questions")
-        .select("id, prompt_text, category")
+        .select("id, prompt_text, category, persona_id")
 
       if (domainSubscriptionId) {
         questionsQuery = questionsQuery.eq("domain_subscription_id", domainSubscriptionId)
@@ -276,14 +554,47 @@ export const processScan = inngest.createFunction(
         ])
         const mapCategory = (cat: string) => validCategories.has(cat) ? cat : 'general'
 
+        // Templates ({location}, {service}, {audience}) become one prompt per value
+        const valueLists = templateValueLists({
+          ...analysisResult.analysis,
+          location: analysisResult.finalLocation,
+        })
+        // Expanded prompts count against the tier's question limit
+        const { customQuestionLimit } = await getFeatureFlags(userTier)
+        const { rows: promptRows, skipped } = expandSubscriberQuestions(subscriberQuestions, valueLists, customQuestionLimit)
+        for (const template of skipped) {
+          log.warn(scanId, `Skipped question template with no values for this business: "${template}"`)
+        }
+        if (promptRows.length !== subscriberQuestions.length) {
+          log.info(scanId, `Expanded question templates into ${promptRows.length} prompts`)
+        }
+
+        // Persona names are copied onto prompts so the report keeps its per-persona breakdown
+        const personaIds = Array.from(new Set(promptRows.map(row => row.persona_id).filter((id): id is string => !!id)))
+        const personaNames = new Map<string, string>()
+        if (personaIds.length > 0) {
+          const { data: personas } = await supabase
+            .from("buyer_personas")
+            .select("id, name")
+            .in("id", personaIds)
+          for (const persona of (personas || []) as { id: string; name: string }[]) {
+            personaNames.set(persona.id, persona.name)
+          }
+        }
+
         const { data: insertedPrompts, error } = await supabase
           .from("scan_prompts")
           .insert(
-            subscriberQuestions.map((q: { id: string; prompt_text: string; category: string }) => ({
+            promptRows.map(row => ({
               run_id: scanId,
-              prompt_text: q.prompt_text,
-              category: mapCategory(q.category),
+              prompt_text: row.prompt_text,
+              category: mapCategory(row.category),
               source: "subscriber",
+              subscriber_question_id: row.subscriber_question_id,
+              template_text: row.template_text,
+              template_values: row.template_values,
+              persona_id: row.persona_id,
+              persona_name: row.persona_id ? personaNames.get(row.persona_id) || null : null,
             }))
           )
           .select("id, prompt_text, category")
@@ -322,7 +633,8 @@ export const processScan = inngest.createFunction(
             analysisWithEnhancedGeo,
             platform,
             scanId,
-            keyPhrases
+            keyPhrases,
+            language
           )
 
           log.done(scanId, `Research ${platform}`, `${suggestions.length} suggestions`)
@@ -349,6 +661,12 @@ export const processScan = inngest.createFunction(
       if (topQueries.length === 0) {
         log.warn(scanId, "Research failed, using fallback queries")
         topQueries = generateFallbackQueries(analysisWithEnhancedGeo)
+
+        // Fallback templates are English - ask them in the scan language
+        if (!isEnglish(language)) {
+          const translated = await translateTexts(topQueries.map((q) => q.query), language, scanId)
+          topQueries = topQueries.map((q, i) => ({ ...q, query: translated[i]?.toLowerCase() || q.query }))
+        }
       }
 
       // Save research results
@@ -419,22 +737,120 @@ export const processScan = inngest.createFunction(
       throw new Error("Failed to save prompts")
     })
 
+    // Subscriber's "simulate a customer in" city, when set, is used by every platform
+    const simulatedLocation = await step.run("resolve-searcher-location", async () => {
+      if (!domainSubscriptionId) return null
+
+      const supabase = createServiceClient()
+      const { data: subscription } = await supabase
+        .from("domain_subscriptions")
+        .select("simulated_city, simulated_region, simulated_country_code")
+        .eq("id", domainSubscriptionId)
+        .single()
+
+      if (!subscription?.simulated_city || !subscription.simulated_country_code) return null
+
+      log.info(scanId, `Simulating a customer in ${subscription.simulated_city}, ${subscription.simulated_country_code}`)
+      const context: LocationContext = {
+        location: [subscription.simulated_city, subscription.simulated_region].filter(Boolean).join(", "),
+        city: subscription.simulated_city,
+        region: subscription.simulated_region || undefined,
+        countryCode: subscription.simulated_country_code,
+        simulated: true,
+        language,
+      }
+      return context
+    })
+
     // Build location context for LLM queries
-    const locationContext: LocationContext = {
+    const locationContext: LocationContext = simulatedLocation || {
       location: analysisResult.finalLocation || undefined,
       city: analysisResult.geoResult.city || undefined,
       country: analysisResult.geoResult.country || undefined,
       countryCode: countryToIsoCode(analysisResult.geoResult.country) || undefined,
+      language,
+    }
+
+    // Samples per question/platform: subscription setting, else the env default
+    // LLM answers vary run to run, so repeated samples give a mention rate with a
+    // confidence interval instead of a single yes/no that flips week to week
+    const requestedSamplesPerQuery = await step.run("resolve-samples-per-query", async () => {
+      if (!domainSubscriptionId) return DEFAULT_SAMPLES_PER_QUERY
+
+      const supabase = createServiceClient()
+      const { data: subscription } = await supabase
+        .from("domain_subscriptions")
+        .select("samples_per_query")
+        .eq("id", domainSubscriptionId)
+        .single()
+
+      return resolveSamplesPerQuery(subscription?.samples_per_query ?? DEFAULT_SAMPLES_PER_QUERY)
+    })
+
+    // Drop extra samples the run/monthly AI budget can't cover (never below one)
+    const samplesPerQuery = await step.run("check-query-budget", async () => {
+      if (requestedSamplesPerQuery <= 1) return requestedSamplesPerQuery
+
+      const budget = await getBudgetStatus({ runId: scanId, domainSubscriptionId })
+      const roundCents = estimateQueryRoundCents(SEARCH_PLATFORMS) * savedPrompts.length
+      const affordable = affordableCount(budget, roundCents, requestedSamplesPerQuery)
+
+      if (affordable < requestedSamplesPerQuery) {
+        log.warn(scanId, `Budget: sampling ${affordable}x instead of ${requestedSamplesPerQuery}x (${budget.remainingCents}¢ left)`)
+        await recordBudgetLimit(scanId, budget, {
+          step: "queries",
+          action: "reduced_samples",
+          detail: `Asked each question ${affordable === 1 ? "once" : `${affordable} times`} per AI instead of ${requestedSamplesPerQuery} times`,
+        })
+      }
+      return affordable
+    })
+    const sampleIndexes = Array.from({ length: samplesPerQuery }, (_, n) => n)
+    if (samplesPerQuery > 1) {
+      log.info(scanId, `Sampling each query ${samplesPerQuery}x per platform`)
     }
 
+    // Brand entity profile for mention matching: subscriber-edited aliases, products
+    // and exclusions, with the analyzed business name as the default brand name
+    const brandProfile = await step.run("load-brand-profile", async (): Promise<BrandEntityProfile> => {
+      const defaultProfile: BrandEntityProfile = {
+        brandName: analysis.businessName || null,
+        aliases: [],
+        products: [],
+        exclusions: [],
+      }
+      if (!domainSubscriptionId) return defaultProfile
+
+      const supabase = createServiceClient()
+      const { data: profile } = await supabase
+        .from("brand_entity_profiles")
+        .select("brand_name, aliases, products, exclusions")
+        .eq("domain_subscription_id", domainSubscriptionId)
+        .maybeSingle()
+
+      if (!profile) return defaultProfile
+
+      return {
+        brandName: profile.brand_name || defaultProfile.brandName,
+        aliases: profile.aliases || [],
+        products: profile.products || [],
+        exclusions: profile.exclusions || [],
+      }
+    })
+
+    // Step ids for extra samples get a suffix; sample 0 keeps the original id
+    const sampleStepId = (base: string, sampleIndex: number) =>
+      sampleIndex === 0 ? base : `${base}-s${sampleIndex}`
+
     // Query all platforms IN PARALLEL using DAG pattern
     // ChatGPT: Split into individual query steps (intermittent failures need granular retries)
     // Other platforms: Single step per platform (more reliable)
 
     // Helper to run a single query and save result
     const runSingleQuery = async (
-      platform: typeof PLATFORMS[number],
+      platform: SearchPlatform,
       prompt: { id: string; prompt_text: string },
+      sampleIndex = 0,
     ): Promise<{ promptId: string; result: PlatformResult }> => {
       const db = createServiceClient()
 
@@ -444,8 +860,10 @@ export const processScan = inngest.createFunction(
           prompt.prompt_text,
           domain,
           scanId,
-          locationContext
+          locationContext,
+          brandProfile
         )
+        queryResult.sampleIndex = sampleIndex
         await saveResponseToDb(db, scanId, prompt.id, queryResult)
         return { promptId: prompt.id, result: queryResult }
       } catch (error) {
@@ -460,76 +878,54 @@ export const processScan = inngest.createFunction(
           error: error instanceof Error ? error.message : "Unknown error",
           searchEnabled: true,
           sources: [],
+          sampleIndex,
         }
         await saveResponseToDb(db, scanId, prompt.id, errorResult)
         return { promptId: prompt.id, result: errorResult }
       }
     }
 
-    // ChatGPT & Perplexity: Individual steps per query (granular retries for intermittent failures)
-    // Each query gets its own Inngest step with independent retry budget
+    // Granular platforms (ChatGPT & Perplexity): Individual steps per query
+    // Each query (and each extra sample) gets its own Inngest step with independent retry budget
     // Perplexity uses sonar-pro with real web search which can be slow/flaky
-    const chatgptResults = await Promise.all(
-      savedPrompts.map((prompt: { id: string; prompt_text: string; category: string }, i: number) =>
-        step.run(`query-chatgpt-${i}`, () => runSingleQuery("chatgpt", prompt))
-      )
-    )
-
-    const perplexityResults = await Promise.all(
-      savedPrompts.map((prompt: { id: string; prompt_text: string; category: string }, i: number) =>
-        step.run(`query-perplexity-${i}`, () => runSingleQuery("perplexity", prompt))
+    const granularPlatforms = SEARCH_PLATFORMS.filter(p => PLATFORM_REGISTRY[p].granularSteps)
+    const granularResults: Array<Array<{ promptId: string; result: PlatformResult }>> = []
+    for (const platform of granularPlatforms) {
+      granularResults.push(
+        await Promise.all(
+          savedPrompts.flatMap((prompt: { id: string; prompt_text: string; category: string }, i: number) =>
+            sampleIndexes.map((n) =>
+              step.run(sampleStepId(`query-${platform}-${i}`, n), () => runSingleQuery(platform, prompt, n))
+            )
+          )
+        )
       )
-    )
+    }
 
-    // Other platforms: Single step per platform (run queries sequentially within step)
-    const otherPlatforms = PLATFORMS.filter(p => p !== "chatgpt" && p !== "perplexity")
+    // Other platforms: One step per platform and sample (queries run sequentially within
+    // the step), so extra samples don't stretch a single step past the request timeout
+    const otherPlatforms = SEARCH_PLATFORMS.filter(p => !PLATFORM_REGISTRY[p].granularSteps)
     const otherPlatformResults = await Promise.all(
-      otherPlatforms.map((platform) =>
-        step.run(`query-platform-${platform}`, async () => {
-          const db = createServiceClient()
-          log.platform(scanId, platform, "querying")
-
-          const results: Array<{ promptId: string; result: PlatformResult }> = []
-
-          for (let i = 0; i < savedPrompts.length; i++) {
-            const prompt = savedPrompts[i]
-
-            try {
-              const queryResult = await queryPlatformWithSearch(
-                platform,
-                prompt.prompt_text,
-                domain,
-                scanId,
-                locationContext
-              )
-              await saveResponseToDb(db, scanId, prompt.id, queryResult)
-              results.push({ promptId: prompt.id, result: queryResult })
-            } catch (error) {
-              const errorResult: PlatformResult = {
-                platform,
-                query: prompt.prompt_text,
-                response: "",
-                domainMentioned: false,
-                mentionPosition: null,
-                competitorsMentioned: [],
-                responseTimeMs: 0,
-                error: error instanceof Error ? error.message : "Unknown error",
-                searchEnabled: true,
-                sources: [],
-              }
-              await saveResponseToDb(db, scanId, prompt.id, errorResult)
-              results.push({ promptId: prompt.id, result: errorResult })
+      otherPlatforms.flatMap((platform) =>
+        sampleIndexes.map((n) =>
+          step.run(sampleStepId(`query-platform-${platform}`, n), async () => {
+            log.platform(scanId, platform, "querying")
+
+            const results: Array<{ promptId: string; result: PlatformResult }> = []
+
+            for (const prompt of savedPrompts) {
+              results.push(await runSingleQuery(platform, prompt, n))
             }
-          }
 
-          log.done(scanId, platform, `${savedPrompts.length} responses`)
-          return results
-        })
+            log.done(scanId, platform, `${results.length} responses`)
+            return results
+          })
+        )
       )
     )
 
     // Combine all results
-    const platformResultsMap = [chatgptResults, perplexityResults, ...otherPlatformResults]
+    const platformResultsMap = [...granularResults, ...otherPlatformResults]
 
     // Update progress after all platforms complete
     await step.run("update-query-progress", async () => {
@@ -558,6 +954,152 @@ export const processScan = inngest.createFunction(
       allPlatformResults.push({ promptId, results })
     }
 
+    // First sample of each prompt/platform - what the report shows as "the" answer
+    const primaryResults = allPlatformResults.map(({ promptId, results }) => ({
+      promptId,
+      results: results.filter((r) => !r.sampleIndex),
+    }))
+
+    // Step 8b: English translations of a non-English scan's questions and answers
+    if (!isEnglish(language)) {
+      await step.run("translate-responses", async () => {
+        const budget = await getBudgetStatus({ runId: scanId, domainSubscriptionId })
+        if (budget.remainingCents < STEP_COST_ESTIMATES_CENTS.translation) {
+          log.warn(scanId, `Budget: skipping translations (${budget.remainingCents}¢ left)`)
+          await recordBudgetLimit(scanId, budget, {
+            step: "translation",
+            action: "skipped_step",
+            detail: "Answers were not translated into English for this scan",
+          })
+          return
+        }
+
+        const { translated, total } = await saveScanTranslations(scanId)
+        log.done(scanId, "Translations", `${translated} of ${total}`)
+      })
+    }
+
+    // Step 8c: Group competitor name variants under the subscription's canonical competitors
+    const competitorEntities = domainSubscriptionId
+      ? await step.run("canonicalise-competitors", async () => {
+          const supabase = createServiceClient()
+
+          const detected = new Map<string, DetectedCompetitor>()
+          for (const { results } of allPlatformResults) {
+            for (const r of results) {
+              const sourceUrls = (r.sources || []).map((s) => s.url)
+              for (const c of r.competitorsMentioned) {
+                const key = c.name.trim().toLowerCase()
+                const domain = resolveCompetitorDomain(c.name, sourceUrls)
+                const existing = detected.get(key)
+                if (!existing || (!existing.domain && domain)) {
+                  detected.set(key, { name: c.name.trim(), domain })
+                }
+              }
+            }
+          }
+
+          const { data: existing } = await supabase
+            .from("competitor_entities")
+            .select("id, name, domain, aliases")
+            .eq("domain_subscription_id", domainSubscriptionId)
+
+          const entities = (existing || []) as Pick<CompetitorEntity, "id" | "name" | "domain" | "aliases">[]
+          const plan = planCompetitorMerges(entities, Array.from(detected.values()))
+
+          if (plan.created.length > 0) {
+            const { error } = await supabase
+              .from("competitor_entities")
+              .insert(plan.created.map((e) => ({ domain_subscription_id: domainSubscriptionId, ...e })))
+            if (error) log.warn(scanId, `Competitor entities not saved: ${error.message}`)
+          }
+
+          for (const update of plan.updated) {
+            await supabase
+              .from("competitor_entities")
+              .update({ domain: update.domain, aliases: update.aliases })
+              .eq("id", update.id)
+          }
+
+          if (plan.created.length > 0 || plan.updated.length > 0) {
+            log.info(scanId, `Competitors: ${plan.created.length} new, ${plan.updated.length} with new aliases`)
+          }
+
+          const { data: current } = await supabase
+            .from("competitor_entities")
+            .select("name, domain, aliases")
+            .eq("domain_subscription_id", domainSubscriptionId)
+
+          return (current || []) as Pick<CompetitorEntity, "name" | "domain" | "aliases">[]
+        })
+      : []
+
+    // Step 8d: Sentiment and recommendation strength of the answers that mention us
+    const sentiments = await step.run("analyze-sentiment", async () => {
+      const mentioned = allPlatformResults.flatMap(({ promptId, results }) =>
+        results
+          .filter((r) => r.domainMentioned && r.response && !r.error)
+          .map((r) => ({ promptId, result: r }))
+      )
+      if (mentioned.length === 0) return {}
+
+      const estimateCents = STEP_COST_ESTIMATES_CENTS.sentiment * Math.ceil(mentioned.length / SENTIMENT_BATCH_SIZE)
+      const budget = await getBudgetStatus({ runId: scanId, domainSubscriptionId })
+      if (budget.remainingCents < estimateCents) {
+        log.warn(scanId, `Budget: skipping sentiment analysis (${budget.remainingCents}¢ left)`)
+        await recordBudgetLimit(scanId, budget, {
+          step: "sentiment",
+          action: "skipped_step",
+          detail: "Mentions were not scored for sentiment, so there is no sentiment-adjusted score",
+        })
+        return {}
+      }
+
+      log.step(scanId, `Scoring sentiment of ${mentioned.length} mentions`)
+      const sentimentMap = await analyzeBrandSentiment(
+        mentioned.map(({ promptId, result }) => ({
+          id: sentimentKey(promptId, result),
+          platform: result.platform,
+          question: result.query,
+          excerpt: mentionExcerpt(result.response, result.mentionEvidence),
+        })),
+        analysisResult.analysis.businessName || domain,
+        scanId,
+        language
+      )
+
+      const supabase = createServiceClient()
+      for (const { promptId, result } of mentioned) {
+        const sentiment = sentimentMap.get(sentimentKey(promptId, result))
+        if (!sentiment) continue
+        const { error } = await supabase
+          .from("llm_responses")
+          .update({
+            sentiment_score: sentiment.score,
+            sentiment_category: sentiment.category,
+            sentiment_positive_phrases: sentiment.positivePhrases,
+            sentiment_negative_phrases: sentiment.negativePhrases,
+            recommendation_strength: sentiment.strength,
+          })
+          .eq("run_id", scanId)
+          .eq("prompt_id", promptId)
+          .eq("platform", result.platform)
+          .eq("sample_index", result.sampleIndex ?? 0)
+        if (error) {
+          log.warn(scanId, `Failed to save sentiment: ${error.message}`)
+        }
+      }
+
+      log.done(scanId, "Sentiment", `${sentimentMap.size} of ${mentioned.length} mentions scored`)
+      return Object.fromEntries(sentimentMap) as Record<string, BrandSentiment>
+    })
+
+    for (const { promptId, results } of allPlatformResults) {
+      for (const r of results) {
+        r.sentiment = sentiments[sentimentKey(promptId, r)] ?? null
+      }
+    }
+
     // Step 9: Finalize report
     const report = await step.run("finalize-report", async () => {
       const supabase = createServiceClient()
@@ -568,25 +1110,67 @@ export const processScan = inngest.createFunction(
 
       const scores = {
         overallScore: searchScores.overall,
-        platformScores: {
-          chatgpt: searchScores.byPlatform.chatgpt.score,
-          claude: searchScores.byPlatform.claude.score,
-          gemini: searchScores.byPlatform.gemini.score,
-          perplexity: searchScores.byPlatform.perplexity.score,
-        },
-        platformMentions: {
-          chatgpt: searchScores.byPlatform.chatgpt.mentioned,
-          claude: searchScores.byPlatform.claude.mentioned,
-          gemini: searchScores.byPlatform.gemini.mentioned,
-          perplexity: searchScores.byPlatform.perplexity.mentioned,
-        },
+        platformScores: Object.fromEntries(
+          SEARCH_PLATFORMS.map(p => [p, searchScores.byPlatform[p].score])
+        ) as Partial<Record<SearchPlatform, number>>,
+        platformMentions: Object.fromEntries(
+          SEARCH_PLATFORMS.map(p => [p, searchScores.byPlatform[p].mentioned])
+        ) as Partial<Record<SearchPlatform, number>>,
         totalMentions: Object.values(searchScores.byPlatform).reduce((sum, p) => sum + p.mentioned, 0),
         totalQueries: Object.values(searchScores.byPlatform).reduce((sum, p) => sum + p.total, 0),
       }
 
-      // Extract competitors
+      // 95% interval on the mention rates (narrows as samplesPerQuery grows)
+      const scoreConfidence: ScoreConfidence = {
+        samplesPerQuery,
+        overall: searchScores.overallInterval,
+        platforms: Object.fromEntries(
+          SEARCH_PLATFORMS.map(p => {
+            const { rate, low, high, mentioned, total } = searchScores.byPlatform[p]
+            return [p, { rate, low, high, mentioned, total }]
+          })
+        ),
+      }
+
+      // Position-weighted visibility (being first in a list counts more than being last)
+      const positionScores = {
+        overall: searchScores.positionWeighted,
+        platforms: Object.fromEntries(
+          SEARCH_PLATFORMS.map(p => [p, {
+            score: searchScores.byPlatform[p].positionScore,
+            medianRank: searchScores.byPlatform[p].medianRank,
+            medianRankedCount: searchScores.byPlatform[p].medianRankedCount,
+          }])
+        ),
+      }
+
+      // Sentiment-adjusted visibility (a mention that warns people off counts for nothing)
+      const sentimentScores: SentimentScores | null = searchScores.sentimentAdjusted === null
+        ? null
+        : {
+            overall: searchScores.sentimentAdjusted,
+            platforms: Object.fromEntries(
+              SEARCH_PLATFORMS.map(p => {
+                const byStrength: SentimentScores["platforms"][string]["byStrength"] = {}
+                for (const { results } of allPlatformResults) {
+                  for (const r of results) {
+                    if (r.platform !== p || !r.sentiment) continue
+                    byStrength[r.sentiment.strength] = (byStrength[r.sentiment.strength] || 0) + 1
+                  }
+                }
+                return [p, {
+                  score: searchScores.byPlatform[p].sentimentScore,
+                  scored: searchScores.byPlatform[p].sentimentScored,
+                  byStrength,
+                }]
+              })
+            ),
+          }
+
+      // Extract competitors (name variants counted under one canonical competitor)
+      const resolveCompetitor = createCompetitorResolver(competitorEntities)
       const topCompetitors = extractTopCompetitors(
-        allPlatformResults.map(({ promptId, results }) => ({
+        primaryResults.map(({ promptId, results }) => ({
           promptId,
           results: results.map((r) => ({
             platform: r.platform,
@@ -594,13 +1178,48 @@ export const processScan = inngest.createFunction(
             response: r.response,
             domainMentioned: r.domainMentioned,
             mentionPosition: r.mentionPosition,
-            competitorsMentioned: r.competitorsMentioned,
+            competitorsMentioned: canonicalizeMentions(r.competitorsMentioned, resolveCompetitor),
             responseTimeMs: r.responseTimeMs,
             error: r.error || null,
           })),
         }))
       )
 
+      // Share of recommendation slots: us vs tracked competitors (most-mentioned when none are tracked)
+      let trackedQuery = supabase
+        .from("subscriber_competitors")
+        .select("name")
+        .eq("is_active", true)
+
+      if (domainSubscriptionId) {
+        trackedQuery = trackedQuery.eq("domain_subscription_id", domainSubscriptionId)
+      } else {
+        trackedQuery = trackedQuery.eq("lead_id", leadId)
+      }
+
+      const { data: trackedCompetitors } = await trackedQuery.order("created_at", { ascending: true })
+      const trackedNames = canonicalizeMentions((trackedCompetitors || []) as { name: string }[], resolveCompetitor)
+        .map((c) => c.name)
+      const shareOfVoice = calculateShareOfVoice(
+        allPlatformResults.flatMap(({ results }) => results.map((r) => ({
+          question: r.query,
+          platform: r.platform,
+          domainMentioned: r.domainMentioned,
+          mentionRank: r.mentionRank,
+          rankedEntities: r.rankedEntities,
+          competitorsMentioned: canonicalizeMentions(r.competitorsMentioned, resolveCompetitor),
+        }))),
+        trackedNames.length > 0 ? trackedNames : topCompetitors.slice(0, 5).map((c) => c.name),
+        trackedNames.length > 0
+      )
+
+      // Cited sources across the shown answers (own site vs competitors vs third parties)
+      const citationSummary = aggregateCitations(
+        primaryResults.flatMap(({ results }) => results),
+        domain,
+        topCompetitors.map((c) => c.name)
+      )
+
       // Generate summary
       const summary = generateSummary(
         analysisResult.analysis,
@@ -630,7 +1249,11 @@ export const processScan = inngest.createFunction(
           .update({
             visibility_score: scores.overallScore,
             platform_scores: scores.platformScores,
+            score_confidence: scoreConfidence,
+            position_scores: positionScores,
+            sentiment_scores: sentimentScores,
             top_competitors: topCompetitors,
+            share_of_voice: shareOfVoice,
             summary,
             expires_at: expiresAt,
             subscriber_only: isSubscriberScan,
@@ -655,7 +1278,11 @@ export const processScan = inngest.createFunction(
             url_token: urlToken,
             visibility_score: scores.overallScore,
             platform_scores: scores.platformScores,
+            score_confidence: scoreConfidence,
+            position_scores: positionScores,
+            sentiment_scores: sentimentScores,
             top_competitors: topCompetitors,
+            share_of_voice: shareOfVoice,
             summary,
             requires_verification: !isSubscriberScan,
             subscriber_only: isSubscriberScan,
@@ -692,14 +1319,32 @@ export const processScan = inngest.createFunction(
             domain_subscription_id: domainSubscriptionId || null,
             run_id: scanId,
             visibility_score: scores.overallScore,
-            chatgpt_score: scores.platformScores.chatgpt,
-            claude_score: scores.platformScores.claude,
-            gemini_score: scores.platformScores.gemini,
-            perplexity_score: scores.platformScores.perplexity,
-            chatgpt_mentions: scores.platformMentions.chatgpt,
-            claude_mentions: scores.platformMentions.claude,
-            gemini_mentions: scores.platformMentions.gemini,
-            perplexity_mentions: scores.platformMentions.perplexity,
+            // Legacy per-platform columns (original four engines)
+            chatgpt_score: scores.platformScores.chatgpt ?? null,
+            claude_score: scores.platformScores.claude ?? null,
+            gemini_score: scores.platformScores.gemini ?? null,
+            perplexity_score: scores.platformScores.perplexity ?? null,
+            chatgpt_mentions: scores.platformMentions.chatgpt ?? null,
+            claude_mentions: scores.platformMentions.claude ?? null,
+            gemini_mentions: scores.platformMentions.gemini ?? null,
+            perplexity_mentions: scores.platformMentions.perplexity ?? null,
+            // Every registered engine, keyed by platform id
+            platform_scores: scores.platformScores,
+            platform_mentions: scores.platformMentions,
+            // Confidence interval for error bands and significance checks
+            visibility_score_low: scoreConfidence.overall.low,
+            visibility_score_high: scoreConfidence.overall.high,
+            platform_intervals: Object.fromEntries(
+              SEARCH_PLATFORMS.map(p => [p, {
+                low: searchScores.byPlatform[p].low,
+                high: searchScores.byPlatform[p].high,
+              }])
+            ),
+            samples_per_query: samplesPerQuery,
+            position_score: positionScores.overall,
+            sentiment_adjusted_score: sentimentScores?.overall ?? null,
+            citation_stats: toCitationSnapshot(citationSummary),
+            ...toShareOfVoiceSnapshot(shareOfVoice),
             query_coverage: queryCoverage,
             total_queries: scores.totalQueries,
             total_mentions: scores.totalMentions,
@@ -794,7 +1439,21 @@ export const processScan = inngest.createFunction(
     // After trial is applied, getUserTier will return 'starter' for trial users
     // This triggers enrichment for: brand awareness, competitive summary, action plans
     const userTier = await getUserTier(leadId)
-    const shouldEnrich = userTier !== "free"
+
+    // Skip enrichment when the remaining AI budget can't cover it
+    const enrichmentAffordable = userTier !== "free" && await step.run("check-enrichment-budget", async () => {
+      const budget = await getBudgetStatus({ runId: scanId, domainSubscriptionId })
+      if (budget.remainingCents >= STEP_COST_ESTIMATES_CENTS.enrichment) return true
+
+      log.warn(scanId, `Budget: skipping enrichment (${budget.remainingCents}¢ left)`)
+      await recordBudgetLimit(scanId, budget, {
+        step: "enrichment",
+        action: "skipped_step",
+        detail: "Brand awareness, competitive summary and action plans were skipped for this scan",
+      })
+      return false
+    })
+    const shouldEnrich = userTier !== "free" && enrichmentAffordable
 
     if (shouldEnrich) {
       // Use step.invoke to directly call enrichSubscriber function
@@ -825,6 +1484,26 @@ export const processScan = inngest.createFunction(
       })
     }
 
+    // Step 11b: Crawl tracked competitors' websites (opt-in; runs on its own, report doesn't wait)
+    if (domainSubscriptionId && userTier !== "free") {
+      const scanCompetitorSites = await step.run("check-competitor-site-scans", async () => {
+        const supabase = createServiceClient()
+        const { data } = await supabase
+          .from("domain_subscriptions")
+          .select("scan_competitor_sites")
+          .eq("id", domainSubscriptionId)
+          .single()
+        return data?.scan_competitor_sites === true
+      })
+
+      if (scanCompetitorSites) {
+        await step.sendEvent("trigger-competitor-site-scans", {
+          name: "competitors/scan-sites",
+          data: { scanRunId: scanId, domainSubscriptionId },
+        })
+      }
+    }
+
     // Step 12: Send email
     await step.run("send-email", async () => {
       if (skipEmail) {
@@ -959,6 +1638,11 @@ async function updateScanStatus(
     .eq("id", scanId)
 }
 
+// Helper: Key for an answer's sentiment (one per prompt, platform and sample)
+function sentimentKey(promptId: string, result: PlatformResult): string {
+  return `${promptId}:${result.platform}:${result.sampleIndex ?? 0}`
+}
+
 // Helper: Save a single LLM response to database
 async function saveResponseToDb(
   supabase: ReturnType<typeof createServiceClient>,
@@ -973,11 +1657,16 @@ async function saveResponseToDb(
     response_text: result.response,
     domain_mentioned: result.domainMentioned,
     mention_position: result.mentionPosition,
+    mention_evidence: result.mentionEvidence ?? null,
+    mention_rank: result.mentionRank ?? null,
+    ranked_count: result.rankedCount ?? null,
+    ranked_entities: result.rankedEntities ?? null,
     competitors_mentioned: result.competitorsMentioned,
     response_time_ms: result.responseTimeMs,
     error_message: result.error,
     search_enabled: result.searchEnabled,
     sources: result.sources,
+    sample_index: result.sampleIndex ?? 0,
   })
 
   if (error) {
@@ -990,7 +1679,7 @@ function generateSummary(
   analysis: { businessType: string; businessName: string | null },
   scores: {
     overallScore: number
-    platformScores: Record<string, number>
+    platformScores: Partial<Record<string, number>>
     totalMentions: number
     totalQueries: number
   },
@@ -1008,7 +1697,11 @@ function generateSummary(
           : "very low"
 
   let summary = `${businessName} has ${scoreDescription} AI visibility with an overall score of ${scores.overallScore}%. `
-  summary += `The site was mentioned in ${scores.totalMentions} out of ${scores.totalQueries} AI queries across ChatGPT, Claude, and Gemini. `
+  const platformNames = Object.keys(scores.platformScores).map(p => PLATFORM_REGISTRY[p as SearchPlatform]?.name ?? p)
+  const platformList = platformNames.length > 1
+    ? `${platformNames.slice(0, -1).join(", ")}, and ${platformNames[platformNames.length - 1]}`
+    : platformNames.join("")
+  summary += `The site was mentioned in ${scores.totalMentions} out of ${scores.totalQueries} AI queries across ${platformList}. `
 
   if (topCompetitors.length > 0) {
     const topThree = topCompetitors.slice(0, 3).map((c) => c.name)
@@ -1021,3 +1714,103 @@ function generateSummary(
 
   return summary
 }
+
+/**
+ * Map a crawled_pages row to the crawler's previous-scan shape
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toPreviousCrawledPage(row: any): PreviousCrawledPage {
+  return {
+    url: row.url,
+    path: row.path,
+    title: row.title,
+    description: row.meta_description,
+    h1: row.h1,
+    headings: row.headings || [],
+    bodyText: row.body_text ?? null,
+    wordCount: row.word_count || 0,
+    schemaData: row.schema_data || [],
+    schemaValidation: (row.schema_validation as PageSchemaValidation | null) ?? null,
+    hasMetaDescription: !!row.has_meta_description,
+    renderedWithJs: !!row.rendered_with_js,
+    fingerprint: {
+      contentHash: row.content_hash ?? null,
+      etag: row.etag ?? null,
+      lastModified: row.last_modified ?? null,
+      sitemapLastmod: row.sitemap_lastmod ?? null,
+    },
+  }
+}
+
+// History tables of completed items that scans verify
+const VERIFIABLE_TABLES = ["action_items_history", "prd_tasks_history"] as const
+type VerifiableTable = (typeof VERIFIABLE_TABLES)[number]
+
+// Verification pages crawled on top of the page limit, from items completed in the last 90 days
+const MAX_VERIFICATION_PAGES = 10
+const VERIFICATION_WINDOW_DAYS = 90
+
+interface CompletedItemRow {
+  id: string
+  expectations: unknown
+  verification_status: VerificationStatus | null
+  verified_at: string | null
+  completed_at: string | null
+  target_page?: string | null
+  category?: string | null
+}
+
+/**
+ * Completed actions or PRD tasks for this lead (and domain, for subscribers)
+ */
+async function loadCompletedItems(
+  supabase: ReturnType<typeof createServiceClient>,
+  table: VerifiableTable,
+  leadId: string,
+  domainSubscriptionId: string | null | undefined
+): Promise<CompletedItemRow[]> {
+  let query = supabase
+    .from(table)
+    .select(table === "action_items_history"
+      ? "id, expectations, verification_status, verified_at, completed_at, target_page, category"
+      : "id, expectations, verification_status, verified_at, completed_at")
+    .eq("lead_id", leadId)
+  if (domainSubscriptionId) {
+    query = query.eq("domain_subscription_id", domainSubscriptionId)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    console.error(`Failed to load ${table} for verification:`, error)
+    return []
+  }
+  return (data || []) as unknown as CompletedItemRow[]
+}
+
+/**
+ * Pages checked by items completed in the last VERIFICATION_WINDOW_DAYS, newest
+ * first, at most MAX_VERIFICATION_PAGES. Case is kept - paths can be case-sensitive
+ */
+async function loadVerificationPaths(
+  supabase: ReturnType<typeof createServiceClient>,
+  leadId: string,
+  domainSubscriptionId: string | null | undefined
+): Promise<string[]> {
+  const since = new Date(Date.now() - VERIFICATION_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const items: CompletedItemRow[] = []
+  for (const table of VERIFIABLE_TABLES) {
+    items.push(...await loadCompletedItems(supabase, table, leadId, domainSubscriptionId))
+  }
+
+  const paths = new Map<string, string>()
+  for (const item of items
+    .filter(item => item.completed_at && item.completed_at >= since)
+    .sort((a, b) => b.completed_at!.localeCompare(a.completed_at!))) {
+    for (const expectation of normalizeExpectations(item.expectations)) {
+      if (paths.size >= MAX_VERIFICATION_PAGES) return Array.from(paths.values())
+      const key = normalizePath(expectation.page)
+      if (!paths.has(key)) paths.set(key, expectation.page)
+    }
+  }
+  return Array.from(paths.values())
+}
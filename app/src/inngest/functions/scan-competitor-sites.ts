@@ -0,0 +1,163 @@
+import { inngest } from "../client"
+import { createServiceClient } from "@/lib/supabase/server"
+import { crawlSite } from "@/lib/ai/crawl"
+import { normalizeDomain } from "@/lib/ai/brand-matcher"
+import { createCompetitorResolver, type CompetitorEntity } from "@/lib/ai/competitor-entities"
+import { COMPETITOR_CRAWL_MAX_PAGES, type SiteTechStack } from "@/lib/ai/competitor-sites"
+import { log } from "@/lib/logger"
+
+interface CompetitorSite {
+  id: string
+  name: string
+  domain: string
+}
+
+/**
+ * Scan Competitor Sites
+ *
+ * Crawls each tracked competitor's website through the same crawl, AI readiness
+ * and platform detection steps as the subscriber's own site, so the Competitors
+ * tab can compare them side by side.
+ *
+ * Triggered by process-scan after a subscriber scan when the subscription has
+ * scan_competitor_sites on. Runs separately so slow competitor sites never hold
+ * up the report. One step per competitor - a failing site is recorded, not retried forever.
+ */
+export const scanCompetitorSites = inngest.createFunction(
+  {
+    id: "scan-competitor-sites",
+    retries: 2,
+    timeouts: {
+      finish: "15m",
+    },
+    cancelOn: [
+      {
+        event: "competitors/scan-sites",
+        match: "data.scanRunId",
+      },
+    ],
+  },
+  { event: "competitors/scan-sites" },
+  async ({ event, step }) => {
+    const { scanRunId, domainSubscriptionId } = event.data
+
+    // Step 1: Tracked competitors with a website to crawl
+    const sites = await step.run("load-competitor-sites", async (): Promise<CompetitorSite[]> => {
+      const supabase = createServiceClient()
+
+      const { data: subscription } = await supabase
+        .from("domain_subscriptions")
+        .select("domain")
+        .eq("id", domainSubscriptionId)
+        .single()
+
+      const { data: competitors } = await supabase
+        .from("subscriber_competitors")
+        .select("id, name, domain")
+        .eq("domain_subscription_id", domainSubscriptionId)
+        .eq("is_active", true)
+        .order("created_at", { ascending: true })
+        .limit(5) // Matches the tracked competitor limit
+
+      // Competitors without a domain fall back to the one resolved from cited sources
+      const { data: entities } = await supabase
+        .from("competitor_entities")
+        .select("name, domain, aliases")
+        .eq("domain_subscription_id", domainSubscriptionId)
+        .not("domain", "is", null)
+
+      const entityList = (entities || []) as Pick<CompetitorEntity, "name" | "domain" | "aliases">[]
+      const resolve = createCompetitorResolver(entityList)
+      const ownDomain = subscription ? normalizeDomain(subscription.domain) : null
+
+      const resolved: CompetitorSite[] = []
+      for (const competitor of (competitors || []) as { id: string; name: string; domain: string | null }[]) {
+        const entityName = resolve(competitor.name)
+        const domain = competitor.domain || entityList.find((e) => e.name === entityName)?.domain
+        if (!domain) {
+          log.info(scanRunId, `Competitor sites: no website for ${competitor.name}`)
+          continue
+        }
+        const normalized = normalizeDomain(domain)
+        if (normalized === ownDomain || resolved.some((s) => s.domain === normalized)) continue
+        resolved.push({ id: competitor.id, name: competitor.name, domain: normalized })
+      }
+
+      log.info(scanRunId, `Competitor sites: ${resolved.length} to crawl`)
+      return resolved
+    })
+
+    if (sites.length === 0) {
+      return { success: true, scanRunId, crawled: 0 }
+    }
+
+    // Step 2: Crawl each competitor (readiness signals + platform detection)
+    const results = await Promise.all(
+      sites.map((site) =>
+        step.run(`crawl-competitor-${site.domain}`, async () => {
+          const supabase = createServiceClient()
+
+          const row = {
+            run_id: scanRunId,
+            competitor_id: site.id,
+            competitor_name: site.name,
+            domain: site.domain,
+          }
+
+          try {
+            const crawl = await crawlSite(site.domain, { maxPages: COMPETITOR_CRAWL_MAX_PAGES })
+            const detection = crawl.platformDetection
+
+            const techStack: SiteTechStack | null = detection
+              ? {
+                  cms: detection.cms,
+                  framework: detection.framework,
+                  cssFramework: detection.cssFramework,
+                  hosting: detection.hosting,
+                  ecommerce: detection.ecommerce,
+                  analytics: detection.analytics,
+                  rendersClientSide: detection.rendersClientSide,
+                }
+              : null
+
+            await supabase.from("competitor_site_scans").upsert(
+              {
+                ...row,
+                status: crawl.totalPages > 0 ? "complete" : "failed",
+                error: crawl.totalPages > 0 ? null : "No pages could be crawled",
+                pages_crawled: crawl.totalPages,
+                has_sitemap: crawl.hasSitemap,
+                has_robots_txt: crawl.hasRobotsTxt,
+                has_meta_descriptions: crawl.pages.some((p) => p.hasMetaDescription),
+                schema_types: crawl.schemaTypes,
+                schema_error_pages: crawl.schemaValidation.filter((p) => p.errorCount > 0).length,
+                ai_crawler_access: crawl.aiCrawlerAccess,
+                ai_discovery: crawl.aiDiscovery,
+                tech_stack: techStack,
+              },
+              { onConflict: "run_id,domain" }
+            )
+
+            log.done(scanRunId, `Competitor site ${site.domain}`, `${crawl.totalPages} pages`)
+            return crawl.totalPages > 0
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            log.warn(scanRunId, `Competitor site ${site.domain} failed: ${message}`)
+            await supabase.from("competitor_site_scans").upsert(
+              { ...row, status: "failed", error: message.slice(0, 500) },
+              { onConflict: "run_id,domain" }
+            )
+            return false
+          }
+        })
+      )
+    )
+
+    return {
+      success: true,
+      scanRunId,
+      crawled: results.filter(Boolean).length,
+      failed: results.filter((ok) => !ok).length,
+    }
+  }
+)
@@ -0,0 +1,280 @@
+/**
+ * Action Expectations
+ * Machine-checkable outcomes attached to action items, page edits and PRD tasks
+ * (e.g. "FAQPage schema on /services", "meta description present on /about").
+ *
+ * When a user marks an item complete it moves to history with its expectations.
+ * Every later scan re-checks them against the crawl (see process-scan.ts):
+ * - verified: every expectation on a crawled page passed
+ * - not_met: something failed and the item was never verified
+ * - regressed: it was verified before, but a later scan found it undone
+ */
+
+import { normalizePath, targetPagePath, type PageChange, type PageChangeField } from './page-changes'
+
+export type ExpectationCheck =
+  | 'page_exists'
+  | 'schema_type'
+  | 'meta_description'
+  | 'title_contains'
+  | 'h1_contains'
+  | 'heading_contains'
+  | 'content_contains'
+  | 'min_word_count'
+
+export const EXPECTATION_CHECKS: ExpectationCheck[] = [
+  'page_exists',
+  'schema_type',
+  'meta_description',
+  'title_contains',
+  'h1_contains',
+  'heading_contains',
+  'content_contains',
+  'min_word_count',
+]
+
+export interface ActionExpectation {
+  check: ExpectationCheck
+  page: string          // Path the check runs on ("/" = homepage), case kept
+  value: string | null  // Schema type, text to find or word count (null for presence checks)
+}
+
+export type ExpectationOutcome = 'met' | 'not_met' | 'not_crawled'
+
+export interface ExpectationResult {
+  expectation: ActionExpectation
+  outcome: ExpectationOutcome
+  evidence: string  // What the crawler found, e.g. 'H1 is "Plumbing Services"'
+}
+
+export type VerificationStatus = 'verified' | 'not_met' | 'regressed'
+
+/**
+ * The parts of a crawled page expectations are checked against
+ */
+export interface ExpectationPage {
+  path: string
+  title: string | null
+  description: string | null
+  h1: string | null
+  headings: string[]
+  bodyText: string | null
+  wordCount: number
+  schemaTypes: string[]
+}
+
+// Per item - keeps prompts and stored rows small
+const MAX_EXPECTATIONS = 5
+
+// What an action in each category changes on its target page. Citations are
+// earned off-site, so no page edit carries them out
+const CATEGORY_FIELDS: Record<string, PageChangeField[]> = {
+  content: ['content', 'headings', 'h1', 'title'],
+  technical: ['title', 'description', 'h1'],
+  schema: ['schema'],
+  local: ['content', 'schema', 'description'],
+}
+
+/**
+ * Coerce model output into valid expectations, dropping anything unusable
+ */
+export function normalizeExpectations(raw: unknown, fallbackPage: string | null = null): ActionExpectation[] {
+  if (!Array.isArray(raw)) return []
+
+  const expectations: ActionExpectation[] = []
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    const { check, page, value } = entry as Record<string, unknown>
+    if (typeof check !== 'string' || !EXPECTATION_CHECKS.includes(check as ExpectationCheck)) continue
+
+    const path = targetPagePath(typeof page === 'string' ? page : fallbackPage)
+    if (!path) continue
+
+    const text = typeof value === 'string' || typeof value === 'number' ? String(value).trim() : ''
+    if (needsValue(check as ExpectationCheck) && !text) continue
+    if (check === 'min_word_count' && !(parseInt(text, 10) > 0)) continue
+
+    expectations.push({ check: check as ExpectationCheck, page: path, value: text || null })
+    if (expectations.length >= MAX_EXPECTATIONS) break
+  }
+  return expectations
+}
+
+/**
+ * Expectations implied by a suggested page edit, for edits the model left without any
+ */
+export function derivePageEditExpectations(edit: {
+  page: string
+  metaDescription: string | null
+  h1Change: string
+}): ActionExpectation[] {
+  const path = targetPagePath(edit.page)
+  if (!path) return []
+
+  const expectations: ActionExpectation[] = []
+  if (edit.metaDescription) {
+    expectations.push({ check: 'meta_description', page: path, value: null })
+  }
+  if (edit.h1Change && edit.h1Change !== 'keep') {
+    // First few words - users often tweak the exact wording
+    const words = edit.h1Change.split(/\s+/).filter(Boolean).slice(0, 3).join(' ')
+    if (words) expectations.push({ check: 'h1_contains', page: path, value: words })
+  }
+  return expectations
+}
+
+/**
+ * Check one expectation against the crawled pages (keyed by normalized path).
+ * requestedPaths are the normalized paths the crawl was asked to fetch - a
+ * page_exists check on one that didn't come back means the page is gone
+ */
+export function evaluateExpectation(
+  expectation: ActionExpectation,
+  pages: Map<string, ExpectationPage>,
+  requestedPaths: Set<string> = new Set()
+): ExpectationResult {
+  const page = pages.get(normalizePath(expectation.page))
+  if (!page) {
+    if (expectation.check === 'page_exists' && requestedPaths.has(normalizePath(expectation.page))) {
+      return { expectation, outcome: 'not_met', evidence: `${expectation.page} was not found on the site` }
+    }
+    return { expectation, outcome: 'not_crawled', evidence: `${expectation.page} was not crawled in this scan` }
+  }
+
+  const value = expectation.value || ''
+  const result = (met: boolean, evidence: string): ExpectationResult => ({
+    expectation,
+    outcome: met ? 'met' : 'not_met',
+    evidence,
+  })
+
+  switch (expectation.check) {
+    case 'page_exists':
+      return result(true, `${page.path} is live (${page.wordCount} words)`)
+
+    case 'schema_type': {
+      const found = page.schemaTypes.some(type => type.toLowerCase() === value.toLowerCase())
+      return result(found, found
+        ? `${value} schema found`
+        : page.schemaTypes.length > 0
+          ? `No ${value} schema - found ${page.schemaTypes.join(', ')}`
+          : 'No structured data found')
+    }
+
+    case 'meta_description':
+      return page.description
+        ? result(containsText(page.description, value), value && !containsText(page.description, value)
+          ? `Meta description doesn't mention "${value}"`
+          : `Meta description: "${truncate(page.description)}"`)
+        : result(false, 'No meta description')
+
+    case 'title_contains':
+      return result(containsText(page.title, value), page.title ? `Title is "${truncate(page.title)}"` : 'No page title')
+
+    case 'h1_contains':
+      return result(containsText(page.h1, value), page.h1 ? `H1 is "${truncate(page.h1)}"` : 'No H1 heading')
+
+    case 'heading_contains': {
+      const match = page.headings.find(heading => containsText(heading, value))
+      return result(!!match, match ? `Heading "${truncate(match)}"` : `No heading mentions "${value}"`)
+    }
+
+    case 'content_contains': {
+      if (page.bodyText === null) {
+        return { expectation, outcome: 'not_crawled', evidence: `Page text for ${page.path} is unavailable` }
+      }
+      const found = containsText(page.bodyText, value)
+      // The crawl keeps only the start of long pages - text further down can't be ruled out
+      if (!found && isTruncated(page.bodyText, page.wordCount)) {
+        return { expectation, outcome: 'not_crawled', evidence: `"${value}" isn't in the part of ${page.path} the crawl keeps` }
+      }
+      return result(found, found ? `Page text mentions "${value}"` : `Page text doesn't mention "${value}"`)
+    }
+
+    case 'min_word_count': {
+      const minimum = parseInt(value, 10) || 0
+      return result(page.wordCount >= minimum, `${page.wordCount} words (target ${minimum})`)
+    }
+  }
+}
+
+/**
+ * Whether an edit to an action's target page carries out an action that has no
+ * expectations of its own (actions from before expectations): it changed what
+ * the action's category is about, and the page has it now - removing a meta
+ * description doesn't complete a meta description fix
+ */
+export function editSatisfiesAction(
+  change: Pick<PageChange, 'changeType' | 'changedFields' | 'wordCountBefore' | 'wordCountAfter'>,
+  category: string | null,
+  page: ExpectationPage | undefined
+): boolean {
+  const fields = CATEGORY_FIELDS[category || ''] || []
+  if (!page || change.changeType === 'removed') return false
+
+  // A new page has every field "changed"
+  const changed = change.changeType === 'added' ? fields : change.changedFields.filter(field => fields.includes(field))
+  return changed.some(field => {
+    switch (field) {
+      case 'title': return !!page.title
+      case 'description': return !!page.description
+      case 'h1': return !!page.h1
+      case 'headings': return page.headings.length > 0
+      case 'schema': return page.schemaTypes.length > 0
+      case 'content': return change.wordCountBefore === null || (change.wordCountAfter ?? 0) >= change.wordCountBefore
+    }
+  })
+}
+
+/**
+ * New verification status from this scan's results, or null when nothing could
+ * be checked (target pages weren't crawled) and the previous status stands
+ */
+export function resolveVerificationStatus(
+  results: ExpectationResult[],
+  previous: VerificationStatus | null
+): VerificationStatus | null {
+  const checked = results.filter(r => r.outcome !== 'not_crawled')
+  if (checked.length === 0) return null
+  if (checked.every(r => r.outcome === 'met')) return 'verified'
+  return previous === 'verified' || previous === 'regressed' ? 'regressed' : 'not_met'
+}
+
+/**
+ * Human-readable expectation, e.g. "FAQPage schema on /services"
+ */
+export function describeExpectation(expectation: ActionExpectation): string {
+  const { page, value } = expectation
+  switch (expectation.check) {
+    case 'page_exists': return `${page} is live`
+    case 'schema_type': return `${value} schema on ${page}`
+    case 'meta_description': return value ? `Meta description on ${page} mentions "${value}"` : `Meta description on ${page}`
+    case 'title_contains': return `Title on ${page} contains "${value}"`
+    case 'h1_contains': return `H1 on ${page} contains "${value}"`
+    case 'heading_contains': return `A heading on ${page} contains "${value}"`
+    case 'content_contains': return `${page} mentions "${value}"`
+    case 'min_word_count': return `${page} has at least ${value} words`
+  }
+}
+
+function needsValue(check: ExpectationCheck): boolean {
+  return check !== 'page_exists' && check !== 'meta_description'
+}
+
+function isTruncated(bodyText: string, wordCount: number): boolean {
+  return bodyText.split(' ').filter(word => word.length > 0).length < wordCount
+}
+
+function containsText(haystack: string | null, needle: string): boolean {
+  if (!haystack) return false
+  if (!needle) return true
+  return collapse(haystack).includes(collapse(needle))
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function truncate(text: string): string {
+  return text.length > 70 ? `${text.slice(0, 67)}...` : text
+}
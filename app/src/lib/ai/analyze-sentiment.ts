@@ -0,0 +1,139 @@
+/**
+ * Sentiment Analysis
+ * Scores the answers that mention us (see sentiment.ts): a 1-10 sentiment, how
+ * strongly the answer recommends us, and the exact phrases behind the score.
+ *
+ * Answers are scored in batches with Claude so scores are comparable across
+ * platforms. Only the part of each answer around our mention is sent.
+ */
+
+import { generateObject } from './replay'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { z } from 'zod'
+import { trackCost } from './costs'
+import { getLanguage, isEnglish } from './language'
+import { sentimentCategory, type BrandSentiment } from './sentiment'
+
+const anthropic = createAnthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY || '',
+})
+
+// Answers per Claude call - enough to compare, small enough to stay consistent
+export const SENTIMENT_BATCH_SIZE = 15
+
+export interface AnswerForSentiment {
+  id: string
+  platform: string
+  question: string
+  excerpt: string // mentionExcerpt() of the answer
+}
+
+const sentimentSchema = z.object({
+  scores: z.array(z.object({
+    id: z.string(),
+    score: z.number().min(1).max(10),
+    strength: z.enum(['top_pick', 'recommended', 'mentioned', 'discouraged']),
+    positivePhrases: z.array(z.string()).describe('0-3 exact quotes from the answer that are positive about the business'),
+    negativePhrases: z.array(z.string()).describe('0-3 exact quotes from the answer that are negative or cautionary about the business'),
+  })),
+})
+
+/**
+ * Sentiment for each answer, keyed by id. Answers in a failed batch are left out
+ */
+export async function analyzeBrandSentiment(
+  answers: AnswerForSentiment[],
+  brandName: string,
+  runId: string,
+  language?: string
+): Promise<Map<string, BrandSentiment>> {
+  const results = new Map<string, BrandSentiment>()
+
+  for (let i = 0; i < answers.length; i += SENTIMENT_BATCH_SIZE) {
+    const batch = answers.slice(i, i + SENTIMENT_BATCH_SIZE)
+    const scored = await scoreBatch(batch, brandName, runId, language)
+    for (const [id, sentiment] of scored) {
+      results.set(id, sentiment)
+    }
+  }
+
+  return results
+}
+
+async function scoreBatch(
+  answers: AnswerForSentiment[],
+  brandName: string,
+  runId: string,
+  language?: string
+): Promise<Map<string, BrandSentiment>> {
+  const results = new Map<string, BrandSentiment>()
+
+  const formattedAnswers = answers.map(a =>
+    `[${a.id}] Platform: ${a.platform.toUpperCase()}
+Question: "${a.question}"
+Answer (excerpt): "${a.excerpt}"`
+  ).join('\n\n---\n\n')
+
+  const systemPrompt = `You are evaluating how AI assistants portray "${brandName}" to people looking for a business like it. Each answer below mentions ${brandName}. Score how the answer talks about ${brandName} specifically - not the other businesses in it.
+
+SENTIMENT (1-10):
+- 9-10 STRONG: Enthusiastic, unqualified praise of ${brandName}
+- 6-8 POSITIVE: Favourable overall, perhaps with minor caveats
+- 4-5 MIXED: Neutral listing, or balanced positives and negatives
+- 1-3 NEGATIVE: Complaints, warnings or problems with ${brandName}
+
+RECOMMENDATION STRENGTH:
+- top_pick: ${brandName} is named as the best, first or most suitable choice
+- recommended: ${brandName} is recommended, alongside other options
+- mentioned: ${brandName} is listed or described without being recommended
+- discouraged: the answer warns against ${brandName} or mentions it for its problems
+
+PHRASES:
+Quote up to 3 EXACT phrases (5-15 words, word-for-word) about ${brandName} that drove each score, positive and negative separately.${isEnglish(language) ? '' : `
+
+LANGUAGE:
+The answers are in ${getLanguage(language).name}. Score them exactly as you would English answers. Quote phrases in ${getLanguage(language).name}, word-for-word as they appear.`}`
+
+  try {
+    const result = await generateObject({
+      model: anthropic('claude-sonnet-4-20250514'),
+      schema: sentimentSchema,
+      system: systemPrompt,
+      prompt: `Score these ${answers.length} answers for how they portray ${brandName}.
+
+${formattedAnswers}
+
+Return a score, recommendation strength and driving phrases for each answer ID.`,
+    })
+
+    if (result.usage) {
+      await trackCost({
+        runId,
+        step: 'brand_sentiment',
+        model: 'anthropic/claude-sonnet-4-20250514',
+        usage: {
+          inputTokens: result.usage.inputTokens || 0,
+          outputTokens: result.usage.outputTokens || 0,
+          totalTokens: (result.usage.inputTokens || 0) + (result.usage.outputTokens || 0),
+        },
+      })
+    }
+
+    const ids = new Set(answers.map(a => a.id))
+    for (const item of result.object.scores) {
+      if (!ids.has(item.id)) continue
+      const score = Math.min(10, Math.max(1, Math.round(item.score)))
+      results.set(item.id, {
+        score,
+        category: sentimentCategory(score),
+        strength: item.strength,
+        positivePhrases: item.positivePhrases || [],
+        negativePhrases: item.negativePhrases || [],
+      })
+    }
+  } catch (error) {
+    console.error('Brand sentiment analysis failed:', error)
+  }
+
+  return results
+}
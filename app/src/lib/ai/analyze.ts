@@ -3,7 +3,8 @@
  * Uses LLM to analyze website content and identify what the business does
  */
 
-import { generateText, createGateway } from 'ai'
+import { createGateway } from 'ai'
+import { generateText } from './replay'
 import { openai } from '@ai-sdk/openai'
 import { trackCost } from './costs'
 
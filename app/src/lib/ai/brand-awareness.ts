@@ -10,7 +10,7 @@
  * - Perplexity: Native search (sonar-pro) - already grounded
  */
 
-import { generateText } from 'ai'
+import { generateText, replayableFetch } from './replay'
 import { createOpenAI } from '@ai-sdk/openai'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { createGoogleGenerativeAI } from '@ai-sdk/google'
@@ -169,7 +169,7 @@ async function searchWithTavily(
   }
 
   try {
-    const response = await fetch('https://api.tavily.com/search', {
+    const response = await replayableFetch('https://api.tavily.com/search', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
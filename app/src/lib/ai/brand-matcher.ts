@@ -0,0 +1,350 @@
+/**
+ * Brand Mention Matcher
+ * Decides whether an AI response mentions the brand, and records why
+ *
+ * Matching is driven by a per-domain brand entity profile (brand name,
+ * aliases/former names, product names, exclusion terms) on top of names
+ * derived from the domain itself:
+ * - Whole-word matching, so "apex" doesn't match inside "apexology"
+ * - Accent-insensitive: "Café Māori" matches "Cafe Maori" (and vice versa)
+ * - Scripts written without spaces (Chinese, Japanese, Korean particles, Thai)
+ *   don't count as word characters, so "Apexは" still matches "Apex"
+ * - Spacing/hyphen tolerant: "lounge lovers", "lounge-lovers", "loungelovers"
+ * - Exclusion terms veto overlapping matches ("Apex Legends" isn't Apex Co)
+ * - Fuzzy matching (edit distance) for longer profile names AI tends to misspell
+ * - Cited source URLs on the brand's own domain count as a mention
+ *
+ * Every match keeps an evidence span so the report can show exactly why a
+ * response counted as a mention.
+ */
+
+export interface BrandEntityProfile {
+  brandName?: string | null
+  aliases: string[]    // Other names the brand goes by, including former names
+  products: string[]   // Product or service names that identify the brand
+  exclusions: string[] // Phrases containing a brand term that refer to something else
+}
+
+export type MentionMatchKind = 'domain' | 'brand' | 'alias' | 'product' | 'fuzzy' | 'source'
+
+export interface MentionEvidence {
+  kind: MentionMatchKind
+  term: string  // Profile term that matched
+  text: string  // Exact matched text (the URL for source matches)
+  start: number // Offset in the response text (-1 for source matches)
+  end: number
+}
+
+export interface MentionMatch {
+  mentioned: boolean
+  position: number | null // 1, 2, or 3 (thirds of response)
+  evidence: MentionEvidence[]
+}
+
+interface BrandTerm {
+  term: string
+  kind: Exclude<MentionMatchKind, 'fuzzy' | 'source'>
+}
+
+// Terms shorter than this are too ambiguous to match on their own
+const MIN_TERM_LENGTH = 3
+// Fuzzy matching only for names long enough that one typo isn't another word
+const MIN_FUZZY_LENGTH = 8
+// Keep stored evidence small - a handful of spans explains the match
+const MAX_EVIDENCE = 10
+
+// Letters of scripts written without spaces between words - a Latin brand name runs
+// straight into them ("Apexは"), so they don't break a whole-word match
+const UNSPACED_SCRIPTS = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}\\p{Script=Thai}'
+// A letter or number that isn't from an unspaced script
+const WORD_CHAR = `(?![${UNSPACED_SCRIPTS}])[\\p{L}\\p{N}]`
+
+export const EMPTY_BRAND_PROFILE: BrandEntityProfile = {
+  brandName: null,
+  aliases: [],
+  products: [],
+  exclusions: [],
+}
+
+/**
+ * Normalize a domain: lowercase, no protocol, no www, no path
+ */
+export function normalizeDomain(domain: string): string {
+  return domain
+    .toLowerCase()
+    .trim()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split('/')[0]
+}
+
+/**
+ * Generate possible spaced versions of a domain name
+ * e.g., "loungelovers" -> ["lounge lovers"]
+ * Uses a dictionary of common word endings to find split points
+ */
+export function generateSpacedVersions(domainWithoutTld: string): string[] {
+  const versions: string[] = []
+  const lower = domainWithoutTld.toLowerCase()
+
+  // Common word endings that might indicate a split point
+  const commonEndings = [
+    'lovers', 'works', 'labs', 'hub', 'hq', 'studio', 'studios',
+    'shop', 'store', 'market', 'place', 'space', 'box', 'bay',
+    'cloud', 'tech', 'soft', 'ware', 'app', 'apps', 'io', 'ly',
+    'ify', 'able', 'er', 'ers', 'ing', 'tion', 'sion', 'ment',
+    'ness', 'ful', 'less', 'ous', 'ive', 'al', 'ical', 'ology',
+    'house', 'home', 'land', 'world', 'zone', 'spot', 'point',
+    'direct', 'online', 'digital', 'media', 'group', 'team',
+    'company', 'solutions', 'services', 'partners', 'consulting',
+    'auto', 'motors', 'finance',
+  ]
+
+  // Common word beginnings
+  const commonBeginnings = [
+    'the', 'my', 'our', 'your', 'get', 'go', 'pro', 'super',
+    'mega', 'ultra', 'smart', 'easy', 'fast', 'quick', 'best',
+    'top', 'prime', 'first', 'new', 'big', 'little', 'red',
+    'blue', 'green', 'black', 'white', 'gold', 'silver',
+  ]
+
+  // Try splitting at common endings
+  for (const ending of commonEndings) {
+    if (lower.endsWith(ending) && lower.length > ending.length + 2) {
+      const prefix = lower.slice(0, -ending.length)
+      if (prefix.length >= 2) {
+        versions.push(`${prefix} ${ending}`)
+      }
+    }
+  }
+
+  // Try splitting at common beginnings
+  for (const beginning of commonBeginnings) {
+    if (lower.startsWith(beginning) && lower.length > beginning.length + 2) {
+      const suffix = lower.slice(beginning.length)
+      if (suffix.length >= 2) {
+        versions.push(`${beginning} ${suffix}`)
+
+        // Recursively try splitting the suffix too
+        // e.g., "therecruitmentcompany" -> "the" + "recruitmentcompany" -> "the recruitment company"
+        for (const ending of commonEndings) {
+          if (suffix.endsWith(ending) && suffix.length > ending.length + 2) {
+            const middle = suffix.slice(0, -ending.length)
+            if (middle.length >= 2) {
+              versions.push(`${beginning} ${middle} ${ending}`)
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return versions
+}
+
+/**
+ * All names that identify the brand, most specific first
+ */
+export function buildBrandTerms(domain: string, profile: BrandEntityProfile = EMPTY_BRAND_PROFILE): BrandTerm[] {
+  const host = normalizeDomain(domain)
+  const domainWithoutTld = host.split('.')[0]
+
+  const terms: BrandTerm[] = [
+    { term: host, kind: 'domain' },
+    { term: domainWithoutTld, kind: 'domain' },
+    ...generateSpacedVersions(domainWithoutTld).map(term => ({ term, kind: 'domain' as const })),
+  ]
+  if (profile.brandName) terms.push({ term: profile.brandName, kind: 'brand' })
+  terms.push(...profile.aliases.map(term => ({ term, kind: 'alias' as const })))
+  terms.push(...profile.products.map(term => ({ term, kind: 'product' as const })))
+
+  // Dedupe case-insensitively, keeping the first (most specific) kind
+  const seen = new Set<string>()
+  return terms
+    .map(t => ({ ...t, term: t.term.trim() }))
+    .filter(t => {
+      const key = t.term.toLowerCase().split(/[\s\-_]+/).join(' ')
+      if (compactTerm(t.term).length < MIN_TERM_LENGTH || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Find every brand mention in a response (and its cited sources)
+ */
+export function matchBrandMention(
+  response: string,
+  domain: string,
+  profile: BrandEntityProfile = EMPTY_BRAND_PROFILE,
+  sources: Array<{ url: string }> = []
+): MentionMatch {
+  const terms = buildBrandTerms(domain, profile)
+  const excludedSpans = profile.exclusions
+    .filter(e => e.trim().length >= MIN_TERM_LENGTH)
+    .flatMap(e => findTermSpans(response, e.trim()))
+
+  const overlapsExclusion = (start: number, end: number) =>
+    excludedSpans.some(span => start < span.end && end > span.start)
+
+  let textEvidence: MentionEvidence[] = []
+
+  // Exact (word-boundary) matches
+  for (const { term, kind } of terms) {
+    for (const span of findTermSpans(response, term)) {
+      if (overlapsExclusion(span.start, span.end)) continue
+      textEvidence.push({ kind, term, text: response.slice(span.start, span.end), start: span.start, end: span.end })
+    }
+  }
+
+  // Fuzzy matches for profile names that had no exact hit (e.g. "Lounge Lovers" written "Lounge Lover")
+  // Domain-derived terms stay exact - they're often dictionary words
+  const matchedTerms = new Set(textEvidence.map(e => e.term))
+  for (const { term, kind } of terms) {
+    if (kind === 'domain' || matchedTerms.has(term) || compactTerm(term).length < MIN_FUZZY_LENGTH) continue
+    for (const span of findFuzzySpans(response, term)) {
+      if (overlapsExclusion(span.start, span.end)) continue
+      textEvidence.push({ kind: 'fuzzy', term, text: response.slice(span.start, span.end), start: span.start, end: span.end })
+    }
+  }
+
+  textEvidence = dedupeOverlappingSpans(textEvidence)
+
+  // Cited sources on the brand's own site count even when the name isn't in the text
+  const host = normalizeDomain(domain)
+  const sourceEvidence: MentionEvidence[] = []
+  for (const source of sources) {
+    const sourceHost = getHostname(source.url)
+    if (sourceHost && (sourceHost === host || sourceHost.endsWith(`.${host}`))) {
+      sourceEvidence.push({ kind: 'source', term: host, text: source.url, start: -1, end: -1 })
+    }
+  }
+
+  const evidence = [...textEvidence, ...sourceEvidence].slice(0, MAX_EVIDENCE)
+  if (evidence.length === 0) {
+    return { mentioned: false, position: null, evidence: [] }
+  }
+
+  // Position from the first mention in the text; a source-only mention is least prominent
+  let position = 3
+  if (textEvidence.length > 0 && response.length > 0) {
+    const relativePosition = textEvidence[0].start / response.length
+    position = relativePosition < 0.33 ? 1 : relativePosition < 0.66 ? 2 : 3
+  }
+
+  return { mentioned: true, position, evidence }
+}
+
+/**
+ * Whole-word, spacing-tolerant occurrences of a term
+ */
+function findTermSpans(text: string, term: string): Array<{ start: number; end: number }> {
+  const tokens = foldDiacritics(term).split(/[\s\-_]+/).filter(Boolean)
+  if (tokens.length === 0) return []
+
+  const escaped = tokens.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  // "lounge lovers" also matches "lounge-lovers" and "loungelovers"
+  const pattern = `(?<!${WORD_CHAR})${escaped.join('[\\s\\-]*')}(?!${WORD_CHAR})`
+  const regex = new RegExp(pattern, 'giu')
+
+  // Folding keeps offsets, so spans index into the original text
+  const folded = foldDiacritics(text)
+  const spans: Array<{ start: number; end: number }> = []
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(folded)) !== null) {
+    spans.push({ start: match.index, end: match.index + match[0].length })
+    if (match[0].length === 0) regex.lastIndex++
+  }
+  return spans
+}
+
+/**
+ * Word windows within a small edit distance of the term
+ */
+function findFuzzySpans(text: string, term: string): Array<{ start: number; end: number }> {
+  const target = foldDiacritics(term).toLowerCase().split(/[\s\-_]+/).filter(Boolean)
+  const targetText = target.join(' ')
+  const maxDistance = targetText.length >= 12 ? 2 : 1
+
+  const words = Array.from(foldDiacritics(text).matchAll(/[\p{L}\p{N}]+/gu)).map(m => ({
+    word: m[0].toLowerCase(),
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }))
+
+  const spans: Array<{ start: number; end: number }> = []
+  for (let i = 0; i + target.length <= words.length; i++) {
+    const window = words.slice(i, i + target.length)
+    const candidate = window.map(w => w.word).join(' ')
+    // Same first letter and similar length before paying for the distance check
+    if (candidate[0] !== targetText[0]) continue
+    if (Math.abs(candidate.length - targetText.length) > maxDistance) continue
+    if (candidate === targetText) continue // Exact hits are handled by findTermSpans
+    if (editDistance(candidate, targetText) <= maxDistance) {
+      spans.push({ start: window[0].start, end: window[window.length - 1].end })
+    }
+  }
+  return spans
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0)
+    row[0] = i
+    return row
+  })
+  for (let j = 0; j < cols; j++) d[0][j] = j
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return d[a.length][b.length]
+}
+
+/**
+ * Sort by position and drop spans covered by an earlier, longer match
+ */
+function dedupeOverlappingSpans(evidence: MentionEvidence[]): MentionEvidence[] {
+  const sorted = [...evidence].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start))
+  const result: MentionEvidence[] = []
+  for (const item of sorted) {
+    const last = result[result.length - 1]
+    if (last && item.start < last.end) continue
+    result.push(item)
+  }
+  return result
+}
+
+/**
+ * Strip accents from Latin letters ("é" -> "e", "ā" -> "a") one character at a time,
+ * so the folded text has the same length and offsets as the original
+ */
+function foldDiacritics(text: string): string {
+  return text.replace(/[\u00C0-\u024F\u1E00-\u1EFF]/g, char => {
+    const base = char.normalize('NFD').replace(/\p{M}/gu, '')
+    return base.length === 1 ? base : char
+  })
+}
+
+function compactTerm(term: string): string {
+  return term.toLowerCase().replace(/[\s\-_]+/g, '')
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return normalizeDomain(new URL(url).hostname)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * AI Budgets
+ * Spend caps per scan run and per calendar month for each domain subscription
+ * and HiringBrand organization
+ *
+ * costs.ts records spend after each call. Scans call getBudgetStatus before an
+ * expensive step and degrade instead of overrunning:
+ * - Fewer samples per question, or fewer questions (HiringBrand)
+ * - Cheaper models for summaries and action plans
+ * - Skipped optional steps (enrichment, PRD, web mentions)
+ *
+ * Each degradation is appended to scan_runs.budget_limits so reports can say
+ * the scan was budget-limited.
+ *
+ * Defaults come from env (cents); subscriptions and organizations can override
+ * them via ai_run_budget_cents / ai_monthly_budget_cents.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server'
+import { estimateCostCents } from './costs'
+import { PLATFORM_REGISTRY, type SearchPlatform } from './platforms'
+
+export type BudgetAction = 'reduced_samples' | 'reduced_questions' | 'cheaper_model' | 'skipped_step'
+
+/**
+ * One degradation applied to a run, stored on scan_runs.budget_limits
+ */
+export interface BudgetLimit {
+  step: string
+  action: BudgetAction
+  detail: string // Shown in the report, e.g. "Asked each question once instead of 3 times"
+  spentCents: number
+  budgetCents: number
+  recordedAt: string
+}
+
+export interface BudgetScope {
+  runId: string
+  domainSubscriptionId?: string | null
+  organizationId?: string | null // HiringBrand scans
+}
+
+export interface BudgetStatus {
+  runSpentCents: number
+  runBudgetCents: number
+  monthSpentCents: number
+  monthBudgetCents: number | null // null for free scans (run budget only)
+  remainingCents: number          // Whichever budget is tighter
+}
+
+// Env defaults in cents
+const DEFAULT_RUN_BUDGET_CENTS = parseCents(process.env.AI_RUN_BUDGET_CENTS, 300)
+const DEFAULT_HB_RUN_BUDGET_CENTS = parseCents(process.env.AI_HB_RUN_BUDGET_CENTS, 800)
+const DEFAULT_SUBSCRIPTION_MONTHLY_BUDGET_CENTS = parseCents(process.env.AI_SUBSCRIPTION_MONTHLY_BUDGET_CENTS, 1500)
+const DEFAULT_ORGANIZATION_MONTHLY_BUDGET_CENTS = parseCents(process.env.AI_ORGANIZATION_MONTHLY_BUDGET_CENTS, 10000)
+
+// Cheaper stand-in for claude-sonnet in summaries and action plans
+export const ECONOMY_ANTHROPIC_MODEL = 'claude-3-haiku-20240307'
+
+// Typical tokens for one search query (system prompt + search context in, answer out)
+const TYPICAL_QUERY_USAGE = { inputTokens: 3000, outputTokens: 1200, totalTokens: 4200 }
+
+// Rough cost of optional steps in cents, used to decide before running them
+export const STEP_COST_ESTIMATES_CENTS = {
+  enrichment: 60,        // Brand awareness + competitive summary + action plan
+  prd: 25,               // PRD generation (claude-sonnet, long output)
+  compareEmployers: 10,
+  webMentions: 15,       // Tavily searches + classification
+  strategicSummary: 8,
+  roleActionPlan: 6,     // Per role family
+  answerAnalysis: 1,     // Per HiringBrand answer: researchability + insights (gpt-4o-mini) and its share of batch sentiment
+  questionResearch: 5,   // Replacement question ideas (3 platforms)
+  translation: 5,        // English translations of a non-English scan (gpt-4o-mini)
+  factCheck: 5,          // Per platform: its brand answers vs the fact sheet (claude-sonnet)
+  sentiment: 10,         // Per batch of 15 answers that mention us (claude-sonnet)
+} as const
+
+// Economy models cost roughly a tenth of claude-sonnet
+export const ECONOMY_COST_RATIO = 0.1
+
+/**
+ * Spend so far for the run and for the current month, against their budgets
+ */
+export async function getBudgetStatus(scope: BudgetScope): Promise<BudgetStatus> {
+  const supabase = createServiceClient()
+
+  let runBudgetCents = scope.organizationId ? DEFAULT_HB_RUN_BUDGET_CENTS : DEFAULT_RUN_BUDGET_CENTS
+  let monthBudgetCents: number | null = null
+  let monthRunIds: string[] = []
+
+  if (scope.domainSubscriptionId || scope.organizationId) {
+    const table = scope.organizationId ? 'organizations' : 'domain_subscriptions'
+    const ownerColumn = scope.organizationId ? 'organization_id' : 'domain_subscription_id'
+    const ownerId = (scope.organizationId || scope.domainSubscriptionId) as string
+
+    const [{ data: owner }, { data: runs }] = await Promise.all([
+      supabase
+        .from(table)
+        .select('ai_run_budget_cents, ai_monthly_budget_cents')
+        .eq('id', ownerId)
+        .maybeSingle(),
+      supabase
+        .from('scan_runs')
+        .select('id')
+        .eq(ownerColumn, ownerId)
+        .gte('created_at', startOfMonthUtc().toISOString()),
+    ])
+
+    runBudgetCents = owner?.ai_run_budget_cents ?? runBudgetCents
+    monthBudgetCents = owner?.ai_monthly_budget_cents ??
+      (scope.organizationId ? DEFAULT_ORGANIZATION_MONTHLY_BUDGET_CENTS : DEFAULT_SUBSCRIPTION_MONTHLY_BUDGET_CENTS)
+    monthRunIds = (runs || []).map((r: { id: string }) => r.id)
+  }
+
+  const runIds = Array.from(new Set([scope.runId, ...monthRunIds]))
+  const { data: costs } = await supabase
+    .from('api_costs')
+    .select('run_id, cost_cents')
+    .in('run_id', runIds)
+
+  let runSpentCents = 0
+  let monthSpentCents = 0
+  for (const row of (costs || []) as Array<{ run_id: string; cost_cents: number | string | null }>) {
+    const cents = Number(row.cost_cents) || 0
+    monthSpentCents += cents
+    if (row.run_id === scope.runId) runSpentCents += cents
+  }
+
+  const runRemaining = runBudgetCents - runSpentCents
+  const remainingCents = monthBudgetCents === null
+    ? runRemaining
+    : Math.min(runRemaining, monthBudgetCents - monthSpentCents)
+
+  return {
+    runSpentCents: round(runSpentCents),
+    runBudgetCents,
+    monthSpentCents: round(monthSpentCents),
+    monthBudgetCents,
+    remainingCents: round(Math.max(0, remainingCents)),
+  }
+}
+
+/**
+ * Estimated cost of asking one question once on each of the given platforms
+ */
+export function estimateQueryRoundCents(platforms: SearchPlatform[]): number {
+  return platforms.reduce(
+    (sum, p) => sum + estimateCostCents(PLATFORM_REGISTRY[p].costModel, TYPICAL_QUERY_USAGE),
+    0
+  )
+}
+
+/**
+ * How many units of work fit in the remaining budget (clamped to [min, requested])
+ */
+export function affordableCount(status: BudgetStatus, unitCostCents: number, requested: number, min = 1): number {
+  if (unitCostCents <= 0) return requested
+  const affordable = Math.floor(status.remainingCents / unitCostCents)
+  return Math.max(min, Math.min(requested, affordable))
+}
+
+/**
+ * Full run, economy models, or skip - for a step with the given full-price estimate
+ */
+export function chooseBudgetTier(status: BudgetStatus, estimatedCents: number): 'full' | 'economy' | 'skip' {
+  if (status.remainingCents >= estimatedCents) return 'full'
+  if (status.remainingCents >= estimatedCents * ECONOMY_COST_RATIO) return 'economy'
+  return 'skip'
+}
+
+/**
+ * Append a degradation to scan_runs.budget_limits
+ */
+export async function recordBudgetLimit(
+  runId: string,
+  status: BudgetStatus,
+  limit: Pick<BudgetLimit, 'step' | 'action' | 'detail'>
+): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+
+    const { data: run } = await supabase
+      .from('scan_runs')
+      .select('budget_limits')
+      .eq('id', runId)
+      .single()
+
+    // Step retries re-record the same decision - keep one entry per step
+    const existing = ((run?.budget_limits as BudgetLimit[] | null) || []).filter(l => l.step !== limit.step)
+    // Report whichever budget was the binding one
+    const monthIsTighter = status.monthBudgetCents !== null &&
+      status.monthBudgetCents - status.monthSpentCents < status.runBudgetCents - status.runSpentCents
+    const entry: BudgetLimit = {
+      ...limit,
+      spentCents: monthIsTighter ? status.monthSpentCents : status.runSpentCents,
+      budgetCents: monthIsTighter ? status.monthBudgetCents! : status.runBudgetCents,
+      recordedAt: new Date().toISOString(),
+    }
+
+    await supabase
+      .from('scan_runs')
+      .update({ budget_limits: [...existing, entry] })
+      .eq('id', runId)
+  } catch (error) {
+    // Don't fail the scan if the note can't be saved
+    console.error('Failed to record budget limit:', error)
+  }
+}
+
+function startOfMonthUtc(): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+function parseCents(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : fallback
+}
+
+function round(cents: number): number {
+  return Math.round(cents * 100) / 100
+}
@@ -0,0 +1,295 @@
+/**
+ * Citation Analytics
+ * Aggregates the sources AI engines cite when answering our questions
+ *
+ * Every search-enabled answer carries sources. Rolled up across a scan they show:
+ * - Which domains the engines lean on for this market
+ * - How often our own site is cited vs. competitors
+ * - Which third-party pages (directories, review sites, Reddit threads) keep
+ *   appearing - the places worth getting listed on
+ */
+
+import { normalizeDomain } from './brand-matcher'
+
+export type CitationCategory =
+  | 'own'
+  | 'competitor'
+  | 'directory'
+  | 'review'
+  | 'forum'
+  | 'social'
+  | 'reference'
+  | 'news'
+  | 'other'
+
+export interface CitationInput {
+  platform: string
+  sources?: Array<{ url: string; title?: string | null }> | null
+}
+
+export interface CitedDomain {
+  host: string
+  count: number          // Citations across all answers
+  responses: number      // Answers that cited this domain at least once
+  platforms: string[]
+  category: CitationCategory
+  competitorName?: string
+}
+
+export interface CitedPage {
+  url: string
+  title: string | null
+  host: string
+  count: number
+  platforms: string[]
+  category: CitationCategory
+}
+
+export interface CitationSummary {
+  totalCitations: number
+  responsesWithCitations: number
+  totalResponses: number
+  ownCitations: number
+  competitorCitations: number
+  thirdPartyCitations: number
+  domains: CitedDomain[]
+  pages: CitedPage[] // Third-party pages cited more than once
+}
+
+/**
+ * Compact per-scan snapshot stored on score_history for trends
+ */
+export interface CitationSnapshot {
+  total: number
+  own: number
+  competitor: number
+  thirdParty: number
+  topDomains: Array<{ host: string; count: number; category: CitationCategory }>
+}
+
+/**
+ * A third-party domain competitors are cited on but we aren't - input for
+ * "get listed here" actions
+ */
+export interface CitationOpportunity {
+  host: string
+  category: CitationCategory
+  count: number
+  platforms: string[]
+  exampleUrl: string
+}
+
+// Known third-party hosts by category (matched on the registrable suffix)
+const CATEGORY_HOSTS: Array<{ category: CitationCategory; hosts: string[] }> = [
+  {
+    category: 'review',
+    hosts: [
+      'trustpilot.com', 'productreview.com.au', 'tripadvisor.com', 'tripadvisor.com.au', 'g2.com',
+      'capterra.com', 'getapp.com', 'trustradius.com', 'consumeraffairs.com', 'sitejabber.com',
+      'reviews.io', 'glassdoor.com', 'indeed.com', 'bbb.org', 'choice.com.au', 'which.co.uk',
+    ],
+  },
+  {
+    category: 'directory',
+    hosts: [
+      'yelp.com', 'yelp.com.au', 'yellowpages.com', 'yellowpages.com.au', 'truelocal.com.au',
+      'hotfrog.com', 'hotfrog.com.au', 'clutch.co', 'goodfirms.co', 'designrush.com', 'upcity.com',
+      'expertise.com', 'angi.com', 'houzz.com', 'houzz.com.au', 'hipages.com.au', 'oneflare.com.au',
+      'bark.com', 'thumbtack.com', 'localsearch.com.au', 'startlocal.com.au', 'crunchbase.com',
+      'maps.google.com', 'business.site',
+    ],
+  },
+  { category: 'forum', hosts: ['reddit.com', 'quora.com', 'stackexchange.com', 'stackoverflow.com', 'whirlpool.net.au', 'producthunt.com'] },
+  {
+    category: 'social',
+    hosts: ['facebook.com', 'instagram.com', 'linkedin.com', 'youtube.com', 'tiktok.com', 'x.com', 'twitter.com', 'pinterest.com'],
+  },
+  { category: 'reference', hosts: ['wikipedia.org', 'wikidata.org', 'britannica.com', 'gov.au', 'gov.uk', 'gov', 'edu', 'edu.au'] },
+  {
+    category: 'news',
+    hosts: [
+      'forbes.com', 'nytimes.com', 'theguardian.com', 'bbc.co.uk', 'bbc.com', 'abc.net.au', 'smh.com.au',
+      'news.com.au', 'techcrunch.com', 'businessinsider.com', 'medium.com', 'substack.com',
+    ],
+  },
+]
+
+// Keep stored lists small
+const MAX_DOMAINS = 50
+const MAX_PAGES = 25
+const SNAPSHOT_TOP_DOMAINS = 5
+
+/**
+ * Hostname of a cited URL (no www), or null if it isn't a URL
+ */
+export function getCitationHost(url: string): string | null {
+  try {
+    return normalizeDomain(new URL(url).hostname)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Category of a cited host relative to us and our competitors
+ */
+export function classifyCitationHost(
+  host: string,
+  ownDomain: string,
+  competitorNames: string[] = []
+): { category: CitationCategory; competitorName?: string } {
+  const own = normalizeDomain(ownDomain)
+  if (isSameOrSubdomain(host, own)) return { category: 'own' }
+
+  const competitorName = competitorNames.find(name => hostMatchesName(host, name))
+  if (competitorName) return { category: 'competitor', competitorName }
+
+  for (const { category, hosts } of CATEGORY_HOSTS) {
+    if (hosts.some(known => isSameOrSubdomain(host, known))) return { category }
+  }
+  return { category: 'other' }
+}
+
+/**
+ * Roll up sources across a scan's answers
+ */
+export function aggregateCitations(
+  responses: CitationInput[],
+  ownDomain: string,
+  competitorNames: string[] = []
+): CitationSummary {
+  const domains = new Map<string, CitedDomain & { platformSet: Set<string> }>()
+  const pages = new Map<string, CitedPage & { platformSet: Set<string> }>()
+  let totalCitations = 0
+  let responsesWithCitations = 0
+
+  for (const response of responses) {
+    const sources = response.sources || []
+    const hostsInResponse = new Set<string>()
+    let counted = 0
+
+    for (const source of sources) {
+      const host = getCitationHost(source.url)
+      if (!host) continue
+      counted++
+
+      const { category, competitorName } = classifyCitationHost(host, ownDomain, competitorNames)
+
+      let domain = domains.get(host)
+      if (!domain) {
+        domain = { host, count: 0, responses: 0, platforms: [], platformSet: new Set(), category, competitorName }
+        domains.set(host, domain)
+      }
+      domain.count++
+      domain.platformSet.add(response.platform)
+      if (!hostsInResponse.has(host)) {
+        domain.responses++
+        hostsInResponse.add(host)
+      }
+
+      const pageKey = normalizePageUrl(source.url)
+      let page = pages.get(pageKey)
+      if (!page) {
+        page = { url: source.url, title: source.title || null, host, count: 0, platforms: [], platformSet: new Set(), category }
+        pages.set(pageKey, page)
+      }
+      page.count++
+      page.platformSet.add(response.platform)
+    }
+
+    totalCitations += counted
+    if (counted > 0) responsesWithCitations++
+  }
+
+  const sortedDomains = Array.from(domains.values())
+    .map(({ platformSet, ...d }) => ({ ...d, platforms: Array.from(platformSet) }))
+    .sort((a, b) => b.count - a.count || a.host.localeCompare(b.host))
+
+  const sumBy = (predicate: (d: CitedDomain) => boolean) =>
+    sortedDomains.filter(predicate).reduce((sum, d) => sum + d.count, 0)
+
+  const ownCitations = sumBy(d => d.category === 'own')
+  const competitorCitations = sumBy(d => d.category === 'competitor')
+
+  // Recurring third-party pages - the specific listings/threads worth targeting
+  const recurringPages = Array.from(pages.values())
+    .filter(p => p.count > 1 && p.category !== 'own' && p.category !== 'competitor')
+    .map(({ platformSet, ...p }) => ({ ...p, platforms: Array.from(platformSet) }))
+    .sort((a, b) => b.count - a.count || a.url.localeCompare(b.url))
+
+  return {
+    totalCitations,
+    responsesWithCitations,
+    totalResponses: responses.length,
+    ownCitations,
+    competitorCitations,
+    thirdPartyCitations: totalCitations - ownCitations - competitorCitations,
+    domains: sortedDomains.slice(0, MAX_DOMAINS),
+    pages: recurringPages.slice(0, MAX_PAGES),
+  }
+}
+
+/**
+ * Compact snapshot for score_history.citation_stats
+ */
+export function toCitationSnapshot(summary: CitationSummary): CitationSnapshot {
+  return {
+    total: summary.totalCitations,
+    own: summary.ownCitations,
+    competitor: summary.competitorCitations,
+    thirdParty: summary.thirdPartyCitations,
+    topDomains: summary.domains
+      .slice(0, SNAPSHOT_TOP_DOMAINS)
+      .map(({ host, count, category }) => ({ host, count, category })),
+  }
+}
+
+/**
+ * Third-party domains the engines cite repeatedly - listing there puts us in
+ * the sources AI already trusts for these questions
+ */
+export function findCitationOpportunities(summary: CitationSummary, limit = 10): CitationOpportunity[] {
+  const listable: CitationCategory[] = ['directory', 'review', 'forum', 'news', 'reference', 'other']
+
+  return summary.domains
+    .filter(d => listable.includes(d.category) && d.responses > 1)
+    .slice(0, limit)
+    .map(d => ({
+      host: d.host,
+      category: d.category,
+      count: d.count,
+      platforms: d.platforms,
+      exampleUrl: summary.pages.find(p => p.host === d.host)?.url || `https://${d.host}`,
+    }))
+}
+
+function isSameOrSubdomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`)
+}
+
+// "Acme Corp" matches acme.com, acmecorp.com.au, shop.acme.co
+function hostMatchesName(host: string, name: string): boolean {
+  const nameLower = name.toLowerCase().trim()
+  if (nameLower.includes('.')) {
+    return isSameOrSubdomain(host, normalizeDomain(nameLower))
+  }
+
+  const compactName = nameLower.replace(/[^a-z0-9]/g, '')
+  if (compactName.length < 4) return false
+
+  const labels = host.split('.')
+  return labels.some(label => {
+    const compactLabel = label.replace(/[^a-z0-9]/g, '')
+    return compactLabel === compactName ||
+      compactLabel === compactName.replace(/(inc|llc|ltd|pty|corp|co|group)$/, '')
+  })
+}
+
+function normalizePageUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${normalizeDomain(parsed.hostname)}${parsed.pathname.replace(/\/$/, '')}`
+  } catch {
+    return url
+  }
+}
@@ -11,7 +11,7 @@
  * Returns top N most relevant families based on role analysis.
  */
 
-import { generateObject } from 'ai'
+import { generateObject } from './replay'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { z } from 'zod'
 import { trackCost } from './costs'
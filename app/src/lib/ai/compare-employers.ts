@@ -4,7 +4,7 @@
  * Uses Claude to rate all employers on the same criteria for fair comparison
  */
 
-import { generateObject } from 'ai'
+import { generateObject } from './replay'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { z } from 'zod'
 import { trackCost } from './costs'
@@ -0,0 +1,268 @@
+/**
+ * Competitor Entities
+ * Competitor extraction returns names as each answer wrote them, so "Deloitte",
+ * "Deloitte Digital" and "Deloitte Australia" arrive as three competitors and
+ * split the tally. Each domain subscription keeps a store of canonical competitors
+ * (competitor_entities) with the aliases seen for them and a resolved domain.
+ *
+ * Scans merge new names automatically - same name once legal suffixes are dropped,
+ * same name once a region qualifier is dropped, or same resolved domain. Division
+ * words ("Digital", "Solutions") are left alone: "Bright Digital" and "Bright
+ * Solutions" are often unrelated, so they only merge when they cite the same site.
+ * Subscribers can merge or split entities by hand in the Competitors tab.
+ *
+ * Stored answers keep the raw names; reports and trends regroup them at read time,
+ * so merges and splits apply to past scans too.
+ */
+
+import { normalizeDomain } from './brand-matcher'
+
+export interface CompetitorEntity {
+  id: string
+  domain_subscription_id: string
+  name: string            // Canonical name shown in reports
+  domain: string | null   // Resolved from cited sources ("deloitte.com")
+  aliases: string[]       // Other names seen for it ("Deloitte Digital")
+  created_at: string
+  updated_at: string
+}
+
+export interface DetectedCompetitor {
+  name: string
+  domain: string | null
+}
+
+export interface CompetitorMergePlan {
+  created: { name: string; domain: string | null; aliases: string[] }[]
+  updated: { id: string; domain: string | null; aliases: string[] }[]
+}
+
+// Dropped before comparing names ("Acme Pty Ltd" = "Acme")
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'pty', 'plc', 'corp',
+  'corporation', 'co', 'company', 'gmbh', 'ag', 'sa', 'bv', 'nv', 'srl',
+])
+
+// Trailing words that name a region of the same business ("Deloitte Australia")
+// - dropped for the fuzzy match
+const QUALIFIERS = new Set([
+  'australia', 'au', 'uk', 'us', 'usa', 'america', 'canada', 'nz', 'new zealand',
+  'europe', 'emea', 'apac', 'asia', 'india', 'ireland', 'singapore', 'germany',
+  'france', 'global', 'international', 'worldwide',
+])
+
+// A name left with only these around a short word isn't a business name on its
+// own ("Bank of America" -> "bank of", "Air New Zealand" -> "air")
+const STOPWORDS = new Set(['the', 'of', 'and', 'for', 'de', 'la', 'le', 'du', 'des', 'von', 'van'])
+
+// Shortest core (letters and digits) the fuzzy match accepts
+const MIN_CORE_LENGTH = 4
+
+/**
+ * Lowercase name without punctuation, a leading "the" or legal suffixes
+ */
+export function competitorKey(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\.(com|co|net|org|io|ai)(\.[a-z]{2})?\b/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+
+  if (words[0] === 'the' && words.length > 1) words.shift()
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop()
+  return words.join(' ')
+}
+
+/**
+ * competitorKey without trailing region qualifiers - the fuzzy match. A qualifier
+ * is only dropped when what's left still reads as a business name, so "Air New
+ * Zealand" and "Bank of America" keep their full key
+ */
+export function competitorCoreKey(name: string): string {
+  let words = competitorKey(name).split(' ')
+  while (words.length > 1) {
+    const lastTwo = words.slice(-2).join(' ')
+    const remaining = QUALIFIERS.has(lastTwo) && words.length > 2
+      ? words.slice(0, -2)
+      : QUALIFIERS.has(words[words.length - 1]) ? words.slice(0, -1) : null
+    if (!remaining || !isMeaningfulCore(remaining)) break
+    words = remaining
+  }
+  return words.join(' ')
+}
+
+function isMeaningfulCore(words: string[]): boolean {
+  if (STOPWORDS.has(words[words.length - 1])) return false
+  const meaningful = words.filter(word => !STOPWORDS.has(word))
+  return meaningful.join('').length >= MIN_CORE_LENGTH
+}
+
+/**
+ * The competitor's own site among the sources cited alongside it: a host whose
+ * first label is the compact name ("Acme Corp" -> acmecorp.com or acme.com.au).
+ * Names written as a domain resolve to themselves
+ */
+export function resolveCompetitorDomain(name: string, sourceUrls: string[]): string | null {
+  const trimmed = name.trim().toLowerCase()
+  if (/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(trimmed)) return normalizeDomain(trimmed)
+
+  const compact = competitorKey(name).replace(/\s+/g, '')
+  const compactCore = competitorCoreKey(name).replace(/\s+/g, '')
+  if (compact.length < MIN_CORE_LENGTH) return null
+
+  for (const url of sourceUrls) {
+    let host: string
+    try {
+      host = normalizeDomain(new URL(url).hostname)
+    } catch {
+      continue
+    }
+    const label = host.split('.')[0].replace(/[^a-z0-9]/g, '')
+    if (label === compact || label === compactCore) return host
+  }
+  return null
+}
+
+/**
+ * Resolve a raw competitor name to its entity. The exact name or alias as written
+ * comes first, so an entity split off as "Acme Pty Ltd" keeps that name rather than
+ * resolving back to "Acme". Then the name without legal suffixes, a domain written
+ * as the name, and the fuzzy match: the name without region qualifiers equals an
+ * entity's full key ("Deloitte Australia" -> "Deloitte"). Two qualified names are
+ * never matched to each other
+ */
+export function createCompetitorResolver(
+  entities: Pick<CompetitorEntity, 'name' | 'domain' | 'aliases'>[]
+): (name: string, domain?: string | null) => string | null {
+  const byName = new Map<string, string>()
+  const byKey = new Map<string, string>()
+  const byDomain = new Map<string, string>()
+
+  const sorted = [...entities].sort((a, b) => a.name.length - b.name.length)
+  // Entity names before aliases, so a split-off name always resolves to its own entity
+  for (const entity of sorted) {
+    byName.set(exactName(entity.name), entity.name)
+  }
+  for (const entity of sorted) {
+    for (const alias of entity.aliases) {
+      if (!byName.has(exactName(alias))) byName.set(exactName(alias), entity.name)
+    }
+  }
+  for (const entity of sorted) {
+    for (const name of [entity.name, ...entity.aliases]) {
+      const key = competitorKey(name)
+      if (key && !byKey.has(key)) byKey.set(key, entity.name)
+    }
+    if (entity.domain && !byDomain.has(entity.domain)) byDomain.set(entity.domain, entity.name)
+  }
+
+  return (name, domain) => {
+    const exact = byName.get(exactName(name)) || byKey.get(competitorKey(name))
+    if (exact) return exact
+
+    const resolvedDomain = domain || resolveCompetitorDomain(name, [])
+    if (resolvedDomain && byDomain.has(resolvedDomain)) return byDomain.get(resolvedDomain)!
+
+    const core = competitorCoreKey(name)
+    return core !== competitorKey(name) ? byKey.get(core) || null : null
+  }
+}
+
+/**
+ * New entities and new aliases/domains for existing ones, from the competitors
+ * detected in a scan. Names that don't match anything become entities; several
+ * variants of a new competitor in the same scan become one entity
+ */
+export function planCompetitorMerges(
+  entities: Pick<CompetitorEntity, 'id' | 'name' | 'domain' | 'aliases'>[],
+  detected: DetectedCompetitor[]
+): CompetitorMergePlan {
+  const working = entities.map(e => ({ ...e, aliases: [...e.aliases], isNew: false, changed: false }))
+
+  // Shortest variant first, so "Deloitte" becomes the entity and "Deloitte Australia" its alias.
+  // Names written as a domain go last - "Accenture" reads better than "accenture.com"
+  const isDomainName = (name: string) => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(name.trim())
+  const ordered = [...detected]
+    .filter(d => competitorKey(d.name))
+    .sort((a, b) => Number(isDomainName(a.name)) - Number(isDomainName(b.name)) || a.name.length - b.name.length)
+
+  for (const competitor of ordered) {
+    const resolve = createCompetitorResolver(working)
+    const match = resolve(competitor.name, competitor.domain)
+    const entity = match ? working.find(e => e.name === match) : undefined
+
+    if (!entity) {
+      working.push({
+        id: '',
+        name: competitor.name.trim(),
+        domain: competitor.domain,
+        aliases: [],
+        isNew: true,
+        changed: false,
+      })
+      continue
+    }
+
+    const known = [entity.name, ...entity.aliases].some(n => n.toLowerCase() === competitor.name.trim().toLowerCase())
+    if (!known) {
+      entity.aliases.push(competitor.name.trim())
+      entity.changed = true
+    }
+    if (!entity.domain && competitor.domain) {
+      entity.domain = competitor.domain
+      entity.changed = true
+    }
+  }
+
+  return {
+    created: working.filter(e => e.isNew).map(({ name, domain, aliases }) => ({ name, domain, aliases })),
+    updated: working.filter(e => !e.isNew && e.changed).map(({ id, domain, aliases }) => ({ id, domain, aliases })),
+  }
+}
+
+/**
+ * Re-aggregate {name, count} tallies under canonical names. Unknown names stay as they are
+ */
+export function regroupCompetitorCounts(
+  counts: { name: string; count: number }[],
+  entities: Pick<CompetitorEntity, 'name' | 'domain' | 'aliases'>[]
+): { name: string; count: number }[] {
+  if (entities.length === 0) return counts
+
+  const resolve = createCompetitorResolver(entities)
+  const totals = new Map<string, number>()
+  for (const { name, count } of counts) {
+    const canonical = resolve(name) || name
+    totals.set(canonical, (totals.get(canonical) || 0) + count)
+  }
+
+  return Array.from(totals.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count)
+}
+
+/**
+ * An answer's competitor mentions under canonical names, one entry per entity
+ * (an answer naming both "Deloitte" and "Deloitte Digital" mentions Deloitte once)
+ */
+export function canonicalizeMentions<T extends { name: string }>(
+  mentions: T[],
+  resolve: (name: string) => string | null
+): T[] {
+  const seen = new Set<string>()
+  const result: T[] = []
+  for (const mention of mentions) {
+    const name = resolve(mention.name) || mention.name
+    if (seen.has(name.toLowerCase())) continue
+    seen.add(name.toLowerCase())
+    result.push({ ...mention, name })
+  }
+  return result
+}
+
+function exactName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase()
+}
@@ -0,0 +1,161 @@
+/**
+ * Competitor Site Scans
+ * Tracked competitors' own websites, put through the same crawl, AI readiness
+ * and platform detection steps as ours (inngest/functions/scan-competitor-sites.ts).
+ * Side by side with our site, the Competitors tab can show why AI recommends them:
+ * a sitemap, schema markup, llms.txt, server-rendered content.
+ *
+ * Crawl-based only - no AI analysis of competitor content, so the scans cost
+ * nothing against the AI budget.
+ */
+
+import { normalizeDomain } from './brand-matcher'
+import { isAiCrawlerRestricted, type AiCrawlerAccess } from './robots'
+import type { AiDiscoveryAudit } from './llms-txt'
+
+// Pages crawled per competitor - enough for readiness signals, well under our own crawl
+export const COMPETITOR_CRAWL_MAX_PAGES = 10
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/
+
+export interface SiteTechStack {
+  cms: string | null
+  framework: string | null
+  cssFramework: string | null
+  hosting: string | null
+  ecommerce: string | null
+  analytics: string[]
+  rendersClientSide: boolean
+}
+
+export interface CompetitorSiteScan {
+  id: string
+  run_id: string
+  competitor_id: string | null
+  competitor_name: string
+  domain: string
+  status: 'complete' | 'failed'
+  error: string | null
+  pages_crawled: number
+  has_sitemap: boolean
+  has_robots_txt: boolean
+  has_meta_descriptions: boolean
+  schema_types: string[]
+  schema_error_pages: number // Pages whose JSON-LD has errors
+  ai_crawler_access: AiCrawlerAccess[]
+  ai_discovery: AiDiscoveryAudit | null
+  tech_stack: SiteTechStack | null
+  created_at: string
+}
+
+// Crawl signals either site can be scored on
+export interface SiteReadinessInput {
+  hasSitemap?: boolean
+  pagesCrawled?: number
+  schemaTypes?: string[]
+  schemaErrorPages?: number
+  hasMetaDescriptions?: boolean
+  aiCrawlerAccess?: AiCrawlerAccess[] | null
+  aiDiscovery?: AiDiscoveryAudit | null
+  rendersClientSide?: boolean
+}
+
+export type ReadinessStatus = 'pass' | 'warning' | 'fail' | 'unknown'
+
+export interface SiteReadinessCheck {
+  id: string
+  label: string
+  check: (site: SiteReadinessInput) => ReadinessStatus
+}
+
+// The crawl-based AI Readiness checks (same thresholds as the AI Readiness tab)
+export const SITE_READINESS_CHECKS: SiteReadinessCheck[] = [
+  {
+    id: 'sitemap',
+    label: 'XML sitemap',
+    check: site => site.hasSitemap === undefined ? 'unknown' : site.hasSitemap ? 'pass' : 'fail',
+  },
+  {
+    id: 'ai_crawler_access',
+    label: 'AI crawlers allowed',
+    check: site => {
+      if (!site.aiCrawlerAccess || site.aiCrawlerAccess.length === 0) return 'unknown'
+      if (site.aiCrawlerAccess.some(c => c.status === 'blocked')) return 'fail'
+      if (site.aiCrawlerAccess.some(isAiCrawlerRestricted)) return 'warning'
+      return 'pass'
+    },
+  },
+  {
+    id: 'llms_txt',
+    label: 'llms.txt',
+    check: site => {
+      const llmsTxt = site.aiDiscovery?.files.find(f => f.kind === 'llms_txt')
+      if (!llmsTxt) return 'unknown'
+      if (llmsTxt.found && llmsTxt.valid) return 'pass'
+      return llmsTxt.found ? 'warning' : 'fail'
+    },
+  },
+  {
+    id: 'schema_markup',
+    label: 'Schema markup',
+    check: site => {
+      if (!site.schemaTypes) return 'unknown'
+      if (site.schemaTypes.length === 0) return 'fail'
+      return (site.schemaErrorPages || 0) > 0 ? 'warning' : 'pass'
+    },
+  },
+  {
+    id: 'meta_descriptions',
+    label: 'Meta descriptions',
+    check: site => site.hasMetaDescriptions === undefined ? 'unknown' : site.hasMetaDescriptions ? 'pass' : 'warning',
+  },
+  {
+    id: 'page_depth',
+    label: 'Content depth',
+    check: site => {
+      if (site.pagesCrawled === undefined) return 'unknown'
+      if (site.pagesCrawled >= COMPETITOR_CRAWL_MAX_PAGES) return 'pass'
+      return site.pagesCrawled >= 5 ? 'warning' : 'fail'
+    },
+  },
+  {
+    id: 'server_rendered',
+    label: 'Content readable without JavaScript',
+    check: site => site.rendersClientSide === undefined ? 'unknown' : site.rendersClientSide ? 'fail' : 'pass',
+  },
+]
+
+/**
+ * Readiness signals for a competitor's scan
+ */
+export function competitorReadinessInput(scan: CompetitorSiteScan): SiteReadinessInput {
+  return {
+    hasSitemap: scan.has_sitemap,
+    pagesCrawled: scan.pages_crawled,
+    schemaTypes: scan.schema_types,
+    schemaErrorPages: scan.schema_error_pages,
+    hasMetaDescriptions: scan.has_meta_descriptions,
+    aiCrawlerAccess: scan.ai_crawler_access,
+    aiDiscovery: scan.ai_discovery,
+    rendersClientSide: scan.tech_stack?.rendersClientSide,
+  }
+}
+
+/**
+ * Checks passed out of those that could be scored
+ */
+export function readinessScore(site: SiteReadinessInput): { passed: number; scored: number } {
+  const statuses = SITE_READINESS_CHECKS.map(c => c.check(site)).filter(s => s !== 'unknown')
+  return { passed: statuses.filter(s => s === 'pass').length, scored: statuses.length }
+}
+
+/**
+ * Competitor website as entered ("https://www.acme.com/about" -> "acme.com").
+ * null clears it; undefined when it isn't a domain
+ */
+export function parseCompetitorDomain(value: unknown): string | null | undefined {
+  if (value === null || value === '') return null
+  if (typeof value !== 'string') return undefined
+  const domain = normalizeDomain(value)
+  return DOMAIN_PATTERN.test(domain) ? domain : undefined
+}
@@ -2,17 +2,32 @@
  * AI Usage Cost Tracking
  * Tracks token usage and costs for each AI request
  * Uses the existing api_costs table from 001_initial_schema.sql
+ *
+ * Prices come from the model_pricing table (editable with history from the
+ * admin cost dashboard). Each api_costs row stores the cost at the price in
+ * effect when it was recorded, so past costs don't move when vendors reprice.
+ * The defaults below are the fallback when the table is unavailable.
  */
 
 import { createServiceClient } from '@/lib/supabase/server'
 
+export interface ModelPrice {
+  input: number            // USD per 1K input tokens
+  output: number           // USD per 1K output tokens
+  perRequestCents?: number // Flat cents per call (search APIs)
+}
+
 // Tavily pricing (per search, not per token)
 // Source: https://tavily.com/pricing - ~$0.01 per search on paid plans
+export const TAVILY_PRICING_KEY = 'tavily/search'
 const TAVILY_COST_CENTS_PER_SEARCH = 1  // $0.01 = 1 cent
 
+// How long DB prices are cached per server instance
+const PRICING_CACHE_MS = 5 * 60 * 1000
+
 // Pricing per 1K tokens (as of Jan 2025)
 // Source: https://vercel.com/docs/ai-gateway/pricing, https://openai.com/pricing, https://ai.google.dev/pricing
-const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
   // OpenAI
   'gpt-4o': { input: 0.0025, output: 0.01 },
   'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
@@ -31,6 +46,8 @@ const MODEL_PRICING: Record<string, { input: number; output: number }> = {
   // Perplexity (sonar-pro pricing - includes search)
   'sonar-pro': { input: 0.003, output: 0.015 },
   'sonar': { input: 0.001, output: 0.001 },
+  // Search APIs (flat per call)
+  [TAVILY_PRICING_KEY]: { input: 0, output: 0, perRequestCents: TAVILY_COST_CENTS_PER_SEARCH },
 }
 
 // Map gateway model strings to pricing keys
@@ -65,6 +82,18 @@ export interface CostRecord {
   usage: UsageData
 }
 
+export interface ModelPricingRow {
+  id?: string
+  model: string
+  input_per_1k: number | string
+  output_per_1k: number | string
+  per_request_cents: number | string
+  effective_from: string
+  note?: string | null
+  created_by?: string | null
+  created_at?: string
+}
+
 interface ApiCostRow {
   id: string
   run_id: string
@@ -76,12 +105,25 @@ interface ApiCostRow {
   created_at: string
 }
 
+let pricingCache: { pricing: Record<string, ModelPrice>; loadedAt: number } | null = null
+
+/**
+ * Pricing key for a gateway model string ('openai/gpt-4o' -> 'gpt-4o')
+ */
+export function getPricingKey(model: string): string {
+  return MODEL_MAP[model] || model
+}
+
 /**
  * Calculate estimated cost in cents based on token usage
+ * Uses the default prices unless a pricing table is passed
  */
-export function estimateCostCents(model: string, usage: UsageData): number {
-  const pricingKey = MODEL_MAP[model] || model
-  const pricing = MODEL_PRICING[pricingKey]
+export function estimateCostCents(
+  model: string,
+  usage: UsageData,
+  pricingTable: Record<string, ModelPrice> = DEFAULT_MODEL_PRICING
+): number {
+  const pricing = pricingTable[getPricingKey(model)]
 
   if (!pricing) {
     console.warn(`No pricing found for model: ${model}`)
@@ -92,7 +134,54 @@ export function estimateCostCents(model: string, usage: UsageData): number {
   const inputCost = (usage.inputTokens / 1000) * pricing.input * 100
   const outputCost = (usage.outputTokens / 1000) * pricing.output * 100
 
-  return inputCost + outputCost
+  return inputCost + outputCost + (pricing.perRequestCents || 0)
+}
+
+/**
+ * Current prices: latest model_pricing row per model (effective_from <= now),
+ * over the defaults. Cached for a few minutes.
+ */
+export async function getCurrentPricing(): Promise<Record<string, ModelPrice>> {
+  if (pricingCache && Date.now() - pricingCache.loadedAt < PRICING_CACHE_MS) {
+    return pricingCache.pricing
+  }
+
+  const pricing: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICING }
+
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('model_pricing')
+      .select('model, input_per_1k, output_per_1k, per_request_cents, effective_from')
+      .lte('effective_from', new Date().toISOString())
+      .order('effective_from', { ascending: false })
+
+    if (error) throw error
+
+    const seen = new Set<string>()
+    for (const row of (data || []) as ModelPricingRow[]) {
+      if (seen.has(row.model)) continue // Rows are newest first
+      seen.add(row.model)
+      pricing[row.model] = {
+        input: Number(row.input_per_1k) || 0,
+        output: Number(row.output_per_1k) || 0,
+        perRequestCents: Number(row.per_request_cents) || 0,
+      }
+    }
+  } catch (error) {
+    // Fall back to defaults - cost tracking must never fail a scan
+    console.error('Failed to load model pricing, using defaults:', error)
+  }
+
+  pricingCache = { pricing, loadedAt: Date.now() }
+  return pricing
+}
+
+/**
+ * Drop cached prices (after an admin edits pricing)
+ */
+export function invalidatePricingCache(): void {
+  pricingCache = null
 }
 
 /**
@@ -102,12 +191,13 @@ export function estimateCostCents(model: string, usage: UsageData): number {
 export async function trackTavilyCost(runId: string, step: string, searchCount: number = 1): Promise<void> {
   try {
     const supabase = createServiceClient()
-    const costCents = TAVILY_COST_CENTS_PER_SEARCH * searchCount
+    const pricing = await getCurrentPricing()
+    const costCents = (pricing[TAVILY_PRICING_KEY]?.perRequestCents ?? TAVILY_COST_CENTS_PER_SEARCH) * searchCount
 
     await supabase.from('api_costs').insert({
       run_id: runId,
       step,
-      model: 'tavily/search',
+      model: TAVILY_PRICING_KEY,
       input_tokens: 0,
       output_tokens: 0,
       cost_cents: costCents,
@@ -124,7 +214,7 @@ export async function trackTavilyCost(runId: string, step: string, searchCount:
 export async function trackCost(record: CostRecord): Promise<void> {
   try {
     const supabase = createServiceClient()
-    const costCents = estimateCostCents(record.model, record.usage)
+    const costCents = estimateCostCents(record.model, record.usage, await getCurrentPricing())
 
     await supabase.from('api_costs').insert({
       run_id: record.runId,
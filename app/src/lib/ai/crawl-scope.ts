@@ -0,0 +1,202 @@
+/**
+ * Crawl Scope
+ * Per-subscription control over which pages the crawler visits: include and
+ * exclude path patterns, priority URLs, subdomains, a locale folder and a page
+ * limit capped by tier (FeatureFlags.maxCrawlPages)
+ *
+ * Patterns match the URL path and use robots.txt syntax: '*' matches any
+ * sequence, a trailing '$' anchors the end, otherwise a pattern is a prefix
+ * (e.g. "/services", "/blog/*", "*.pdf$").
+ */
+
+export interface CrawlScope {
+  includePatterns: string[]  // Only crawl matching paths (empty = everything)
+  excludePatterns: string[]  // Never crawl matching paths
+  priorityUrls: string[]     // Paths or URLs crawled first, even if not in the sitemap
+  maxPages: number | null    // Page limit (null = tier maximum)
+  includeSubdomains: boolean // Also crawl *.domain (e.g. blog.example.com)
+  locale: string | null      // Only crawl this locale folder (e.g. "en-au"); other locale folders skipped
+}
+
+/**
+ * crawl_* columns on domain_subscriptions
+ */
+export interface CrawlScopeRow {
+  crawl_include_patterns: string[] | null
+  crawl_exclude_patterns: string[] | null
+  crawl_priority_urls: string[] | null
+  crawl_max_pages: number | null
+  crawl_include_subdomains: boolean | null
+  crawl_locale: string | null
+}
+
+// Pages per scan when there's no subscription (free scans) - matches the starter tier
+export const DEFAULT_MAX_CRAWL_PAGES = 15
+
+export const MAX_SCOPE_PATTERNS = 20
+export const MAX_PRIORITY_URLS = 20
+
+export const DEFAULT_CRAWL_SCOPE: CrawlScope = {
+  includePatterns: [],
+  excludePatterns: [],
+  priorityUrls: [],
+  maxPages: null,
+  includeSubdomains: false,
+  locale: null,
+}
+
+// Locale folders: /en/, /fr/, /en-au/, /pt_BR/ - a known language code, optionally with a region
+const LOCALE_FOLDER_PATTERN = /^([a-z]{2})(?:[-_]([a-z]{2}))?$/i
+
+const LOCALE_LANGUAGES = new Set([
+  'ar', 'bg', 'ca', 'cs', 'cy', 'da', 'de', 'el', 'en', 'es', 'et', 'eu', 'fi', 'fr', 'ga', 'gl',
+  'he', 'hi', 'hr', 'hu', 'id', 'is', 'it', 'ja', 'ko', 'lt', 'lv', 'mi', 'ms', 'nb', 'nl', 'no',
+  'pl', 'pt', 'ro', 'ru', 'sk', 'sl', 'sr', 'sv', 'th', 'tr', 'uk', 'vi', 'zh',
+])
+
+// Language codes that are also ordinary folder names (/it/ for IT services, /id/, /is/),
+// only treated as locales with a region: /it-it/
+const AMBIGUOUS_LANGUAGES = new Set(['hi', 'id', 'is', 'it', 'no'])
+
+export function toCrawlScope(row: Partial<CrawlScopeRow> | null): CrawlScope {
+  if (!row) return DEFAULT_CRAWL_SCOPE
+  return {
+    includePatterns: row.crawl_include_patterns || [],
+    excludePatterns: row.crawl_exclude_patterns || [],
+    priorityUrls: row.crawl_priority_urls || [],
+    maxPages: row.crawl_max_pages ?? null,
+    includeSubdomains: !!row.crawl_include_subdomains,
+    locale: row.crawl_locale || null,
+  }
+}
+
+/**
+ * Page limit for a scan: the subscription's setting, never above the tier maximum
+ */
+export function resolveMaxCrawlPages(scope: CrawlScope | null, tierMaxPages: number): number {
+  if (!scope?.maxPages) return tierMaxPages
+  return Math.max(1, Math.min(scope.maxPages, tierMaxPages))
+}
+
+/**
+ * Whether a hostname belongs to the site: the domain, www, and subdomains if enabled
+ */
+export function isHostInScope(hostname: string, domain: string, scope: CrawlScope | null): boolean {
+  const host = hostname.toLowerCase()
+  const bare = domain.toLowerCase().replace(/^www\./, '')
+  if (host === bare || host === `www.${bare}`) return true
+  return !!scope?.includeSubdomains && host.endsWith(`.${bare}`)
+}
+
+/**
+ * Whether the crawler should skip this path whatever else matches:
+ * excluded, or in a locale folder other than the chosen one
+ */
+export function isPathExcluded(path: string, scope: CrawlScope | null): boolean {
+  if (!scope) return false
+  if (scope.excludePatterns.some(pattern => matchesScopePattern(pattern, path))) return true
+
+  if (scope.locale) {
+    const firstSegment = path.split('/').filter(Boolean)[0] || ''
+    if (isLocaleFolder(firstSegment) && normalizeLocale(firstSegment) !== normalizeLocale(scope.locale)) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Whether a URL is in scope (host, include/exclude patterns and locale)
+ */
+export function isUrlInScope(url: string, domain: string, scope: CrawlScope | null): boolean {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+
+  if (!isHostInScope(parsed.hostname, domain, scope)) return false
+  if (!scope) return true
+
+  const path = parsed.pathname
+  if (isPathExcluded(path, scope)) return false
+  if (scope.includePatterns.length > 0 && path !== '/') {
+    return scope.includePatterns.some(pattern => matchesScopePattern(pattern, path))
+  }
+  return true
+}
+
+/**
+ * Final crawl list: priority URLs first, then in-scope candidates, up to maxPages.
+ * URLs the crawler may not fetch (isAllowed, e.g. robots.txt) are dropped before
+ * the limit so they don't use up pages
+ */
+export function applyCrawlScope(
+  urls: string[],
+  domain: string,
+  scope: CrawlScope | null,
+  maxPages: number,
+  isAllowed: (url: string) => boolean = () => true
+): string[] {
+  const priority = (scope?.priorityUrls || [])
+    .map(entry => resolvePriorityUrl(entry, domain))
+    .filter((url): url is string => url !== null && isHostInScope(new URL(url).hostname, domain, scope))
+
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const url of [...priority, ...urls.filter(url => isUrlInScope(url, domain, scope))]) {
+    if (!isAllowed(url)) continue
+    const key = url.replace(/\/$/, '').replace(/^https?:\/\/www\./, 'https://')
+    if (seen.has(key)) continue
+    seen.add(key)
+    result.push(url)
+    if (result.length >= maxPages) break
+  }
+  return result
+}
+
+/**
+ * Validate a user-entered pattern (null = valid, otherwise the problem)
+ */
+export function validateScopePattern(pattern: string): string | null {
+  if (!pattern.startsWith('/') && !pattern.startsWith('*')) return 'Patterns must start with "/" or "*"'
+  if (/\s/.test(pattern)) return 'Patterns cannot contain spaces'
+  if (pattern.indexOf('$') !== -1 && pattern.indexOf('$') !== pattern.length - 1) return '"$" is only allowed at the end'
+  return null
+}
+
+function resolvePriorityUrl(entry: string, domain: string): string | null {
+  const trimmed = entry.trim()
+  try {
+    return trimmed.startsWith('/')
+      ? new URL(trimmed, `https://${domain}`).toString()
+      : new URL(trimmed).toString()
+  } catch {
+    return null
+  }
+}
+
+function matchesScopePattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`, 'i').test(path)
+}
+
+function isLocaleFolder(segment: string): boolean {
+  const match = segment.match(LOCALE_FOLDER_PATTERN)
+  if (!match) return false
+  const language = match[1].toLowerCase()
+  if (!LOCALE_LANGUAGES.has(language)) return false
+  return !!match[2] || !AMBIGUOUS_LANGUAGES.has(language)
+}
+
+function normalizeLocale(locale: string): string {
+  return locale.toLowerCase().replace('_', '-')
+}
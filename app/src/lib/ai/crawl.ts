@@ -3,7 +3,49 @@
  * Crawls a website to extract content for analysis
  */
 
+import { createHash } from 'crypto'
 import { detectPlatform, type PlatformDetection } from './platform-detect'
+import {
+  isRenderingEnabled,
+  renderPage,
+  MAX_RENDERED_PAGES,
+  type PageRenderDiff,
+  type RenderComparison,
+} from './render'
+import {
+  parseRobotsTxt,
+  isPathAllowed,
+  getAiCrawlerAccess,
+  CRAWLER_USER_AGENT,
+  CRAWLER_PRODUCT_TOKEN,
+  type RobotsTxt,
+  type AiCrawlerAccess,
+} from './robots'
+import {
+  AI_DISCOVERY_FILES,
+  validateLlmsTxt,
+  validateAiPluginManifest,
+  type AiDiscoveryAudit,
+  type AiDiscoveryFile,
+} from './llms-txt'
+import { validatePageSchema, type PageSchemaValidation } from './schema-validator'
+import {
+  diffPageSnapshots,
+  normalizePath,
+  type CrawlStats,
+  type PageChange,
+  type PageFetchStatus,
+  type PageFingerprint,
+  type PageSnapshot,
+} from './page-changes'
+import {
+  applyCrawlScope,
+  isHostInScope,
+  isPathExcluded,
+  isUrlInScope,
+  DEFAULT_MAX_CRAWL_PAGES,
+  type CrawlScope,
+} from './crawl-scope'
 
 // Simple logger for crawl debugging
 const crawlLog = {
@@ -12,6 +54,9 @@ const crawlLog = {
   error: (msg: string) => console.error(`[crawl] ${msg}`),
 }
 
+// Sitemap URLs kept as crawl candidates (scope filters and page limits apply after)
+const MAX_SITEMAP_URLS = 500
+
 // Fetch with timeout helper
 async function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs = 10000): Promise<Response> {
   const controller = new AbortController()
@@ -37,6 +82,7 @@ interface SchemaData {
     region?: string
     country?: string
     streetAddress?: string
+    postalCode?: string
   }
   geo?: {
     latitude?: number
@@ -48,6 +94,9 @@ interface SchemaData {
   products?: string[]
   offers?: { name: string; description?: string }[]
   locations?: string[]
+  foundingDate?: string
+  priceRange?: string
+  people?: { name: string; role: string }[] // Founders and employees named in Organization markup
 }
 
 interface CrawledPage {
@@ -60,7 +109,32 @@ interface CrawledPage {
   bodyText: string
   wordCount: number
   schemaData: SchemaData[]
+  schemaValidation: PageSchemaValidation
+  hasMetaDescription: boolean
+  renderedWithJs?: boolean // Content came from the headless renderer, not raw HTML
+  fingerprint: PageFingerprint
+  fetchStatus: PageFetchStatus
+}
+
+/**
+ * A page from the previous scan (crawled_pages row), used to skip unchanged
+ * pages and detect edits. bodyText is null for rows saved before 067, which
+ * can't be reused and are always re-fetched.
+ */
+export interface PreviousCrawledPage {
+  url: string
+  path: string
+  title: string | null
+  description: string | null
+  h1: string | null
+  headings: string[]
+  bodyText: string | null
+  wordCount: number
+  schemaData: unknown[]
+  schemaValidation: PageSchemaValidation | null
   hasMetaDescription: boolean
+  renderedWithJs: boolean
+  fingerprint: PageFingerprint
 }
 
 export interface CrawlResult {
@@ -75,6 +149,17 @@ export interface CrawlResult {
   extractedProducts: string[]
   // Platform detection
   platformDetection: PlatformDetection | null
+  // Raw HTML vs rendered DOM (only for client-side rendered sites with rendering enabled)
+  renderComparison: RenderComparison | null
+  // robots.txt evaluated for each AI crawler (all allowed when there's no robots.txt)
+  aiCrawlerAccess: AiCrawlerAccess[]
+  // llms.txt, llms-full.txt and .well-known AI files
+  aiDiscovery: AiDiscoveryAudit
+  // JSON-LD validation for pages with structured data
+  schemaValidation: PageSchemaValidation[]
+  // Pages added, edited or removed since the previous scan (empty on a first scan)
+  pageChanges: PageChange[]
+  crawlStats: CrawlStats
 }
 
 /**
@@ -90,13 +175,26 @@ function parseSitemapUrls(xml: string): string[] {
   return urls
 }
 
+/**
+ * Map page URLs to their <lastmod> from a sitemap XML string
+ */
+function parseSitemapLastmod(xml: string): Record<string, string> {
+  const lastmod: Record<string, string> = {}
+  for (const match of xml.matchAll(/<url>([\s\S]*?)<\/url>/g)) {
+    const loc = match[1].match(/<loc>(.*?)<\/loc>/)?.[1]?.trim()
+    const mod = match[1].match(/<lastmod>(.*?)<\/lastmod>/)?.[1]?.trim()
+    if (loc && mod) lastmod[loc] = mod
+  }
+  return lastmod
+}
+
 /**
  * Fetch a single sitemap and return its content
  */
 async function fetchSingleSitemap(url: string): Promise<string | null> {
   try {
     const response = await fetchWithTimeout(url, {
-      headers: { 'User-Agent': 'outrankllm-crawler/1.0' },
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
     }, 8000)
     if (!response.ok) return null
     return await response.text()
@@ -108,7 +206,7 @@ async function fetchSingleSitemap(url: string): Promise<string | null> {
 /**
  * Try to fetch and parse a sitemap, handling sitemap indexes recursively
  */
-async function fetchSitemap(domain: string): Promise<{ urls: string[]; found: boolean }> {
+async function fetchSitemap(domain: string): Promise<{ urls: string[]; found: boolean; lastmod: Record<string, string> }> {
   const sitemapUrls = [
     `https://${domain}/sitemap.xml`,
     `https://${domain}/sitemap_index.xml`,
@@ -121,6 +219,7 @@ async function fetchSitemap(domain: string): Promise<{ urls: string[]; found: bo
 
     const allUrls = parseSitemapUrls(xml)
     if (allUrls.length === 0) continue
+    const lastmod = parseSitemapLastmod(xml)
 
     // Check if this is a sitemap index (Yoast, etc.)
     // Sitemap indexes contain URLs ending in .xml pointing to child sitemaps
@@ -148,6 +247,7 @@ async function fetchSitemap(domain: string): Promise<{ urls: string[]; found: bo
         const childXml = await fetchSingleSitemap(childUrl)
         if (childXml) {
           const childUrls = parseSitemapUrls(childXml)
+          Object.assign(lastmod, parseSitemapLastmod(childXml))
           // Filter to actual page URLs
           for (const loc of childUrls) {
             if (!loc.endsWith('.xml') && !loc.match(/\.(jpg|jpeg|png|gif|pdf|css|js|ico|svg|woff|woff2)$/i)) {
@@ -155,11 +255,11 @@ async function fetchSitemap(domain: string): Promise<{ urls: string[]; found: bo
             }
           }
         }
-        if (collectedUrls.length >= 20) break
+        if (collectedUrls.length >= MAX_SITEMAP_URLS) break
       }
 
       if (collectedUrls.length > 0) {
-        return { urls: collectedUrls.slice(0, 20), found: true }
+        return { urls: collectedUrls.slice(0, MAX_SITEMAP_URLS), found: true, lastmod }
       }
     }
 
@@ -169,22 +269,70 @@ async function fetchSitemap(domain: string): Promise<{ urls: string[]; found: bo
     )
 
     if (htmlUrls.length > 0) {
-      return { urls: htmlUrls.slice(0, 20), found: true }
+      return { urls: htmlUrls.slice(0, MAX_SITEMAP_URLS), found: true, lastmod }
     }
   }
 
-  return { urls: [], found: false }
+  return { urls: [], found: false, lastmod: {} }
 }
 
 /**
- * Check if robots.txt exists
+ * Fetch and parse robots.txt (null if the site doesn't have one)
  */
-async function checkRobotsTxt(domain: string): Promise<boolean> {
+async function fetchRobotsTxt(domain: string): Promise<RobotsTxt | null> {
   try {
     const response = await fetchWithTimeout(`https://${domain}/robots.txt`, {
-      headers: { 'User-Agent': 'outrankllm-crawler/1.0' },
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
     }, 5000)
-    return response.ok
+    if (!response.ok) return null
+    return parseRobotsTxt(await response.text())
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Fetch and validate llms.txt and other AI discovery files
+ */
+async function fetchAiDiscoveryFiles(domain: string, robots: RobotsTxt | null): Promise<AiDiscoveryAudit> {
+  const files = await Promise.all(AI_DISCOVERY_FILES.map(async ({ kind, path }): Promise<AiDiscoveryFile> => {
+    const missing: AiDiscoveryFile = { kind, path, found: false, valid: false, issues: [], bytes: null, linkCount: null }
+    const url = `https://${domain}${path}`
+    if (!isCrawlAllowed(robots, url)) return missing
+
+    try {
+      const response = await fetchWithTimeout(url, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        redirect: 'follow',
+      }, 5000)
+      if (!response.ok) return missing
+
+      const content = await response.text()
+      if (!content.trim()) return missing
+
+      const bytes = new TextEncoder().encode(content).length
+      if (kind === 'ai_plugin') {
+        const { valid, issues } = validateAiPluginManifest(content)
+        return { kind, path, found: true, valid, issues, bytes, linkCount: null }
+      }
+
+      const validation = validateLlmsTxt(content, { full: kind === 'llms_full_txt' })
+      return { kind, path, found: true, valid: validation.valid, issues: validation.issues, bytes, linkCount: validation.linkCount }
+    } catch {
+      return missing
+    }
+  }))
+
+  return { checkedAt: new Date().toISOString(), files }
+}
+
+/**
+ * Whether robots.txt lets our crawler fetch the URL
+ */
+function isCrawlAllowed(robots: RobotsTxt | null, url: string): boolean {
+  try {
+    const { pathname, search } = new URL(url)
+    return isPathAllowed(robots, CRAWLER_PRODUCT_TOKEN, pathname + search)
   } catch {
     return false
   }
@@ -254,8 +402,28 @@ function parseSchemaItem(item: Record<string, unknown>): SchemaData | null {
       region: addr.addressRegion ? String(addr.addressRegion) : undefined,
       country: addr.addressCountry ? String(addr.addressCountry) : undefined,
       streetAddress: addr.streetAddress ? String(addr.streetAddress) : undefined,
+      postalCode: addr.postalCode ? String(addr.postalCode) : undefined,
+    }
+  }
+
+  // Extract business facts (checked against AI answers, see fact-sheet.ts)
+  if (item.foundingDate) schema.foundingDate = String(item.foundingDate)
+  if (item.priceRange) schema.priceRange = String(item.priceRange)
+
+  const people: { name: string; role: string }[] = []
+  for (const [key, role] of [['founder', 'Founder'], ['founders', 'Founder'], ['employee', 'Employee']] as const) {
+    const value = item[key]
+    const entries = Array.isArray(value) ? value : value ? [value] : []
+    for (const person of entries) {
+      if (typeof person !== 'object' || person === null) continue
+      const obj = person as Record<string, unknown>
+      if (obj.name) people.push({ name: String(obj.name), role: obj.jobTitle ? String(obj.jobTitle) : role })
     }
   }
+  if (type === 'Person' && item.name && item.jobTitle) {
+    people.push({ name: String(item.name), role: String(item.jobTitle) })
+  }
+  if (people.length > 0) schema.people = people
 
   // Extract geo
   if (item.geo && typeof item.geo === 'object') {
@@ -351,11 +519,15 @@ function parseSchemaItem(item: Record<string, unknown>): SchemaData | null {
 /**
  * Discover pages by crawling from homepage
  */
-async function discoverPages(domain: string, maxPages = 20): Promise<string[]> {
+async function discoverPages(
+  domain: string,
+  maxPages = 20,
+  robots: RobotsTxt | null = null,
+  scope: CrawlScope | null = null
+): Promise<string[]> {
   crawlLog.info(`Discovering pages for ${domain} (max ${maxPages})`)
   const discovered = new Set<string>()
   const toVisit: string[] = [`https://${domain}`, `https://www.${domain}`]
-  const baseUrls = [`https://${domain}`, `https://www.${domain}`]
 
   while (toVisit.length > 0 && discovered.size < maxPages) {
     const url = toVisit.shift()!
@@ -363,11 +535,15 @@ async function discoverPages(domain: string, maxPages = 20): Promise<string[]> {
     // Normalize URL
     const normalizedUrl = url.replace(/\/$/, '')
     if (discovered.has(normalizedUrl)) continue
+    if (!isCrawlAllowed(robots, url)) {
+      crawlLog.info(`Skipping (robots.txt): ${url}`)
+      continue
+    }
 
     try {
       crawlLog.info(`Discovering: ${url}`)
       const response = await fetchWithTimeout(url, {
-        headers: { 'User-Agent': 'outrankllm-crawler/1.0' },
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
         redirect: 'follow',
       }, 15000) // 15s timeout per page
 
@@ -377,8 +553,11 @@ async function discoverPages(domain: string, maxPages = 20): Promise<string[]> {
       }
 
       const html = await response.text()
-      discovered.add(normalizedUrl)
-      crawlLog.info(`Discovered ${discovered.size}/${maxPages}: ${normalizedUrl}`)
+      // Out-of-scope pages (e.g. the homepage with include patterns) are still followed for links
+      if (isUrlInScope(url, domain, scope)) {
+        discovered.add(normalizedUrl)
+        crawlLog.info(`Discovered ${discovered.size}/${maxPages}: ${normalizedUrl}`)
+      }
 
       // Extract internal links
       const linkMatches = html.matchAll(/<a[^>]+href=["']([^"']+)["']/gi)
@@ -397,14 +576,7 @@ async function discoverPages(domain: string, maxPages = 20): Promise<string[]> {
 
         try {
           const absoluteUrl = new URL(href, url)
-          const isInternal = baseUrls.some(
-            (base) =>
-              absoluteUrl.hostname === new URL(base).hostname ||
-              absoluteUrl.hostname === `www.${domain}` ||
-              absoluteUrl.hostname === domain
-          )
-
-          if (!isInternal) continue
+          if (!isHostInScope(absoluteUrl.hostname, domain, scope)) continue
 
           // Skip resource files
           const path = absoluteUrl.pathname.toLowerCase()
@@ -417,6 +589,8 @@ async function discoverPages(domain: string, maxPages = 20): Promise<string[]> {
             continue
           }
 
+          if (isPathExcluded(absoluteUrl.pathname, scope)) continue
+
           const cleanUrl = (absoluteUrl.origin + absoluteUrl.pathname).replace(/\/$/, '')
           if (!discovered.has(cleanUrl) && !toVisit.includes(cleanUrl)) {
             toVisit.push(cleanUrl)
@@ -438,14 +612,27 @@ async function discoverPages(domain: string, maxPages = 20): Promise<string[]> {
 }
 
 /**
- * Extract content from a single page
+ * Extract content from a single page. With a reusable previous crawl the
+ * request is conditional, and a 304 returns the previous content.
  */
-async function extractPageContent(url: string): Promise<CrawledPage | null> {
+async function extractPageContent(
+  url: string,
+  previous: PreviousCrawledPage | null = null
+): Promise<{ page: CrawledPage; html: string | null } | null> {
   try {
     crawlLog.info(`Extracting content: ${url}`)
-    const response = await fetchWithTimeout(url, {
-      headers: { 'User-Agent': 'outrankllm-crawler/1.0' },
-    }, 15000) // 15s timeout per page
+    const headers: Record<string, string> = { 'User-Agent': CRAWLER_USER_AGENT }
+    if (previous?.bodyText != null) {
+      if (previous.fingerprint.etag) headers['If-None-Match'] = previous.fingerprint.etag
+      if (previous.fingerprint.lastModified) headers['If-Modified-Since'] = previous.fingerprint.lastModified
+    }
+
+    const response = await fetchWithTimeout(url, { headers }, 15000) // 15s timeout per page
+
+    if (response.status === 304 && previous) {
+      crawlLog.info(`Not modified since last scan: ${url}`)
+      return { page: fromPreviousPage(previous, 'not_modified'), html: null }
+    }
 
     if (!response.ok) {
       crawlLog.warn(`Extract failed (${response.status}): ${url}`)
@@ -454,81 +641,166 @@ async function extractPageContent(url: string): Promise<CrawledPage | null> {
 
     const html = await response.text()
     crawlLog.info(`Extracted ${html.length} bytes from ${url}`)
-    const path = new URL(url).pathname
-
-    // Extract title
-    const titleMatch = html.match(/<title[^>]*>(.*?)<\/title>/i)
-    const title = titleMatch ? titleMatch[1].trim() : null
-
-    // Extract meta description
-    const descMatch =
-      html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i) ||
-      html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*name=["']description["']/i)
-    const description = descMatch ? descMatch[1].trim() : null
-
-    // Extract H1
-    const h1Match = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)
-    const h1 = h1Match ? h1Match[1].replace(/<[^>]+>/g, '').trim() : null
-
-    // Extract H2/H3 headings
-    const headings: string[] = []
-    const h2Matches = html.matchAll(/<h2[^>]*>([\s\S]*?)<\/h2>/gi)
-    for (const match of h2Matches) {
-      const text = match[1].replace(/<[^>]+>/g, '').trim()
-      if (text) headings.push(text)
-    }
-    const h3Matches = html.matchAll(/<h3[^>]*>([\s\S]*?)<\/h3>/gi)
-    for (const match of h3Matches) {
-      const text = match[1].replace(/<[^>]+>/g, '').trim()
-      if (text) headings.push(text)
-    }
-
-    // Extract body text
-    const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)
-    let bodyText = ''
-    if (bodyMatch) {
-      bodyText = bodyMatch[1]
-        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-        .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-        .replace(/<nav[^>]*>[\s\S]*?<\/nav>/gi, '')
-        .replace(/<footer[^>]*>[\s\S]*?<\/footer>/gi, '')
-        .replace(/<header[^>]*>[\s\S]*?<\/header>/gi, '')
-        .replace(/<[^>]+>/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim()
-    }
-
-    const wordCount = bodyText.split(' ').filter((w) => w.length > 0).length
-
-    // Extract JSON-LD schema markup
-    const schemaData = extractSchemaData(html)
-
-    return {
-      url,
-      path,
-      title,
-      description,
-      h1,
-      headings: headings.slice(0, 20),
-      bodyText: bodyText.slice(0, 5000), // Limit text length
-      wordCount,
-      schemaData,
-      hasMetaDescription: !!description && description.length > 20,
-    }
+    const page = parsePageHtml(url, html)
+    page.fingerprint.etag = response.headers.get('etag')
+    page.fingerprint.lastModified = response.headers.get('last-modified')
+    return { page, html }
   } catch {
     return null
   }
 }
 
+/**
+ * Rebuild a crawled page from the previous scan without fetching it
+ */
+function fromPreviousPage(previous: PreviousCrawledPage, fetchStatus: PageFetchStatus): CrawledPage {
+  return {
+    url: previous.url,
+    path: previous.path,
+    title: previous.title,
+    description: previous.description,
+    h1: previous.h1,
+    headings: previous.headings,
+    bodyText: previous.bodyText || '',
+    wordCount: previous.wordCount,
+    schemaData: previous.schemaData as SchemaData[],
+    schemaValidation: previous.schemaValidation ?? validatePageSchema(previous.url, ''),
+    hasMetaDescription: previous.hasMetaDescription,
+    renderedWithJs: previous.renderedWithJs,
+    fingerprint: { ...previous.fingerprint },
+    fetchStatus,
+  }
+}
+
+/**
+ * Fingerprint of the content AI engines read (ignores markup, scripts and styling)
+ */
+function hashPageContent(page: Pick<CrawledPage, 'title' | 'description' | 'h1' | 'headings' | 'bodyText' | 'schemaData'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([page.title, page.description, page.h1, page.headings, page.bodyText, page.schemaData]))
+    .digest('hex')
+}
+
+function toSnapshot(page: CrawledPage | PreviousCrawledPage): PageSnapshot {
+  return {
+    url: page.url,
+    path: page.path,
+    title: page.title,
+    description: page.description,
+    h1: page.h1,
+    headings: page.headings,
+    wordCount: page.wordCount,
+    schemaTypes: (page.schemaData as SchemaData[]).map(s => s.type),
+    contentHash: page.fingerprint.contentHash,
+  }
+}
+
+/**
+ * Key for matching a page across scans: host (www or not) and path, so
+ * subdomain pages with the same path don't collide
+ */
+function pageKey(url: string): string {
+  const parsed = new URL(url)
+  return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${normalizePath(parsed.pathname)}`
+}
+
+/**
+ * Parse page content from raw or rendered HTML
+ */
+function parsePageHtml(url: string, html: string): CrawledPage {
+  const path = new URL(url).pathname
+
+  // Extract title
+  const titleMatch = html.match(/<title[^>]*>(.*?)<\/title>/i)
+  const title = titleMatch ? titleMatch[1].trim() : null
+
+  // Extract meta description
+  const descMatch =
+    html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i) ||
+    html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*name=["']description["']/i)
+  const description = descMatch ? descMatch[1].trim() : null
+
+  // Extract H1
+  const h1Match = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)
+  const h1 = h1Match ? h1Match[1].replace(/<[^>]+>/g, '').trim() : null
+
+  // Extract H2/H3 headings
+  const headings: string[] = []
+  const h2Matches = html.matchAll(/<h2[^>]*>([\s\S]*?)<\/h2>/gi)
+  for (const match of h2Matches) {
+    const text = match[1].replace(/<[^>]+>/g, '').trim()
+    if (text) headings.push(text)
+  }
+  const h3Matches = html.matchAll(/<h3[^>]*>([\s\S]*?)<\/h3>/gi)
+  for (const match of h3Matches) {
+    const text = match[1].replace(/<[^>]+>/g, '').trim()
+    if (text) headings.push(text)
+  }
+
+  // Extract body text
+  const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)
+  let bodyText = ''
+  if (bodyMatch) {
+    bodyText = bodyMatch[1]
+      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+      .replace(/<nav[^>]*>[\s\S]*?<\/nav>/gi, '')
+      .replace(/<footer[^>]*>[\s\S]*?<\/footer>/gi, '')
+      .replace(/<header[^>]*>[\s\S]*?<\/header>/gi, '')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+
+  const wordCount = bodyText.split(' ').filter((w) => w.length > 0).length
+
+  // Extract JSON-LD schema markup
+  const schemaData = extractSchemaData(html)
+
+  const content = {
+    title,
+    description,
+    h1,
+    headings: headings.slice(0, 20),
+    bodyText: bodyText.slice(0, 5000), // Limit text length
+    schemaData,
+  }
+
+  return {
+    url,
+    path,
+    ...content,
+    wordCount,
+    schemaValidation: validatePageSchema(url, html),
+    hasMetaDescription: !!description && description.length > 20,
+    fingerprint: { contentHash: hashPageContent(content), etag: null, lastModified: null, sitemapLastmod: null },
+    fetchStatus: 'fetched',
+  }
+}
+
 /**
  * Main crawl function
  */
-export async function crawlSite(domain: string): Promise<CrawlResult> {
+export async function crawlSite(
+  domain: string,
+  options: {
+    previousPages?: PreviousCrawledPage[]
+    scope?: CrawlScope | null // Subscription crawl settings (null = whole site)
+    maxPages?: number         // Tier page limit, already capped by resolveMaxCrawlPages
+    verificationPaths?: string[] // Pages completed actions are checked on - crawled on top of maxPages
+  } = {}
+): Promise<CrawlResult> {
+  const scope = options.scope ?? null
+  const maxPages = options.maxPages ?? DEFAULT_MAX_CRAWL_PAGES
   crawlLog.info(`Starting crawl for ${domain}`)
   const startTime = Date.now()
 
-  // Check for sitemap and robots.txt in parallel, and fetch homepage for platform detection
-  crawlLog.info(`Checking sitemap, robots.txt, and detecting platform...`)
+  // robots.txt first - our crawler honours it for every fetch that follows
+  const robots = await fetchRobotsTxt(domain)
+  const hasRobotsTxt = robots !== null
+
+  // Check for sitemap and fetch homepage for platform detection
+  crawlLog.info(`Checking sitemap and detecting platform...`)
 
   // Fetch homepage for platform detection
   let platformDetection: PlatformDetection | null = null
@@ -537,8 +809,11 @@ export async function crawlSite(domain: string): Promise<CrawlResult> {
 
   const homepageUrl = `https://${domain}`
   try {
+    if (!isCrawlAllowed(robots, homepageUrl)) {
+      throw new Error(`robots.txt disallows ${CRAWLER_PRODUCT_TOKEN}`)
+    }
     const homepageResponse = await fetchWithTimeout(homepageUrl, {
-      headers: { 'User-Agent': 'outrankllm-crawler/1.0' },
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
       redirect: 'follow',
     }, 15000)
 
@@ -563,44 +838,148 @@ export async function crawlSite(domain: string): Promise<CrawlResult> {
     crawlLog.warn(`Homepage fetch for platform detection failed: ${error instanceof Error ? error.message : 'Unknown'}`)
   }
 
-  const [sitemapResult, hasRobotsTxt] = await Promise.all([
+  const [sitemapResult, aiDiscovery] = await Promise.all([
     fetchSitemap(domain),
-    checkRobotsTxt(domain),
+    fetchAiDiscoveryFiles(domain, robots),
   ])
   crawlLog.info(`Sitemap: ${sitemapResult.found ? `found (${sitemapResult.urls.length} URLs)` : 'not found'}, robots.txt: ${hasRobotsTxt}`)
+  const discoveryFound = aiDiscovery.files.filter(f => f.found).map(f => f.path)
+  crawlLog.info(`AI discovery files: ${discoveryFound.length > 0 ? discoveryFound.join(', ') : 'none'}`)
 
   // Use sitemap URLs or fall back to discovery
-  let urls = sitemapResult.urls
+  let urls = sitemapResult.urls.filter(url => isCrawlAllowed(robots, url))
+  if (urls.length < sitemapResult.urls.length) {
+    crawlLog.info(`robots.txt excludes ${sitemapResult.urls.length - urls.length} sitemap URLs`)
+  }
+  const allowedSitemapUrls = urls.length
+  urls = urls.filter(url => isUrlInScope(url, domain, scope))
+  if (urls.length < allowedSitemapUrls) {
+    crawlLog.info(`Crawl scope excludes ${allowedSitemapUrls - urls.length} sitemap URLs`)
+  }
   if (urls.length === 0) {
     crawlLog.info(`No sitemap URLs, falling back to discovery...`)
-    urls = await discoverPages(domain, 15)
+    urls = await discoverPages(domain, maxPages, robots, scope)
   }
 
   // Ensure we have at least the homepage
   if (urls.length === 0) {
     crawlLog.warn(`No URLs found, using homepage fallback`)
-    urls = [`https://${domain}`, `https://www.${domain}`]
+    urls = [`https://${domain}`, `https://www.${domain}`].filter(url => isCrawlAllowed(robots, url))
+  }
+
+  // Priority URLs first, then candidates, up to the page limit
+  const crawlUrls = applyCrawlScope(urls, domain, scope, maxPages, url => isCrawlAllowed(robots, url))
+
+  // Pages completed actions are verified on don't use up the page limit
+  const queuedPages = new Set(crawlUrls.map(pageKey))
+  let verificationPages = 0
+  for (const path of options.verificationPaths || []) {
+    const url = new URL(path, `https://${domain}`).toString()
+    if (queuedPages.has(pageKey(url)) || !isCrawlAllowed(robots, url)) continue
+    queuedPages.add(pageKey(url))
+    crawlUrls.push(url)
+    verificationPages++
   }
+  crawlLog.info(`Crawling ${crawlUrls.length} pages (limit ${maxPages}${verificationPages > 0 ? `, plus ${verificationPages} for action verification` : ''})...`)
 
-  crawlLog.info(`Crawling ${Math.min(urls.length, 15)} pages...`)
+  // Client-side rendered sites serve an empty shell without JavaScript -
+  // render the first few pages so analysis sees the real content
+  const shouldRender = !!platformDetection?.rendersClientSide && isRenderingEnabled()
+  if (shouldRender) {
+    crawlLog.info(`Client-side rendering detected, rendering up to ${MAX_RENDERED_PAGES} pages`)
+  }
+
+  // Previous scan's pages, for skipping unchanged pages and detecting edits
+  const previousPages = options.previousPages || []
+  const previousByPage = new Map(previousPages.map(p => [pageKey(p.url), p]))
 
   // Crawl each page
   const pages: CrawledPage[] = []
-  for (const url of urls.slice(0, 15)) {
-    const page = await extractPageContent(url)
-    if (page) {
+  const renderDiffs: PageRenderDiff[] = []
+  for (const url of crawlUrls) {
+    const previous = previousByPage.get(pageKey(url)) ?? null
+    const reusable = previous?.bodyText != null ? previous : null
+    const sitemapLastmod = sitemapResult.lastmod[url] ?? null
+
+    // Sitemap says the page hasn't changed since the last scan - don't fetch it
+    if (reusable && sitemapLastmod && reusable.fingerprint.sitemapLastmod === sitemapLastmod) {
+      pages.push(fromPreviousPage(reusable, 'lastmod_unchanged'))
+      crawlLog.info(`Unchanged since last scan (sitemap lastmod): ${reusable.path}`)
+      continue
+    }
+
+    const extracted = await extractPageContent(url, reusable)
+    if (extracted) {
+      let page = extracted.page
+
+      if (page.fetchStatus === 'fetched' && shouldRender && renderDiffs.length < MAX_RENDERED_PAGES) {
+        const renderedHtml = await renderPage(url)
+        if (renderedHtml) {
+          const parsed = parsePageHtml(url, renderedHtml)
+          // Keep the raw response's caching headers for the next conditional fetch
+          const renderedPage = {
+            ...parsed,
+            renderedWithJs: true,
+            fingerprint: { ...page.fingerprint, contentHash: parsed.fingerprint.contentHash },
+          }
+          renderDiffs.push(diffRenderedPage(page, renderedPage))
+          page = renderedPage
+        }
+      }
+
+      page.fingerprint.sitemapLastmod = sitemapLastmod
       pages.push(page)
-      crawlLog.info(`Crawled ${pages.length}/15: ${page.path}`)
+      crawlLog.info(`Crawled ${pages.length}/${crawlUrls.length}: ${page.path}${page.renderedWithJs ? ' (rendered)' : ''}`)
     }
     // Small delay
     await new Promise((resolve) => setTimeout(resolve, 100))
   }
 
+  // Changes since the previous scan (nothing to compare on a first scan)
+  const pageChanges: PageChange[] = []
+  if (previousPages.length > 0) {
+    for (const page of pages) {
+      const previous = previousByPage.get(pageKey(page.url))
+      if (page.fetchStatus !== 'fetched') continue
+      // Link discovery finds a different set of pages each time - only a sitemap
+      // is a complete enough page list to call a page new (or removed, below)
+      if (!previous && !sitemapResult.found) continue
+      const change = diffPageSnapshots(previous ? toSnapshot(previous) : null, toSnapshot(page))
+      if (change) pageChanges.push(change)
+    }
+
+    if (sitemapResult.found) {
+      const listedPages = new Set([...urls, ...crawlUrls].map(pageKey))
+      for (const previous of previousPages) {
+        if (listedPages.has(pageKey(previous.url))) continue
+        // Dropped by a crawl scope change, not removed from the site
+        if (!isUrlInScope(previous.url, domain, scope)) continue
+        const change = diffPageSnapshots(toSnapshot(previous), null)
+        if (change) pageChanges.push(change)
+      }
+    }
+  }
+
+  const crawlStats: CrawlStats = {
+    fetched: pages.filter(p => p.fetchStatus === 'fetched').length,
+    notModified: pages.filter(p => p.fetchStatus === 'not_modified').length,
+    lastmodUnchanged: pages.filter(p => p.fetchStatus === 'lastmod_unchanged').length,
+    changed: pageChanges.filter(c => c.changeType !== 'removed').length,
+  }
+  if (previousPages.length > 0) {
+    crawlLog.info(`Incremental crawl: ${crawlStats.fetched} fetched, ${crawlStats.notModified} not modified, ${crawlStats.lastmodUnchanged} skipped by lastmod, ${pageChanges.length} changes`)
+  }
+
   crawlLog.info(`Crawl complete: ${pages.length} pages in ${Date.now() - startTime}ms`)
 
   // Aggregate schema data from all pages
   const allSchemas = pages.flatMap(p => p.schemaData)
   const schemaTypes = [...new Set(allSchemas.map(s => s.type))]
+  const schemaValidation = pages
+    .map(p => p.schemaValidation)
+    .filter(v => v.items.length > 0 || v.parseErrors > 0)
+  const schemaErrors = schemaValidation.reduce((sum, v) => sum + v.errorCount, 0)
+  crawlLog.info(`Structured data: ${schemaValidation.length} pages with JSON-LD, ${schemaErrors} errors`)
 
   // Extract locations from schema
   const extractedLocations: string[] = []
@@ -659,9 +1038,63 @@ export async function crawlSite(domain: string): Promise<CrawlResult> {
     extractedServices: [...new Set(extractedServices)],
     extractedProducts: [...new Set(extractedProducts)],
     platformDetection,
+    renderComparison: renderDiffs.length > 0 ? summarizeRenderDiffs(renderDiffs) : null,
+    aiCrawlerAccess: getAiCrawlerAccess(robots),
+    aiDiscovery,
+    schemaValidation,
+    pageChanges,
+    crawlStats,
   }
 }
 
+/**
+ * Compare what a no-JS crawler sees with the rendered page
+ */
+function diffRenderedPage(raw: CrawledPage, rendered: CrawledPage): PageRenderDiff {
+  const rawHeadings = new Set(raw.headings.map(h => h.toLowerCase()))
+  const rawSchemaTypes = new Set(raw.schemaData.map(s => s.type))
+  const rawText = raw.bodyText.toLowerCase()
+
+  // Sentences that only appear once JavaScript has run
+  const missingTextSamples = rendered.bodyText
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length >= 40 && !rawText.includes(sentence.toLowerCase()))
+    .slice(0, 3)
+    .map(sentence => sentence.slice(0, 200))
+
+  return {
+    path: rendered.path,
+    rawWordCount: raw.wordCount,
+    renderedWordCount: rendered.wordCount,
+    missingWordPercent: missingPercent(raw.wordCount, rendered.wordCount),
+    missingTitle: !raw.title && !!rendered.title,
+    missingDescription: !raw.description && !!rendered.description,
+    missingH1: !raw.h1 && !!rendered.h1,
+    missingHeadings: rendered.headings.filter(h => !rawHeadings.has(h.toLowerCase())).slice(0, 10),
+    missingSchemaTypes: [...new Set(rendered.schemaData.map(s => s.type))].filter(t => !rawSchemaTypes.has(t)),
+    missingTextSamples,
+  }
+}
+
+function summarizeRenderDiffs(pages: PageRenderDiff[]): RenderComparison {
+  const rawWordCount = pages.reduce((sum, p) => sum + p.rawWordCount, 0)
+  const renderedWordCount = pages.reduce((sum, p) => sum + p.renderedWordCount, 0)
+
+  return {
+    renderedAt: new Date().toISOString(),
+    pages,
+    rawWordCount,
+    renderedWordCount,
+    missingWordPercent: missingPercent(rawWordCount, renderedWordCount),
+  }
+}
+
+function missingPercent(rawWords: number, renderedWords: number): number {
+  if (renderedWords === 0) return 0
+  return Math.round((Math.max(0, renderedWords - rawWords) / renderedWords) * 100)
+}
+
 /**
  * Combine crawled content into a single text for analysis
  */
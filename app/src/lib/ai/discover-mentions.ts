@@ -4,7 +4,7 @@
  * classifies each by source type, sentiment, and relevance.
  */
 
-import { generateObject } from 'ai'
+import { generateObject, replayableFetch } from './replay'
 import { createOpenAI } from '@ai-sdk/openai'
 import { createServiceClient } from '@/lib/supabase/server'
 import { trackCost, trackTavilyCost } from './costs'
@@ -284,7 +284,7 @@ async function searchTavily(
   }
 
   try {
-    const response = await fetch('https://api.tavily.com/search', {
+    const response = await replayableFetch('https://api.tavily.com/search', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -4,11 +4,14 @@
  * Similar to query-research.ts but focused on employer reputation
  */
 
-import { generateText, createGateway } from 'ai'
+import { createGateway } from 'ai'
+import { generateText } from './replay'
 import { openai } from '@ai-sdk/openai'
 import { anthropic } from '@ai-sdk/anthropic'
 import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { trackCost } from './costs'
+import { isEnglish, languagePromptNote } from './language'
+import { translateTexts } from './translate'
 
 // Initialize Google with explicit API key
 const google = createGoogleGenerativeAI({
@@ -169,12 +172,13 @@ export async function researchEmployerOnPlatform(
   analysis: EmployerAnalysis,
   platform: Platform,
   runId: string,
-  existingCompetitors?: CompetitorEmployer[]
+  existingCompetitors?: CompetitorEmployer[],
+  language?: string
 ): Promise<{ competitors: CompetitorEmployer[]; questions: Array<{ question: string; category: string }> }> {
   // If we already have competitors, just generate questions
   const useFullPrompt = !existingCompetitors || existingCompetitors.length === 0
 
-  const prompt = useFullPrompt
+  const prompt = (useFullPrompt
     ? EMPLOYER_RESEARCH_PROMPT.replace(/{companyName}/g, analysis.companyName)
         .replace(/{industry}/g, analysis.industry || 'Technology')
         .replace(/{location}/g, analysis.location || 'Not specified')
@@ -185,7 +189,8 @@ export async function researchEmployerOnPlatform(
         .replace(/{industry}/g, analysis.industry || 'Technology')
         .replace(/{location}/g, analysis.location || 'Not specified')
         .replace(/{competitors}/g, existingCompetitors.map((c) => c.name).join(', '))
-        .replace(/{competitor}/g, existingCompetitors[0]?.name || 'competitors')
+        .replace(/{competitor}/g, existingCompetitors[0]?.name || 'competitors'))
+    + languagePromptNote(language, 'every question')
 
   try {
     const modelMap: Record<Platform, string> = {
@@ -421,7 +426,8 @@ function dedupeAndRankQuestions(
 export async function researchEmployer(
   analysis: EmployerAnalysis,
   runId: string,
-  onProgress?: (platform: Platform, step: 'researching' | 'complete') => void
+  onProgress?: (platform: Platform, step: 'researching' | 'complete') => void,
+  language?: string
 ): Promise<EmployerResearchResult> {
   const platforms: Platform[] = ['chatgpt', 'claude', 'gemini']
   const allCompetitors: CompetitorEmployer[] = []
@@ -429,7 +435,7 @@ export async function researchEmployer(
 
   // Phase 1: Get competitors from first platform (ChatGPT)
   onProgress?.('chatgpt', 'researching')
-  const chatgptResult = await researchEmployerOnPlatform(analysis, 'chatgpt', runId)
+  const chatgptResult = await researchEmployerOnPlatform(analysis, 'chatgpt', runId, undefined, language)
   allCompetitors.push(...chatgptResult.competitors)
   allQuestions.push(
     ...chatgptResult.questions.map((q) => ({ ...q, platform: 'chatgpt' as Platform }))
@@ -445,7 +451,7 @@ export async function researchEmployer(
 
     await new Promise((resolve) => setTimeout(resolve, 300)) // Rate limit
 
-    const result = await researchEmployerOnPlatform(analysis, platform, runId, competitors)
+    const result = await researchEmployerOnPlatform(analysis, platform, runId, competitors, language)
 
     // Add any new competitors found
     if (result.competitors.length > 0) {
@@ -614,10 +620,11 @@ export async function researchEmployerWithRoles(
   analysis: EmployerAnalysis,
   jobFamilies: JobFamily[],
   runId: string,
-  onProgress?: (platform: Platform, step: 'researching' | 'complete') => void
+  onProgress?: (platform: Platform, step: 'researching' | 'complete') => void,
+  language?: string
 ): Promise<EmployerResearchResult> {
   // First, get general questions and competitors
-  const baseResult = await researchEmployer(analysis, runId, onProgress)
+  const baseResult = await researchEmployer(analysis, runId, onProgress, language)
 
   // If no job families, return base result
   if (!jobFamilies || jobFamilies.length === 0) {
@@ -625,7 +632,11 @@ export async function researchEmployerWithRoles(
   }
 
   // Generate role-specific questions
-  const roleFamilyQuestions = generateRoleFamilyQuestions(analysis, jobFamilies, baseResult.competitors)
+  const roleFamilyQuestions = await localizeEmployerQuestions(
+    generateRoleFamilyQuestions(analysis, jobFamilies, baseResult.competitors),
+    language,
+    runId
+  )
 
   // Combine: 10 general + N family-specific
   return {
@@ -633,3 +644,18 @@ export async function researchEmployerWithRoles(
     questions: [...baseResult.questions, ...roleFamilyQuestions],
   }
 }
+
+/**
+ * Translate English template questions (fallback and role family questions) into
+ * the scan language. Questions that fail to translate stay in English
+ */
+export async function localizeEmployerQuestions(
+  questions: EmployerQuestion[],
+  language: string | undefined,
+  runId: string
+): Promise<EmployerQuestion[]> {
+  if (isEnglish(language) || questions.length === 0) return questions
+
+  const translated = await translateTexts(questions.map((q) => q.question), language!, runId)
+  return questions.map((q, i) => ({ ...q, question: translated[i] || q.question }))
+}
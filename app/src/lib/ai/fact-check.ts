@@ -0,0 +1,192 @@
+/**
+ * Brand Fact Check
+ * Checks brand_recall and service_check answers against the brand's fact sheet
+ * (fact-sheet.ts) and classifies each as correct, outdated, wrong or fabricated,
+ * keeping the exact false claims for the report's AI Misinformation section.
+ *
+ * One Claude call per platform, covering all of that platform's answers.
+ * Answers where the platform didn't recognise the brand aren't checked -
+ * "I don't know" has nothing to be wrong about.
+ */
+
+import { generateText } from './replay'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { trackCost } from './costs'
+import { answerAccuracy, type AnswerAccuracy, type FactSheet, type FalseClaim, type FactTopic } from './fact-sheet'
+import type { BrandAwarenessResult } from './brand-awareness'
+
+const anthropic = createAnthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY || '',
+})
+
+export const FACT_CHECK_QUERY_TYPES = ['brand_recall', 'service_check']
+
+// Long answers are cut here - the facts are almost always up front
+const MAX_ANSWER_CHARS = 4000
+
+const TOPICS: FactTopic[] = ['address', 'founded', 'services', 'pricing', 'people', 'other']
+const VERDICTS: FalseClaim['verdict'][] = ['outdated', 'wrong', 'fabricated']
+
+export interface FactCheckResult {
+  accuracy: AnswerAccuracy
+  falseClaims: FalseClaim[]
+}
+
+/** Whether checkBrandFacts checks this answer - one Claude call per platform with any */
+export function isFactCheckable(r: BrandAwarenessResult): boolean {
+  return FACT_CHECK_QUERY_TYPES.includes(r.queryType) && r.recognized && !!r.responseText
+}
+
+/**
+ * Fact check each answer. Returns one entry per input result, null where the
+ * answer wasn't checked (other query types, brand not recognised, check failed)
+ */
+export async function checkBrandFacts(
+  results: BrandAwarenessResult[],
+  sheet: FactSheet,
+  runId: string
+): Promise<Array<FactCheckResult | null>> {
+  const checks: Array<FactCheckResult | null> = new Array(results.length).fill(null)
+
+  const byPlatform = new Map<string, number[]>()
+  results.forEach((r, index) => {
+    if (!isFactCheckable(r)) return
+    byPlatform.set(r.platform, [...(byPlatform.get(r.platform) || []), index])
+  })
+
+  await Promise.all(
+    Array.from(byPlatform.entries()).map(async ([platform, indexes]) => {
+      const claims = await checkPlatformAnswers(
+        indexes.map(i => results[i]),
+        sheet,
+        platform,
+        runId
+      )
+      if (!claims) return
+      indexes.forEach((resultIndex, i) => {
+        const falseClaims = claims[i] || []
+        checks[resultIndex] = { accuracy: answerAccuracy(falseClaims), falseClaims }
+      })
+    })
+  )
+
+  return checks
+}
+
+/**
+ * False claims in each of one platform's answers, or null if the check failed
+ */
+async function checkPlatformAnswers(
+  answers: BrandAwarenessResult[],
+  sheet: FactSheet,
+  platform: string,
+  runId: string
+): Promise<FalseClaim[][] | null> {
+  const answerSections = answers
+    .map((a, i) => {
+      const question = a.queryType === 'service_check'
+        ? `Asked whether ${a.testedEntity} offers ${a.testedAttribute || 'a service'}`
+        : `Asked what it knows about ${a.testedEntity}`
+      return `## Answer ${i + 1} (${question})\n${a.responseText.slice(0, MAX_ANSWER_CHARS)}`
+    })
+    .join('\n\n')
+
+  const prompt = `You are fact-checking what an AI assistant said about "${sheet.business_name || answers[0].testedEntity}" against the business's own fact sheet.
+
+# Fact sheet (ground truth)
+${formatFactSheet(sheet)}
+
+# Answers to check
+${answerSections}
+
+---
+
+For each answer, list every factual claim about the business that is NOT consistent with the fact sheet. Classify each:
+- "outdated": was true once but no longer is - a former address, old name, discontinued service or superseded price (per the fact sheet notes, or the answer itself presents it as current when the fact sheet shows it changed)
+- "wrong": contradicts the fact sheet - a different address, founding year, price, or a person in the wrong role
+- "fabricated": a specific detail with no basis at all - an invented person, service, location, award or price the business doesn't have
+
+Topics: ${TOPICS.join(', ')}
+
+Respond with JSON only:
+{
+  "answers": [
+    {
+      "answer": 1,
+      "false_claims": [
+        { "topic": "address", "claim": "what the answer said, quoted or closely paraphrased", "fact": "what the fact sheet says, or null", "verdict": "wrong" }
+      ]
+    }
+  ]
+}
+
+Important:
+- Include every answer, with an empty "false_claims" array when everything checks out
+- Only flag claims the fact sheet can settle. Vague or generic statements ("they offer quality service") are not claims
+- A service missing from the fact sheet is only "fabricated" if it clearly isn't something this business would do
+- Don't flag the answer for leaving things out - only for what it gets wrong`
+
+  try {
+    const result = await generateText({
+      model: anthropic('claude-sonnet-4-20250514'),
+      prompt,
+      maxOutputTokens: 2000,
+    })
+
+    if (result.usage) {
+      await trackCost({
+        runId,
+        step: 'fact_check',
+        model: 'anthropic/claude-sonnet-4-20250514',
+        usage: {
+          inputTokens: result.usage.inputTokens || 0,
+          outputTokens: result.usage.outputTokens || 0,
+          totalTokens: (result.usage.inputTokens || 0) + (result.usage.outputTokens || 0),
+        },
+      })
+    }
+
+    // Parse the JSON response
+    let jsonStr = result.text
+    const jsonMatch = result.text.match(/```(?:json)?\s*([\s\S]*?)```/)
+    if (jsonMatch) {
+      jsonStr = jsonMatch[1].trim()
+    }
+    const objectMatch = jsonStr.match(/\{[\s\S]*\}/)
+    if (objectMatch) {
+      jsonStr = objectMatch[0]
+    }
+
+    const parsed = JSON.parse(jsonStr) as {
+      answers?: { answer?: number; false_claims?: Partial<FalseClaim>[] }[]
+    }
+
+    return answers.map((_, i) => {
+      const entry = (parsed.answers || []).find(a => a.answer === i + 1)
+      return (entry?.false_claims || [])
+        .filter(c => c.claim && c.verdict && VERDICTS.includes(c.verdict))
+        .map(c => ({
+          topic: c.topic && TOPICS.includes(c.topic) ? c.topic : 'other',
+          claim: String(c.claim),
+          fact: c.fact ? String(c.fact) : null,
+          verdict: c.verdict!,
+        }))
+    })
+  } catch (error) {
+    console.error(`Failed to fact check ${platform} brand answers:`, error)
+    return null
+  }
+}
+
+function formatFactSheet(sheet: FactSheet): string {
+  const lines = [
+    `Business name: ${sheet.business_name || 'unknown'}`,
+    `Address: ${sheet.address || 'not provided'}`,
+    `Founded: ${sheet.founded_year || 'not provided'}`,
+    `Services: ${sheet.services.length > 0 ? sheet.services.join('; ') : 'not provided'}`,
+    `Pricing: ${sheet.pricing || 'not provided'}`,
+    `People: ${sheet.people.length > 0 ? sheet.people.map(p => `${p.name} (${p.role})`).join('; ') : 'not provided'}`,
+  ]
+  if (sheet.notes) lines.push(`Notes: ${sheet.notes}`)
+  return lines.join('\n')
+}
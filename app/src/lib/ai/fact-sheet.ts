@@ -0,0 +1,144 @@
+/**
+ * Brand Fact Sheets
+ * What's actually true about the business - address, founding year, services,
+ * pricing and people - for checking what AI assistants say about it
+ * (fact-check.ts). Built from the crawl's schema markup and the site analysis,
+ * then editable by the subscriber; once edited, scans stop rebuilding it.
+ */
+
+export type AnswerAccuracy = 'correct' | 'outdated' | 'wrong' | 'fabricated'
+
+// Worst first - an answer takes the verdict of its worst claim
+export const ACCURACY_SEVERITY: AnswerAccuracy[] = ['fabricated', 'wrong', 'outdated', 'correct']
+
+export type FactTopic = 'address' | 'founded' | 'services' | 'pricing' | 'people' | 'other'
+
+export interface FalseClaim {
+  topic: FactTopic
+  claim: string           // What the answer said, quoted or closely paraphrased
+  fact: string | null     // What the fact sheet says (null when it has nothing to contradict)
+  verdict: Exclude<AnswerAccuracy, 'correct'>
+}
+
+export interface FactSheetPerson {
+  name: string
+  role: string
+}
+
+export interface FactSheet {
+  business_name: string | null
+  address: string | null
+  founded_year: number | null
+  services: string[]
+  pricing: string | null
+  people: FactSheetPerson[]
+  notes: string | null    // Anything else, in the subscriber's words
+}
+
+export interface BrandFactSheet extends FactSheet {
+  id: string
+  domain_subscription_id: string
+  edited_by_user: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Limits on what goes into the sheet (and the fact-check prompt)
+export const MAX_FACT_SHEET_SERVICES = 20
+export const MAX_FACT_SHEET_PEOPLE = 10
+
+// The subset of crawl.ts's parsed JSON-LD the sheet reads
+interface SchemaFacts {
+  type?: string
+  name?: string
+  address?: { streetAddress?: string; locality?: string; region?: string; postalCode?: string; country?: string }
+  foundingDate?: string
+  priceRange?: string
+  offers?: { name: string }[]
+  services?: string[]
+  people?: FactSheetPerson[]
+}
+
+interface AnalysisFacts {
+  businessName: string | null
+  services: string[]
+  products: string[]
+  location: string | null
+}
+
+// Organization-like types whose address and founding date describe the business itself
+const BUSINESS_SCHEMA_TYPE = /Organization|LocalBusiness|Store|Corporation|ProfessionalService/
+
+/**
+ * Fact sheet from the site analysis and the JSON-LD found on crawled pages.
+ * Schema markup wins where it has the fact; the analysis fills the rest
+ */
+export function buildFactSheet(analysis: AnalysisFacts, schemaData: unknown[]): FactSheet {
+  const schemas = schemaData.filter((s): s is SchemaFacts => typeof s === 'object' && s !== null)
+  const business = schemas.filter(s => BUSINESS_SCHEMA_TYPE.test(s.type || ''))
+
+  const addressSchema = business.find(s => s.address?.streetAddress) || business.find(s => s.address?.locality)
+  const address = addressSchema?.address
+    ? [
+        addressSchema.address.streetAddress,
+        addressSchema.address.locality,
+        [addressSchema.address.region, addressSchema.address.postalCode].filter(Boolean).join(' '),
+        addressSchema.address.country,
+      ].filter(Boolean).join(', ')
+    : null
+
+  const foundingDate = business.find(s => s.foundingDate)?.foundingDate
+  const foundedYear = foundingDate ? Number(foundingDate.match(/\b(1[89]\d{2}|20\d{2})\b/)?.[1]) || null : null
+
+  const services = dedupe([
+    ...analysis.services,
+    ...analysis.products,
+    ...schemas.flatMap(s => s.services || []),
+    ...schemas.flatMap(s => (s.offers || []).map(o => o.name)),
+  ]).slice(0, MAX_FACT_SHEET_SERVICES)
+
+  const people = new Map<string, FactSheetPerson>()
+  for (const person of schemas.flatMap(s => s.people || [])) {
+    const key = person.name.trim().toLowerCase()
+    if (key && !people.has(key)) people.set(key, { name: person.name.trim(), role: person.role })
+  }
+
+  return {
+    business_name: analysis.businessName || business.find(s => s.name)?.name || null,
+    address: address || analysis.location || null,
+    founded_year: foundedYear,
+    services,
+    pricing: business.find(s => s.priceRange)?.priceRange || null,
+    people: Array.from(people.values()).slice(0, MAX_FACT_SHEET_PEOPLE),
+    notes: null,
+  }
+}
+
+/**
+ * Whether the sheet has anything to check answers against
+ */
+export function hasFacts(sheet: FactSheet): boolean {
+  return Boolean(
+    sheet.address || sheet.founded_year || sheet.services.length > 0 ||
+    sheet.pricing || sheet.people.length > 0 || sheet.notes
+  )
+}
+
+/**
+ * An answer's accuracy from its false claims - the worst verdict, or correct
+ */
+export function answerAccuracy(claims: FalseClaim[]): AnswerAccuracy {
+  return ACCURACY_SEVERITY.find(level => claims.some(c => c.verdict === level)) || 'correct'
+}
+
+function dedupe(values: string[]): string[] {
+  const seen = new Set<string>()
+  return values
+    .map(v => v.trim())
+    .filter(v => {
+      const key = v.toLowerCase()
+      if (!v || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
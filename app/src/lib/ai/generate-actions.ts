@@ -9,9 +9,19 @@
  * Output: Prioritized actions with implementation steps, page edits, keyword maps
  */
 
-import { generateText } from 'ai'
+import { generateText, replayableFetch } from './replay'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { trackCost, trackTavilyCost } from './costs'
+import { ALL_PLATFORMS } from './platforms'
+import { aggregateCitations, findCitationOpportunities } from './citations'
+import { isAiCrawlerRestricted, type AiCrawlerAccess } from './robots'
+import {
+  normalizeExpectations,
+  derivePageEditExpectations,
+  type ActionExpectation,
+  type ExpectationResult,
+  type VerificationStatus,
+} from './action-expectations'
 import { log } from '@/lib/logger'
 
 const anthropic = createAnthropic({
@@ -46,7 +56,8 @@ export interface LLMResponseData {
   promptText: string
   responseText: string
   domainMentioned: boolean
-  competitorsMentioned: string[]
+  competitorsMentioned: { name: string; context: string }[]
+  sources?: Array<{ url: string; title?: string | null }> | null // Pages the answer cited
 }
 
 export interface BrandAwarenessData {
@@ -101,6 +112,9 @@ export interface PlatformDataInput {
   // AI-generated content signals
   likelyAiGenerated: boolean
   aiSignals: string[]
+
+  // robots.txt evaluated per AI crawler (site_analyses.ai_crawler_access)
+  aiCrawlerAccess?: AiCrawlerAccess[]
 }
 
 export interface ActionPlanInput {
@@ -169,6 +183,7 @@ export interface PriorityAction {
   implementationSteps: string[]
   expectedOutcome: string
   targetKeywords: string[]
+  expectations: ActionExpectation[] // Checked by later scans once the user marks it done
 }
 
 export interface PageEdit {
@@ -177,6 +192,10 @@ export interface PageEdit {
   metaDescription: string | null
   h1Change: 'keep' | string
   contentToAdd: string | null
+  expectations: ActionExpectation[]
+  // Set by later scans (see process-scan verify step)
+  verificationStatus?: VerificationStatus | null
+  verificationEvidence?: ExpectationResult[] | null
 }
 
 export interface ContentPriority {
@@ -231,7 +250,7 @@ async function searchBestPractices(
 
   for (const query of searches) {
     try {
-      const response = await fetch('https://api.tavily.com/search', {
+      const response = await replayableFetch('https://api.tavily.com/search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -306,7 +325,7 @@ function buildVisibilityAnalysis(
   responses: LLMResponseData[],
   scores: ActionPlanInput['scores']
 ): string {
-  const platforms = ['chatgpt', 'claude', 'gemini', 'perplexity']
+  const platforms = ALL_PLATFORMS
 
   let analysis = `OVERALL SCORE: ${scores.overall}%\n\n`
 
@@ -325,7 +344,7 @@ function buildVisibilityAnalysis(
   if (missedQueries.length > 0) {
     analysis += '\nMISSED QUERIES:\n'
     for (const q of missedQueries.slice(0, 10)) {
-      const competitors = q.competitorsMentioned.slice(0, 3).join(', ')
+      const competitors = q.competitorsMentioned.slice(0, 3).map(c => c.name).join(', ')
       analysis += `- "${q.promptText}" (${q.platform})${competitors ? ` - competitors: ${competitors}` : ''}\n`
     }
   }
@@ -333,6 +352,29 @@ function buildVisibilityAnalysis(
   return analysis
 }
 
+/**
+ * Third-party sites the engines keep citing for these questions - "get listed here" targets
+ */
+function buildCitationAnalysis(responses: LLMResponseData[], domain: string): string {
+  const competitorNames = responses.flatMap(r => r.competitorsMentioned.map(c => c.name))
+  const summary = aggregateCitations(responses, domain, competitorNames)
+  if (summary.totalCitations === 0) return 'No citation data for this scan.'
+
+  const pct = (n: number) => Math.round((n / summary.totalCitations) * 100)
+  let analysis = `TOTAL CITATIONS: ${summary.totalCitations} across ${summary.responsesWithCitations} answers\n`
+  analysis += `YOUR SITE: ${summary.ownCitations} (${pct(summary.ownCitations)}%) | COMPETITORS: ${summary.competitorCitations} (${pct(summary.competitorCitations)}%) | THIRD PARTIES: ${summary.thirdPartyCitations} (${pct(summary.thirdPartyCitations)}%)\n`
+
+  const opportunities = findCitationOpportunities(summary)
+  if (opportunities.length > 0) {
+    analysis += '\nGET LISTED HERE (third-party sites AI cites repeatedly for these questions):\n'
+    for (const o of opportunities) {
+      analysis += `- ${o.host} [${o.category}] - cited ${o.count}x by ${o.platforms.join(', ')} - e.g. ${o.exampleUrl}\n`
+    }
+  }
+
+  return analysis
+}
+
 function buildCompetitiveAnalysis(
   brandAwareness: BrandAwarenessData[],
   competitiveSummary: CompetitiveSummaryData | null
@@ -438,6 +480,15 @@ function buildPlatformAnalysis(platformData: PlatformDataInput | null): string {
     }
   }
 
+  // AI crawlers blocked by robots.txt - HIGH PRIORITY technical fix
+  const blockedCrawlers = getBlockedAiCrawlers(platformData)
+  if (blockedCrawlers.length > 0) {
+    analysis += '\n🚫 AI CRAWLERS BLOCKED BY ROBOTS.TXT (HIGH PRIORITY technical fix - blocked engines cannot read or cite these pages):\n'
+    for (const line of blockedCrawlers) {
+      analysis += `- ${line}\n`
+    }
+  }
+
   // AI-generated content signals
   if (platformData.likelyAiGenerated && platformData.aiSignals.length > 0) {
     analysis += '\n⚠️ AI-GENERATED CONTENT SIGNALS:\n'
@@ -449,6 +500,17 @@ function buildPlatformAnalysis(platformData: PlatformDataInput | null): string {
   return analysis
 }
 
+/**
+ * Describe AI crawlers that robots.txt blocks, e.g. "GPTBot (OpenAI, training): blocked from entire site"
+ */
+export function getBlockedAiCrawlers(platformData: PlatformDataInput): string[] {
+  return (platformData.aiCrawlerAccess || [])
+    .filter(isAiCrawlerRestricted)
+    .map(c => `${c.agent} (${c.operator}, ${c.purpose}): ${
+      c.status === 'blocked' ? 'blocked from entire site' : `blocked from ${c.blockedPaths.join(', ')}`
+    }`)
+}
+
 function buildSystemPrompt(): string {
   return `You are an expert AI Search Optimization (GEO) consultant with deep expertise in helping businesses improve their visibility in AI assistants like ChatGPT, Claude, Perplexity, and Gemini.
 
@@ -471,6 +533,7 @@ Use these prefixes based on the data source:
 - "Based on your AI Readiness scan: [specific issue]..." - when referencing technical SEO/meta/schema issues
 - "Based on your Brand Awareness results: [specific gap]..." - when referencing brand recognition gaps
 - "Based on your Competitive Intelligence: [specific insight]..." - when referencing competitor strengths/weaknesses
+- "Based on your Citations: [specific site]..." - when recommending getting listed on a site AI keeps citing
 
 Examples of GOOD sourceInsight values:
 - "Based on your AI Responses: ChatGPT and Perplexity mentioned competitors 'Acme Corp' and 'BetterCo' instead of you for 3 service-related queries."
@@ -609,6 +672,7 @@ function buildUserPrompt(
   const pageAnalysis = buildPageAnalysis(input.crawledPages)
   const visibilityAnalysis = buildVisibilityAnalysis(input.responses, input.scores)
   const competitiveAnalysis = buildCompetitiveAnalysis(input.brandAwareness, input.competitiveSummary)
+  const citationAnalysis = buildCitationAnalysis(input.responses, input.domain)
   const platformAnalysis = buildPlatformAnalysis(input.platformData)
 
   // Build completed actions section if any exist
@@ -651,6 +715,10 @@ ${visibilityAnalysis}
 ## COMPETITIVE INTELLIGENCE
 
 ${competitiveAnalysis}
+
+## CITATIONS
+
+${citationAnalysis}
 ${completedSection}
 ---
 
@@ -672,7 +740,10 @@ Based on the above data, generate a comprehensive action plan. You MUST respond
       "category": "content|technical|schema|citations|local",
       "implementationSteps": ["Step 1", "Step 2", "Step 3"],
       "expectedOutcome": "What improvement this will drive",
-      "targetKeywords": ["keyword1", "keyword2"]
+      "targetKeywords": ["keyword1", "keyword2"],
+      "expectations": [
+        { "check": "schema_type", "page": "/services", "value": "FAQPage" }
+      ]
     }
   ],
   "pageEdits": [
@@ -681,7 +752,10 @@ Based on the above data, generate a comprehensive action plan. You MUST respond
       "metaTitle": "Optimized title or null",
       "metaDescription": "Optimized description or null",
       "h1Change": "keep or new H1 text",
-      "contentToAdd": "Exact content to add or null"
+      "contentToAdd": "Exact content to add or null",
+      "expectations": [
+        { "check": "meta_description", "page": "/page-path", "value": null }
+      ]
     }
   ],
   "contentPriorities": [
@@ -708,6 +782,16 @@ Based on the above data, generate a comprehensive action plan. You MUST respond
   ]
 }
 
+EXPECTATIONS:
+Each priority action and page edit lists 1-3 "expectations" our crawler checks on the next scan to confirm the work was done. Use only these checks:
+- page_exists: the page is live (value null) - for new pages
+- schema_type: JSON-LD of this schema.org type is on the page (value e.g. "FAQPage", "LocalBusiness")
+- meta_description: the page has a meta description (value null, or a phrase it must contain)
+- title_contains / h1_contains / heading_contains: the title, H1 or an H2-H6 contains the phrase in value
+- content_contains: the page text contains the phrase in value
+- min_word_count: the page has at least value words (e.g. "300")
+"page" is a path on this site. Keep phrases short (2-4 words) so small wording changes still pass. Use [] for actions that can't be checked on the site itself (e.g. citations on other websites).
+
 Generate 10-15 priority actions, 3-5 page edits, 3-5 content priorities, 8-12 keyword map entries, and 3-5 key takeaways.`
 }
 
@@ -844,8 +928,17 @@ function parseActionPlanResponse(text: string, runId: string): GeneratedActionPl
       implementationSteps: Array.isArray(action.implementationSteps) ? action.implementationSteps : [],
       expectedOutcome: action.expectedOutcome || '',
       targetKeywords: Array.isArray(action.targetKeywords) ? action.targetKeywords : [],
+      expectations: normalizeExpectations(action.expectations, action.targetPage || null),
     }))
 
+    parsed.pageEdits = parsed.pageEdits.map(edit => {
+      const expectations = normalizeExpectations(edit.expectations, edit.page)
+      return {
+        ...edit,
+        expectations: expectations.length > 0 ? expectations : derivePageEditExpectations(edit),
+      }
+    })
+
     return parsed
 
   } catch (parseError) {
@@ -12,11 +12,13 @@
  * Output is organized by priority: Quick Wins, Strategic, Backlog
  */
 
-import { generateText } from 'ai'
+import { generateText } from './replay'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { trackCost } from './costs'
 import { log } from '@/lib/logger'
-import { type PlatformDataInput } from './generate-actions'
+import { type PlatformDataInput, getBlockedAiCrawlers } from './generate-actions'
+import { describeSchemaIssues, type PageSchemaValidation } from './schema-validator'
+import { normalizeExpectations, describeExpectation, type ActionExpectation } from './action-expectations'
 
 const anthropic = createAnthropic({
   apiKey: process.env.ANTHROPIC_API_KEY || '',
@@ -41,6 +43,7 @@ export interface ActionItemInput {
   consensus: string[] | null
   implementationSteps: string[] | null
   expectedOutcome: string | null
+  expectations?: ActionExpectation[] | null
 }
 
 export interface PageEditInput {
@@ -71,6 +74,7 @@ export interface SiteContext {
   services: string[] | null
   platformData: PlatformDataInput | null  // Platform/technology detection
   visibilityScore: number | null  // Overall visibility score for context
+  schemaValidation?: PageSchemaValidation[] | null  // Per-page JSON-LD findings from the crawl
 }
 
 // ============================================
@@ -93,6 +97,8 @@ export interface PrdTask {
   contentPrompts: ContentPrompt[] | null
   /** True if this task requires content to be written before code implementation */
   requiresContent: boolean
+  /** Checks a later scan runs against the live site once the task is completed */
+  expectations: ActionExpectation[]
 }
 
 export interface ContentPrompt {
@@ -351,6 +357,16 @@ function buildPlatformSummary(platformData: PlatformDataInput | null): string {
     summary += 'PRIORITIZE fixing these issues - they block all AI visibility improvements.\n'
   }
 
+  // AI crawlers blocked by robots.txt - CRITICAL
+  const blockedCrawlers = getBlockedAiCrawlers(platformData)
+  if (blockedCrawlers.length > 0) {
+    summary += '\n⚠️ CRITICAL - AI CRAWLERS BLOCKED BY ROBOTS.TXT:\n'
+    for (const line of blockedCrawlers) {
+      summary += `- ${line}\n`
+    }
+    summary += 'Include a quick-win task to update robots.txt (show the exact rules to change) unless the block is intentional.\n'
+  }
+
   // AI-generated content signals
   if (platformData.likelyAiGenerated && platformData.aiSignals.length > 0) {
     summary += '\n⚠️ AI-GENERATED CONTENT DETECTED:\n'
@@ -395,6 +411,7 @@ function buildUserPrompt(
    ${action.targetPage ? `Target page: ${action.targetPage}` : ''}
    ${action.implementationSteps?.length ? `Steps: ${action.implementationSteps.join(' → ')}` : ''}
    ${action.expectedOutcome ? `Expected outcome: ${action.expectedOutcome}` : ''}
+   ${action.expectations?.length ? `Verified by: ${action.expectations.map(e => `${describeExpectation(e)} ${JSON.stringify(e)}`).join('; ')}` : ''}
    ${consensus}`
   }).join('\n\n')
 
@@ -413,6 +430,14 @@ function buildUserPrompt(
     ? `\n\n## KEYWORD TARGETS\n${actionPlan.keywordMap.slice(0, 10).map(k => `- "${k.keyword}" → ${k.bestPage} (${k.whereToAdd})`).join('\n')}`
     : ''
 
+  // Build structured data issues so schema tasks target the exact broken pages
+  const schemaPages = (siteContext.schemaValidation || []).filter(p => p.errorCount > 0 || p.warningCount > 0)
+  const schemaIssuesSection = schemaPages.length > 0
+    ? `\n\n## STRUCTURED DATA ISSUES (per page)
+Schema tasks MUST name the affected page paths and fix these specific problems:
+${schemaPages.slice(0, 10).map(p => `- ${p.path} (${p.types.join(', ') || 'invalid JSON-LD'}):\n${describeSchemaIssues(p).slice(0, 8).map(issue => `  - ${issue}`).join('\n')}`).join('\n')}`
+    : ''
+
   // Build previously completed tasks section
   const completedTasksSection = completedTaskTitles.length > 0
     ? `\n\n## PREVIOUSLY COMPLETED TASKS - DO NOT REGENERATE
@@ -440,6 +465,7 @@ ${actionPlan.executiveSummary || 'Improve AI visibility through technical and co
 ${actionsSummary}
 ${pageEditsSummary}
 ${keywordSummary}
+${schemaIssuesSection}
 ${completedTasksSection}
 
 ---
@@ -473,7 +499,8 @@ Based on the above action plan, generate a comprehensive PRD document. You MUST
       "promptContext": "Create a React component that generates Organization JSON-LD schema...",
       "implementationNotes": "Key considerations and integration notes",
       "requiresContent": false,
-      "contentPrompts": null
+      "contentPrompts": null,
+      "expectations": [{ "check": "schema_type", "page": "/", "value": "Organization" }]
     },
     {
       "title": "Task that requires content example",
@@ -531,6 +558,7 @@ Generate 8-15 tasks total, covering the most impactful items from the action pla
 
 IMPORTANT REMINDERS:
 - For FAQ schema tasks: ALWAYS set requiresContent: true and include a contentPrompt for the FAQ answers
+- "expectations": copy the "Verified by" JSON objects of the action(s) a task implements, unchanged. Use [] if the source actions have none
 - NEVER truncate code snippets - if too long, split into multiple files
 - Every code snippet must be complete and copy-paste ready`
 }
@@ -715,6 +743,7 @@ function parsePrdResponse(
       implementationNotes: task.implementationNotes || null,
       requiresContent: task.requiresContent === true,
       contentPrompts: Array.isArray(task.contentPrompts) ? task.contentPrompts : null,
+      expectations: normalizeExpectations(task.expectations),
     }))
 
     log.info(runId, `PRD parsed successfully: ${parsed.tasks.length} tasks`)
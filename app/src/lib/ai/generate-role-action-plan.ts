@@ -7,10 +7,11 @@
  * Similar to generate-strategic-summary.ts but focused on a single role family
  */
 
-import { generateObject } from 'ai'
+import { generateObject } from './replay'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { z } from 'zod'
 import { trackCost } from './costs'
+import { ECONOMY_ANTHROPIC_MODEL } from './budgets'
 import type { HBJobFamily, HBResponse } from '@/app/hiringbrand/report/components/shared/types'
 
 const anthropic = createAnthropic({
@@ -49,6 +50,9 @@ export interface RoleActionPlanInput {
   }
 
   runId: string
+
+  // Use the cheaper model (set when the scan is near its AI budget)
+  economy?: boolean
 }
 
 // Zod schemas
@@ -107,6 +111,7 @@ export async function generateRoleActionPlan(
     differentiationInsights,
     responses,
     runId,
+    economy = false,
   } = input
 
   // Calculate sentiment distribution for this role family
@@ -213,9 +218,11 @@ Create a strategic summary that helps ${companyName} strengthen their employer b
 
 Keep recommendations SPECIFIC to ${roleFamilyDisplayName} — not generic employer branding advice.`
 
+  const modelId = economy ? ECONOMY_ANTHROPIC_MODEL : 'claude-sonnet-4-20250514'
+
   try {
     const result = await generateObject({
-      model: anthropic('claude-sonnet-4-20250514'),
+      model: anthropic(modelId),
       schema: roleActionPlanSchema,
       system: systemPrompt,
       prompt: userPrompt,
@@ -227,7 +234,7 @@ Keep recommendations SPECIFIC to ${roleFamilyDisplayName} — not generic employ
       await trackCost({
         runId,
         step: `role_action_plan_${roleFamily}`,
-        model: 'anthropic/claude-sonnet-4-20250514',
+        model: `anthropic/${modelId}`,
         usage: {
           inputTokens: result.usage.inputTokens || 0,
           outputTokens: result.usage.outputTokens || 0,
@@ -11,10 +11,11 @@
  * - Prioritized recommendations
  */
 
-import { generateObject } from 'ai'
+import { generateObject } from './replay'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { z } from 'zod'
 import { trackCost } from './costs'
+import { ECONOMY_ANTHROPIC_MODEL } from './budgets'
 import type { CompetitorAnalysis, EmployerDimension } from './compare-employers'
 
 const anthropic = createAnthropic({
@@ -52,6 +53,9 @@ export interface StrategicSummaryInput {
   topCompetitors: Array<{ name: string; count: number }>
 
   runId: string
+
+  // Use the cheaper model (set when the scan is near its AI budget)
+  economy?: boolean
 }
 
 // Zod schemas for structured output
@@ -124,6 +128,7 @@ export async function generateStrategicSummary(
     sentimentCounts,
     topCompetitors,
     runId,
+    economy = false,
   } = input
 
   // Get target employer data
@@ -224,9 +229,11 @@ ${competitorHighlights}
 
 Create a strategic summary that a recruitment agent could confidently present to this client. Remember: lead with strengths, frame gaps as opportunities, and keep the tone constructive throughout. The executive summary must follow the strength → watch → opportunity arc.`
 
+  const modelId = economy ? ECONOMY_ANTHROPIC_MODEL : 'claude-sonnet-4-20250514'
+
   try {
     const result = await generateObject({
-      model: anthropic('claude-sonnet-4-20250514'),
+      model: anthropic(modelId),
       schema: strategicSummarySchema,
       system: systemPrompt,
       prompt: userPrompt,
@@ -237,7 +244,7 @@ Create a strategic summary that a recruitment agent could confidently present to
       await trackCost({
         runId,
         step: 'strategic_summary',
-        model: 'anthropic/claude-sonnet-4-20250514',
+        model: `anthropic/${modelId}`,
         usage: {
           inputTokens: result.usage.inputTokens || 0,
           outputTokens: result.usage.outputTokens || 0,
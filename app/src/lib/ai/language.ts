@@ -0,0 +1,64 @@
+/**
+ * Scan Language
+ * The language a domain subscription (or HiringBrand monitored domain) is scanned in.
+ * Questions are researched and asked in that language, AI answers come back in it,
+ * and non-English answers get an English translation for the report
+ * (llm_responses.response_translation, scan_prompts.prompt_translation).
+ */
+
+export interface ScanLanguage {
+  code: string        // ISO 639-1: "mi"
+  name: string        // English name: "Maori"
+  nativeName: string  // "Te Reo Māori"
+}
+
+export const DEFAULT_LANGUAGE = 'en'
+
+export const SUPPORTED_LANGUAGES: ScanLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'mi', name: 'Maori', nativeName: 'Te Reo Māori' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'sv', name: 'Swedish', nativeName: 'Svenska' },
+  { code: 'da', name: 'Danish', nativeName: 'Dansk' },
+  { code: 'no', name: 'Norwegian', nativeName: 'Norsk' },
+  { code: 'fi', name: 'Finnish', nativeName: 'Suomi' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia' },
+  { code: 'ms', name: 'Malay', nativeName: 'Bahasa Melayu' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+]
+
+export function isSupportedLanguage(code: string | null | undefined): boolean {
+  return !!code && SUPPORTED_LANGUAGES.some(l => l.code === code)
+}
+
+export function isEnglish(code: string | null | undefined): boolean {
+  return !code || code === DEFAULT_LANGUAGE
+}
+
+/**
+ * Language for a stored code, falling back to English for unknown codes
+ */
+export function getLanguage(code: string | null | undefined): ScanLanguage {
+  return SUPPORTED_LANGUAGES.find(l => l.code === code) || SUPPORTED_LANGUAGES[0]
+}
+
+/**
+ * Prompt suffix asking a model to write something in the scan language
+ * ("every query", "your answer"). Empty for English so English prompts are unchanged
+ */
+export function languagePromptNote(code: string | null | undefined, what: string): string {
+  if (isEnglish(code)) return ''
+  const language = getLanguage(code)
+  return `\n\nLANGUAGE: Write ${what} in ${language.name} (${language.nativeName}), the way native speakers would - not a word-for-word translation from English. Keep business, product and place names as they are normally written.`
+}
@@ -0,0 +1,233 @@
+/**
+ * llms.txt & AI Discovery Files
+ * Audits the files sites publish for AI systems (llms.txt, llms-full.txt and
+ * .well-known equivalents) and generates a ready-to-publish llms.txt from the
+ * crawl and business analysis
+ *
+ * Format reference: https://llmstxt.org
+ *   # Site name                      (required H1)
+ *   > One-paragraph summary          (recommended blockquote)
+ *   Optional free-text details
+ *   ## Section                       (H2 sections of link lists)
+ *   - [Page name](https://url): optional notes
+ *
+ * Fetching happens in crawl.ts.
+ */
+
+import type { BusinessAnalysis } from './analyze'
+
+export type AiDiscoveryFileKind = 'llms_txt' | 'llms_full_txt' | 'well_known_llms_txt' | 'ai_plugin'
+
+export interface AiDiscoveryFile {
+  kind: AiDiscoveryFileKind
+  path: string
+  found: boolean
+  valid: boolean
+  issues: string[]
+  bytes: number | null
+  linkCount: number | null // llms.txt variants only
+}
+
+/**
+ * Result of checking all AI discovery files, stored on site_analyses.ai_discovery
+ */
+export interface AiDiscoveryAudit {
+  checkedAt: string
+  files: AiDiscoveryFile[]
+}
+
+export interface LlmsTxtValidation {
+  valid: boolean
+  issues: string[]
+  title: string | null
+  summary: string | null
+  sections: string[]
+  linkCount: number
+}
+
+/**
+ * Page data the generator needs (subset of a crawled page)
+ */
+export interface LlmsTxtPage {
+  url: string
+  path: string
+  title: string | null
+  description: string | null
+  h1: string | null
+}
+
+export const AI_DISCOVERY_FILES: Array<{ kind: AiDiscoveryFileKind; path: string }> = [
+  { kind: 'llms_txt', path: '/llms.txt' },
+  { kind: 'llms_full_txt', path: '/llms-full.txt' },
+  { kind: 'well_known_llms_txt', path: '/.well-known/llms.txt' },
+  { kind: 'ai_plugin', path: '/.well-known/ai-plugin.json' },
+]
+
+// Keep llms.txt small enough for a model's context; llms-full.txt can be larger
+const MAX_LLMS_TXT_BYTES = 100 * 1024
+
+const LINK_PATTERN = /^\s*[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)(?::\s*(.*))?$/
+
+/**
+ * Validate llms.txt (or llms-full.txt) content against the llmstxt.org format
+ */
+export function validateLlmsTxt(content: string, options: { full?: boolean } = {}): LlmsTxtValidation {
+  const issues: string[] = []
+  const lines = content.split(/\r?\n/)
+  const trimmed = content.trim()
+
+  // Many sites return their HTML app shell (200) for unknown paths
+  if (/^<(!doctype|html|head|body)/i.test(trimmed)) {
+    return {
+      valid: false,
+      issues: ['Served as an HTML page, not a Markdown text file'],
+      title: null,
+      summary: null,
+      sections: [],
+      linkCount: 0,
+    }
+  }
+
+  const firstContentLine = lines.find(l => l.trim().length > 0)?.trim() || ''
+  const title = firstContentLine.startsWith('# ') ? firstContentLine.slice(2).trim() : null
+  if (!title) issues.push('Must start with an H1 title ("# Site name")')
+
+  const summaryLine = lines.find(l => l.trim().startsWith('>'))
+  const summary = summaryLine ? summaryLine.trim().replace(/^>\s*/, '') : null
+  if (!summary) issues.push('Missing a blockquote summary ("> What the site is about")')
+
+  const sections = lines.filter(l => /^##\s+\S/.test(l)).map(l => l.replace(/^##\s+/, '').trim())
+  if (!options.full && sections.length === 0) issues.push('No "## Section" headings with page links')
+
+  let linkCount = 0
+  let badLinks = 0
+  for (const line of lines) {
+    const match = line.match(LINK_PATTERN)
+    if (!match) continue
+    linkCount++
+    try {
+      new URL(match[2])
+    } catch {
+      badLinks++
+    }
+  }
+  if (!options.full && linkCount === 0) issues.push('No Markdown links ("- [Page](https://...)") to key pages')
+  if (badLinks > 0) issues.push(`${badLinks} link${badLinks === 1 ? '' : 's'} without an absolute URL`)
+
+  if (!options.full && new TextEncoder().encode(content).length > MAX_LLMS_TXT_BYTES) {
+    issues.push('Larger than 100KB - move detail into llms-full.txt')
+  }
+
+  return {
+    // Summary is recommended, not required
+    valid: issues.every(i => i.startsWith('Missing a blockquote')),
+    issues,
+    title,
+    summary,
+    sections,
+    linkCount,
+  }
+}
+
+/**
+ * Validate an OpenAI-style plugin manifest (/.well-known/ai-plugin.json)
+ */
+export function validateAiPluginManifest(content: string): { valid: boolean; issues: string[] } {
+  try {
+    const manifest = JSON.parse(content) as Record<string, unknown>
+    const missing = ['schema_version', 'name_for_model', 'description_for_model', 'api']
+      .filter(field => !manifest[field])
+    return {
+      valid: missing.length === 0,
+      issues: missing.map(field => `Missing "${field}"`),
+    }
+  } catch {
+    return { valid: false, issues: ['Not valid JSON'] }
+  }
+}
+
+/**
+ * Generate a ready-to-publish llms.txt from the crawl and business analysis
+ */
+export function generateLlmsTxt(input: {
+  domain: string
+  analysis: Pick<BusinessAnalysis, 'businessName' | 'businessType' | 'services' | 'products' | 'location' | 'locations' | 'targetAudience' | 'industry'>
+  pages: LlmsTxtPage[]
+}): string {
+  const { domain, analysis } = input
+  const name = analysis.businessName || domain
+  const lines: string[] = [`# ${name}`, '']
+
+  // Summary: what, where, for whom
+  const businessType = analysis.businessType.toLowerCase()
+  let summary = `${name} is ${/^[aeiou]/.test(businessType) ? 'an' : 'a'} ${businessType}`
+  if (analysis.location) summary += ` based in ${analysis.location}`
+  if (analysis.services.length > 0) summary += `, offering ${joinList(analysis.services.slice(0, 4))}`
+  if (analysis.targetAudience) summary += ` for ${analysis.targetAudience}`
+  lines.push(`> ${summary}.`, '')
+
+  // Details
+  const details: string[] = []
+  if (analysis.industry) details.push(`- Industry: ${analysis.industry}`)
+  if (analysis.locations.length > 1) details.push(`- Service areas: ${analysis.locations.join(', ')}`)
+  if (analysis.services.length > 0) details.push(`- Services: ${analysis.services.join(', ')}`)
+  if (analysis.products.length > 0) details.push(`- Products: ${analysis.products.join(', ')}`)
+  details.push(`- Website: https://${domain}`)
+  lines.push(...details, '')
+
+  // Pages, grouped by what they are
+  const pages = dedupePages(input.pages)
+  const grouped = new Map<string, LlmsTxtPage[]>()
+  for (const page of pages) {
+    const section = sectionForPath(page.path)
+    grouped.set(section, [...(grouped.get(section) || []), page])
+  }
+
+  for (const section of SECTION_ORDER) {
+    const sectionPages = grouped.get(section)
+    if (!sectionPages || sectionPages.length === 0) continue
+
+    lines.push(`## ${section}`, '')
+    for (const page of sectionPages) {
+      const label = cleanText(page.title || page.h1 || page.path)
+      const notes = page.description ? `: ${cleanText(page.description)}` : ''
+      lines.push(`- [${label}](${page.url})${notes}`)
+    }
+    lines.push('')
+  }
+
+  return lines.join('\n').trim() + '\n'
+}
+
+// "Optional" is the llmstxt.org convention for links that can be skipped for a shorter context
+const SECTION_ORDER = ['Main Pages', 'Services', 'Products', 'Resources', 'Company', 'Optional']
+
+function sectionForPath(path: string): string {
+  const p = path.toLowerCase()
+  if (p === '/' || p === '') return 'Main Pages'
+  if (/(service|solution|what-we-do|treatment|practice-area)/.test(p)) return 'Services'
+  if (/(product|shop|store|collection|pricing|plans)/.test(p)) return 'Products'
+  if (/(blog|news|article|guide|resource|faq|help|docs|case-stud|insight)/.test(p)) return 'Resources'
+  if (/(about|team|contact|career|location|testimonial|review)/.test(p)) return 'Company'
+  if (/(privacy|terms|legal|cookie|sitemap|login|cart|checkout|account)/.test(p)) return 'Optional'
+  return 'Main Pages'
+}
+
+function dedupePages(pages: LlmsTxtPage[]): LlmsTxtPage[] {
+  const seen = new Set<string>()
+  return pages.filter(page => {
+    const key = page.path.replace(/\/$/, '') || '/'
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function cleanText(text: string): string {
+  return text.replace(/[\[\]\n\r]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 200)
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('')
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+}
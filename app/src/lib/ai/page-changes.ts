@@ -0,0 +1,194 @@
+/**
+ * Page Change Tracking
+ * Compares each page with the previous scan so weekly scans can skip unchanged
+ * pages, keep a per-page change history and verify completed actions
+ *
+ * Change detection order (cheapest first, see crawl.ts):
+ * 1. Sitemap <lastmod> unchanged since the previous scan - not fetched at all
+ * 2. Conditional GET (If-None-Match / If-Modified-Since) answered with 304
+ * 3. Fetched, but the content fingerprint matches the previous scan
+ */
+
+export type PageFetchStatus = 'fetched' | 'not_modified' | 'lastmod_unchanged'
+
+export type PageChangeType = 'added' | 'modified' | 'removed'
+
+export type PageChangeField = 'title' | 'description' | 'h1' | 'headings' | 'content' | 'schema'
+
+/**
+ * Caching and content fingerprint for one page, stored on crawled_pages
+ */
+export interface PageFingerprint {
+  contentHash: string | null
+  etag: string | null
+  lastModified: string | null   // Last-Modified response header
+  sitemapLastmod: string | null // <lastmod> from the sitemap
+}
+
+/**
+ * The parts of a crawled page that change detection compares
+ */
+export interface PageSnapshot {
+  url: string
+  path: string
+  title: string | null
+  description: string | null
+  h1: string | null
+  headings: string[]
+  wordCount: number
+  schemaTypes: string[]
+  contentHash: string | null
+}
+
+/**
+ * A page that was added, edited or removed since the previous scan
+ */
+export interface PageChange {
+  url: string
+  path: string
+  changeType: PageChangeType
+  changedFields: PageChangeField[]
+  wordCountBefore: number | null
+  wordCountAfter: number | null
+  summary: string
+}
+
+/**
+ * Crawl counts for incremental scans
+ */
+export interface CrawlStats {
+  fetched: number           // Downloaded and parsed
+  notModified: number       // Server answered 304
+  lastmodUnchanged: number  // Skipped - sitemap lastmod unchanged
+  changed: number           // Added or modified since the previous scan
+}
+
+// Word count swings smaller than this are treated as noise (dates, counters)
+const MIN_CONTENT_WORD_DELTA = 10
+
+/**
+ * Compare two snapshots of the same path (null = page absent in that scan)
+ */
+export function diffPageSnapshots(before: PageSnapshot | null, after: PageSnapshot | null): PageChange | null {
+  if (!before && !after) return null
+
+  if (!before && after) {
+    return {
+      url: after.url,
+      path: after.path,
+      changeType: 'added',
+      changedFields: [],
+      wordCountBefore: null,
+      wordCountAfter: after.wordCount,
+      summary: `New page (${after.wordCount} words)`,
+    }
+  }
+
+  if (before && !after) {
+    return {
+      url: before.url,
+      path: before.path,
+      changeType: 'removed',
+      changedFields: [],
+      wordCountBefore: before.wordCount,
+      wordCountAfter: null,
+      summary: 'Page removed from the site',
+    }
+  }
+
+  const prev = before as PageSnapshot
+  const next = after as PageSnapshot
+
+  const changedFields: PageChangeField[] = []
+  if (normalize(prev.title) !== normalize(next.title)) changedFields.push('title')
+  if (normalize(prev.description) !== normalize(next.description)) changedFields.push('description')
+  if (normalize(prev.h1) !== normalize(next.h1)) changedFields.push('h1')
+  if (prev.headings.map(normalize).join('|') !== next.headings.map(normalize).join('|')) changedFields.push('headings')
+  if (sortedKey(prev.schemaTypes) !== sortedKey(next.schemaTypes)) changedFields.push('schema')
+
+  const wordDelta = next.wordCount - prev.wordCount
+  const hashChanged = !!prev.contentHash && !!next.contentHash && prev.contentHash !== next.contentHash
+  if (Math.abs(wordDelta) >= MIN_CONTENT_WORD_DELTA || (hashChanged && changedFields.length === 0)) {
+    changedFields.push('content')
+  }
+
+  if (changedFields.length === 0) return null
+
+  return {
+    url: next.url,
+    path: next.path,
+    changeType: 'modified',
+    changedFields,
+    wordCountBefore: prev.wordCount,
+    wordCountAfter: next.wordCount,
+    summary: describeChange(prev, next, changedFields),
+  }
+}
+
+/**
+ * Path an action item targets, or null if it isn't a specific page
+ * (target_page may be a URL, a path or "Homepage"). Lowercased for matching
+ * against crawled pages - use targetPagePath for a path to fetch
+ */
+export function normalizeTargetPath(targetPage: string | null): string | null {
+  const path = targetPagePath(targetPage)
+  return path ? normalizePath(path) : null
+}
+
+/**
+ * Path an action item targets with its case kept (paths can be case-sensitive),
+ * or null if it isn't a specific page
+ */
+export function targetPagePath(targetPage: string | null): string | null {
+  if (!targetPage) return null
+  const target = targetPage.trim()
+
+  if (/^home(page)?$/i.test(target)) return '/'
+  if (/^https?:\/\//i.test(target)) {
+    try {
+      return new URL(target).pathname.replace(/\/+$/, '') || '/'
+    } catch {
+      return null
+    }
+  }
+  if (target.startsWith('/')) return target.split(/[?#\s]/)[0].replace(/\/+$/, '') || '/'
+  return null
+}
+
+export function normalizePath(path: string): string {
+  const trimmed = path.replace(/\/+$/, '').toLowerCase()
+  return trimmed || '/'
+}
+
+function describeChange(prev: PageSnapshot, next: PageSnapshot, fields: PageChangeField[]): string {
+  const parts: string[] = []
+  if (fields.includes('title')) parts.push(`title changed to "${truncate(next.title)}"`)
+  if (fields.includes('h1')) parts.push(`H1 changed to "${truncate(next.h1)}"`)
+  if (fields.includes('description')) parts.push(next.description ? 'meta description updated' : 'meta description removed')
+  if (fields.includes('headings')) parts.push('headings updated')
+  if (fields.includes('schema')) {
+    const added = next.schemaTypes.filter(t => !prev.schemaTypes.includes(t))
+    const removed = prev.schemaTypes.filter(t => !next.schemaTypes.includes(t))
+    if (added.length > 0) parts.push(`added ${added.join(', ')} schema`)
+    if (removed.length > 0) parts.push(`removed ${removed.join(', ')} schema`)
+  }
+  if (fields.includes('content')) {
+    const delta = next.wordCount - prev.wordCount
+    parts.push(delta === 0 ? 'content edited' : `content ${delta > 0 ? '+' : ''}${delta} words`)
+  }
+  const summary = parts.join(', ')
+  return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
+
+function normalize(value: string | null): string {
+  return (value || '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function sortedKey(values: string[]): string {
+  return [...new Set(values)].sort().join('|')
+}
+
+function truncate(value: string | null): string {
+  const text = value || ''
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
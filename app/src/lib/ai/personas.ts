@@ -0,0 +1,112 @@
+/**
+ * Buyer Personas
+ * Buyers a domain subscriber defines - a role, budget, company size and pain points.
+ * Questions are researched from each persona's viewpoint and tagged with it
+ * (subscriber_questions.persona_id), and each scan copies the tag onto its prompts
+ * (scan_prompts.persona_id, persona_name) so visibility can be broken down by persona:
+ * "visible to office managers, invisible to IT leads".
+ */
+
+import { REACH_WEIGHTS, isSearchPlatform, type SearchPlatform } from './platforms'
+
+export interface BuyerPersona {
+  id: string
+  domain_subscription_id: string
+  name: string                // "Office manager"
+  role: string | null         // "Runs facilities for a 40-person firm"
+  budget: string | null       // "$5k-10k a year"
+  company_size: string | null // "20-50 staff"
+  pain_points: string[]
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+export const MAX_PERSONAS = 5
+
+export const MAX_PAIN_POINTS = 5
+
+// Questions researched each time a persona's questions are generated
+export const PERSONA_QUESTION_COUNT = 3
+
+/**
+ * Prompt suffix asking query research to think like this buyer
+ */
+export function personaPromptNote(
+  persona: Pick<BuyerPersona, 'name' | 'role' | 'budget' | 'company_size' | 'pain_points'> | null | undefined
+): string {
+  if (!persona) return ''
+
+  const details = [
+    `Who they are: ${persona.name}${persona.role ? ` - ${persona.role}` : ''}`,
+    persona.company_size ? `Company size: ${persona.company_size}` : null,
+    persona.budget ? `Budget: ${persona.budget}` : null,
+    persona.pain_points.length > 0 ? `Problems they want solved: ${persona.pain_points.join('; ')}` : null,
+  ].filter(Boolean)
+
+  return `\n\nBUYER PERSONA: Write every query as this specific buyer would ask it - their situation, budget and problems, in their own words.\n${details.join('\n')}`
+}
+
+export interface PersonaBreakdown {
+  personaName: string | null // null for questions not asked for a persona
+  responses: number
+  mentions: number
+  score: number // Reach-weighted mention rate, 0-100 (same weighting as the visibility score)
+  byPlatform: Partial<Record<SearchPlatform, { responses: number; mentions: number }>>
+}
+
+/**
+ * Visibility per persona from one scan's responses. Empty when no question was
+ * asked for a persona; otherwise general questions come last
+ */
+export function groupResultsByPersona(
+  responses: {
+    platform: string
+    domain_mentioned: boolean
+    prompt: { persona_name?: string | null } | null
+  }[]
+): PersonaBreakdown[] {
+  if (!responses.some(r => r.prompt?.persona_name)) return []
+
+  const groups = new Map<string | null, PersonaBreakdown>()
+
+  for (const response of responses) {
+    if (!isSearchPlatform(response.platform)) continue
+
+    const personaName = response.prompt?.persona_name || null
+    const group = groups.get(personaName) || { personaName, responses: 0, mentions: 0, score: 0, byPlatform: {} }
+    const platform = group.byPlatform[response.platform] || { responses: 0, mentions: 0 }
+
+    group.responses++
+    platform.responses++
+    if (response.domain_mentioned) {
+      group.mentions++
+      platform.mentions++
+    }
+    group.byPlatform[response.platform] = platform
+    groups.set(personaName, group)
+  }
+
+  for (const group of groups.values()) {
+    group.score = reachWeightedScore(group.byPlatform)
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    (a.personaName === null ? 1 : 0) - (b.personaName === null ? 1 : 0) || b.score - a.score
+  )
+}
+
+/**
+ * Weighted over the platforms that answered, so personas asked on the same
+ * platforms are comparable with each other
+ */
+function reachWeightedScore(byPlatform: PersonaBreakdown['byPlatform']): number {
+  let weighted = 0
+  let totalWeight = 0
+  for (const [platform, counts] of Object.entries(byPlatform) as [SearchPlatform, { responses: number; mentions: number }][]) {
+    if (counts.responses === 0) continue
+    weighted += (counts.mentions / counts.responses) * REACH_WEIGHTS[platform]
+    totalWeight += REACH_WEIGHTS[platform]
+  }
+  return totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0
+}
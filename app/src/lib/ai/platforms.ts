@@ -0,0 +1,121 @@
+/**
+ * AI Platform Registry
+ * Single source of truth for the AI search engines we track
+ *
+ * Every engine is registered here once with its display metadata, reach weight
+ * and cost key. Scans, scoring, logging, report tabs and exports all iterate
+ * this registry instead of hard-coding the platform list.
+ *
+ * This file is client-safe (no SDK imports) so report components can use it.
+ * The query adapter for each engine lives in search-providers.ts, keyed by the
+ * same id - TypeScript enforces that every registered engine has an adapter.
+ *
+ * To add an engine (e.g. Copilot, Grok, Le Chat, DeepSeek, Meta AI):
+ * 1. Add an entry to PLATFORM_REGISTRY below
+ * 2. Add its adapter to SEARCH_ADAPTERS in search-providers.ts
+ * 3. Add its model pricing to costs.ts
+ */
+
+export type LogColor = 'green' | 'yellow' | 'blue' | 'magenta' | 'cyan' | 'red' | 'gray'
+
+export interface PlatformDefinition {
+  name: string           // Display name: "ChatGPT"
+  description: string    // Vendor/model description: "OpenAI GPT-4"
+  color: string          // CSS color for report UI (may be a CSS variable)
+  chartColor: string     // Hex color for SVG charts and exports
+  logColor: LogColor     // Terminal color for the dev logger
+  reachWeight: number    // Points per mention, based on share of AI referral traffic
+  costModel: string      // Model key passed to trackCost (see costs.ts MODEL_MAP)
+  granularSteps: boolean // Run each query as its own Inngest step (flaky/slow APIs)
+  enabled: boolean       // Include in scans (disabled engines keep their history)
+}
+
+/**
+ * Reach weights reflect real-world AI traffic share:
+ * - ChatGPT: ~80% of AI referral traffic → 10 points per mention
+ * - Perplexity: ~12% of AI referral traffic → 4 points per mention
+ * - Gemini: ~5% of AI referral traffic → 2 points per mention
+ * - Claude: ~1% of AI referral traffic → 1 point per mention
+ */
+export const PLATFORM_REGISTRY = {
+  chatgpt: {
+    name: 'ChatGPT',
+    description: 'OpenAI GPT-4',
+    color: 'var(--red)',
+    chartColor: '#ef4444',
+    logColor: 'green',
+    reachWeight: 10,
+    costModel: 'openai/o4-mini-search',
+    granularSteps: true,
+    enabled: true,
+  },
+  claude: {
+    name: 'Claude',
+    description: 'Anthropic Claude',
+    color: 'var(--green)',
+    chartColor: '#22c55e',
+    logColor: 'magenta',
+    reachWeight: 1,
+    costModel: 'anthropic/claude-sonnet-4-20250514',
+    granularSteps: false,
+    enabled: true,
+  },
+  gemini: {
+    name: 'Gemini',
+    description: 'Google Gemini',
+    color: 'var(--blue)',
+    chartColor: '#3b82f6',
+    logColor: 'blue',
+    reachWeight: 2,
+    costModel: 'google/gemini-2.5-flash-grounded',
+    granularSteps: false,
+    enabled: true,
+  },
+  perplexity: {
+    name: 'Perplexity',
+    description: 'Perplexity AI',
+    color: '#1FB8CD',
+    chartColor: '#1FB8CD',
+    logColor: 'cyan',
+    reachWeight: 4,
+    costModel: 'perplexity/sonar-pro',
+    granularSteps: true,
+    enabled: true,
+  },
+} as const satisfies Record<string, PlatformDefinition>
+
+export type SearchPlatform = keyof typeof PLATFORM_REGISTRY
+
+// All registered platforms in display order
+export const ALL_PLATFORMS = Object.keys(PLATFORM_REGISTRY) as SearchPlatform[]
+
+// Platforms included in new scans
+export const SEARCH_PLATFORMS = ALL_PLATFORMS.filter(p => PLATFORM_REGISTRY[p].enabled)
+
+export const REACH_WEIGHTS = Object.fromEntries(
+  ALL_PLATFORMS.map(p => [p, PLATFORM_REGISTRY[p].reachWeight])
+) as Record<SearchPlatform, number>
+
+// Maximum possible points if mentioned by every enabled platform
+export const MAX_REACH_POINTS = SEARCH_PLATFORMS.reduce((sum, p) => sum + REACH_WEIGHTS[p], 0)
+
+/**
+ * Type guard for platform ids coming from the database or API params
+ */
+export function isSearchPlatform(value: string): value is SearchPlatform {
+  return value in PLATFORM_REGISTRY
+}
+
+/**
+ * Look up a platform definition, tolerating unknown ids from older data
+ */
+export function getPlatform(id: string): PlatformDefinition | undefined {
+  return isSearchPlatform(id) ? PLATFORM_REGISTRY[id] : undefined
+}
+
+/**
+ * Display name for a platform id, falling back to the raw id
+ */
+export function getPlatformName(id: string): string {
+  return getPlatform(id)?.name ?? id
+}
@@ -3,7 +3,8 @@
  * Generates relevant prompts based on business analysis
  */
 
-import { generateText, createGateway } from 'ai'
+import { createGateway } from 'ai'
+import { generateText } from './replay'
 import type { BusinessAnalysis } from './analyze'
 import { trackCost } from './costs'
 
@@ -4,11 +4,14 @@
  * This creates more realistic visibility testing that reflects actual user behavior
  */
 
-import { generateText, createGateway } from 'ai'
+import { createGateway } from 'ai'
+import { generateText } from './replay'
 import { openai } from '@ai-sdk/openai'
 import { anthropic } from '@ai-sdk/anthropic'
 import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { trackCost } from './costs'
+import { languagePromptNote } from './language'
+import { personaPromptNote, type BuyerPersona } from './personas'
 
 // Initialize Google with explicit API key (supports multiple env var names)
 const google = createGoogleGenerativeAI({
@@ -207,12 +210,15 @@ function enrichWithKeyPhrases(
 /**
  * Ask a single LLM for search query suggestions
  * All platforms use gateway for standard generation
+ * With a persona, queries are written from that buyer's viewpoint
  */
 export async function researchQueriesOnPlatform(
   analysis: BusinessAnalysis,
   platform: Platform,
   runId: string,
-  keyPhrases: string[]
+  keyPhrases: string[],
+  language?: string,
+  persona?: BuyerPersona | null
 ): Promise<RawQuerySuggestion[]> {
   // Detect if this is a retailer
   const isRetailer = isRetailerBusiness(analysis.businessType, analysis.products, keyPhrases)
@@ -235,6 +241,8 @@ export async function researchQueriesOnPlatform(
     .replace(/{products}/g, enriched.products.slice(0, 5).join(', ') || 'Not specified')
     .replace(/{location}/g, analysis.location || 'Not specified')
     .replace(/{keyPhrases}/g, keyPhrases.slice(0, 8).join(', ') || 'Not specified')
+    + personaPromptNote(persona)
+    + languagePromptNote(language, 'every query')
 
   try {
     // Use gateway if available, otherwise use direct SDK
@@ -367,7 +375,9 @@ export async function researchQueries(
   analysis: BusinessAnalysis,
   runId: string,
   onProgress?: (platform: Platform) => void,
-  keyPhrases: string[] = []
+  keyPhrases: string[] = [],
+  language?: string,
+  persona?: BuyerPersona | null
 ): Promise<RawQuerySuggestion[]> {
   const platforms: Platform[] = ['chatgpt', 'claude', 'gemini']
   const allSuggestions: RawQuerySuggestion[] = []
@@ -378,7 +388,7 @@ export async function researchQueries(
   // Query each platform sequentially to avoid rate limits
   for (const platform of platforms) {
     onProgress?.(platform)
-    const suggestions = await researchQueriesOnPlatform(analysis, platform, runId, phrases)
+    const suggestions = await researchQueriesOnPlatform(analysis, platform, runId, phrases, language, persona)
     allSuggestions.push(...suggestions)
 
     // Small delay between platforms
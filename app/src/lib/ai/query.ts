@@ -3,8 +3,10 @@
  * Queries multiple AI platforms via Vercel AI Gateway
  */
 
-import { generateText, createGateway } from 'ai'
+import { createGateway } from 'ai'
+import { generateText } from './replay'
 import { trackCost } from './costs'
+import { matchBrandMention } from './brand-matcher'
 
 // Initialize Vercel AI Gateway
 const gateway = createGateway({
@@ -78,7 +80,7 @@ async function queryPlatform(
     }
 
     // Check if domain is mentioned
-    const { mentioned, position } = checkDomainMention(response, domain)
+    const { mentioned, position } = matchBrandMention(response, domain)
 
     // Extract competitors using AI
     const competitors = await extractCompetitors(response, domain, runId)
@@ -107,32 +109,6 @@ async function queryPlatform(
   }
 }
 
-/**
- * Check if domain is mentioned in response
- */
-function checkDomainMention(
-  response: string,
-  domain: string
-): { mentioned: boolean; position: number | null } {
-  const lowerResponse = response.toLowerCase()
-  const domainVariations = [
-    domain.toLowerCase(),
-    domain.toLowerCase().replace(/\.(com|io|co|net|org|au).*$/, ''),
-    domain.toLowerCase().replace(/^www\./, ''),
-  ]
-
-  for (const variation of domainVariations) {
-    const index = lowerResponse.indexOf(variation)
-    if (index !== -1) {
-      // Calculate position (1st, 2nd, or 3rd third)
-      const position = Math.ceil(((index + 1) / response.length) * 3)
-      return { mentioned: true, position: Math.min(position, 3) }
-    }
-  }
-
-  return { mentioned: false, position: null }
-}
-
 const COMPETITOR_EXTRACTION_PROMPT = `Extract company/business names mentioned in this AI response. Only extract actual company names, NOT:
 - Generic terms (e.g., "AI consulting firms", "marketing agencies")
 - Locations (cities, countries, regions)
@@ -0,0 +1,166 @@
+/**
+ * Question Performance
+ * Per-question stats across a subscriber's scan history, so they can see which
+ * questions are worth keeping: mention rate per platform, run-to-run volatility,
+ * how crowded the answers are with competitors and when the question last changed.
+ *
+ * Questions that never mention the brand and don't trigger business recommendations
+ * at all are flagged for retirement and can be swapped for researched alternatives.
+ */
+
+import type { SearchPlatform } from './platforms'
+
+/**
+ * One AI response to a question in a completed scan
+ */
+export interface QuestionResponseSample {
+  runId: string
+  runDate: string
+  platform: SearchPlatform
+  mentioned: boolean
+  competitors: string[]
+}
+
+export type QuestionVerdict =
+  | 'new'          // Too few scans since the last edit to judge
+  | 'strong'       // Mentioned in most answers
+  | 'contested'    // Mentioned sometimes
+  | 'crowded_out'  // Never mentioned, competitors are - a target worth fighting for
+  | 'dead'         // Never mentioned and AI rarely recommends anyone - consider retiring
+
+export interface QuestionPerformance {
+  questionId: string
+  promptText: string
+  lastChangedAt: string
+  runs: number                 // Scans that asked this question (any wording)
+  runsSinceChange: number      // Scans with the current wording
+  responses: number
+  mentionRate: number | null   // 0-100 across all responses
+  platformMentionRates: Partial<Record<SearchPlatform, number>>
+  trend: { runId: string; runDate: string; mentionRate: number }[] // Oldest first
+  volatility: number | null    // Mean run-to-run change in mention rate (percentage points)
+  competitorCrowding: number | null // Average competitors named per response
+  topCompetitors: string[]
+  verdict: QuestionVerdict
+}
+
+// Scans with the current wording before a question gets a verdict
+export const MIN_RUNS_FOR_VERDICT = 3
+
+// Below this many competitors per answer, AI isn't treating the question as a request for businesses
+const DEAD_CROWDING_THRESHOLD = 0.5
+
+// Run-to-run swings above this (percentage points) make a question volatile
+export const VOLATILE_THRESHOLD = 25
+
+/**
+ * Stats for one question from its responses across scans
+ */
+export function computeQuestionPerformance(
+  question: { id: string; promptText: string; lastChangedAt: string },
+  samples: QuestionResponseSample[]
+): QuestionPerformance {
+  const byRun = new Map<string, QuestionResponseSample[]>()
+  for (const sample of samples) {
+    const list = byRun.get(sample.runId) || []
+    list.push(sample)
+    byRun.set(sample.runId, list)
+  }
+
+  const trend = Array.from(byRun.entries())
+    .map(([runId, runSamples]) => ({
+      runId,
+      runDate: runSamples[0].runDate,
+      mentionRate: percentage(runSamples.filter(s => s.mentioned).length, runSamples.length),
+    }))
+    .sort((a, b) => new Date(a.runDate).getTime() - new Date(b.runDate).getTime())
+
+  const platformMentionRates: Partial<Record<SearchPlatform, number>> = {}
+  const platforms = new Set(samples.map(s => s.platform))
+  for (const platform of platforms) {
+    const platformSamples = samples.filter(s => s.platform === platform)
+    platformMentionRates[platform] = percentage(platformSamples.filter(s => s.mentioned).length, platformSamples.length)
+  }
+
+  let volatility: number | null = null
+  if (trend.length >= 2) {
+    let totalChange = 0
+    for (let i = 1; i < trend.length; i++) {
+      totalChange += Math.abs(trend[i].mentionRate - trend[i - 1].mentionRate)
+    }
+    volatility = Math.round(totalChange / (trend.length - 1))
+  }
+
+  const competitorCounts = new Map<string, number>()
+  let competitorMentions = 0
+  for (const sample of samples) {
+    competitorMentions += sample.competitors.length
+    for (const name of sample.competitors) {
+      competitorCounts.set(name, (competitorCounts.get(name) || 0) + 1)
+    }
+  }
+  const topCompetitors = Array.from(competitorCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([name]) => name)
+
+  // Verdicts only use answers to the current wording
+  const changedAt = new Date(question.lastChangedAt).getTime()
+  const currentSamples = samples.filter(s => new Date(s.runDate).getTime() >= changedAt)
+  const runsSinceChange = new Set(currentSamples.map(s => s.runId)).size
+
+  return {
+    questionId: question.id,
+    promptText: question.promptText,
+    lastChangedAt: question.lastChangedAt,
+    runs: trend.length,
+    runsSinceChange,
+    responses: samples.length,
+    mentionRate: samples.length > 0 ? percentage(samples.filter(s => s.mentioned).length, samples.length) : null,
+    platformMentionRates,
+    trend,
+    volatility,
+    competitorCrowding: samples.length > 0 ? Math.round((competitorMentions / samples.length) * 10) / 10 : null,
+    topCompetitors,
+    verdict: judgeQuestion(currentSamples, runsSinceChange),
+  }
+}
+
+/**
+ * Questions to suggest retiring, worst first
+ */
+export function findRetireCandidates(performance: QuestionPerformance[]): QuestionPerformance[] {
+  return performance
+    .filter(p => p.verdict === 'dead')
+    .sort((a, b) => (a.competitorCrowding ?? 0) - (b.competitorCrowding ?? 0))
+}
+
+/**
+ * Normalize question text for matching scan prompts to subscriber questions
+ */
+export function normalizeQuestionText(text: string): string {
+  return text.toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Drop suggested replacements the subscriber already asks (or has retired)
+ */
+export function excludeExistingQuestions<T extends { query: string }>(suggestions: T[], existingTexts: string[]): T[] {
+  const existing = new Set(existingTexts.map(normalizeQuestionText))
+  return suggestions.filter(s => !existing.has(normalizeQuestionText(s.query)))
+}
+
+function judgeQuestion(samples: QuestionResponseSample[], runs: number): QuestionVerdict {
+  if (runs < MIN_RUNS_FOR_VERDICT || samples.length === 0) return 'new'
+
+  const mentionRate = percentage(samples.filter(s => s.mentioned).length, samples.length)
+  if (mentionRate >= 50) return 'strong'
+  if (mentionRate > 0) return 'contested'
+
+  const crowding = samples.reduce((sum, s) => sum + s.competitors.length, 0) / samples.length
+  return crowding < DEAD_CROWDING_THRESHOLD ? 'dead' : 'crowded_out'
+}
+
+function percentage(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0
+}
@@ -0,0 +1,283 @@
+/**
+ * Question Templates
+ * Subscriber questions with {location}, {service} or {audience} variables, e.g.
+ * "Who is the best {service} provider in {location}?". At scan time each template
+ * is expanded against the business analysis (locations, services, target audience),
+ * so one question covers every location the business serves.
+ *
+ * Expanded prompts keep the template text and the values used (scan_prompts.template_text
+ * and template_values) so results can be grouped by template and by value:
+ * "visible in Sydney, invisible in Brisbane".
+ */
+
+export type TemplateVariable = 'location' | 'service' | 'audience'
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = ['location', 'service', 'audience']
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>
+
+export type TemplateValueLists = Record<TemplateVariable, string[]>
+
+// Values used per variable - keeps scans with many services affordable
+export const MAX_VALUES_PER_VARIABLE = 5
+
+// Prompts one template can expand into (values are spread evenly beyond this)
+export const MAX_TEMPLATE_EXPANSIONS = 8
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g
+
+/**
+ * Variables a question uses, in order of first appearance
+ */
+export function findTemplateVariables(text: string): TemplateVariable[] {
+  const found: TemplateVariable[] = []
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1].toLowerCase() as TemplateVariable
+    if (TEMPLATE_VARIABLES.includes(name) && !found.includes(name)) found.push(name)
+  }
+  return found
+}
+
+export function isQuestionTemplate(text: string): boolean {
+  return findTemplateVariables(text).length > 0
+}
+
+/**
+ * Problem with a question's placeholders, or null when it's fine to save
+ */
+export function validateTemplate(text: string): string | null {
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!TEMPLATE_VARIABLES.includes(match[1].toLowerCase() as TemplateVariable)) {
+      return `Unknown variable {${match[1]}} - use ${TEMPLATE_VARIABLES.map(v => `{${v}}`).join(', ')}`
+    }
+  }
+  return null
+}
+
+/**
+ * Values each variable expands to for a business
+ */
+export function templateValueLists(analysis: {
+  location: string | null
+  locations?: string[] | null
+  services?: string[] | null
+  targetAudience?: string | null
+}): TemplateValueLists {
+  return {
+    location: uniqueValues([analysis.location, ...(analysis.locations || [])]),
+    service: uniqueValues(analysis.services || []),
+    audience: uniqueValues([analysis.targetAudience]),
+  }
+}
+
+/**
+ * Substitute values into a template
+ */
+export function fillTemplate(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name.toLowerCase() as TemplateVariable]
+    return value ?? placeholder
+  })
+}
+
+/**
+ * Combinations of values for the variables a template uses, at most
+ * MAX_TEMPLATE_EXPANSIONS. When there are more, values are spread evenly so
+ * every value of every variable is used before any repeats. Returns nothing
+ * when a variable has no values for this business
+ */
+export function expandTemplate(
+  text: string,
+  lists: TemplateValueLists
+): { text: string; values: TemplateValues }[] {
+  const variables = findTemplateVariables(text)
+  if (variables.length === 0) return [{ text, values: {} }]
+  if (variables.some(variable => lists[variable].length === 0)) return []
+
+  let combinations: TemplateValues[] = [{}]
+  for (const variable of variables) {
+    const next: TemplateValues[] = []
+    for (const combination of combinations) {
+      for (const value of lists[variable]) {
+        next.push({ ...combination, [variable]: value })
+      }
+    }
+    combinations = next
+  }
+
+  return spreadCombinations(combinations, variables, MAX_TEMPLATE_EXPANSIONS)
+    .map(values => ({ text: fillTemplate(text, values), values }))
+}
+
+/**
+ * Pick `limit` combinations, each time taking the one whose values have been
+ * used least so far (earliest on ties)
+ */
+function spreadCombinations(
+  combinations: TemplateValues[],
+  variables: TemplateVariable[],
+  limit: number
+): TemplateValues[] {
+  if (combinations.length <= limit) return combinations
+
+  const uses = new Map<string, number>()
+  const remaining = [...combinations]
+  const picked: TemplateValues[] = []
+  const valueKeys = (values: TemplateValues) => variables.map(variable => `${variable}:${values[variable]}`)
+
+  while (picked.length < limit) {
+    let best = 0
+    let bestUses = Infinity
+    remaining.forEach((values, index) => {
+      const count = valueKeys(values).reduce((sum, key) => sum + (uses.get(key) || 0), 0)
+      if (count < bestUses) {
+        best = index
+        bestUses = count
+      }
+    })
+    const [values] = remaining.splice(best, 1)
+    for (const key of valueKeys(values)) uses.set(key, (uses.get(key) || 0) + 1)
+    picked.push(values)
+  }
+
+  // Back in combination order
+  return combinations.filter(values => picked.includes(values))
+}
+
+export interface TemplatePromptRow {
+  prompt_text: string
+  category: string
+  subscriber_question_id: string
+  template_text: string | null
+  template_values: TemplateValues | null
+  persona_id: string | null
+}
+
+export interface ExpandedSubscriberQuestions {
+  rows: TemplatePromptRow[]
+  skipped: string[] // Templates using a variable this business has no values for
+}
+
+/**
+ * scan_prompts rows for a scan's subscriber questions, with templates expanded.
+ * A template counts as one question against the tier's limit, so the rows are
+ * capped at maxPrompts: every question gets its first prompt before any
+ * template gets a second
+ */
+export function expandSubscriberQuestions(
+  questions: { id: string; prompt_text: string; category: string; persona_id?: string | null }[],
+  lists: TemplateValueLists,
+  maxPrompts: number
+): ExpandedSubscriberQuestions {
+  const skipped: string[] = []
+  const perQuestion = questions.map((question): TemplatePromptRow[] => {
+    if (!isQuestionTemplate(question.prompt_text)) {
+      return [{
+        prompt_text: question.prompt_text,
+        category: question.category,
+        subscriber_question_id: question.id,
+        template_text: null,
+        template_values: null,
+        persona_id: question.persona_id || null,
+      }]
+    }
+    const expansions = expandTemplate(question.prompt_text, lists)
+    if (expansions.length === 0) skipped.push(question.prompt_text)
+    return expansions.map(expansion => ({
+      prompt_text: expansion.text,
+      category: question.category,
+      subscriber_question_id: question.id,
+      template_text: question.prompt_text,
+      template_values: expansion.values,
+      persona_id: question.persona_id || null,
+    }))
+  })
+
+  // Round-robin across questions until the cap
+  const kept = perQuestion.map(() => 0)
+  let total = 0
+  for (let round = 0; total < maxPrompts; round++) {
+    let added = false
+    perQuestion.forEach((rows, index) => {
+      if (total < maxPrompts && round < rows.length) {
+        kept[index]++
+        total++
+        added = true
+      }
+    })
+    if (!added) break
+  }
+
+  return {
+    rows: perQuestion.flatMap((rows, index) => rows.slice(0, kept[index])),
+    skipped,
+  }
+}
+
+export interface TemplateValueResult {
+  variable: TemplateVariable
+  value: string
+  responses: number
+  mentions: number
+}
+
+export interface TemplateBreakdown {
+  templateText: string
+  responses: number
+  mentions: number
+  values: TemplateValueResult[] // Grouped by variable, best first
+}
+
+/**
+ * Mentions per template and per variable value, from one scan's responses
+ */
+export function groupResultsByTemplate(
+  responses: {
+    domain_mentioned: boolean
+    prompt: { template_text?: string | null; template_values?: TemplateValues | null } | null
+  }[]
+): TemplateBreakdown[] {
+  const templates = new Map<string, { responses: number; mentions: number; values: Map<string, TemplateValueResult> }>()
+
+  for (const response of responses) {
+    const templateText = response.prompt?.template_text
+    if (!templateText) continue
+
+    const entry = templates.get(templateText) || { responses: 0, mentions: 0, values: new Map() }
+    entry.responses++
+    if (response.domain_mentioned) entry.mentions++
+
+    for (const [variable, value] of Object.entries(response.prompt?.template_values || {})) {
+      if (!value) continue
+      const key = `${variable}:${value}`
+      const result = entry.values.get(key) || { variable: variable as TemplateVariable, value, responses: 0, mentions: 0 }
+      result.responses++
+      if (response.domain_mentioned) result.mentions++
+      entry.values.set(key, result)
+    }
+    templates.set(templateText, entry)
+  }
+
+  return Array.from(templates.entries()).map(([templateText, entry]) => ({
+    templateText,
+    responses: entry.responses,
+    mentions: entry.mentions,
+    values: Array.from(entry.values.values()).sort((a, b) =>
+      TEMPLATE_VARIABLES.indexOf(a.variable) - TEMPLATE_VARIABLES.indexOf(b.variable) ||
+      b.mentions / b.responses - a.mentions / a.responses
+    ),
+  }))
+}
+
+function uniqueValues(values: (string | null | undefined)[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const value of values) {
+    const trimmed = value?.trim()
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue
+    seen.add(trimmed.toLowerCase())
+    result.push(trimmed)
+    if (result.length >= MAX_VALUES_PER_VARIABLE) break
+  }
+  return result
+}
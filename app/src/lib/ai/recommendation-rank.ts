@@ -0,0 +1,214 @@
+/**
+ * Recommendation Ranking
+ * Extracts the ordered list of recommended entities from an AI answer
+ *
+ * "Which third of the response" says little about whether we were recommended
+ * first. Most recommendation answers are lists - numbered lists, bullets, or
+ * bolded names in prose - so we parse that order and record:
+ * - Our rank ("#2 of 7"), or null when we're mentioned outside the list
+ * - Each competitor's rank in the same list
+ *
+ * Ranks feed a position-weighted visibility score: being first counts more
+ * than being mentioned last.
+ */
+
+import { matchBrandMention, type BrandEntityProfile } from './brand-matcher'
+
+export interface RankedEntity {
+  name: string
+  rank: number     // 1-based position in the answer's recommendation order
+  isBrand: boolean // This entity is us
+}
+
+export interface RecommendationRanking {
+  brandRank: number | null // null when not in the list (or no list found)
+  rankedCount: number      // Entities in the list
+  entities: RankedEntity[]
+}
+
+interface ListItem {
+  name: string
+  urls: string[]
+}
+
+// Names longer than this are sentences, not entities
+const MAX_NAME_WORDS = 8
+const MAX_NAME_LENGTH = 80
+// Keep stored lists small
+const MAX_RANKED_ENTITIES = 20
+// Weight for a mention that isn't part of a ranked list
+const UNRANKED_MENTION_WEIGHT = 0.5
+// Weight for the last entry of a list (first entry is 1)
+const LAST_RANK_WEIGHT = 0.5
+
+const NUMBERED_ITEM = /^(\s*)(?:#{1,6}\s*)?\d{1,2}[.)]\s+(.+)$/
+const BULLET_ITEM = /^(\s*)[-*•+]\s+(.+)$/
+const HEADING_ITEM = /^\s*#{2,6}\s+(.+)$/
+const BOLD_TEXT = /\*\*([^*\n]+?)\*\*|__([^_\n]+?)__/g
+const MARKDOWN_LINK = /\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)/g
+const BARE_URL = /https?:\/\/[^\s)\]]+/g
+
+/**
+ * Ordered entity names recommended in a response
+ *
+ * Preference: numbered list > top-level bullets > markdown headings > bold names
+ * in prose. Sub-bullets (features, prices) are ignored by only taking the
+ * shallowest indentation level.
+ */
+export function extractRankedEntities(response: string): ListItem[] {
+  if (!response) return []
+
+  const lines = response.split('\n')
+  const numbered: Array<ListItem & { indent: number }> = []
+  const bullets: Array<ListItem & { indent: number }> = []
+  const headings: ListItem[] = []
+
+  for (const line of lines) {
+    const numberedMatch = line.match(NUMBERED_ITEM)
+    if (numberedMatch) {
+      const item = parseListItem(numberedMatch[2])
+      if (item) numbered.push({ ...item, indent: numberedMatch[1].length })
+      continue
+    }
+    const bulletMatch = line.match(BULLET_ITEM)
+    if (bulletMatch) {
+      const item = parseListItem(bulletMatch[2])
+      if (item) bullets.push({ ...item, indent: bulletMatch[1].length })
+      continue
+    }
+    const headingMatch = line.match(HEADING_ITEM)
+    if (headingMatch) {
+      const item = parseListItem(headingMatch[1], true)
+      if (item) headings.push(item)
+    }
+  }
+
+  const topLevel = (items: Array<ListItem & { indent: number }>) => {
+    const minIndent = Math.min(...items.map(i => i.indent))
+    return items.filter(i => i.indent === minIndent).map(({ name, urls }) => ({ name, urls }))
+  }
+
+  let items: ListItem[] = []
+  if (numbered.length >= 2) {
+    items = topLevel(numbered)
+  } else if (bullets.length >= 2) {
+    items = topLevel(bullets)
+  } else if (headings.length >= 2) {
+    items = headings
+  } else {
+    items = Array.from(response.matchAll(BOLD_TEXT))
+      .map(m => cleanName(m[1] || m[2]))
+      .filter((name): name is string => !!name)
+      .map(name => ({ name, urls: [] }))
+  }
+
+  return dedupeItems(items).slice(0, MAX_RANKED_ENTITIES)
+}
+
+/**
+ * Rank us and the given competitors within a response's recommendation list
+ */
+export function rankRecommendations(
+  response: string,
+  domain: string,
+  profile?: BrandEntityProfile,
+  competitorNames: string[] = []
+): RecommendationRanking & { competitorRanks: Record<string, number | null> } {
+  const items = extractRankedEntities(response)
+
+  let brandRank: number | null = null
+  const entities: RankedEntity[] = items.map((item, index) => {
+    const rank = index + 1
+    const isBrand = brandRank === null &&
+      matchBrandMention(item.name, domain, profile, item.urls.map(url => ({ url }))).mentioned
+    if (isBrand) brandRank = rank
+    return { name: item.name, rank, isBrand }
+  })
+
+  const competitorRanks: Record<string, number | null> = {}
+  for (const competitor of competitorNames) {
+    const match = entities.find(e => !e.isBrand && namesMatch(e.name, competitor))
+    competitorRanks[competitor] = match ? match.rank : null
+  }
+
+  return { brandRank, rankedCount: entities.length, entities, competitorRanks }
+}
+
+/**
+ * Credit for one response in the position-weighted score (0-1)
+ * First in the list = 1, last = 0.5, linear in between.
+ * Mentioned outside a list = 0.5, not mentioned = 0.
+ */
+export function rankWeight(mentioned: boolean, rank: number | null | undefined, rankedCount: number | null | undefined): number {
+  if (!mentioned) return 0
+  if (!rank || !rankedCount) return UNRANKED_MENTION_WEIGHT
+  if (rankedCount <= 1) return 1
+  return 1 - (1 - LAST_RANK_WEIGHT) * ((rank - 1) / (rankedCount - 1))
+}
+
+/**
+ * "#2 of 7"
+ */
+export function formatRank(rank: number, rankedCount: number): string {
+  return `#${rank} of ${rankedCount}`
+}
+
+/**
+ * Entity name from a list item: the bold text or link text if present,
+ * else the text before the first separator (" - ", ":", "(")
+ */
+function parseListItem(content: string, isHeading = false): ListItem | null {
+  const urls = Array.from(content.matchAll(BARE_URL)).map(m => m[0])
+
+  const bold = content.match(/^\s*(?:\*\*([^*\n]+?)\*\*|__([^_\n]+?)__)/)
+  const link = content.match(/^\s*\[([^\]\n]+)\]\(/)
+
+  let name: string | null = null
+  if (bold) {
+    name = cleanName(bold[1] || bold[2])
+  } else if (link) {
+    name = cleanName(link[1])
+  } else {
+    const plain = content.replace(MARKDOWN_LINK, '$1').split(/\s[-–—]\s|:\s|\s\(/)[0]
+    name = cleanName(plain)
+    // Without bold/link, a long bullet is prose, not an entity
+    if (name && !isHeading && name.split(/\s+/).length > 5) name = null
+  }
+
+  return name ? { name, urls } : null
+}
+
+function cleanName(raw: string | undefined): string | null {
+  if (!raw) return null
+  const name = raw
+    .replace(MARKDOWN_LINK, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/^\d{1,2}[.)]\s+/, '')
+    .replace(/[:\-–—,.]+\s*$/, '')
+    .trim()
+  if (name.length < 2 || name.length > MAX_NAME_LENGTH) return null
+  if (name.split(/\s+/).length > MAX_NAME_WORDS) return null
+  return name
+}
+
+function dedupeItems(items: ListItem[]): ListItem[] {
+  const seen = new Set<string>()
+  return items.filter(item => {
+    const key = normalizeName(item.name)
+    if (!key || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\.(com|co|net|org|io|ai)(\.[a-z]{2})?\b/g, '').replace(/[^\p{L}\p{N}]+/gu, '')
+}
+
+// "Acme" matches "Acme Corp" and "acme.com"
+export function namesMatch(a: string, b: string): boolean {
+  const na = normalizeName(a)
+  const nb = normalizeName(b)
+  if (na.length < 3 || nb.length < 3) return na === nb
+  return na === nb || na.includes(nb) || nb.includes(na)
+}
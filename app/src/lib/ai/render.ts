@@ -0,0 +1,88 @@
+/**
+ * Headless Rendering
+ * Optional browser-rendering backend for sites that build their content with
+ * JavaScript (platform-detect flags these as rendersClientSide)
+ *
+ * Rendering runs on a hosted headless-browser service that follows the
+ * Browserless /content API: POST { url } and receive the rendered HTML.
+ * Set RENDER_SERVICE_URL (and RENDER_SERVICE_TOKEN) to enable it; without
+ * them the crawler keeps using plain fetch.
+ */
+
+const RENDER_TIMEOUT_MS = 30000
+
+// Rendering is slow and billed per page - only render the first few pages
+export const MAX_RENDERED_PAGES = Number(process.env.RENDER_MAX_PAGES) || 5
+
+/**
+ * What one page loses when fetched without JavaScript
+ */
+export interface PageRenderDiff {
+  path: string
+  rawWordCount: number
+  renderedWordCount: number
+  missingWordPercent: number     // Share of rendered words absent from the raw HTML (0-100)
+  missingTitle: boolean
+  missingDescription: boolean
+  missingH1: boolean
+  missingHeadings: string[]      // Headings that only exist after JavaScript runs
+  missingSchemaTypes: string[]   // JSON-LD injected by JavaScript
+  missingTextSamples: string[]   // Sentences only visible after JavaScript runs
+}
+
+/**
+ * Raw HTML vs rendered DOM for the pages we rendered, stored on
+ * site_analyses.render_comparison
+ */
+export interface RenderComparison {
+  renderedAt: string
+  pages: PageRenderDiff[]
+  rawWordCount: number
+  renderedWordCount: number
+  missingWordPercent: number
+}
+
+export function isRenderingEnabled(): boolean {
+  return !!process.env.RENDER_SERVICE_URL
+}
+
+/**
+ * Render a page in a headless browser and return the resulting HTML.
+ * Returns null when rendering is disabled or fails - callers fall back to raw HTML.
+ */
+export async function renderPage(url: string): Promise<string | null> {
+  const endpoint = process.env.RENDER_SERVICE_URL
+  if (!endpoint) return null
+
+  const requestUrl = new URL(endpoint)
+  if (process.env.RENDER_SERVICE_TOKEN) {
+    requestUrl.searchParams.set('token', process.env.RENDER_SERVICE_TOKEN)
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), RENDER_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(requestUrl.toString(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        url,
+        gotoOptions: { waitUntil: 'networkidle2', timeout: RENDER_TIMEOUT_MS - 5000 },
+      }),
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      console.warn(`[render] Render failed (${response.status}): ${url}`)
+      return null
+    }
+
+    return await response.text()
+  } catch (error) {
+    console.warn(`[render] Render error for ${url}: ${error instanceof Error ? error.message : 'Unknown'}`)
+    return null
+  } finally {
+    clearTimeout(timeout)
+  }
+}
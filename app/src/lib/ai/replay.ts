@@ -0,0 +1,319 @@
+/**
+ * LLM Record/Replay
+ * Drop-in wrappers for generateText, generateObject and Tavily search that can
+ * record live responses to fixture files and serve them back offline
+ *
+ * Lets the scan pipelines (processScan, processHiringBrandScan) run end-to-end
+ * in dev or CI without calling - or paying for - OpenAI, Anthropic, Google,
+ * Perplexity or Tavily.
+ *
+ * Controlled by env:
+ * - AI_REPLAY_MODE=off     Live calls, nothing recorded (default)
+ * - AI_REPLAY_MODE=record  Live calls, each response written to a fixture
+ * - AI_REPLAY_MODE=replay  Fixtures only - a missing fixture throws ReplayFixtureMissingError
+ * - AI_FIXTURES_DIR        Fixture directory (default: fixtures/ai under the app root)
+ *
+ * Fixtures are keyed by a fingerprint of the request (model, prompt, system,
+ * messages, tools, schema and settings - never API keys), so any prompt change
+ * needs a fresh recording. Identical requests (e.g. repeated samples of one
+ * question) share a fixture and replay the same answer.
+ *
+ * The SDK clients and Tavily callers still check for API keys before calling;
+ * in replay mode any placeholder value works.
+ */
+
+import {
+  generateText as sdkGenerateText,
+  generateObject as sdkGenerateObject,
+  asSchema,
+} from 'ai'
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+export type ReplayMode = 'off' | 'record' | 'replay'
+
+type FixtureKind = 'generate-text' | 'generate-object' | 'fetch'
+
+interface Fixture<T> {
+  kind: FixtureKind
+  fingerprint: string
+  request: Record<string, unknown> // Fingerprinted request, kept for reviewing fixture diffs
+  recordedAt: string
+  response: T
+}
+
+// Subset of GenerateTextResult the codebase reads
+interface RecordedTextResult {
+  text: string
+  finishReason: string
+  usage: Record<string, unknown>
+  providerMetadata?: Record<string, unknown>
+  sources?: unknown[]
+}
+
+// Subset of GenerateObjectResult the codebase reads
+interface RecordedObjectResult {
+  object: unknown
+  finishReason: string
+  usage: Record<string, unknown>
+  providerMetadata?: Record<string, unknown>
+}
+
+interface RecordedFetchResponse {
+  status: number
+  body: string
+}
+
+// Request options that don't change the answer (or hold secrets)
+const UNFINGERPRINTED_OPTIONS = new Set([
+  'abortSignal',
+  'headers',
+  'maxRetries',
+  'onStepFinish',
+  'experimental_telemetry',
+  'experimental_repairText',
+  'experimental_repairToolCall',
+])
+
+// Secrets sent in request bodies
+const SECRET_BODY_FIELDS = new Set(['api_key', 'apiKey', 'key'])
+
+export class ReplayFixtureMissingError extends Error {
+  constructor(kind: FixtureKind, fingerprint: string, summary: string) {
+    super(`No ${kind} fixture for ${summary} (${fingerprint}). Re-record with AI_REPLAY_MODE=record`)
+    this.name = 'ReplayFixtureMissingError'
+  }
+}
+
+/**
+ * Current mode from AI_REPLAY_MODE (unknown values mean off)
+ */
+export function getReplayMode(): ReplayMode {
+  const mode = process.env.AI_REPLAY_MODE
+  return mode === 'record' || mode === 'replay' ? mode : 'off'
+}
+
+function getFixturesDir(): string {
+  return process.env.AI_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'ai')
+}
+
+/**
+ * generateText with record/replay
+ */
+export const generateText = (async (options: Parameters<typeof sdkGenerateText>[0]) => {
+  const mode = getReplayMode()
+  if (mode === 'off') return sdkGenerateText(options)
+
+  const request = await describeRequest(options as unknown as Record<string, unknown>)
+  const fingerprint = fingerprintOf('generate-text', request)
+
+  if (mode === 'replay') {
+    const fixture = readFixture<RecordedTextResult>('generate-text', fingerprint, request)
+    return {
+      ...fixture.response,
+      content: [],
+      reasoning: [],
+      reasoningText: undefined,
+      files: [],
+      toolCalls: [],
+      toolResults: [],
+      staticToolCalls: [],
+      dynamicToolCalls: [],
+      staticToolResults: [],
+      dynamicToolResults: [],
+      sources: fixture.response.sources || [],
+      totalUsage: fixture.response.usage,
+      warnings: [],
+      steps: [],
+      request: {},
+      response: { id: `replay-${fingerprint}`, timestamp: new Date(fixture.recordedAt), modelId: String(request.model), messages: [] },
+      experimental_output: undefined,
+      output: undefined,
+    }
+  }
+
+  const result = await sdkGenerateText(options)
+  writeFixture<RecordedTextResult>('generate-text', fingerprint, request, {
+    text: result.text,
+    finishReason: result.finishReason,
+    usage: { ...result.usage },
+    providerMetadata: result.providerMetadata as Record<string, unknown> | undefined,
+    sources: result.sources,
+  })
+  return result
+}) as unknown as typeof sdkGenerateText
+
+/**
+ * generateObject with record/replay
+ */
+export const generateObject = (async (options: Record<string, unknown>) => {
+  const mode = getReplayMode()
+  const callSdk = sdkGenerateObject as unknown as (o: Record<string, unknown>) => ReturnType<typeof sdkGenerateObject>
+  if (mode === 'off') return callSdk(options)
+
+  const request = await describeRequest(options)
+  const fingerprint = fingerprintOf('generate-object', request)
+
+  if (mode === 'replay') {
+    const fixture = readFixture<RecordedObjectResult>('generate-object', fingerprint, request)
+    return {
+      ...fixture.response,
+      reasoning: undefined,
+      warnings: [],
+      request: {},
+      response: { id: `replay-${fingerprint}`, timestamp: new Date(fixture.recordedAt), modelId: String(request.model) },
+      toJsonResponse: () => new Response(JSON.stringify(fixture.response.object), {
+        headers: { 'Content-Type': 'application/json' },
+      }),
+    }
+  }
+
+  const result = await callSdk(options)
+  writeFixture<RecordedObjectResult>('generate-object', fingerprint, request, {
+    object: result.object,
+    finishReason: result.finishReason,
+    usage: { ...result.usage },
+    providerMetadata: result.providerMetadata as Record<string, unknown> | undefined,
+  })
+  return result
+}) as unknown as typeof sdkGenerateObject
+
+/**
+ * fetch with record/replay for third-party APIs (Tavily)
+ * Only the status and body are recorded; secrets in a JSON body are excluded
+ * from the fingerprint.
+ */
+export async function replayableFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const mode = getReplayMode()
+  if (mode === 'off') return fetch(url, init)
+
+  const request = {
+    url,
+    method: init.method || 'GET',
+    body: typeof init.body === 'string' ? redactBody(init.body) : null,
+  }
+  const fingerprint = fingerprintOf('fetch', request)
+
+  if (mode === 'replay') {
+    const { response } = readFixture<RecordedFetchResponse>('fetch', fingerprint, request)
+    return new Response(response.body, { status: response.status })
+  }
+
+  const response = await fetch(url, init)
+  const body = await response.text()
+  writeFixture<RecordedFetchResponse>('fetch', fingerprint, request, { status: response.status, body })
+  return new Response(body, { status: response.status, headers: response.headers })
+}
+
+/**
+ * The parts of an SDK call that determine its answer, as plain JSON
+ */
+async function describeRequest(options: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const request: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined || UNFINGERPRINTED_OPTIONS.has(key)) continue
+
+    if (key === 'model') {
+      request.model = describeModel(value)
+    } else if (key === 'schema') {
+      request.schema = await asSchema(value as Parameters<typeof asSchema>[0]).jsonSchema
+    } else if (key === 'tools' && value && typeof value === 'object') {
+      // Provider tools (web search, grounding) are config objects; keep name, id and args
+      request.tools = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>).map(([name, tool]) => [
+          name,
+          { id: tool.id ?? null, args: tool.args ?? null },
+        ])
+      )
+    } else {
+      request[key] = value
+    }
+  }
+
+  return request
+}
+
+// "openai.responses/o4-mini" for provider instances, the string itself for gateway ids
+function describeModel(model: unknown): string {
+  if (typeof model === 'string') return model
+  if (model && typeof model === 'object') {
+    const { provider, modelId } = model as { provider?: string; modelId?: string }
+    return `${provider || 'unknown'}/${modelId || 'unknown'}`
+  }
+  return 'unknown'
+}
+
+function redactBody(body: string): unknown {
+  try {
+    const parsed = JSON.parse(body) as unknown
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return Object.fromEntries(
+        Object.entries(parsed as Record<string, unknown>).filter(([key]) => !SECRET_BODY_FIELDS.has(key))
+      )
+    }
+    return parsed
+  } catch {
+    return body
+  }
+}
+
+function fingerprintOf(kind: FixtureKind, request: Record<string, unknown>): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${kind}:${stableStringify(request)}`)
+    .digest('hex')
+    .slice(0, 24)
+}
+
+// JSON with sorted keys so property order never changes the fingerprint
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || value === undefined ? 'null' : JSON.stringify(value)
+  }
+  if (value instanceof Date) return JSON.stringify(value.toISOString())
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined && typeof v !== 'function')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+}
+
+function fixturePath(kind: FixtureKind, fingerprint: string): string {
+  return path.join(getFixturesDir(), kind, `${fingerprint}.json`)
+}
+
+function readFixture<T>(kind: FixtureKind, fingerprint: string, request: Record<string, unknown>): Fixture<T> {
+  const file = fixturePath(kind, fingerprint)
+  if (!fs.existsSync(file)) {
+    throw new ReplayFixtureMissingError(kind, fingerprint, summarizeRequest(request))
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as Fixture<T>
+}
+
+function writeFixture<T>(kind: FixtureKind, fingerprint: string, request: Record<string, unknown>, response: T): void {
+  const fixture: Fixture<T> = {
+    kind,
+    fingerprint,
+    request,
+    recordedAt: new Date().toISOString(),
+    response,
+  }
+
+  // A failed write must never fail the live call it's recording
+  try {
+    const file = fixturePath(kind, fingerprint)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2))
+  } catch (error) {
+    console.error(`[replay] Failed to write ${kind} fixture ${fingerprint}:`, error)
+  }
+}
+
+function summarizeRequest(request: Record<string, unknown>): string {
+  if (request.url) return `${request.method} ${request.url}`
+  const prompt = typeof request.prompt === 'string' ? request.prompt : JSON.stringify(request.messages ?? '')
+  return `${request.model} "${prompt.slice(0, 60)}..."`
+}
@@ -0,0 +1,197 @@
+/**
+ * robots.txt Parsing
+ * Parses robots.txt (RFC 9309) and evaluates it for AI crawlers, so reports
+ * can show which AI engines are blocked and our own crawler can honour the rules
+ *
+ * Matching follows RFC 9309 / Google's implementation:
+ * - Groups are selected by product token (case-insensitive); groups for the
+ *   same agent are merged; '*' applies when no group names the agent
+ * - The longest matching rule wins; Allow wins a tie
+ * - '*' matches any sequence, '$' anchors the end of the path
+ */
+
+export interface RobotsRule {
+  allow: boolean
+  path: string
+}
+
+export interface RobotsGroup {
+  userAgents: string[] // Lowercased product tokens
+  rules: RobotsRule[]
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[]
+  sitemaps: string[]
+}
+
+export type AiCrawlerPurpose = 'training' | 'search' | 'user'
+
+export interface AiCrawler {
+  agent: string       // Product token as it appears in robots.txt
+  operator: string
+  purpose: AiCrawlerPurpose
+}
+
+/**
+ * robots.txt result for one AI crawler
+ */
+export interface AiCrawlerAccess extends AiCrawler {
+  status: 'allowed' | 'partial' | 'blocked'
+  blockedPaths: string[] // Disallowed path patterns (['/'] when fully blocked)
+  explicit: boolean      // A group names this agent (vs falling back to '*')
+}
+
+// Our crawler's user-agent and the product token it answers to in robots.txt
+export const CRAWLER_USER_AGENT = 'outrankllm-crawler/1.0'
+export const CRAWLER_PRODUCT_TOKEN = 'outrankllm-crawler'
+
+// AI crawlers we report on. Purpose matters: blocking training bots keeps content
+// out of model knowledge, blocking search/user bots removes the site from live answers
+export const AI_CRAWLERS: AiCrawler[] = [
+  { agent: 'GPTBot', operator: 'OpenAI', purpose: 'training' },
+  { agent: 'OAI-SearchBot', operator: 'OpenAI', purpose: 'search' },
+  { agent: 'ChatGPT-User', operator: 'OpenAI', purpose: 'user' },
+  { agent: 'ClaudeBot', operator: 'Anthropic', purpose: 'training' },
+  { agent: 'Claude-SearchBot', operator: 'Anthropic', purpose: 'search' },
+  { agent: 'Claude-User', operator: 'Anthropic', purpose: 'user' },
+  { agent: 'PerplexityBot', operator: 'Perplexity', purpose: 'search' },
+  { agent: 'Perplexity-User', operator: 'Perplexity', purpose: 'user' },
+  { agent: 'Google-Extended', operator: 'Google', purpose: 'training' },
+  { agent: 'Applebot-Extended', operator: 'Apple', purpose: 'training' },
+  { agent: 'CCBot', operator: 'Common Crawl', purpose: 'training' },
+  { agent: 'meta-externalagent', operator: 'Meta', purpose: 'training' },
+  { agent: 'Bytespider', operator: 'ByteDance', purpose: 'training' },
+  { agent: 'Amazonbot', operator: 'Amazon', purpose: 'search' },
+]
+
+/**
+ * Parse robots.txt content into groups of rules
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = []
+  const sitemaps: string[] = []
+  let current: RobotsGroup | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const key = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { userAgents: [], rules: [] }
+        groups.push(current)
+      }
+      current.userAgents.push(value.split('/')[0].trim().toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+
+    lastWasAgent = false
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value)
+    } else if ((key === 'allow' || key === 'disallow') && current) {
+      // An empty Disallow means "allow everything" - no rule needed
+      if (value) current.rules.push({ allow: key === 'allow', path: value })
+    }
+  }
+
+  return { groups, sitemaps }
+}
+
+/**
+ * Whether the agent may fetch the path (path may include a query string)
+ */
+export function isPathAllowed(robots: RobotsTxt | null, agent: string, path: string): boolean {
+  if (!robots) return true
+  if (path === '/robots.txt') return true
+
+  let best: RobotsRule | null = null
+  for (const rule of getAgentRules(robots, agent).rules) {
+    if (!matchesPattern(rule.path, path)) continue
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow && !best.allow)
+    ) {
+      best = rule
+    }
+  }
+
+  return best ? best.allow : true
+}
+
+/**
+ * Evaluate robots.txt for each known AI crawler.
+ * A missing robots.txt (null) allows everything.
+ */
+export function getAiCrawlerAccess(robots: RobotsTxt | null): AiCrawlerAccess[] {
+  return AI_CRAWLERS.map(crawler => {
+    if (!robots) {
+      return { ...crawler, status: 'allowed', blockedPaths: [], explicit: false }
+    }
+
+    const { rules, explicit } = getAgentRules(robots, crawler.agent)
+    const blockedAtRoot = !isPathAllowed(robots, crawler.agent, '/')
+
+    // Disallow rules that aren't overridden by a more specific Allow
+    const blockedPaths = blockedAtRoot
+      ? ['/']
+      : Array.from(new Set(
+          rules
+            .filter(r => !r.allow && !isPathAllowed(robots, crawler.agent, r.path.replace(/\$$/, '')))
+            .map(r => r.path)
+        ))
+
+    return {
+      ...crawler,
+      status: blockedAtRoot ? 'blocked' : blockedPaths.length > 0 ? 'partial' : 'allowed',
+      blockedPaths,
+      explicit,
+    }
+  })
+}
+
+/**
+ * Whether robots.txt restricts this AI crawler in a way worth fixing: blocked
+ * outright, or partially blocked by rules that name it. Partial blocks from '*'
+ * (e.g. Disallow: /admin) apply to every bot and aren't an AI visibility problem.
+ */
+export function isAiCrawlerRestricted(access: AiCrawlerAccess): boolean {
+  return access.status === 'blocked' || (access.status === 'partial' && access.explicit)
+}
+
+/**
+ * Rules for an agent: all groups naming it, else the '*' groups
+ */
+function getAgentRules(robots: RobotsTxt, agent: string): { rules: RobotsRule[]; explicit: boolean } {
+  const token = agent.split('/')[0].toLowerCase()
+
+  const named = robots.groups.filter(g => g.userAgents.includes(token))
+  if (named.length > 0) {
+    return { rules: named.flatMap(g => g.rules), explicit: true }
+  }
+
+  return {
+    rules: robots.groups.filter(g => g.userAgents.includes('*')).flatMap(g => g.rules),
+    explicit: false,
+  }
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const regex = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path)
+}
@@ -0,0 +1,145 @@
+/**
+ * Multi-Sample Scoring
+ * Confidence intervals for mention rates across repeated LLM queries
+ *
+ * LLM answers are non-deterministic: asking the same question twice can flip
+ * "mentioned" to "not mentioned". Scans can ask each question several times per
+ * platform (samples_per_query) and we report the mention rate with a 95%
+ * confidence interval, so week-to-week noise isn't mistaken for a real change.
+ */
+
+export const MIN_SAMPLES_PER_QUERY = 1
+export const MAX_SAMPLES_PER_QUERY = 5
+
+// z-score for a two-sided 95% confidence level
+const Z_95 = 1.96
+
+/**
+ * Interval bounds on the 0-100 percentage scale
+ */
+export interface ConfidenceInterval {
+  low: number
+  high: number
+}
+
+export interface MentionRateStats extends ConfidenceInterval {
+  rate: number      // Mention probability 0-100 (unrounded)
+  mentioned: number // Samples where the domain was mentioned
+  total: number     // Samples taken
+}
+
+/**
+ * Stored on reports.score_confidence for the report UI
+ */
+export interface ScoreConfidence {
+  samplesPerQuery: number
+  overall: ConfidenceInterval
+  platforms: Record<string, MentionRateStats>
+}
+
+export type ChangeDirection = 'up' | 'down' | 'none'
+
+/**
+ * Clamp a configured sample count to the supported range.
+ * Falls back to 1 (single-shot) for missing or invalid values.
+ */
+export function resolveSamplesPerQuery(value: number | string | null | undefined): number {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value
+  if (parsed === null || parsed === undefined || !Number.isFinite(parsed)) return MIN_SAMPLES_PER_QUERY
+  return Math.min(MAX_SAMPLES_PER_QUERY, Math.max(MIN_SAMPLES_PER_QUERY, Math.floor(parsed)))
+}
+
+/**
+ * Wilson score interval for a binomial proportion.
+ * Unlike the normal approximation it stays inside 0-100 and is sensible
+ * for small sample counts and rates of 0% or 100%.
+ */
+export function wilsonInterval(successes: number, trials: number, z = Z_95): ConfidenceInterval {
+  if (trials <= 0) return { low: 0, high: 100 }
+
+  const p = successes / trials
+  const z2 = z * z
+  const denominator = 1 + z2 / trials
+  const center = (p + z2 / (2 * trials)) / denominator
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator
+
+  return {
+    low: Math.max(0, (center - margin) * 100),
+    high: Math.min(100, (center + margin) * 100),
+  }
+}
+
+/**
+ * Mention rate with its Wilson interval
+ */
+export function mentionRateStats(mentioned: number, total: number): MentionRateStats {
+  return {
+    rate: total > 0 ? (mentioned / total) * 100 : 0,
+    mentioned,
+    total,
+    ...wilsonInterval(mentioned, total),
+  }
+}
+
+/**
+ * Interval for a weighted average of independent mention rates
+ * (e.g. the reach-weighted overall score).
+ *
+ * Each component's distance to its own bounds is scaled by its weight share
+ * and combined in quadrature, so a platform with few samples widens the
+ * overall band in proportion to how much it counts.
+ */
+export function weightedInterval(
+  components: Array<{ stats: MentionRateStats; weight: number }>
+): ConfidenceInterval & { value: number } {
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0)
+  if (totalWeight <= 0) return { value: 0, low: 0, high: 100 }
+
+  let value = 0
+  let lowVariance = 0
+  let highVariance = 0
+
+  for (const { stats, weight } of components) {
+    const share = weight / totalWeight
+    value += share * stats.rate
+    lowVariance += (share * (stats.rate - stats.low)) ** 2
+    highVariance += (share * (stats.high - stats.rate)) ** 2
+  }
+
+  return {
+    value,
+    low: Math.max(0, value - Math.sqrt(lowVariance)),
+    high: Math.min(100, value + Math.sqrt(highVariance)),
+  }
+}
+
+/**
+ * Estimate an interval for snapshots recorded before multi-sampling
+ * (no stored bounds) by treating the score as a single-shot mention rate.
+ */
+export function estimateInterval(score: number, totalQueries: number | null | undefined): ConfidenceInterval {
+  const trials = totalQueries && totalQueries > 0 ? totalQueries : 0
+  return wilsonInterval((score / 100) * trials, trials)
+}
+
+/**
+ * Decide whether the change between two scores is statistically meaningful.
+ *
+ * Each score's uncertainty on the side facing the other score is combined
+ * in quadrature; the change only counts when it exceeds that combined margin.
+ * Overlapping intervals alone are too strict a test for independent samples.
+ */
+export function getSignificantChange(
+  previous: { value: number } & ConfidenceInterval,
+  current: { value: number } & ConfidenceInterval
+): ChangeDirection {
+  const diff = current.value - previous.value
+  if (diff === 0) return 'none'
+
+  const margin = diff < 0
+    ? Math.sqrt((previous.value - previous.low) ** 2 + (current.high - current.value) ** 2)
+    : Math.sqrt((previous.high - previous.value) ** 2 + (current.value - current.low) ** 2)
+
+  if (Math.abs(diff) <= margin) return 'none'
+  return diff > 0 ? 'up' : 'down'
+}
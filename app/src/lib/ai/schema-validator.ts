@@ -0,0 +1,410 @@
+/**
+ * JSON-LD Schema Validator
+ * Validates schema.org structured data per page: required and recommended
+ * properties, invalid values, and @graph/@id linkage
+ *
+ * crawl.ts's extractSchemaData only pulls a few fields to help the business
+ * analysis. This module checks markup the way rich-result validators do, for
+ * the types that matter for AI visibility: Organization, LocalBusiness,
+ * Product, FAQPage, Article and JobPosting.
+ */
+
+export interface SchemaValueIssue {
+  property: string
+  value: string
+  reason: string
+}
+
+/**
+ * Findings for one schema.org item on a page
+ */
+export interface SchemaItemFinding {
+  type: string                    // e.g. "LocalBusiness", "Dentist", "FAQPage"
+  validatedAs: ValidatedSchemaType | null // Rule set applied (null = type found but not validated)
+  id: string | null               // @id, if any
+  missingRequired: string[]
+  missingRecommended: string[]
+  invalidValues: SchemaValueIssue[]
+}
+
+/**
+ * Structured data findings for one page, stored on site_analyses.schema_validation
+ */
+export interface PageSchemaValidation {
+  url: string
+  path: string
+  types: string[]
+  items: SchemaItemFinding[]
+  parseErrors: number        // JSON-LD blocks that aren't valid JSON
+  linkageIssues: string[]    // Unresolved @id references, missing @context, untyped @graph nodes
+  errorCount: number         // Missing required + invalid values + parse errors + linkage issues
+  warningCount: number       // Missing recommended
+}
+
+export type ValidatedSchemaType = 'Organization' | 'LocalBusiness' | 'Product' | 'FAQPage' | 'Article' | 'JobPosting'
+
+type JsonObject = Record<string, unknown>
+
+interface SchemaRules {
+  required: string[]
+  // Alternatives: at least one property in each group must be present
+  requiredOneOf?: string[][]
+  recommended: string[]
+}
+
+// Based on schema.org and Google's structured data guidelines
+const SCHEMA_RULES: Record<ValidatedSchemaType, SchemaRules> = {
+  Organization: {
+    required: ['name', 'url'],
+    recommended: ['logo', 'description', 'sameAs', 'contactPoint', 'address'],
+  },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'openingHoursSpecification', 'geo', 'image', 'priceRange', 'areaServed'],
+  },
+  Product: {
+    required: ['name'],
+    requiredOneOf: [['offers', 'review', 'aggregateRating']],
+    recommended: ['image', 'description', 'brand', 'sku'],
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+  },
+  Article: {
+    required: ['headline'],
+    recommended: ['author', 'datePublished', 'dateModified', 'image', 'publisher'],
+  },
+  JobPosting: {
+    required: ['title', 'description', 'datePosted', 'hiringOrganization'],
+    requiredOneOf: [['jobLocation', 'applicantLocationRequirements']],
+    recommended: ['baseSalary', 'employmentType', 'validThrough', 'identifier'],
+  },
+}
+
+// Common LocalBusiness subtypes (anything ending in "Business" or "Store" also counts)
+const LOCAL_BUSINESS_SUBTYPES = new Set([
+  'Dentist', 'Physician', 'MedicalClinic', 'Restaurant', 'CafeOrCoffeeShop', 'Bakery', 'BarOrPub',
+  'Plumber', 'Electrician', 'HVACBusiness', 'RoofingContractor', 'GeneralContractor', 'HousePainter',
+  'Locksmith', 'MovingCompany', 'AutoRepair', 'AutoDealer', 'BeautySalon', 'HairSalon', 'DaySpa',
+  'HealthClub', 'Attorney', 'LegalService', 'AccountingService', 'FinancialService', 'InsuranceAgency',
+  'RealEstateAgent', 'TravelAgency', 'Hotel', 'LodgingBusiness', 'Store', 'VeterinaryCare', 'ChildCare',
+  'ProfessionalService', 'HomeAndConstructionBusiness', 'EmploymentAgency',
+])
+const ORGANIZATION_SUBTYPES = new Set(['Corporation', 'NGO', 'EducationalOrganization', 'GovernmentOrganization', 'OnlineBusiness'])
+const ARTICLE_SUBTYPES = new Set(['Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'Report', 'ScholarlyArticle'])
+
+const URL_PROPERTIES = ['url', 'logo', 'image', 'sameAs']
+const DATE_PROPERTIES = ['datePublished', 'dateModified', 'datePosted', 'validThrough']
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+
+/**
+ * Validate all JSON-LD on a page
+ */
+export function validatePageSchema(url: string, html: string): PageSchemaValidation {
+  const path = safePath(url)
+  const nodes: JsonObject[] = []
+  const linkageIssues: string[] = []
+  let parseErrors = 0
+
+  for (const match of html.matchAll(JSON_LD_PATTERN)) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(match[1].trim())
+    } catch {
+      parseErrors++
+      continue
+    }
+
+    for (const block of Array.isArray(parsed) ? parsed : [parsed]) {
+      if (!isObject(block)) continue
+
+      const context = block['@context']
+      if (!context || !JSON.stringify(context).includes('schema.org')) {
+        linkageIssues.push('JSON-LD block without a schema.org @context')
+      }
+
+      if (Array.isArray(block['@graph'])) {
+        for (const graphNode of block['@graph']) {
+          if (!isObject(graphNode)) continue
+          if (!graphNode['@type']) {
+            linkageIssues.push(`@graph node ${graphNode['@id'] ? `"${graphNode['@id']}" ` : ''}has no @type`)
+          }
+          nodes.push(graphNode)
+        }
+      }
+      if (block['@type']) nodes.push(block)
+    }
+  }
+
+  // Every node with an @id, including nested ones
+  const definitions = new Map<string, JsonObject>()
+  const references: string[] = []
+  for (const node of nodes) collectIds(node, definitions, references)
+
+  for (const ref of new Set(references)) {
+    if (!definitions.has(ref)) linkageIssues.push(`@id reference "${ref}" doesn't match any item on the page`)
+  }
+
+  const items: SchemaItemFinding[] = []
+  for (const node of nodes) {
+    for (const type of typesOf(node)) {
+      items.push(validateItem(node, type, definitions))
+    }
+  }
+
+  const errorCount = parseErrors + linkageIssues.length +
+    items.reduce((sum, i) => sum + i.missingRequired.length + i.invalidValues.length, 0)
+  const warningCount = items.reduce((sum, i) => sum + i.missingRecommended.length, 0)
+
+  return {
+    url,
+    path,
+    types: [...new Set(items.map(i => i.type))],
+    items,
+    parseErrors,
+    linkageIssues: [...new Set(linkageIssues)],
+    errorCount,
+    warningCount,
+  }
+}
+
+/**
+ * Human-readable issues for a page, e.g. for prompts ("LocalBusiness: missing address")
+ */
+export function describeSchemaIssues(page: PageSchemaValidation): string[] {
+  const issues: string[] = []
+  if (page.parseErrors > 0) issues.push(`${page.parseErrors} JSON-LD block(s) are not valid JSON`)
+  for (const item of page.items) {
+    if (item.missingRequired.length > 0) issues.push(`${item.type}: missing required ${item.missingRequired.join(', ')}`)
+    for (const invalid of item.invalidValues) issues.push(`${item.type}: ${invalid.property} ${invalid.reason}`)
+    if (item.missingRecommended.length > 0) issues.push(`${item.type}: missing recommended ${item.missingRecommended.join(', ')}`)
+  }
+  issues.push(...page.linkageIssues)
+  return issues
+}
+
+function validateItem(node: JsonObject, type: string, definitions: Map<string, JsonObject>): SchemaItemFinding {
+  const validatedAs = ruleSetFor(type)
+  const finding: SchemaItemFinding = {
+    type,
+    validatedAs,
+    id: typeof node['@id'] === 'string' ? node['@id'] : null,
+    missingRequired: [],
+    missingRecommended: [],
+    invalidValues: [],
+  }
+  if (!validatedAs) return finding
+
+  // A node may be split across the page and linked by @id
+  const merged = node['@id'] && definitions.has(String(node['@id']))
+    ? { ...definitions.get(String(node['@id'])), ...node }
+    : node
+  const rules = SCHEMA_RULES[validatedAs]
+
+  finding.missingRequired = rules.required.filter(p => !hasValue(merged[p]))
+  for (const group of rules.requiredOneOf || []) {
+    if (!group.some(p => hasValue(merged[p]))) finding.missingRequired.push(group.join(' or '))
+  }
+  finding.missingRecommended = rules.recommended.filter(p =>
+    // openingHours is the older text form of openingHoursSpecification
+    !hasValue(merged[p]) && !(p === 'openingHoursSpecification' && hasValue(merged.openingHours))
+  )
+
+  finding.invalidValues = [
+    ...checkCommonValues(merged),
+    ...checkTypeSpecificValues(validatedAs, merged, definitions),
+  ]
+
+  return finding
+}
+
+function checkCommonValues(node: JsonObject): SchemaValueIssue[] {
+  const issues: SchemaValueIssue[] = []
+
+  for (const property of URL_PROPERTIES) {
+    for (const value of asArray(node[property])) {
+      const url = isObject(value) ? (value.url ?? value.contentUrl ?? value['@id']) : value
+      if (typeof url === 'string' && !isAbsoluteUrl(url)) {
+        issues.push({ property, value: url, reason: 'is not an absolute URL' })
+      }
+    }
+  }
+
+  for (const property of DATE_PROPERTIES) {
+    const value = node[property]
+    if (typeof value === 'string' && Number.isNaN(Date.parse(value))) {
+      issues.push({ property, value, reason: 'is not an ISO 8601 date' })
+    }
+  }
+
+  if (typeof node.telephone === 'string' && (node.telephone.match(/\d/g) || []).length < 6) {
+    issues.push({ property: 'telephone', value: node.telephone, reason: 'does not look like a phone number' })
+  }
+
+  if (isObject(node.aggregateRating)) {
+    const rating = Number(node.aggregateRating.ratingValue)
+    if (!Number.isFinite(rating)) {
+      issues.push({ property: 'aggregateRating.ratingValue', value: String(node.aggregateRating.ratingValue), reason: 'is not a number' })
+    }
+  }
+
+  return issues
+}
+
+function checkTypeSpecificValues(
+  type: ValidatedSchemaType,
+  node: JsonObject,
+  definitions: Map<string, JsonObject>
+): SchemaValueIssue[] {
+  const issues: SchemaValueIssue[] = []
+
+  if (type === 'LocalBusiness' || type === 'Organization') {
+    const address = resolve(node.address, definitions)
+    if (typeof address === 'string' && type === 'LocalBusiness') {
+      issues.push({ property: 'address', value: address.slice(0, 80), reason: 'should be a PostalAddress, not plain text' })
+    } else if (isObject(address)) {
+      const missing = ['streetAddress', 'addressLocality', 'addressCountry'].filter(p => !hasValue(address[p]))
+      if (missing.length > 0) {
+        issues.push({ property: 'address', value: 'PostalAddress', reason: `is missing ${missing.join(', ')}` })
+      }
+    }
+
+    const geo = resolve(node.geo, definitions)
+    if (isObject(geo)) {
+      const lat = Number(geo.latitude)
+      const lng = Number(geo.longitude)
+      if (!(Math.abs(lat) <= 90) || !(Math.abs(lng) <= 180)) {
+        issues.push({ property: 'geo', value: `${geo.latitude}, ${geo.longitude}`, reason: 'has invalid latitude/longitude' })
+      }
+    }
+  }
+
+  if (type === 'Product') {
+    for (const offer of asArray(resolve(node.offers, definitions))) {
+      if (!isObject(offer)) continue
+      const isAggregate = String(offer['@type'] || '') === 'AggregateOffer'
+      const price = isAggregate ? offer.lowPrice : offer.price
+      if (!hasValue(price)) {
+        issues.push({ property: 'offers', value: 'Offer', reason: `is missing ${isAggregate ? 'lowPrice' : 'price'}` })
+      } else if (!Number.isFinite(Number(String(price).replace(/,/g, '')))) {
+        issues.push({ property: 'offers.price', value: String(price), reason: 'is not a number (no currency symbols)' })
+      }
+      if (!hasValue(offer.priceCurrency)) {
+        issues.push({ property: 'offers', value: 'Offer', reason: 'is missing priceCurrency' })
+      } else if (!/^[A-Z]{3}$/.test(String(offer.priceCurrency))) {
+        issues.push({ property: 'offers.priceCurrency', value: String(offer.priceCurrency), reason: 'is not a 3-letter ISO 4217 code' })
+      }
+      if (typeof offer.availability === 'string' && !/schema\.org\//.test(offer.availability)) {
+        issues.push({ property: 'offers.availability', value: offer.availability, reason: 'should be a schema.org ItemAvailability URL' })
+      }
+    }
+  }
+
+  if (type === 'FAQPage') {
+    const questions = asArray(resolve(node.mainEntity, definitions))
+    questions.forEach((q, index) => {
+      const question = resolve(q, definitions)
+      if (!isObject(question) || !hasValue(question.name)) {
+        issues.push({ property: `mainEntity[${index}]`, value: 'Question', reason: 'is missing the question text (name)' })
+        return
+      }
+      const answer = resolve(question.acceptedAnswer, definitions)
+      if (!isObject(answer) || !hasValue(answer.text)) {
+        issues.push({ property: `mainEntity[${index}]`, value: String(question.name).slice(0, 80), reason: 'has no acceptedAnswer.text' })
+      }
+    })
+  }
+
+  if (type === 'Article' && typeof node.headline === 'string' && node.headline.length > 110) {
+    issues.push({ property: 'headline', value: node.headline.slice(0, 80), reason: 'is longer than 110 characters' })
+  }
+
+  if (type === 'JobPosting') {
+    const org = resolve(node.hiringOrganization, definitions)
+    if (isObject(org) && !hasValue(org.name)) {
+      issues.push({ property: 'hiringOrganization', value: 'Organization', reason: 'is missing name' })
+    }
+    if (typeof node.description === 'string' && node.description.length < 100) {
+      issues.push({ property: 'description', value: node.description.slice(0, 80), reason: 'is too short to describe the role' })
+    }
+  }
+
+  return issues
+}
+
+function ruleSetFor(type: string): ValidatedSchemaType | null {
+  if (type === 'Organization' || ORGANIZATION_SUBTYPES.has(type)) return 'Organization'
+  if (type === 'LocalBusiness' || LOCAL_BUSINESS_SUBTYPES.has(type) || /(Business|Store)$/.test(type)) return 'LocalBusiness'
+  if (type === 'Product' || type === 'ProductGroup') return 'Product'
+  if (type === 'FAQPage') return 'FAQPage'
+  if (ARTICLE_SUBTYPES.has(type)) return 'Article'
+  if (type === 'JobPosting') return 'JobPosting'
+  return null
+}
+
+/**
+ * Record every @id definition (nodes with more than just @id) and reference
+ * (objects that are only { "@id": ... })
+ */
+function collectIds(value: unknown, definitions: Map<string, JsonObject>, references: string[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) collectIds(item, definitions, references)
+    return
+  }
+  if (!isObject(value)) return
+
+  const id = value['@id']
+  if (typeof id === 'string') {
+    if (Object.keys(value).length === 1) {
+      references.push(id)
+    } else {
+      definitions.set(id, { ...definitions.get(id), ...value })
+    }
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key !== '@context') collectIds(child, definitions, references)
+  }
+}
+
+function resolve(value: unknown, definitions: Map<string, JsonObject>): unknown {
+  if (isObject(value) && typeof value['@id'] === 'string' && Object.keys(value).length === 1) {
+    return definitions.get(value['@id']) ?? value
+  }
+  return value
+}
+
+function typesOf(node: JsonObject): string[] {
+  return asArray(node['@type'])
+    .filter((t): t is string => typeof t === 'string')
+    .map(t => t.replace(/^https?:\/\/schema\.org\//, ''))
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === null || value === undefined) return false
+  if (typeof value === 'string') return value.trim().length > 0
+  if (Array.isArray(value)) return value.length > 0
+  return true
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === null || value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function isAbsoluteUrl(value: string): boolean {
+  return /^https?:\/\/[^\s]+$/i.test(value)
+}
+
+function safePath(url: string): string {
+  try {
+    return new URL(url).pathname
+  } catch {
+    return url
+  }
+}
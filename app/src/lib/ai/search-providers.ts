@@ -7,15 +7,38 @@
  * - Claude: Tavily search + Claude for response
  * - Gemini: Google Search grounding
  * - Perplexity: Native search (sonar-pro)
+ *
+ * Each adapter simulates the same searcher location (see lib/geo/searcher-location.ts)
+ * and asks for answers in the scan language (see language.ts)
  */
 
-import { generateText } from 'ai'
+import { generateText, replayableFetch } from './replay'
 import { createOpenAI } from '@ai-sdk/openai'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { createPerplexity } from '@ai-sdk/perplexity'
 import { trackCost } from './costs'
+import {
+  PLATFORM_REGISTRY,
+  SEARCH_PLATFORMS,
+  REACH_WEIGHTS,
+  MAX_REACH_POINTS,
+  isSearchPlatform,
+  type SearchPlatform,
+} from './platforms'
+import { mentionRateStats, weightedInterval, type MentionRateStats } from './sampling'
+import { matchBrandMention, type BrandEntityProfile, type MentionEvidence } from './brand-matcher'
+import { rankRecommendations, rankWeight, type RankedEntity } from './recommendation-rank'
+import { sentimentCredit, type BrandSentiment } from './sentiment'
+import { languagePromptNote } from './language'
 import { log } from '@/lib/logger'
+import {
+  resolveSearcherLocation,
+  locationPromptNote,
+  tavilyCountry,
+  type LocationContext,
+  type SearcherLocation,
+} from '@/lib/geo/searcher-location'
 
 // Initialize direct API clients (bypasses Vercel AI Gateway rate limits)
 const openai = createOpenAI({
@@ -34,7 +57,8 @@ const perplexity = createPerplexity({
   apiKey: process.env.PERPLEXITY_API_KEY || '',
 })
 
-export type SearchPlatform = 'chatgpt' | 'claude' | 'gemini' | 'perplexity'
+export type { SearchPlatform, LocationContext }
+export { REACH_WEIGHTS, MAX_REACH_POINTS }
 
 export interface SearchSource {
   url: string
@@ -50,19 +74,15 @@ export interface SearchQueryResult {
   searchEnabled: boolean
   domainMentioned: boolean
   mentionPosition: number | null // 1, 2, or 3 (thirds of response)
-  competitorsMentioned: { name: string; context: string }[]
+  mentionEvidence?: MentionEvidence[] // Why the response counted as a mention
+  mentionRank?: number | null // Our place in the answer's recommendation list ("#2 of 7")
+  rankedCount?: number // Entities in that list
+  rankedEntities?: RankedEntity[]
+  competitorsMentioned: { name: string; context: string; rank?: number | null }[]
+  sentiment?: BrandSentiment | null // How the answer portrays us, when mentioned (scored after the queries)
   responseTimeMs: number
   error?: string
-}
-
-/**
- * Location context for search queries - passed from the business analysis
- */
-export interface LocationContext {
-  location?: string      // Full location string: "Sydney, Australia"
-  city?: string          // City name: "Sydney"
-  country?: string       // Country name: "Australia"
-  countryCode?: string   // ISO country code: "AU"
+  sampleIndex?: number // 0-based repeat of the same query (multi-sample scans)
 }
 
 const SYSTEM_PROMPT = `You are a helpful assistant providing information based on current web search results. When users ask for recommendations or information about businesses and services:
@@ -71,12 +91,22 @@ const SYSTEM_PROMPT = `You are a helpful assistant providing information based o
 - Cite your sources when possible
 - Be objective and balanced in your recommendations`
 
+/**
+ * System prompt with the searcher's location (for models that only get it through
+ * the prompt) and the scan language
+ */
+function buildSystemPrompt(language?: string, searcherLocation: SearcherLocation | null = null): string {
+  return SYSTEM_PROMPT + locationPromptNote(searcherLocation) + languagePromptNote(language, 'your answer')
+}
+
 const COMPETITOR_EXTRACTION_PROMPT = `Extract company/business names mentioned in this AI response. Only extract actual company names, NOT:
 - Generic terms (e.g., "AI consulting firms", "marketing agencies")
 - Locations (cities, countries, regions)
 - Common nouns or phrases
 - The target domain being searched for
 
+The response may be in any language. Return names exactly as they are written in the response.
+
 Target domain to EXCLUDE: {domain}
 
 AI Response:
@@ -164,6 +194,7 @@ async function queryOpenAIWithSearch(
   domain: string,
   runId: string,
   locationContext?: LocationContext,
+  brandProfile?: BrandEntityProfile,
   retryCount = 0
 ): Promise<SearchQueryResult> {
   const startTime = Date.now()
@@ -171,39 +202,9 @@ async function queryOpenAIWithSearch(
   const MAX_RETRIES = 2
 
   try {
-    // Extract location from query for better search targeting
-    // Map common locations to country codes and cities
-    const locationMap: Record<string, { country: string; city?: string; region?: string }> = {
-      'sydney': { country: 'AU', city: 'Sydney', region: 'New South Wales' },
-      'melbourne': { country: 'AU', city: 'Melbourne', region: 'Victoria' },
-      'brisbane': { country: 'AU', city: 'Brisbane', region: 'Queensland' },
-      'perth': { country: 'AU', city: 'Perth', region: 'Western Australia' },
-      'adelaide': { country: 'AU', city: 'Adelaide', region: 'South Australia' },
-      'gold coast': { country: 'AU', city: 'Gold Coast', region: 'Queensland' },
-      'canberra': { country: 'AU', city: 'Canberra', region: 'Australian Capital Territory' },
-      'australia': { country: 'AU' },
-      'new york': { country: 'US', city: 'New York', region: 'New York' },
-      'los angeles': { country: 'US', city: 'Los Angeles', region: 'California' },
-      'london': { country: 'GB', city: 'London' },
-    }
-
-    const queryLower = query.toLowerCase()
-    let detectedLocation: { country: string; city?: string; region?: string } | null = null
-    for (const [loc, info] of Object.entries(locationMap)) {
-      if (queryLower.includes(loc)) {
-        detectedLocation = info
-        break
-      }
-    }
-
-    // Fall back to business location context if no location detected in query
+    // Simulated customer location, else a city in the query, else the business location
     // This ensures queries like "best AI solutions near me" use the business's location
-    if (!detectedLocation && locationContext?.countryCode) {
-      detectedLocation = {
-        country: locationContext.countryCode,
-        city: locationContext.city,
-      }
-    }
+    const searcherLocation = resolveSearcherLocation(query, locationContext)
 
     // Use OpenAI Responses API with o4-mini reasoning model and web_search tool
     // o4-mini provides agentic multi-step search for more comprehensive results
@@ -215,14 +216,13 @@ async function queryOpenAIWithSearch(
           searchContextSize: 'high',
           userLocation: {
             type: 'approximate',
-            // Set country/city/region based on detected location in query or business context
-            ...(detectedLocation?.country && { country: detectedLocation.country }),
-            ...(detectedLocation?.city && { city: detectedLocation.city }),
-            ...(detectedLocation?.region && { region: detectedLocation.region }),
+            ...(searcherLocation?.countryCode && { country: searcherLocation.countryCode }),
+            ...(searcherLocation?.city && { city: searcherLocation.city }),
+            ...(searcherLocation?.region && { region: searcherLocation.region }),
           },
         }),
       },
-      system: SYSTEM_PROMPT,
+      system: buildSystemPrompt(locationContext?.language),
       prompt: query,
       maxOutputTokens: 4000, // Increased for web search responses which can be long
     })
@@ -240,7 +240,7 @@ async function queryOpenAIWithSearch(
       if (retryCount < MAX_RETRIES) {
         log.warn(runId, `ChatGPT empty response, retrying (${retryCount + 1}/${MAX_RETRIES}): "${query.slice(0, 40)}..."`)
         await new Promise(resolve => setTimeout(resolve, 1000)) // Wait 1s before retry
-        return queryOpenAIWithSearch(query, domain, runId, locationContext, retryCount + 1)
+        return queryOpenAIWithSearch(query, domain, runId, locationContext, brandProfile, retryCount + 1)
       }
       log.error(runId, `ChatGPT returned empty after ${MAX_RETRIES} retries: "${query.slice(0, 50)}..."`)
       return {
@@ -262,7 +262,7 @@ async function queryOpenAIWithSearch(
       await trackCost({
         runId,
         step: `search_${platform}`,
-        model: 'openai/o4-mini-search',
+        model: PLATFORM_REGISTRY.chatgpt.costModel,
         usage: {
           inputTokens: result.usage.inputTokens || 0,
           outputTokens: result.usage.outputTokens || 0,
@@ -293,8 +293,8 @@ async function queryOpenAIWithSearch(
       }
     }
 
-    // Check if domain is mentioned
-    const { mentioned, position } = checkDomainMention(responseText, domain)
+    // Check if brand is mentioned (text or cited source)
+    const { mentioned, position, evidence } = matchBrandMention(responseText, domain, brandProfile, sources)
 
     // Extract competitors
     const competitors = await extractCompetitorsFromResponse(responseText, domain, runId)
@@ -309,6 +309,7 @@ async function queryOpenAIWithSearch(
       searchEnabled: true,
       domainMentioned: mentioned,
       mentionPosition: position,
+      mentionEvidence: evidence,
       competitorsMentioned: competitors,
       responseTimeMs: Date.now() - startTime,
     }
@@ -337,11 +338,14 @@ async function queryOpenAIWithSearch(
 async function queryClaudeWithSearch(
   query: string,
   domain: string,
-  runId: string
+  runId: string,
+  locationContext?: LocationContext,
+  brandProfile?: BrandEntityProfile
 ): Promise<SearchQueryResult> {
   const startTime = Date.now()
+  const searcherLocation = resolveSearcherLocation(query, locationContext)
   // Use Tavily for Claude's search capability until native support is added
-  return queryClaudeWithTavily(query, domain, runId, startTime)
+  return queryClaudeWithTavily(query, domain, runId, startTime, searcherLocation, brandProfile, locationContext?.language)
 }
 
 /**
@@ -351,13 +355,16 @@ async function queryClaudeWithTavily(
   query: string,
   domain: string,
   runId: string,
-  startTime: number
+  startTime: number,
+  searcherLocation: SearcherLocation | null,
+  brandProfile?: BrandEntityProfile,
+  language?: string
 ): Promise<SearchQueryResult> {
   const platform: SearchPlatform = 'claude'
 
   try {
     // First, search with Tavily
-    const tavilyResults = await searchWithTavily(query)
+    const tavilyResults = await searchWithTavily(query, searcherLocation)
 
     if (!tavilyResults.success) {
       throw new Error('Tavily search failed')
@@ -371,7 +378,7 @@ async function queryClaudeWithTavily(
     // Query Claude with the search context via direct API
     const result = await generateText({
       model: anthropic('claude-sonnet-4-20250514'),
-      system: SYSTEM_PROMPT,
+      system: buildSystemPrompt(language, searcherLocation),
       prompt: `Based on these search results, answer the user's question.
 
 SEARCH RESULTS:
@@ -391,7 +398,7 @@ Provide a helpful answer based on the search results. Mention specific businesse
       await trackCost({
         runId,
         step: `search_${platform}_tavily`,
-        model: 'anthropic/claude-sonnet-4-20250514',
+        model: PLATFORM_REGISTRY.claude.costModel,
         usage: {
           inputTokens: result.usage.inputTokens || 0,
           outputTokens: result.usage.outputTokens || 0,
@@ -400,7 +407,8 @@ Provide a helpful answer based on the search results. Mention specific businesse
       })
     }
 
-    const { mentioned, position } = checkDomainMention(responseText, domain)
+    // Tavily results are search context fed to the model, not citations - text only
+    const { mentioned, position, evidence } = matchBrandMention(responseText, domain, brandProfile)
 
     // Extract competitors
     const competitors = await extractCompetitorsFromResponse(responseText, domain, runId)
@@ -415,6 +423,7 @@ Provide a helpful answer based on the search results. Mention specific businesse
       searchEnabled: true,
       domainMentioned: mentioned,
       mentionPosition: position,
+      mentionEvidence: evidence,
       competitorsMentioned: competitors,
       responseTimeMs: Date.now() - startTime,
     }
@@ -439,7 +448,8 @@ Provide a helpful answer based on the search results. Mention specific businesse
  * Search with Tavily API
  */
 async function searchWithTavily(
-  query: string
+  query: string,
+  searcherLocation: SearcherLocation | null
 ): Promise<{ success: boolean; results: SearchSource[] }> {
   const apiKey = process.env.TAVILY_API_KEY
 
@@ -449,7 +459,7 @@ async function searchWithTavily(
   }
 
   try {
-    const response = await fetch('https://api.tavily.com/search', {
+    const response = await replayableFetch('https://api.tavily.com/search', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -460,6 +470,8 @@ async function searchWithTavily(
         search_depth: 'advanced',
         include_answer: false,
         max_results: 5,
+        // Boosts results from the searcher's country
+        ...(tavilyCountry(searcherLocation) && { country: tavilyCountry(searcherLocation) }),
       }),
     })
 
@@ -496,10 +508,13 @@ async function searchWithTavily(
 async function queryGeminiWithSearch(
   query: string,
   domain: string,
-  runId: string
+  runId: string,
+  locationContext?: LocationContext,
+  brandProfile?: BrandEntityProfile
 ): Promise<SearchQueryResult> {
   const startTime = Date.now()
   const platform: SearchPlatform = 'gemini'
+  const searcherLocation = resolveSearcherLocation(query, locationContext)
 
   try {
     // Try Gemini with Google Search tool for grounding
@@ -509,7 +524,17 @@ async function queryGeminiWithSearch(
       tools: {
         google_search: google.tools.googleSearch({}),
       },
-      system: SYSTEM_PROMPT,
+      // Grounding has no region setting - coordinates localize results where we know them
+      ...(searcherLocation?.latitude !== undefined && searcherLocation.longitude !== undefined && {
+        providerOptions: {
+          google: {
+            retrievalConfig: {
+              latLng: { latitude: searcherLocation.latitude, longitude: searcherLocation.longitude },
+            },
+          },
+        },
+      }),
+      system: buildSystemPrompt(locationContext?.language, searcherLocation),
       prompt: query,
       maxOutputTokens: 1500,
     })
@@ -522,7 +547,7 @@ async function queryGeminiWithSearch(
       await trackCost({
         runId,
         step: `search_${platform}`,
-        model: 'google/gemini-2.5-flash-grounded',
+        model: PLATFORM_REGISTRY.gemini.costModel,
         usage: {
           inputTokens: result.usage.inputTokens || 0,
           outputTokens: result.usage.outputTokens || 0,
@@ -557,7 +582,7 @@ async function queryGeminiWithSearch(
       }
     }
 
-    const { mentioned, position } = checkDomainMention(responseText, domain)
+    const { mentioned, position, evidence } = matchBrandMention(responseText, domain, brandProfile, sources)
 
     // Extract competitors
     const competitors = await extractCompetitorsFromResponse(responseText, domain, runId)
@@ -572,6 +597,7 @@ async function queryGeminiWithSearch(
       searchEnabled: true, // Search grounding is always enabled with this config
       domainMentioned: mentioned,
       mentionPosition: position,
+      mentionEvidence: evidence,
       competitorsMentioned: competitors,
       responseTimeMs: Date.now() - startTime,
     }
@@ -579,7 +605,7 @@ async function queryGeminiWithSearch(
     log.warn(runId, `Gemini Google Search failed, trying Tavily: "${query.slice(0, 40)}..."`)
 
     // Fallback to Tavily-based search for Gemini
-    return queryGeminiWithTavily(query, domain, runId, startTime)
+    return queryGeminiWithTavily(query, domain, runId, startTime, searcherLocation, brandProfile, locationContext?.language)
   }
 }
 
@@ -591,13 +617,16 @@ async function queryGeminiWithTavily(
   query: string,
   domain: string,
   runId: string,
-  startTime: number
+  startTime: number,
+  searcherLocation: SearcherLocation | null,
+  brandProfile?: BrandEntityProfile,
+  language?: string
 ): Promise<SearchQueryResult> {
   const platform: SearchPlatform = 'gemini'
 
   try {
     // First, search with Tavily
-    const tavilyResults = await searchWithTavily(query)
+    const tavilyResults = await searchWithTavily(query, searcherLocation)
 
     if (!tavilyResults.success) {
       throw new Error('Tavily search failed')
@@ -611,7 +640,7 @@ async function queryGeminiWithTavily(
     // Query Gemini with the search context via direct API
     const result = await generateText({
       model: google('gemini-2.5-flash'),
-      system: SYSTEM_PROMPT,
+      system: buildSystemPrompt(language, searcherLocation),
       prompt: `Based on these search results, answer the user's question.
 
 SEARCH RESULTS:
@@ -640,7 +669,8 @@ Provide a helpful answer based on the search results. Mention specific businesse
       })
     }
 
-    const { mentioned, position } = checkDomainMention(responseText, domain)
+    // Tavily results are search context fed to the model, not citations - text only
+    const { mentioned, position, evidence } = matchBrandMention(responseText, domain, brandProfile)
 
     // Extract competitors
     const competitors = await extractCompetitorsFromResponse(responseText, domain, runId)
@@ -653,6 +683,7 @@ Provide a helpful answer based on the search results. Mention specific businesse
       searchEnabled: true,
       domainMentioned: mentioned,
       mentionPosition: position,
+      mentionEvidence: evidence,
       competitorsMentioned: competitors,
       responseTimeMs: Date.now() - startTime,
     }
@@ -688,10 +719,13 @@ async function queryPerplexityWithSearch(
   query: string,
   domain: string,
   runId: string,
+  locationContext?: LocationContext,
+  brandProfile?: BrandEntityProfile,
   retryCount: number = 0
 ): Promise<SearchQueryResult> {
   const startTime = Date.now()
   const platform: SearchPlatform = 'perplexity'
+  const searcherLocation = resolveSearcherLocation(query, locationContext)
 
   try {
     const controller = new AbortController()
@@ -701,10 +735,26 @@ async function queryPerplexityWithSearch(
     try {
       result = await generateText({
         model: perplexity('sonar-pro'),
-        system: SYSTEM_PROMPT,
+        system: buildSystemPrompt(locationContext?.language),
         prompt: query,
         maxOutputTokens: 1500,
         abortSignal: controller.signal,
+        // Passed through to the request body as Perplexity's search region
+        ...(searcherLocation?.countryCode && {
+          providerOptions: {
+            perplexity: {
+              web_search_options: {
+                user_location: {
+                  country: searcherLocation.countryCode,
+                  ...(searcherLocation.city && { city: searcherLocation.city }),
+                  ...(searcherLocation.region && { region: searcherLocation.region }),
+                  ...(searcherLocation.latitude !== undefined && { latitude: searcherLocation.latitude }),
+                  ...(searcherLocation.longitude !== undefined && { longitude: searcherLocation.longitude }),
+                },
+              },
+            },
+          },
+        }),
       })
     } finally {
       clearTimeout(timeout)
@@ -718,7 +768,7 @@ async function queryPerplexityWithSearch(
       if (retryCount < PERPLEXITY_MAX_RETRIES) {
         log.warn(runId, `Perplexity empty response, retrying (${retryCount + 1}/${PERPLEXITY_MAX_RETRIES}): "${query.slice(0, 40)}..."`)
         await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1)))
-        return queryPerplexityWithSearch(query, domain, runId, retryCount + 1)
+        return queryPerplexityWithSearch(query, domain, runId, locationContext, brandProfile, retryCount + 1)
       }
     }
 
@@ -727,7 +777,7 @@ async function queryPerplexityWithSearch(
       await trackCost({
         runId,
         step: `search_${platform}`,
-        model: 'perplexity/sonar-pro',
+        model: PLATFORM_REGISTRY.perplexity.costModel,
         usage: {
           inputTokens: result.usage.inputTokens || 0,
           outputTokens: result.usage.outputTokens || 0,
@@ -754,7 +804,7 @@ async function queryPerplexityWithSearch(
       }
     }
 
-    const { mentioned, position } = checkDomainMention(responseText, domain)
+    const { mentioned, position, evidence } = matchBrandMention(responseText, domain, brandProfile, sources)
 
     // Extract competitors
     const competitors = await extractCompetitorsFromResponse(responseText, domain, runId)
@@ -769,6 +819,7 @@ async function queryPerplexityWithSearch(
       searchEnabled: true, // Perplexity always uses search
       domainMentioned: mentioned,
       mentionPosition: position,
+      mentionEvidence: evidence,
       competitorsMentioned: competitors,
       responseTimeMs: Date.now() - startTime,
     }
@@ -787,7 +838,7 @@ async function queryPerplexityWithSearch(
       const backoffMs = 2000 * (retryCount + 1) // 2s, 4s
       log.warn(runId, `Perplexity transient error, retrying in ${backoffMs}ms (${retryCount + 1}/${PERPLEXITY_MAX_RETRIES}): ${error instanceof Error ? error.message : 'Unknown'}`)
       await new Promise(resolve => setTimeout(resolve, backoffMs))
-      return queryPerplexityWithSearch(query, domain, runId, retryCount + 1)
+      return queryPerplexityWithSearch(query, domain, runId, locationContext, brandProfile, retryCount + 1)
     }
 
     log.error(runId, `Perplexity query failed: "${query.slice(0, 50)}..."`, error)
@@ -807,136 +858,30 @@ async function queryPerplexityWithSearch(
 }
 
 /**
- * Generate possible spaced versions of a domain name
- * e.g., "loungelovers" -> ["lounge lovers"]
- * Uses a dictionary of common word endings to find split points
+ * Query adapter signature - one per registered platform
  */
-function generateSpacedVersions(domainWithoutTld: string): string[] {
-  const versions: string[] = []
-  const lower = domainWithoutTld.toLowerCase()
-
-  // Common word endings that might indicate a split point
-  const commonEndings = [
-    'lovers', 'works', 'labs', 'hub', 'hq', 'studio', 'studios',
-    'shop', 'store', 'market', 'place', 'space', 'box', 'bay',
-    'cloud', 'tech', 'soft', 'ware', 'app', 'apps', 'io', 'ly',
-    'ify', 'able', 'er', 'ers', 'ing', 'tion', 'sion', 'ment',
-    'ness', 'ful', 'less', 'ous', 'ive', 'al', 'ical', 'ology',
-    'house', 'home', 'land', 'world', 'zone', 'spot', 'point',
-    'direct', 'online', 'digital', 'media', 'group', 'team',
-    'company', 'solutions', 'services', 'partners', 'consulting',
-    'auto', 'motors', 'finance',
-  ]
-
-  // Common word beginnings
-  const commonBeginnings = [
-    'the', 'my', 'our', 'your', 'get', 'go', 'pro', 'super',
-    'mega', 'ultra', 'smart', 'easy', 'fast', 'quick', 'best',
-    'top', 'prime', 'first', 'new', 'big', 'little', 'red',
-    'blue', 'green', 'black', 'white', 'gold', 'silver',
-  ]
-
-  // Try splitting at common endings
-  for (const ending of commonEndings) {
-    if (lower.endsWith(ending) && lower.length > ending.length + 2) {
-      const prefix = lower.slice(0, -ending.length)
-      if (prefix.length >= 2) {
-        versions.push(`${prefix} ${ending}`)
-      }
-    }
-  }
-
-  // Try splitting at common beginnings
-  for (const beginning of commonBeginnings) {
-    if (lower.startsWith(beginning) && lower.length > beginning.length + 2) {
-      const suffix = lower.slice(beginning.length)
-      if (suffix.length >= 2) {
-        versions.push(`${beginning} ${suffix}`)
-
-        // Recursively try splitting the suffix too
-        // e.g., "therecruitmentcompany" -> "the" + "recruitmentcompany" -> "the recruitment company"
-        for (const ending of commonEndings) {
-          if (suffix.endsWith(ending) && suffix.length > ending.length + 2) {
-            const middle = suffix.slice(0, -ending.length)
-            if (middle.length >= 2) {
-              versions.push(`${beginning} ${middle} ${ending}`)
-            }
-          }
-        }
-      }
-    }
-  }
-
-  return versions
-}
+type SearchAdapter = (
+  query: string,
+  domain: string,
+  runId: string,
+  locationContext?: LocationContext,
+  brandProfile?: BrandEntityProfile
+) => Promise<SearchQueryResult>
 
 /**
- * Check if domain is mentioned in response and where
+ * Query adapters keyed by platform id
+ * Record<SearchPlatform, ...> makes a missing adapter a compile error when a
+ * new engine is added to PLATFORM_REGISTRY
  */
-function checkDomainMention(
-  response: string,
-  domain: string
-): { mentioned: boolean; position: number | null } {
-  const lowerResponse = response.toLowerCase()
-  const lowerDomain = domain.toLowerCase()
-
-  // Also check for domain without TLD
-  const domainWithoutTld = lowerDomain.split('.')[0]
-
-  // Check for brand name with spaces (e.g., "loungelovers" -> "lounge lovers")
-  // Common patterns: camelCase separation, number separation
-  const brandWithSpaces = domainWithoutTld
-    .replace(/([a-z])([A-Z])/g, '$1 $2') // camelCase
-    .replace(/([a-zA-Z])(\d)/g, '$1 $2') // letters before numbers
-    .replace(/(\d)([a-zA-Z])/g, '$1 $2') // numbers before letters
-    .toLowerCase()
-
-  // Also try inserting space between common word boundaries
-  // e.g., "loungelovers" -> check for "lounge lovers"
-  const possibleSpacedVersions = generateSpacedVersions(domainWithoutTld)
-
-  const mentioned =
-    lowerResponse.includes(lowerDomain) ||
-    lowerResponse.includes(domainWithoutTld) ||
-    (brandWithSpaces !== domainWithoutTld && lowerResponse.includes(brandWithSpaces)) ||
-    possibleSpacedVersions.some(v => lowerResponse.includes(v))
-
-  if (!mentioned) {
-    return { mentioned: false, position: null }
-  }
-
-  // Find first mention position
-  let firstIndex = lowerResponse.indexOf(lowerDomain)
-  if (firstIndex === -1) {
-    firstIndex = lowerResponse.indexOf(domainWithoutTld)
-  }
-  if (firstIndex === -1 && brandWithSpaces !== domainWithoutTld) {
-    firstIndex = lowerResponse.indexOf(brandWithSpaces)
-  }
-  if (firstIndex === -1) {
-    for (const v of possibleSpacedVersions) {
-      const idx = lowerResponse.indexOf(v)
-      if (idx !== -1) {
-        firstIndex = idx
-        break
-      }
-    }
-  }
-
-  // Calculate which third of the response
-  const totalLength = response.length
-  const relativePosition = firstIndex / totalLength
-
-  let position: number
-  if (relativePosition < 0.33) {
-    position = 1 // First third
-  } else if (relativePosition < 0.66) {
-    position = 2 // Second third
-  } else {
-    position = 3 // Third third
-  }
-
-  return { mentioned: true, position }
+const SEARCH_ADAPTERS: Record<SearchPlatform, SearchAdapter> = {
+  chatgpt: (query, domain, runId, locationContext, brandProfile) =>
+    queryOpenAIWithSearch(query, domain, runId, locationContext, brandProfile),
+  claude: (query, domain, runId, locationContext, brandProfile) =>
+    queryClaudeWithSearch(query, domain, runId, locationContext, brandProfile),
+  gemini: (query, domain, runId, locationContext, brandProfile) =>
+    queryGeminiWithSearch(query, domain, runId, locationContext, brandProfile),
+  perplexity: (query, domain, runId, locationContext, brandProfile) =>
+    queryPerplexityWithSearch(query, domain, runId, locationContext, brandProfile),
 }
 
 /**
@@ -947,19 +892,42 @@ export async function queryWithSearch(
   query: string,
   domain: string,
   runId: string,
-  locationContext?: LocationContext
+  locationContext?: LocationContext,
+  brandProfile?: BrandEntityProfile
 ): Promise<SearchQueryResult> {
-  switch (platform) {
-    case 'chatgpt':
-      return queryOpenAIWithSearch(query, domain, runId, locationContext)
-    case 'claude':
-      return queryClaudeWithSearch(query, domain, runId)
-    case 'gemini':
-      return queryGeminiWithSearch(query, domain, runId)
-    case 'perplexity':
-      return queryPerplexityWithSearch(query, domain, runId)
-    default:
-      throw new Error(`Unknown platform: ${platform}`)
+  if (!isSearchPlatform(platform)) {
+    throw new Error(`Unknown platform: ${platform}`)
+  }
+  const result = await SEARCH_ADAPTERS[platform](query, domain, runId, locationContext, brandProfile)
+  return addRecommendationRanks(result, domain, brandProfile)
+}
+
+/**
+ * Attach our rank and competitor ranks from the answer's recommendation list
+ */
+function addRecommendationRanks(
+  result: SearchQueryResult,
+  domain: string,
+  brandProfile?: BrandEntityProfile
+): SearchQueryResult {
+  if (!result.response) return result
+
+  const ranking = rankRecommendations(
+    result.response,
+    domain,
+    brandProfile,
+    result.competitorsMentioned.map(c => c.name)
+  )
+
+  return {
+    ...result,
+    mentionRank: ranking.brandRank,
+    rankedCount: ranking.rankedCount,
+    rankedEntities: ranking.entities,
+    competitorsMentioned: result.competitorsMentioned.map(c => ({
+      ...c,
+      rank: ranking.competitorRanks[c.name] ?? null,
+    })),
   }
 }
 
@@ -972,37 +940,47 @@ export async function queryWithSearch(
  * For 7 queries × 4 platforms:
  * - Old: ~7 × 60s (ChatGPT) = 7 minutes sequential
  * - New: ~60s (longest ChatGPT query) + small overhead = ~2-3 minutes parallel
+ *
+ * With samplesPerQuery > 1 each query is repeated per platform and every
+ * sample is returned (tagged with sampleIndex) so scoring can use mention rates.
  */
 export async function queryAllPlatformsWithSearch(
   queries: Array<{ id: string; text: string; category?: string }>,
   domain: string,
   runId: string,
   onProgress?: (completed: number, total: number) => void,
-  locationContext?: LocationContext
+  locationContext?: LocationContext,
+  samplesPerQuery = 1,
+  brandProfile?: BrandEntityProfile
 ): Promise<Array<{ promptId: string; results: SearchQueryResult[] }>> {
-  const platforms: SearchPlatform[] = ['chatgpt', 'claude', 'gemini', 'perplexity']
-  const total = queries.length * platforms.length
+  const platforms = SEARCH_PLATFORMS
+  const samples = Math.max(1, samplesPerQuery)
+  const total = queries.length * platforms.length * samples
   let completed = 0
 
   // Log all questions at the start
   log.questions(runId, 'AI Visibility Queries', queries.map(q => q.text))
 
-  // Create all query-platform combinations
+  // Create all query-platform-sample combinations
   const allTasks: Array<{
     queryIndex: number
     promptId: string
     queryText: string
     platform: SearchPlatform
+    sampleIndex: number
   }> = []
 
   for (let i = 0; i < queries.length; i++) {
     for (const platform of platforms) {
-      allTasks.push({
-        queryIndex: i,
-        promptId: queries[i].id,
-        queryText: queries[i].text,
-        platform,
-      })
+      for (let sampleIndex = 0; sampleIndex < samples; sampleIndex++) {
+        allTasks.push({
+          queryIndex: i,
+          promptId: queries[i].id,
+          queryText: queries[i].text,
+          platform,
+          sampleIndex,
+        })
+      }
     }
   }
 
@@ -1021,7 +999,8 @@ export async function queryAllPlatformsWithSearch(
     // Run all queries for this platform in parallel (API handles rate limits)
     const platformResults = await Promise.all(
       tasks.map(async (task) => {
-        const result = await queryWithSearch(task.platform, task.queryText, domain, runId, locationContext)
+        const result = await queryWithSearch(task.platform, task.queryText, domain, runId, locationContext, brandProfile)
+        result.sampleIndex = task.sampleIndex
         completed++
         onProgress?.(completed, total)
         return {
@@ -1057,7 +1036,7 @@ export async function queryAllPlatformsWithSearch(
   // Log summary for each query
   for (let i = 0; i < allResults.length; i++) {
     const queryResult = allResults[i]
-    log.questionDone(runId, i, queries.length, queryResult.results.map(r => ({
+    log.questionDone(runId, i, queries.length, queryResult.results.filter(r => !r.sampleIndex).map(r => ({
       name: r.platform,
       mentioned: r.domainMentioned,
     })))
@@ -1069,31 +1048,11 @@ export async function queryAllPlatformsWithSearch(
 /**
  * Reach-Weighted Scoring System
  *
- * Points are assigned based on real-world AI traffic share:
- * - ChatGPT: ~80% of AI referral traffic → 10 points per mention
- * - Perplexity: ~12% of AI referral traffic → 4 points per mention
- * - Gemini: ~5% of AI referral traffic → 2 points per mention
- * - Claude: ~1% of AI referral traffic → 1 point per mention
- *
- * This means showing up in ChatGPT is worth 10x more than Claude,
+ * Points are assigned based on real-world AI traffic share (see REACH_WEIGHTS
+ * in platforms.ts). Showing up in ChatGPT is worth 10x more than Claude,
  * reflecting the actual user reach of each platform.
  */
-export const REACH_WEIGHTS: Record<SearchPlatform, number> = {
-  chatgpt: 10,    // ~80% market share - highest impact
-  perplexity: 4,  // ~12% market share - growing fast
-  gemini: 2,      // ~5% market share
-  claude: 1,      // ~1% market share - baseline
-}
 
-// Maximum possible points if mentioned by all platforms
-export const MAX_REACH_POINTS = Object.values(REACH_WEIGHTS).reduce((sum, w) => sum + w, 0) // 17
-
-/**
- * Calculate visibility scores from search results
- *
- * Uses reach-weighted scoring: platforms with more users are worth more points.
- * A 100% score means you're mentioned by all platforms on all queries.
- */
 // Re-export types for easier imports
 export type PlatformResult = SearchQueryResult
 
@@ -1106,71 +1065,124 @@ export async function queryPlatformWithSearch(
   query: string,
   domain: string,
   runId: string,
-  locationContext?: LocationContext
+  locationContext?: LocationContext,
+  brandProfile?: BrandEntityProfile
 ): Promise<SearchQueryResult> {
-  return queryWithSearch(platform, query, domain, runId, locationContext)
+  return queryWithSearch(platform, query, domain, runId, locationContext, brandProfile)
+}
+
+export interface PlatformVisibility extends MentionRateStats {
+  score: number // Rounded mention rate 0-100
+  positionScore: number // Position-weighted visibility 0-100 (first in a list counts most)
+  sentimentScore: number // Sentiment-adjusted visibility 0-100 (a discouraging mention counts for nothing)
+  sentimentScored: number // Mentions with a sentiment
+  medianRank: number | null // Typical rank when we're in a list
+  medianRankedCount: number | null // Typical list length in those answers
 }
 
+/**
+ * Calculate visibility scores from search results
+ *
+ * Uses reach-weighted scoring: platforms with more users are worth more points.
+ * A 100% score means you're mentioned by all platforms on all queries.
+ *
+ * Every sample counts as one trial, so with multi-sample scans each platform's
+ * score is a mention probability with a 95% Wilson interval (low/high), and the
+ * overall score carries a reach-weighted interval.
+ */
 export function calculateSearchVisibilityScore(
   results: Array<{ promptId: string; results: SearchQueryResult[] }>
 ): {
   overall: number
-  byPlatform: Record<SearchPlatform, { score: number; mentioned: number; total: number }>
+  overallInterval: { low: number; high: number }
+  positionWeighted: number
+  sentimentAdjusted: number | null // null when no mention has a sentiment
+  byPlatform: Record<SearchPlatform, PlatformVisibility>
 } {
-  const platformStats: Record<SearchPlatform, { mentioned: number; total: number }> = {
-    chatgpt: { mentioned: 0, total: 0 },
-    claude: { mentioned: 0, total: 0 },
-    gemini: { mentioned: 0, total: 0 },
-    perplexity: { mentioned: 0, total: 0 },
-  }
+  const counts = Object.fromEntries(
+    SEARCH_PLATFORMS.map(p => [p, { mentioned: 0, total: 0, positionCredit: 0, sentimentCredits: 0, sentimentScored: 0, ranks: [] as number[], listSizes: [] as number[] }])
+  ) as Record<SearchPlatform, { mentioned: number; total: number; positionCredit: number; sentimentCredits: number; sentimentScored: number; ranks: number[]; listSizes: number[] }>
 
   for (const queryResult of results) {
     for (const result of queryResult.results) {
-      platformStats[result.platform].total++
+      // Results from platforms disabled since the scan ran are ignored
+      const stats = counts[result.platform]
+      if (!stats) continue
+      stats.total++
       if (result.domainMentioned) {
-        platformStats[result.platform].mentioned++
+        stats.mentioned++
+        stats.sentimentCredits += sentimentCredit(result.sentiment)
+        if (result.sentiment) stats.sentimentScored++
+      }
+      stats.positionCredit += rankWeight(result.domainMentioned, result.mentionRank, result.rankedCount)
+      if (result.mentionRank && result.rankedCount) {
+        stats.ranks.push(result.mentionRank)
+        stats.listSizes.push(result.rankedCount)
       }
     }
   }
 
-  // Calculate per-platform scores (percentage of queries where mentioned)
-  const byPlatform: Record<SearchPlatform, { score: number; mentioned: number; total: number }> = {
-    chatgpt: {
-      ...platformStats.chatgpt,
-      score: platformStats.chatgpt.total > 0
-        ? Math.round((platformStats.chatgpt.mentioned / platformStats.chatgpt.total) * 100)
-        : 0,
-    },
-    claude: {
-      ...platformStats.claude,
-      score: platformStats.claude.total > 0
-        ? Math.round((platformStats.claude.mentioned / platformStats.claude.total) * 100)
-        : 0,
-    },
-    gemini: {
-      ...platformStats.gemini,
-      score: platformStats.gemini.total > 0
-        ? Math.round((platformStats.gemini.mentioned / platformStats.gemini.total) * 100)
-        : 0,
-    },
-    perplexity: {
-      ...platformStats.perplexity,
-      score: platformStats.perplexity.total > 0
-        ? Math.round((platformStats.perplexity.mentioned / platformStats.perplexity.total) * 100)
-        : 0,
-    },
-  }
+  // Per-platform mention rates (percentage of samples where mentioned)
+  const byPlatform = Object.fromEntries(
+    SEARCH_PLATFORMS.map(p => {
+      const { mentioned, total, positionCredit, sentimentCredits, sentimentScored, ranks, listSizes } = counts[p]
+      const stats = mentionRateStats(mentioned, total)
+      return [p, {
+        ...stats,
+        score: Math.round(stats.rate),
+        positionScore: total > 0 ? Math.round((positionCredit / total) * 100) : 0,
+        sentimentScore: total > 0 ? Math.round((sentimentCredits / total) * 100) : 0,
+        sentimentScored,
+        medianRank: median(ranks),
+        medianRankedCount: median(listSizes),
+      }]
+    })
+  ) as Record<SearchPlatform, PlatformVisibility>
 
   // Reach-weighted overall score
   // Each platform's contribution = (mention rate 0-1) × reach weight
   // Normalized to 0-100 scale
-  const reachWeightedSum =
-    (byPlatform.chatgpt.score / 100) * REACH_WEIGHTS.chatgpt +
-    (byPlatform.perplexity.score / 100) * REACH_WEIGHTS.perplexity +
-    (byPlatform.gemini.score / 100) * REACH_WEIGHTS.gemini +
-    (byPlatform.claude.score / 100) * REACH_WEIGHTS.claude
-
-  const overall = Math.round((reachWeightedSum / MAX_REACH_POINTS) * 100)
+  const reachWeightedSum = SEARCH_PLATFORMS.reduce(
+    (sum, p) => sum + (byPlatform[p].score / 100) * REACH_WEIGHTS[p],
+    0
+  )
+
+  const overall = MAX_REACH_POINTS > 0 ? Math.round((reachWeightedSum / MAX_REACH_POINTS) * 100) : 0
+
+  // Same reach weighting, but each mention is credited by its rank in the answer
+  const positionWeightedSum = SEARCH_PLATFORMS.reduce(
+    (sum, p) => sum + (byPlatform[p].positionScore / 100) * REACH_WEIGHTS[p],
+    0
+  )
+  const positionWeighted = MAX_REACH_POINTS > 0 ? Math.round((positionWeightedSum / MAX_REACH_POINTS) * 100) : 0
+
+  // Same reach weighting, with each mention credited by its sentiment and recommendation strength
+  const sentimentWeightedSum = SEARCH_PLATFORMS.reduce(
+    (sum, p) => sum + (byPlatform[p].sentimentScore / 100) * REACH_WEIGHTS[p],
+    0
+  )
+  const hasSentiment = SEARCH_PLATFORMS.some(p => byPlatform[p].sentimentScored > 0)
+  const sentimentAdjusted = hasSentiment && MAX_REACH_POINTS > 0
+    ? Math.round((sentimentWeightedSum / MAX_REACH_POINTS) * 100)
+    : null
+
+  const { low, high } = weightedInterval(
+    SEARCH_PLATFORMS.map(p => ({ stats: byPlatform[p], weight: REACH_WEIGHTS[p] }))
+  )
+
+  // Keep the rounded headline score inside its own band
+  return {
+    overall,
+    overallInterval: { low: Math.min(low, overall), high: Math.max(high, overall) },
+    positionWeighted,
+    sentimentAdjusted,
+    byPlatform,
+  }
+}
 
-  return { overall, byPlatform }
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
 }
@@ -0,0 +1,104 @@
+/**
+ * Brand Sentiment
+ * How an answer talks about us when it mentions us. The raw visibility score
+ * counts a mention inside "avoid this company" the same as a glowing
+ * recommendation; the sentiment-adjusted score credits each mention by its
+ * sentiment and how strongly the answer recommends us.
+ *
+ * Sentiment uses HiringBrand's 4 tiers on a 1-10 score and the same
+ * llm_responses columns (sentiment_score, sentiment_category and the driving
+ * phrases). Recommendation strength is outrankllm-only. Answers are scored by
+ * analyze-sentiment.ts.
+ */
+
+import type { MentionEvidence } from './brand-matcher'
+
+export type SentimentCategory = 'strong' | 'positive' | 'mixed' | 'negative'
+
+export type RecommendationStrength =
+  | 'top_pick'    // Named as the best or first choice
+  | 'recommended' // Recommended, alongside others
+  | 'mentioned'   // Listed or described without a recommendation
+  | 'discouraged' // Warned against, or mentioned for its problems
+
+export interface BrandSentiment {
+  score: number               // 1 = very negative, 5 = neutral, 10 = very positive
+  category: SentimentCategory
+  strength: RecommendationStrength
+  positivePhrases: string[]   // Exact quotes that drove the score up
+  negativePhrases: string[]   // Exact quotes that drove the score down
+}
+
+// reports.sentiment_scores
+export interface SentimentScores {
+  overall: number // Sentiment-adjusted visibility, reach-weighted like the raw score
+  platforms: Record<string, {
+    score: number   // Sentiment-adjusted visibility 0-100
+    scored: number  // Mentions with a sentiment
+    byStrength: Partial<Record<RecommendationStrength, number>>
+  }>
+}
+
+// Share of a mention's credit kept at each tier - a discouraging mention earns nothing
+const SENTIMENT_CREDIT: Record<SentimentCategory, number> = {
+  strong: 1,
+  positive: 0.8,
+  mixed: 0.5,
+  negative: 0,
+}
+
+const STRENGTH_CREDIT: Record<RecommendationStrength, number> = {
+  top_pick: 1,
+  recommended: 0.9,
+  mentioned: 0.7,
+  discouraged: 0,
+}
+
+export const SENTIMENT_LABELS: Record<SentimentCategory, string> = {
+  strong: 'Strong',
+  positive: 'Positive',
+  mixed: 'Mixed',
+  negative: 'Negative',
+}
+
+export const STRENGTH_LABELS: Record<RecommendationStrength, string> = {
+  top_pick: 'Top pick',
+  recommended: 'Recommended',
+  mentioned: 'Mentioned only',
+  discouraged: 'Discouraged',
+}
+
+// Characters either side of our first mention sent for scoring
+const EXCERPT_RADIUS = 600
+
+/**
+ * Tier for a 1-10 score: strong (9-10), positive (6-8), mixed (4-5), negative (1-3)
+ */
+export function sentimentCategory(score: number): SentimentCategory {
+  return score >= 9 ? 'strong' : score >= 6 ? 'positive' : score >= 4 ? 'mixed' : 'negative'
+}
+
+/**
+ * Visibility credit for a mention, 0-1. Mentions that weren't scored keep full
+ * credit, so a failed or skipped analysis never lowers the score
+ */
+export function sentimentCredit(sentiment?: Pick<BrandSentiment, 'category' | 'strength'> | null): number {
+  if (!sentiment) return 1
+  return SENTIMENT_CREDIT[sentiment.category] * STRENGTH_CREDIT[sentiment.strength]
+}
+
+/**
+ * The part of an answer around our first mention (the whole answer when short,
+ * or when we were only matched through a cited source)
+ */
+export function mentionExcerpt(response: string, evidence?: MentionEvidence[] | null): string {
+  if (response.length <= EXCERPT_RADIUS * 2) return response
+
+  const first = (evidence || [])
+    .filter(e => e.start >= 0)
+    .sort((a, b) => a.start - b.start)[0]
+  const start = first ? Math.max(0, first.start - EXCERPT_RADIUS) : 0
+  const end = Math.min(response.length, start + EXCERPT_RADIUS * 2)
+
+  return `${start > 0 ? '...' : ''}${response.slice(start, end)}${end < response.length ? '...' : ''}`
+}
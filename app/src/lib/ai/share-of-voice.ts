@@ -0,0 +1,193 @@
+/**
+ * Share of Voice
+ * What fraction of AI recommendation slots went to us versus each tracked
+ * competitor (subscriber_competitors), per question and platform, plus a
+ * head-to-head matrix: on which questions does competitor X get placed above us?
+ *
+ * A slot is one entry in an answer's recommendation list (recommendation-rank.ts).
+ * Answers without a list give one slot to each business they mention.
+ *
+ * Calculated when a scan finishes (reports.share_of_voice) and summarised into
+ * score_history (share_of_voice, competitor_share) so share is tracked over time.
+ */
+
+import { namesMatch, type RankedEntity } from './recommendation-rank'
+
+export interface ShareOfVoiceInput {
+  question: string
+  platform: string
+  domainMentioned: boolean
+  mentionRank?: number | null
+  rankedEntities?: RankedEntity[] | null
+  competitorsMentioned: { name: string; rank?: number | null }[]
+}
+
+export interface SlotCounts {
+  total: number
+  ours: number
+  competitors: Record<string, number> // Tracked competitor name -> slots
+}
+
+export interface HeadToHeadCell {
+  wins: number   // Answers that placed us above the competitor
+  losses: number // Answers that placed the competitor above us
+}
+
+export interface QuestionShareOfVoice {
+  question: string
+  slots: SlotCounts
+  byPlatform: Record<string, SlotCounts>
+  headToHead: Record<string, HeadToHeadCell> // Competitor name -> outcome on this question
+}
+
+export interface ShareOfVoice {
+  competitors: string[] // Competitors compared, tracked ones first
+  tracked: boolean      // false when no competitors are tracked and the most-mentioned were used
+  slots: SlotCounts
+  byPlatform: Record<string, SlotCounts>
+  questions: QuestionShareOfVoice[]
+}
+
+// score_history columns
+export interface ShareOfVoiceSnapshot {
+  share_of_voice: number
+  competitor_share: Record<string, number>
+}
+
+// Mentioned, but not in the answer's recommendation list - placed after every listed entry
+const UNLISTED = Number.MAX_SAFE_INTEGER
+
+/**
+ * Share of voice and head-to-head results for one scan
+ */
+export function calculateShareOfVoice(
+  responses: ShareOfVoiceInput[],
+  competitors: string[],
+  tracked: boolean
+): ShareOfVoice {
+  const slots = emptySlots(competitors)
+  const byPlatform: Record<string, SlotCounts> = {}
+  const questions = new Map<string, QuestionShareOfVoice>()
+
+  for (const response of responses) {
+    const responseSlots = countSlots(response, competitors)
+
+    const question = questions.get(response.question) || {
+      question: response.question,
+      slots: emptySlots(competitors),
+      byPlatform: {},
+      headToHead: Object.fromEntries(competitors.map(name => [name, { wins: 0, losses: 0 }])),
+    }
+    question.byPlatform[response.platform] ||= emptySlots(competitors)
+    byPlatform[response.platform] ||= emptySlots(competitors)
+
+    for (const target of [slots, byPlatform[response.platform], question.slots, question.byPlatform[response.platform]]) {
+      addSlots(target, responseSlots)
+    }
+
+    const ourPlace = response.mentionRank ?? (response.domainMentioned ? UNLISTED : null)
+    for (const name of competitors) {
+      const theirPlace = competitorPlace(response, name)
+      if (ourPlace === null && theirPlace === null) continue
+      if (theirPlace === null || (ourPlace !== null && ourPlace < theirPlace)) {
+        question.headToHead[name].wins++
+      } else if (ourPlace === null || theirPlace < ourPlace) {
+        question.headToHead[name].losses++
+      }
+    }
+
+    questions.set(response.question, question)
+  }
+
+  return {
+    competitors,
+    tracked,
+    slots,
+    byPlatform,
+    questions: Array.from(questions.values()),
+  }
+}
+
+/**
+ * Percentage of slots held by us (no name) or by a competitor
+ */
+export function shareOf(slots: SlotCounts, competitor?: string): number {
+  if (slots.total === 0) return 0
+  const held = competitor === undefined ? slots.ours : slots.competitors[competitor] || 0
+  return Math.round((held / slots.total) * 100)
+}
+
+/**
+ * Questions where the competitor was placed above us more often than below
+ */
+export function questionsLostTo(shareOfVoice: ShareOfVoice, competitor: string): string[] {
+  return shareOfVoice.questions
+    .filter(q => {
+      const cell = q.headToHead[competitor]
+      return cell && cell.losses > cell.wins
+    })
+    .map(q => q.question)
+}
+
+export function toShareOfVoiceSnapshot(shareOfVoice: ShareOfVoice): ShareOfVoiceSnapshot {
+  return {
+    share_of_voice: shareOf(shareOfVoice.slots),
+    competitor_share: Object.fromEntries(
+      shareOfVoice.competitors.map(name => [name, shareOf(shareOfVoice.slots, name)])
+    ),
+  }
+}
+
+function countSlots(response: ShareOfVoiceInput, competitors: string[]): SlotCounts {
+  const slots = emptySlots(competitors)
+  const owner = (name: string) => competitors.find(competitor => namesMatch(name, competitor))
+
+  if (response.rankedEntities && response.rankedEntities.length > 0) {
+    for (const entity of response.rankedEntities) {
+      slots.total++
+      if (entity.isBrand) {
+        slots.ours++
+        continue
+      }
+      const competitor = owner(entity.name)
+      if (competitor) slots.competitors[competitor]++
+    }
+    return slots
+  }
+
+  // No list - one slot per business mentioned
+  if (response.domainMentioned) {
+    slots.total++
+    slots.ours++
+  }
+  const seen = new Set<string>()
+  for (const mentioned of response.competitorsMentioned) {
+    const key = mentioned.name.toLowerCase().trim()
+    if (seen.has(key)) continue
+    seen.add(key)
+    slots.total++
+    const competitor = owner(mentioned.name)
+    if (competitor) slots.competitors[competitor]++
+  }
+  return slots
+}
+
+function competitorPlace(response: ShareOfVoiceInput, competitor: string): number | null {
+  const mentioned = response.competitorsMentioned.find(c => namesMatch(c.name, competitor))
+  if (mentioned) return mentioned.rank ?? UNLISTED
+
+  const listed = response.rankedEntities?.find(e => !e.isBrand && namesMatch(e.name, competitor))
+  return listed ? listed.rank : null
+}
+
+function emptySlots(competitors: string[]): SlotCounts {
+  return { total: 0, ours: 0, competitors: Object.fromEntries(competitors.map(name => [name, 0])) }
+}
+
+function addSlots(target: SlotCounts, slots: SlotCounts): void {
+  target.total += slots.total
+  target.ours += slots.ours
+  for (const [name, count] of Object.entries(slots.competitors)) {
+    target.competitors[name] = (target.competitors[name] || 0) + count
+  }
+}
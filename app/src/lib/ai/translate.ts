@@ -0,0 +1,127 @@
+/**
+ * Translation
+ * Translates scan text between English and the scan language (see language.ts):
+ * non-English AI answers and questions into English for the report, and English
+ * fallback questions into the scan language before they're asked.
+ */
+
+import { generateText } from './replay'
+import { createOpenAI } from '@ai-sdk/openai'
+import { trackCost } from './costs'
+import { getLanguage } from './language'
+import { createServiceClient } from '@/lib/supabase/server'
+
+const openai = createOpenAI({
+  apiKey: process.env.OPENAI_API_KEY || '',
+})
+
+// Translations run a few at a time to stay under rate limits
+const TRANSLATION_CONCURRENCY = 4
+
+// Long answers are cut here - the report shows the original in full
+const MAX_TRANSLATION_CHARS = 6000
+
+const TRANSLATION_PROMPT = `Translate the text below into {language}.
+Keep the formatting (markdown, lists, links) and keep business, product and place names exactly as written.
+Return ONLY the translation, nothing else.
+
+Text:
+{text}`
+
+/**
+ * Translate each text into the target language (ISO 639-1 code)
+ * Returns null for texts that are empty or failed to translate
+ */
+export async function translateTexts(
+  texts: string[],
+  targetLanguage: string,
+  runId: string
+): Promise<Array<string | null>> {
+  const language = getLanguage(targetLanguage)
+  const results: Array<string | null> = new Array(texts.length).fill(null)
+
+  for (let i = 0; i < texts.length; i += TRANSLATION_CONCURRENCY) {
+    const batch = texts.slice(i, i + TRANSLATION_CONCURRENCY)
+    const translated = await Promise.all(batch.map(text => translateText(text, language.name, runId)))
+    translated.forEach((translation, offset) => {
+      results[i + offset] = translation
+    })
+  }
+
+  return results
+}
+
+/**
+ * English translations of a finished non-English scan's questions and answers
+ * (scan_prompts.prompt_translation, llm_responses.response_translation).
+ * Only the first sample of each answer - that's the one reports show
+ */
+export async function saveScanTranslations(runId: string): Promise<{ translated: number; total: number }> {
+  const supabase = createServiceClient()
+
+  const [{ data: prompts }, { data: responses }] = await Promise.all([
+    supabase
+      .from('scan_prompts')
+      .select('id, prompt_text')
+      .eq('run_id', runId),
+    supabase
+      .from('llm_responses')
+      .select('id, response_text')
+      .eq('run_id', runId)
+      .eq('sample_index', 0)
+      .is('error_message', null),
+  ])
+
+  const promptRows = (prompts || []) as { id: string; prompt_text: string }[]
+  const responseRows = (responses || []) as { id: string; response_text: string | null }[]
+
+  const translated = await translateTexts(
+    [...promptRows.map(p => p.prompt_text), ...responseRows.map(r => r.response_text || '')],
+    'en',
+    runId
+  )
+
+  for (const [i, prompt] of promptRows.entries()) {
+    if (!translated[i]) continue
+    await supabase.from('scan_prompts').update({ prompt_translation: translated[i] }).eq('id', prompt.id)
+  }
+  for (const [i, response] of responseRows.entries()) {
+    const translation = translated[promptRows.length + i]
+    if (!translation) continue
+    await supabase.from('llm_responses').update({ response_translation: translation }).eq('id', response.id)
+  }
+
+  return { translated: translated.filter(Boolean).length, total: translated.length }
+}
+
+async function translateText(text: string, languageName: string, runId: string): Promise<string | null> {
+  if (!text || !text.trim()) return null
+
+  try {
+    const result = await generateText({
+      model: openai('gpt-4o-mini'),
+      prompt: TRANSLATION_PROMPT
+        .replace('{language}', languageName)
+        .replace('{text}', text.slice(0, MAX_TRANSLATION_CHARS)),
+      maxOutputTokens: 3000,
+    })
+
+    if (result.usage) {
+      await trackCost({
+        runId,
+        step: 'translation',
+        model: 'openai/gpt-4o-mini',
+        usage: {
+          inputTokens: result.usage.inputTokens || 0,
+          outputTokens: result.usage.outputTokens || 0,
+          totalTokens: (result.usage.inputTokens || 0) + (result.usage.outputTokens || 0),
+        },
+      })
+    }
+
+    return result.text.trim() || null
+  } catch (error) {
+    console.error(`Translation to ${languageName} failed:`, error)
+    return null
+  }
+}
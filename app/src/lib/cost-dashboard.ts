@@ -0,0 +1,382 @@
+/**
+ * Admin Cost & Margin Dashboard
+ * Rolls up api_costs by step, model, platform, tier, customer and week, and
+ * joins Stripe revenue per lead (outrankllm) or organization (HiringBrand)
+ *
+ * Costs are USD (vendor pricing). Revenue is converted to USD with
+ * AUD_TO_USD_RATE so margins compare like with like.
+ *
+ * Server-only: reads with the service client and calls Stripe.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server'
+import { stripe } from '@/lib/stripe'
+import { TIER_PRICES, type PricingRegion, type SubscriptionTier } from '@/lib/stripe-config'
+import { HB_TIER_PRICES } from '@/lib/hiringbrand-stripe'
+import { ALL_PLATFORMS } from '@/lib/ai/platforms'
+
+export interface CostBreakdownRow {
+  key: string
+  costCents: number
+  requests: number
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface CustomerCostRow {
+  id: string                      // Lead or organization id
+  kind: 'lead' | 'organization'
+  name: string                    // Email (leads) or organization name
+  tier: string
+  scans: number
+  costCents: number               // AI cost in the window (USD cents)
+  revenueCents: number            // Paid Stripe invoices in the window (USD cents)
+  marginCents: number
+  marginPercent: number | null    // null without revenue
+  monthlyCostCents: number        // Cost normalised to 30 days
+  planPriceCents: number | null   // Monthly plan price (USD cents), null for free/trial/enterprise
+  overPlan: boolean               // Monthly AI cost exceeds the plan price
+}
+
+export interface CostDashboard {
+  since: string
+  until: string
+  days: number
+  totals: {
+    costCents: number
+    revenueCents: number
+    marginCents: number
+    marginPercent: number | null
+    scans: number
+    requests: number
+  }
+  byStep: CostBreakdownRow[]
+  byModel: CostBreakdownRow[]
+  byPlatform: CostBreakdownRow[]
+  byTier: CostBreakdownRow[]
+  byWeek: CostBreakdownRow[]      // Keyed by week start (Monday, YYYY-MM-DD)
+  customers: CustomerCostRow[]
+  revenueError: string | null     // Set when Stripe couldn't be read (margins then exclude revenue)
+}
+
+interface CostRow {
+  run_id: string | null
+  step: string
+  model: string | null
+  input_tokens: number | null
+  output_tokens: number | null
+  cost_cents: number | string | null
+  created_at: string
+}
+
+interface RunRow {
+  id: string
+  lead_id: string | null
+  organization_id: string | null
+  domain_subscription_id: string | null
+}
+
+interface LeadRow {
+  id: string
+  email: string
+  tier: string | null
+  stripe_customer_id: string | null
+}
+
+interface OrganizationRow {
+  id: string
+  name: string
+  tier: string
+  stripe_customer_id: string | null
+}
+
+const PAGE_SIZE = 1000
+const IN_CHUNK_SIZE = 200
+const DAYS_PER_MONTH = 30
+
+// Stripe charges in these currencies; costs are USD
+const USD_PER_UNIT: Record<string, number> = {
+  usd: 1,
+  aud: Number(process.env.AUD_TO_USD_RATE) || 0.65,
+}
+
+/**
+ * Build the dashboard for the last `days` days
+ */
+export async function getCostDashboard(days: number): Promise<CostDashboard> {
+  const until = new Date()
+  const since = new Date(until.getTime() - days * 24 * 60 * 60 * 1000)
+  const supabase = createServiceClient()
+
+  // 1. Costs in the window (paged - a month can hold tens of thousands of rows)
+  const costs: CostRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('api_costs')
+      .select('run_id, step, model, input_tokens, output_tokens, cost_cents, created_at')
+      .gte('created_at', since.toISOString())
+      .lte('created_at', until.toISOString())
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load api_costs: ${error.message}`)
+    costs.push(...((data || []) as CostRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  // 2. Who each run belongs to
+  const runIds = unique(costs.map(c => c.run_id))
+  const runs = await selectIn<RunRow>('scan_runs', 'id, lead_id, organization_id, domain_subscription_id', 'id', runIds)
+  const runById = new Map(runs.map(r => [r.id, r]))
+
+  const subscriptionIds = unique(runs.map(r => r.domain_subscription_id))
+  const subscriptions = await selectIn<{ id: string; tier: string }>('domain_subscriptions', 'id, tier', 'id', subscriptionIds)
+  const subscriptionTier = new Map(subscriptions.map(s => [s.id, s.tier]))
+
+  // 3. Revenue from Stripe, keyed by customer id
+  let revenueError: string | null = null
+  let revenueByCustomer = new Map<string, { cents: number; region: PricingRegion }>()
+  try {
+    revenueByCustomer = await getStripeRevenue(since, until)
+  } catch (error) {
+    console.error('Failed to load Stripe revenue:', error)
+    revenueError = error instanceof Error ? error.message : 'Unknown Stripe error'
+  }
+
+  // 4. Customers: everyone with scans in the window, plus paying customers without scans
+  const stripeCustomerIds = Array.from(revenueByCustomer.keys())
+  const [leadsByRun, leadsByStripe, orgsByRun, orgsByStripe] = await Promise.all([
+    selectIn<LeadRow>('leads', 'id, email, tier, stripe_customer_id', 'id', unique(runs.map(r => r.lead_id))),
+    selectIn<LeadRow>('leads', 'id, email, tier, stripe_customer_id', 'stripe_customer_id', stripeCustomerIds),
+    selectIn<OrganizationRow>('organizations', 'id, name, tier, stripe_customer_id', 'id', unique(runs.map(r => r.organization_id))),
+    selectIn<OrganizationRow>('organizations', 'id, name, tier, stripe_customer_id', 'stripe_customer_id', stripeCustomerIds),
+  ])
+  const leads = new Map([...leadsByRun, ...leadsByStripe].map(l => [l.id, l]))
+  const organizations = new Map([...orgsByRun, ...orgsByStripe].map(o => [o.id, o]))
+
+  const activeSubscriptions = await selectIn<{ lead_id: string; tier: string; status: string }>(
+    'domain_subscriptions', 'lead_id, tier, status', 'lead_id', Array.from(leads.keys())
+  )
+
+  // 5. Breakdowns
+  const byStep = new Breakdown()
+  const byModel = new Breakdown()
+  const byPlatform = new Breakdown()
+  const byTier = new Breakdown()
+  const byWeek = new Breakdown()
+  const customerCosts = new Map<string, { costCents: number; runIds: Set<string> }>()
+
+  for (const cost of costs) {
+    const run = cost.run_id ? runById.get(cost.run_id) : undefined
+
+    byStep.add(stepGroup(cost.step), cost)
+    byModel.add(cost.model || 'unknown', cost)
+    byPlatform.add(stepPlatform(cost.step) || 'non-platform', cost)
+    byTier.add(runTier(run, leads, organizations, subscriptionTier), cost)
+    byWeek.add(weekStart(cost.created_at), cost)
+
+    const customerKey = run?.organization_id ? `organization:${run.organization_id}` : run?.lead_id ? `lead:${run.lead_id}` : null
+    if (customerKey) {
+      const entry = customerCosts.get(customerKey) || { costCents: 0, runIds: new Set<string>() }
+      entry.costCents += Number(cost.cost_cents) || 0
+      if (cost.run_id) entry.runIds.add(cost.run_id)
+      customerCosts.set(customerKey, entry)
+    }
+  }
+
+  // 6. Per-customer margin
+  const customers: CustomerCostRow[] = []
+  const customerKeys = new Set([
+    ...customerCosts.keys(),
+    ...Array.from(leads.values()).filter(l => l.stripe_customer_id && revenueByCustomer.has(l.stripe_customer_id)).map(l => `lead:${l.id}`),
+    ...Array.from(organizations.values()).filter(o => o.stripe_customer_id && revenueByCustomer.has(o.stripe_customer_id)).map(o => `organization:${o.id}`),
+  ])
+
+  for (const key of customerKeys) {
+    const [kind, id] = key.split(':') as ['lead' | 'organization', string]
+    const usage = customerCosts.get(key) || { costCents: 0, runIds: new Set<string>() }
+    const account = kind === 'lead' ? leads.get(id) : organizations.get(id)
+    const revenue = account?.stripe_customer_id ? revenueByCustomer.get(account.stripe_customer_id) : undefined
+    const region = revenue?.region || 'INTL'
+
+    let planPriceCents: number | null = null
+    let tier = 'unknown'
+    if (kind === 'lead') {
+      const lead = account as LeadRow | undefined
+      const subs = activeSubscriptions.filter(s => s.lead_id === id && s.status === 'active')
+      tier = subs.length > 0 ? subs.map(s => s.tier).join('+') : lead?.tier || 'free'
+      planPriceCents = leadPlanPriceCents(subs.map(s => s.tier), lead?.tier || null, region)
+    } else {
+      const org = account as OrganizationRow | undefined
+      tier = org ? `hb:${org.tier}` : 'hb:unknown'
+      planPriceCents = org ? organizationPlanPriceCents(org.tier, region) : null
+    }
+
+    const revenueCents = revenue?.cents || 0
+    const marginCents = revenueCents - usage.costCents
+    const monthlyCostCents = (usage.costCents / days) * DAYS_PER_MONTH
+
+    customers.push({
+      id,
+      kind,
+      name: kind === 'lead'
+        ? (account as LeadRow | undefined)?.email || id
+        : (account as OrganizationRow | undefined)?.name || id,
+      tier,
+      scans: usage.runIds.size,
+      costCents: round(usage.costCents),
+      revenueCents: round(revenueCents),
+      marginCents: round(marginCents),
+      marginPercent: revenueCents > 0 ? Math.round((marginCents / revenueCents) * 1000) / 10 : null,
+      monthlyCostCents: round(monthlyCostCents),
+      planPriceCents,
+      overPlan: planPriceCents !== null && monthlyCostCents > planPriceCents,
+    })
+  }
+
+  // Flagged accounts first, then biggest spend
+  customers.sort((a, b) => Number(b.overPlan) - Number(a.overPlan) || b.costCents - a.costCents)
+
+  const costCents = costs.reduce((sum, c) => sum + (Number(c.cost_cents) || 0), 0)
+  const revenueCents = Array.from(revenueByCustomer.values()).reduce((sum, r) => sum + r.cents, 0)
+
+  return {
+    since: since.toISOString(),
+    until: until.toISOString(),
+    days,
+    totals: {
+      costCents: round(costCents),
+      revenueCents: round(revenueCents),
+      marginCents: round(revenueCents - costCents),
+      marginPercent: revenueCents > 0 ? Math.round(((revenueCents - costCents) / revenueCents) * 1000) / 10 : null,
+      scans: runIds.length,
+      requests: costs.length,
+    },
+    byStep: byStep.rows(),
+    byModel: byModel.rows(),
+    byPlatform: byPlatform.rows(),
+    byTier: byTier.rows(),
+    byWeek: byWeek.rows().sort((a, b) => a.key.localeCompare(b.key)),
+    customers,
+    revenueError,
+  }
+}
+
+class Breakdown {
+  private map = new Map<string, CostBreakdownRow>()
+
+  add(key: string, cost: CostRow) {
+    const row = this.map.get(key) || { key, costCents: 0, requests: 0, inputTokens: 0, outputTokens: 0 }
+    row.costCents += Number(cost.cost_cents) || 0
+    row.requests += 1
+    row.inputTokens += cost.input_tokens || 0
+    row.outputTokens += cost.output_tokens || 0
+    this.map.set(key, row)
+  }
+
+  rows(): CostBreakdownRow[] {
+    return Array.from(this.map.values())
+      .map(r => ({ ...r, costCents: round(r.costCents) }))
+      .sort((a, b) => b.costCents - a.costCents)
+  }
+}
+
+/**
+ * Paid invoices in the window, summed per Stripe customer (USD cents)
+ */
+async function getStripeRevenue(since: Date, until: Date): Promise<Map<string, { cents: number; region: PricingRegion }>> {
+  const revenue = new Map<string, { cents: number; region: PricingRegion }>()
+
+  const invoices = stripe.invoices.list({
+    status: 'paid',
+    created: { gte: Math.floor(since.getTime() / 1000), lte: Math.floor(until.getTime() / 1000) },
+    limit: 100,
+  })
+
+  for await (const invoice of invoices) {
+    const customerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id
+    if (!customerId) continue
+
+    const rate = USD_PER_UNIT[invoice.currency]
+    if (rate === undefined) {
+      console.warn(`Skipping invoice ${invoice.id} in unsupported currency: ${invoice.currency}`)
+      continue
+    }
+
+    const entry = revenue.get(customerId) || { cents: 0, region: invoice.currency === 'aud' ? 'AU' : 'INTL' }
+    entry.cents += invoice.amount_paid * rate
+    revenue.set(customerId, entry)
+  }
+
+  return revenue
+}
+
+function leadPlanPriceCents(subscriptionTiers: string[], leadTier: string | null, region: PricingRegion): number | null {
+  const tiers = subscriptionTiers.length > 0 ? subscriptionTiers : leadTier && leadTier !== 'free' ? [leadTier] : []
+  const prices = tiers
+    .map(t => TIER_PRICES[region][t as SubscriptionTier])
+    .filter((p): p is number => typeof p === 'number')
+  if (prices.length === 0) return null
+  return round(prices.reduce((sum, p) => sum + p, 0) * 100 * USD_PER_UNIT[region === 'AU' ? 'aud' : 'usd'])
+}
+
+function organizationPlanPriceCents(tier: string, region: PricingRegion): number | null {
+  const price = (HB_TIER_PRICES[region] as Record<string, number>)[tier]
+  if (price === undefined) return null // Enterprise pricing is custom
+  return round(price * 100 * USD_PER_UNIT[region === 'AU' ? 'aud' : 'usd'])
+}
+
+function runTier(
+  run: RunRow | undefined,
+  leads: Map<string, LeadRow>,
+  organizations: Map<string, OrganizationRow>,
+  subscriptionTier: Map<string, string>
+): string {
+  if (!run) return 'unknown'
+  if (run.organization_id) return `hb:${organizations.get(run.organization_id)?.tier || 'unknown'}`
+  if (run.domain_subscription_id) return subscriptionTier.get(run.domain_subscription_id) || 'unknown'
+  return leads.get(run.lead_id || '')?.tier || 'free'
+}
+
+// "search_chatgpt" -> "search", "role_action_plan_engineering" -> "role_action_plan"
+function stepGroup(step: string): string {
+  if (step.startsWith('role_action_plan')) return 'role_action_plan'
+  const platforms = new Set<string>(ALL_PLATFORMS)
+  return step.split('_').filter(part => !platforms.has(part)).join('_') || step
+}
+
+function stepPlatform(step: string): string | null {
+  return step.split('_').find(part => (ALL_PLATFORMS as string[]).includes(part)) || null
+}
+
+function weekStart(timestamp: string): string {
+  const date = new Date(timestamp)
+  const day = (date.getUTCDay() + 6) % 7 // Monday = 0
+  date.setUTCDate(date.getUTCDate() - day)
+  return date.toISOString().slice(0, 10)
+}
+
+async function selectIn<T>(table: string, columns: string, column: string, values: string[]): Promise<T[]> {
+  if (values.length === 0) return []
+  const supabase = createServiceClient()
+  const rows: T[] = []
+
+  for (let i = 0; i < values.length; i += IN_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .in(column, values.slice(i, i + IN_CHUNK_SIZE))
+
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`)
+    rows.push(...((data || []) as T[]))
+  }
+  return rows
+}
+
+function unique(values: Array<string | null | undefined>): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v)))
+}
+
+function round(cents: number): number {
+  return Math.round(cents * 100) / 100
+}
@@ -16,6 +16,7 @@ export interface FeatureFlags {
   unlimitedScans: boolean
   exportReports: boolean
   multiDomain: boolean  // Agency only - multiple domains
+  maxCrawlPages: number // Pages crawled per scan (subscriptions can set a lower crawl_max_pages)
 }
 
 // Default flags for free tier
@@ -33,6 +34,7 @@ const DEFAULT_FLAGS: FeatureFlags = {
   unlimitedScans: false,
   exportReports: false,
   multiDomain: false,
+  maxCrawlPages: 15,
 }
 
 // Map database flag names to TypeScript property names
@@ -74,6 +76,7 @@ function getFlagsForTier(tier: Tier): FeatureFlags {
         unlimitedScans: false,
         exportReports: false,
         multiDomain: false,
+        maxCrawlPages: 15,
       }
 
     case 'pro':
@@ -91,6 +94,7 @@ function getFlagsForTier(tier: Tier): FeatureFlags {
         unlimitedScans: true,
         exportReports: true,
         multiDomain: false,
+        maxCrawlPages: 30,
       }
 
     case 'agency':
@@ -108,6 +112,7 @@ function getFlagsForTier(tier: Tier): FeatureFlags {
         unlimitedScans: true,
         exportReports: true,
         multiDomain: true,
+        maxCrawlPages: 50,
       }
 
     case 'free':
@@ -126,6 +131,7 @@ function getFlagsForTier(tier: Tier): FeatureFlags {
         unlimitedScans: false,
         exportReports: false,
         multiDomain: false,
+        maxCrawlPages: 15,
       }
   }
 }
@@ -149,11 +155,12 @@ function getTrialFlags(): FeatureFlags {
     unlimitedScans: false,
     exportReports: false,
     multiDomain: false,
+    maxCrawlPages: 15,
   }
 }
 
-// Boolean feature flags (excludes tier, isSubscriber, isTrial, and customQuestionLimit which is a number)
-type BooleanFeatureFlag = keyof Omit<FeatureFlags, 'isSubscriber' | 'tier' | 'isTrial' | 'customQuestionLimit'>
+// Boolean feature flags (excludes tier, isSubscriber, isTrial, and the numeric limits)
+type BooleanFeatureFlag = keyof Omit<FeatureFlags, 'isSubscriber' | 'tier' | 'isTrial' | 'customQuestionLimit' | 'maxCrawlPages'>
 
 /**
  * Check if a specific boolean feature is enabled
@@ -159,6 +159,15 @@ export function countryToIsoCode(countryName: string | null): string | null {
   return COUNTRY_TO_ISO[countryName] || null;
 }
 
+/**
+ * Country name for an ISO 3166-1 alpha-2 code ("AU" -> "Australia")
+ */
+export function isoCodeToCountry(code: string | null | undefined): string | null {
+  if (!code) return null;
+  const upper = code.toUpperCase();
+  return Object.keys(COUNTRY_TO_ISO).find(name => COUNTRY_TO_ISO[name] === upper) || null;
+}
+
 /**
  * Extract country from domain TLD
  */
@@ -0,0 +1,157 @@
+/**
+ * Searcher location - where the simulated customer is searching from.
+ *
+ * Every search adapter (lib/ai/search-providers.ts) applies the same location:
+ * - ChatGPT: web_search userLocation (country, city, region)
+ * - Perplexity: web_search_options.user_location
+ * - Gemini: Google Search grounding retrievalConfig.latLng, plus a location note
+ * - Claude and Tavily fallbacks: Tavily country filter, plus a location note
+ *
+ * Priority: the subscription's "simulate a customer in" city, then a city named
+ * in the question, then the business location from the site analysis.
+ */
+
+import { countryToIsoCode, isoCodeToCountry } from './detect'
+
+export interface SearcherLocation {
+  city?: string
+  region?: string
+  country?: string       // Country name: "Australia"
+  countryCode?: string   // ISO 3166-1 alpha-2: "AU"
+  latitude?: number
+  longitude?: number
+}
+
+/**
+ * Location hints for a scan - from the business analysis, or the subscription's
+ * simulated location when one is set - plus the language the customer searches in
+ */
+export interface LocationContext {
+  location?: string      // Full location string: "Sydney, Australia"
+  city?: string          // City name: "Sydney"
+  region?: string        // State/region: "New South Wales"
+  country?: string       // Country name: "Australia"
+  countryCode?: string   // ISO country code: "AU"
+  simulated?: boolean    // Set by the subscriber - wins over cities named in questions
+  language?: string      // Scan language (ISO 639-1) - answers are requested in it
+}
+
+// Cities we can place precisely (coordinates for Gemini and Perplexity)
+const KNOWN_CITIES: (SearcherLocation & { city: string; countryCode: string })[] = [
+  { city: 'Sydney', region: 'New South Wales', countryCode: 'AU', latitude: -33.87, longitude: 151.21 },
+  { city: 'Melbourne', region: 'Victoria', countryCode: 'AU', latitude: -37.81, longitude: 144.96 },
+  { city: 'Brisbane', region: 'Queensland', countryCode: 'AU', latitude: -27.47, longitude: 153.03 },
+  { city: 'Perth', region: 'Western Australia', countryCode: 'AU', latitude: -31.95, longitude: 115.86 },
+  { city: 'Adelaide', region: 'South Australia', countryCode: 'AU', latitude: -34.93, longitude: 138.6 },
+  { city: 'Gold Coast', region: 'Queensland', countryCode: 'AU', latitude: -28.02, longitude: 153.4 },
+  { city: 'Canberra', region: 'Australian Capital Territory', countryCode: 'AU', latitude: -35.28, longitude: 149.13 },
+  { city: 'Newcastle', region: 'New South Wales', countryCode: 'AU', latitude: -32.93, longitude: 151.78 },
+  { city: 'Hobart', region: 'Tasmania', countryCode: 'AU', latitude: -42.88, longitude: 147.33 },
+  { city: 'Darwin', region: 'Northern Territory', countryCode: 'AU', latitude: -12.46, longitude: 130.84 },
+  { city: 'Auckland', region: 'Auckland', countryCode: 'NZ', latitude: -36.85, longitude: 174.76 },
+  { city: 'Wellington', region: 'Wellington', countryCode: 'NZ', latitude: -41.29, longitude: 174.78 },
+  { city: 'Christchurch', region: 'Canterbury', countryCode: 'NZ', latitude: -43.53, longitude: 172.64 },
+  { city: 'New York', region: 'New York', countryCode: 'US', latitude: 40.71, longitude: -74.01 },
+  { city: 'Los Angeles', region: 'California', countryCode: 'US', latitude: 34.05, longitude: -118.24 },
+  { city: 'San Francisco', region: 'California', countryCode: 'US', latitude: 37.77, longitude: -122.42 },
+  { city: 'Chicago', region: 'Illinois', countryCode: 'US', latitude: 41.88, longitude: -87.63 },
+  { city: 'Houston', region: 'Texas', countryCode: 'US', latitude: 29.76, longitude: -95.37 },
+  { city: 'Phoenix', region: 'Arizona', countryCode: 'US', latitude: 33.45, longitude: -112.07 },
+  { city: 'Seattle', region: 'Washington', countryCode: 'US', latitude: 47.61, longitude: -122.33 },
+  { city: 'Miami', region: 'Florida', countryCode: 'US', latitude: 25.76, longitude: -80.19 },
+  { city: 'Boston', region: 'Massachusetts', countryCode: 'US', latitude: 42.36, longitude: -71.06 },
+  { city: 'Denver', region: 'Colorado', countryCode: 'US', latitude: 39.74, longitude: -104.99 },
+  { city: 'London', region: 'England', countryCode: 'GB', latitude: 51.51, longitude: -0.13 },
+  { city: 'Manchester', region: 'England', countryCode: 'GB', latitude: 53.48, longitude: -2.24 },
+  { city: 'Birmingham', region: 'England', countryCode: 'GB', latitude: 52.49, longitude: -1.89 },
+  { city: 'Leeds', region: 'England', countryCode: 'GB', latitude: 53.8, longitude: -1.55 },
+  { city: 'Bristol', region: 'England', countryCode: 'GB', latitude: 51.45, longitude: -2.59 },
+  { city: 'Edinburgh', region: 'Scotland', countryCode: 'GB', latitude: 55.95, longitude: -3.19 },
+  { city: 'Glasgow', region: 'Scotland', countryCode: 'GB', latitude: 55.86, longitude: -4.25 },
+  { city: 'Toronto', region: 'Ontario', countryCode: 'CA', latitude: 43.65, longitude: -79.38 },
+  { city: 'Vancouver', region: 'British Columbia', countryCode: 'CA', latitude: 49.28, longitude: -123.12 },
+  { city: 'Montreal', region: 'Quebec', countryCode: 'CA', latitude: 45.5, longitude: -73.57 },
+  { city: 'Calgary', region: 'Alberta', countryCode: 'CA', latitude: 51.05, longitude: -114.07 },
+  { city: 'Singapore', countryCode: 'SG', latitude: 1.35, longitude: 103.82 },
+  { city: 'Dublin', region: 'Leinster', countryCode: 'IE', latitude: 53.35, longitude: -6.26 },
+]
+
+/**
+ * Known city by name (optionally within a country), with region and coordinates
+ */
+export function lookupCity(city: string, countryCode?: string | null): SearcherLocation | null {
+  const name = city.trim().toLowerCase()
+  const match = KNOWN_CITIES.find(c =>
+    c.city.toLowerCase() === name && (!countryCode || c.countryCode === countryCode.toUpperCase())
+  )
+  return match ? withCountryName(match) : null
+}
+
+/**
+ * First known city named in a question ("plumbers in Brisbane")
+ */
+export function findCityInQuery(query: string): SearcherLocation | null {
+  const text = query.toLowerCase()
+  for (const city of KNOWN_CITIES) {
+    const pattern = new RegExp(`\\b${city.city.toLowerCase().replace(/\s+/g, '\\s+')}\\b`)
+    if (pattern.test(text)) return withCountryName(city)
+  }
+  return null
+}
+
+/**
+ * Where the customer asking this question is searching from
+ */
+export function resolveSearcherLocation(query: string, context?: LocationContext): SearcherLocation | null {
+  if (context?.simulated) {
+    return fromContext(context)
+  }
+  return findCityInQuery(query) || (context ? fromContext(context) : null)
+}
+
+/**
+ * "Sydney, New South Wales, Australia"
+ */
+export function describeSearcherLocation(location: SearcherLocation): string {
+  return [location.city, location.region, location.country]
+    .filter((part, index, parts): part is string => !!part && parts.indexOf(part) === index)
+    .join(', ')
+}
+
+/**
+ * System prompt note for models that only get location through the prompt
+ */
+export function locationPromptNote(location: SearcherLocation | null): string {
+  if (!location) return ''
+  const label = describeSearcherLocation(location)
+  return label
+    ? `\n\nThe user is located in ${label}. When recommending businesses or services, prefer ones that serve this area.`
+    : ''
+}
+
+/**
+ * Tavily's country filter takes a lowercase country name ("australia")
+ */
+export function tavilyCountry(location: SearcherLocation | null): string | undefined {
+  return location?.country?.toLowerCase()
+}
+
+function fromContext(context: LocationContext): SearcherLocation | null {
+  const countryCode = context.countryCode || countryToIsoCode(context.country || null) || undefined
+  const known = context.city ? lookupCity(context.city, countryCode) : null
+  if (known) {
+    return { ...known, region: context.region || known.region }
+  }
+  if (!context.city && !countryCode && !context.country) return null
+
+  return {
+    city: context.city,
+    region: context.region,
+    country: context.country || isoCodeToCountry(countryCode) || undefined,
+    countryCode,
+  }
+}
+
+function withCountryName(location: SearcherLocation): SearcherLocation {
+  return { ...location, country: location.country || isoCodeToCountry(location.countryCode) || undefined }
+}
@@ -27,6 +27,7 @@ import type {
   HBJobFamily,
   HBRoleActionPlans,
 } from '@/app/hiringbrand/report/components/shared/types'
+import type { BudgetLimit } from '@/lib/ai/budgets'
 
 // Fetch trends data (score history + competitor history)
 async function getTrendsData(
@@ -151,6 +152,7 @@ export async function fetchHBReportData(token: string): Promise<HBReportDataWith
         domain,
         organization_id,
         monitored_domain_id,
+        budget_limits,
         monitored_domain:monitored_domains(
           id,
           domain,
@@ -173,6 +175,7 @@ export async function fetchHBReportData(token: string): Promise<HBReportDataWith
     domain: string
     organization_id: string
     monitored_domain_id: string
+    budget_limits: BudgetLimit[] | null
     monitored_domain: {
       id: string
       domain: string
@@ -198,8 +201,11 @@ export async function fetchHBReportData(token: string): Promise<HBReportDataWith
       id,
       platform,
       response_text,
+      response_translation,
       domain_mentioned,
       mention_position,
+      mention_rank,
+      ranked_count,
       competitors_mentioned,
       sources,
       response_time_ms,
@@ -220,7 +226,7 @@ export async function fetchHBReportData(token: string): Promise<HBReportDataWith
       source_quality,
       response_recency,
       job_family,
-      prompt:scan_prompts(id, prompt_text, category)
+      prompt:scan_prompts(id, prompt_text, prompt_translation, category)
     `
     )
     .eq('run_id', run.id)
@@ -234,15 +240,19 @@ export async function fetchHBReportData(token: string): Promise<HBReportDataWith
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const responses: HBResponse[] = (responsesRaw || []).map((r: any) => {
-    const prompt = r.prompt as { id: string; prompt_text: string; category: string } | null
+    const prompt = r.prompt as { id: string; prompt_text: string; prompt_translation: string | null; category: string } | null
     return {
       id: r.id,
       platform: r.platform as HBResponse['platform'],
       promptText: prompt?.prompt_text || '',
+      promptTranslation: prompt?.prompt_translation || null,
       promptCategory: prompt?.category || 'reputation',
       responseText: r.response_text || '',
+      responseTranslation: r.response_translation || null,
       domainMentioned: r.domain_mentioned || false,
       mentionPosition: r.mention_position,
+      mentionRank: r.mention_rank ?? null,
+      rankedCount: r.ranked_count ?? null,
       competitorsMentioned: (r.competitors_mentioned as Array<{ name: string; context?: string }>) || [],
       sources: r.sources as Array<{ url: string; title?: string }> | null,
       responseTimeMs: r.response_time_ms,
@@ -422,6 +432,7 @@ export async function fetchHBReportData(token: string): Promise<HBReportDataWith
       mentionStats: (report as { mention_stats?: HBMentionStats }).mention_stats ?? null,
       monitoredDomainId: run.monitored_domain_id || null,
       roleActionPlans: (report as { role_action_plans?: HBRoleActionPlans }).role_action_plans || {},
+      budgetLimits: run.budget_limits || [],
     },
     company: {
       name: companyName,
@@ -3,6 +3,8 @@
  * Usage: log.info(scanId, 'message') or log.step(scanId, 'Crawling', 'complete')
  */
 
+import { PLATFORM_REGISTRY } from '@/lib/ai/platforms'
+
 const colors = {
   reset: '\x1b[0m',
   bright: '\x1b[1m',
@@ -18,12 +20,9 @@ const colors = {
   gray: '\x1b[90m',
 }
 
-const platformColors: Record<string, string> = {
-  chatgpt: colors.green,
-  claude: colors.magenta,
-  gemini: colors.blue,
-  perplexity: colors.cyan,
-}
+const platformColors: Record<string, string> = Object.fromEntries(
+  Object.entries(PLATFORM_REGISTRY).map(([id, p]) => [id, colors[p.logColor]])
+)
 
 // Track timing per scan
 const scanTimers: Map<string, number> = new Map()
@@ -61,6 +61,7 @@ export interface MonitoredDomain {
   domain: string
   company_name: string | null
   is_primary: boolean
+  language: string // ISO 639-1 - employer questions are researched and asked in it
   added_by: string | null
   created_at: string
 }
@@ -706,6 +707,7 @@ export async function addMonitoredDomain(
   domain: string,
   options: {
     companyName?: string
+    language?: string
     isPrimary?: boolean
     addedBy?: string
   } = {}
@@ -729,6 +731,7 @@ export async function addMonitoredDomain(
       organization_id: orgId,
       domain: domain.toLowerCase(),
       company_name: options.companyName,
+      ...(options.language && { language: options.language }),
       is_primary: isPrimary,
       added_by: options.addedBy,
     })
@@ -748,7 +751,7 @@ export async function addMonitoredDomain(
  */
 export async function updateMonitoredDomain(
   domainId: string,
-  updates: { company_name?: string; is_primary?: boolean }
+  updates: { company_name?: string; is_primary?: boolean; language?: string }
 ): Promise<MonitoredDomain | null> {
   const supabase = createServiceClient()
 
@@ -4,7 +4,8 @@
  */
 
 import type { jsPDF } from 'jspdf'
-import type { HBReportData, HBTrendsData, HBPlatform } from '@/app/hiringbrand/report/components/shared/types'
+import type { HBReportData, HBTrendsData } from '@/app/hiringbrand/report/components/shared/types'
+import { ALL_PLATFORMS, REACH_WEIGHTS, getPlatformName } from '@/lib/ai/platforms'
 import {
   CONTENT, C, FONTS,
   drawSectionTitle, drawCard, drawSentimentBar, drawSentimentLegend,
@@ -13,12 +14,8 @@ import {
 
 type ReportData = HBReportData & { trends: HBTrendsData }
 
-const platformNames: Record<HBPlatform, string> = {
-  chatgpt: 'ChatGPT',
-  perplexity: 'Perplexity',
-  gemini: 'Gemini',
-  claude: 'Claude',
-}
+// Platforms in reach order (highest-traffic engine first)
+const platformOrder = [...ALL_PLATFORMS].sort((a, b) => REACH_WEIGHTS[b] - REACH_WEIGHTS[a])
 
 export async function drawResponsesTab(doc: jsPDF, data: ReportData) {
   const { responses, sentimentCounts } = data
@@ -56,9 +53,10 @@ export async function drawResponsesTab(doc: jsPDF, data: ReportData) {
     platformCounts[r.platform].avgScore += (r.sentimentScore || 5)
   }
 
-  const platCardW = (CONTENT.w - 6) / 4
+  // One card per registry platform, 2mm apart
+  const platCardW = (CONTENT.w - 2 * (platformOrder.length - 1)) / platformOrder.length
   let px = CONTENT.x
-  for (const plat of ['chatgpt', 'perplexity', 'gemini', 'claude'] as HBPlatform[]) {
+  for (const plat of platformOrder) {
     const pc = platformCounts[plat]
     if (!pc) { px += platCardW + 2; continue }
 
@@ -68,7 +66,7 @@ export async function drawResponsesTab(doc: jsPDF, data: ReportData) {
     doc.setFont(FONTS.body, 'bold')
     doc.setFontSize(8)
     setColor(doc, C.slate)
-    doc.text(platformNames[plat], px + 4, y + 6)
+    doc.text(getPlatformName(plat), px + 4, y + 6)
 
     doc.setFont(FONTS.body, 'normal')
     doc.setFontSize(7)
@@ -105,7 +103,7 @@ export async function drawResponsesTab(doc: jsPDF, data: ReportData) {
     doc.setFont(FONTS.body, 'bold')
     doc.setFontSize(7)
     const badgeColor = isPositive ? C.green : C.coral
-    drawBadge(doc, CONTENT.x + 4, y + 5, `${platformNames[r.platform]}  ${score}/10`, badgeColor, C.surface)
+    drawBadge(doc, CONTENT.x + 4, y + 5, `${getPlatformName(r.platform)}  ${score}/10`, badgeColor, C.surface)
 
     // Question (truncated)
     doc.setFont(FONTS.body, 'bold')
@@ -5,7 +5,8 @@
 
 import PptxGenJS from 'pptxgenjs'
 import { renderScoreRingPNG } from './render-score-ring'
-import type { HBReportData, HBTrendsData, HBEmployerDimension, HBPlatform } from '@/app/hiringbrand/report/components/shared/types'
+import type { HBReportData, HBTrendsData, HBEmployerDimension } from '@/app/hiringbrand/report/components/shared/types'
+import { getPlatformName } from '@/lib/ai/platforms'
 
 type ReportDataWithTrends = HBReportData & { trends: HBTrendsData }
 
@@ -30,13 +31,6 @@ const FONTS = {
   mono: 'JetBrains Mono',
 }
 
-const platformNames: Record<HBPlatform, string> = {
-  chatgpt: 'ChatGPT',
-  perplexity: 'Perplexity',
-  gemini: 'Gemini',
-  claude: 'Claude',
-}
-
 const dimensionLabels: Record<HBEmployerDimension, string> = {
   compensation: 'Compensation',
   culture: 'Culture',
@@ -566,7 +560,7 @@ export async function generatePresentation(data: ReportDataWithTrends): Promise<
       x: 0.8, y: qY, w: 1.5, h: 0.35,
       fill: { color: badgeColor }, rectRadius: 0.1,
     })
-    s8.addText(platformNames[resp.platform] || resp.platform, {
+    s8.addText(getPlatformName(resp.platform), {
       x: 0.8, y: qY, w: 1.5, h: 0.35,
       fontSize: 10, fontFace: FONTS.display, color: C.surface, bold: true, align: 'center', valign: 'middle',
     })
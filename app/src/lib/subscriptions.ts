@@ -26,6 +26,22 @@ export interface DomainSubscription {
   scan_schedule_day: number
   scan_schedule_hour: number
   scan_timezone: string
+  samples_per_query: number | null // Times each question is asked per platform (null = default)
+  // Crawl scope (068) - see lib/ai/crawl-scope.ts
+  crawl_include_patterns: string[]
+  crawl_exclude_patterns: string[]
+  crawl_priority_urls: string[]
+  crawl_max_pages: number | null
+  crawl_include_subdomains: boolean
+  crawl_locale: string | null
+  // Simulated searcher location (072) - see lib/geo/searcher-location.ts
+  simulated_city: string | null
+  simulated_region: string | null
+  simulated_country_code: string | null
+  // Scan language (073) - see lib/ai/language.ts
+  language: string
+  // Crawl tracked competitors' websites after each scan (077) - see lib/ai/competitor-sites.ts
+  scan_competitor_sites: boolean
   created_at: string
   updated_at: string
 }
@@ -62,6 +78,18 @@ export interface UpdateDomainSubscriptionInput {
   scan_schedule_day?: number
   scan_schedule_hour?: number
   scan_timezone?: string
+  samples_per_query?: number | null
+  crawl_include_patterns?: string[]
+  crawl_exclude_patterns?: string[]
+  crawl_priority_urls?: string[]
+  crawl_max_pages?: number | null
+  crawl_include_subdomains?: boolean
+  crawl_locale?: string | null
+  simulated_city?: string | null
+  simulated_region?: string | null
+  simulated_country_code?: string | null
+  language?: string
+  scan_competitor_sites?: boolean
 }
 
 // ============================================
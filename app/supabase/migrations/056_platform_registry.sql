@@ -0,0 +1,34 @@
+-- ============================================
+-- PLATFORM REGISTRY SUPPORT
+-- AI engines are now registered in src/lib/ai/platforms.ts instead of being
+-- hard-coded in CHECK constraints and per-platform columns
+-- ============================================
+
+-- 1. llm_responses: platform is validated by the application registry
+ALTER TABLE llm_responses DROP CONSTRAINT IF EXISTS llm_responses_platform_check;
+
+-- 2. score_history: per-platform scores/mentions for every registered engine
+-- The legacy chatgpt_/claude_/gemini_/perplexity_ columns are still written
+ALTER TABLE score_history
+  ADD COLUMN IF NOT EXISTS platform_scores JSONB DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS platform_mentions JSONB DEFAULT '{}'::jsonb;
+
+-- Backfill from the legacy columns
+UPDATE score_history
+SET
+  platform_scores = jsonb_strip_nulls(jsonb_build_object(
+    'chatgpt', chatgpt_score,
+    'claude', claude_score,
+    'gemini', gemini_score,
+    'perplexity', perplexity_score
+  )),
+  platform_mentions = jsonb_strip_nulls(jsonb_build_object(
+    'chatgpt', chatgpt_mentions,
+    'claude', claude_mentions,
+    'gemini', gemini_mentions,
+    'perplexity', perplexity_mentions
+  ))
+WHERE platform_scores IS NULL OR platform_scores = '{}'::jsonb;
+
+COMMENT ON COLUMN score_history.platform_scores IS 'Visibility score per platform id: {chatgpt: 40, copilot: 25, ...}';
+COMMENT ON COLUMN score_history.platform_mentions IS 'Mention count per platform id';
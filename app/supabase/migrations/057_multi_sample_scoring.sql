@@ -0,0 +1,38 @@
+-- ============================================
+-- MULTI-SAMPLE QUERYING
+-- Each question can be asked several times per platform so the visibility
+-- score becomes a mention probability with a 95% confidence interval
+-- ============================================
+
+-- 1. domain_subscriptions: samples per question/platform (NULL = app default)
+ALTER TABLE domain_subscriptions
+  ADD COLUMN IF NOT EXISTS samples_per_query INTEGER
+    CHECK (samples_per_query IS NULL OR (samples_per_query >= 1 AND samples_per_query <= 5));
+
+COMMENT ON COLUMN domain_subscriptions.samples_per_query IS 'Times each question is asked per platform (1-5). NULL uses SCAN_SAMPLES_PER_QUERY';
+
+-- 2. llm_responses: one row per sample
+ALTER TABLE llm_responses
+  ADD COLUMN IF NOT EXISTS sample_index INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_llm_responses_run_sample ON llm_responses(run_id, sample_index);
+
+COMMENT ON COLUMN llm_responses.sample_index IS '0-based repeat of the same prompt/platform. Sample 0 is shown in the report';
+
+-- 3. reports: interval for the current report
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS score_confidence JSONB;
+
+COMMENT ON COLUMN reports.score_confidence IS 'Mention-rate intervals: {samplesPerQuery, overall: {low, high}, platforms: {chatgpt: {rate, low, high, mentioned, total}}}';
+
+-- 4. score_history: intervals for trend error bands and significance checks
+ALTER TABLE score_history
+  ADD COLUMN IF NOT EXISTS visibility_score_low DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS visibility_score_high DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS platform_intervals JSONB DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS samples_per_query INTEGER DEFAULT 1;
+
+COMMENT ON COLUMN score_history.visibility_score_low IS 'Lower bound of the 95% interval for visibility_score (NULL for snapshots before 057)';
+COMMENT ON COLUMN score_history.visibility_score_high IS 'Upper bound of the 95% interval for visibility_score';
+COMMENT ON COLUMN score_history.platform_intervals IS 'Interval per platform id: {chatgpt: {low: 20, high: 55}, ...}';
+COMMENT ON COLUMN score_history.samples_per_query IS 'Samples per question/platform used for this scan';
@@ -0,0 +1,45 @@
+-- ============================================
+-- BRAND ENTITY PROFILES
+-- Per-domain brand names, aliases, products and exclusion terms used to
+-- decide whether an AI response mentions the brand
+-- ============================================
+
+-- 1. One profile per domain subscription
+CREATE TABLE brand_entity_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  domain_subscription_id UUID NOT NULL UNIQUE REFERENCES domain_subscriptions(id) ON DELETE CASCADE,
+  brand_name TEXT,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  products TEXT[] NOT NULL DEFAULT '{}',
+  exclusions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_brand_entity_profiles_lead_id ON brand_entity_profiles(lead_id);
+
+-- RLS policies
+ALTER TABLE brand_entity_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Allow reading profiles (service role handles auth)
+CREATE POLICY "Brand entity profiles are viewable" ON brand_entity_profiles
+  FOR SELECT
+  USING (true);
+
+-- Trigger to update updated_at
+CREATE TRIGGER update_brand_entity_profiles_updated_at
+  BEFORE UPDATE ON brand_entity_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN brand_entity_profiles.brand_name IS 'Brand name as customers say it. NULL uses the business name from site analysis';
+COMMENT ON COLUMN brand_entity_profiles.aliases IS 'Other names the brand goes by, including former names';
+COMMENT ON COLUMN brand_entity_profiles.products IS 'Product or service names that identify the brand';
+COMMENT ON COLUMN brand_entity_profiles.exclusions IS 'Phrases containing a brand term that refer to something else (e.g. "Apex Legends")';
+
+-- 2. llm_responses: why each response counted as a mention
+ALTER TABLE llm_responses
+  ADD COLUMN IF NOT EXISTS mention_evidence JSONB;
+
+COMMENT ON COLUMN llm_responses.mention_evidence IS 'Matched spans: [{kind, term, text, start, end}]. start/end are -1 for cited source URLs. NULL for responses before 058';
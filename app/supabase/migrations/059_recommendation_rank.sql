@@ -0,0 +1,27 @@
+-- ============================================
+-- RECOMMENDATION RANK
+-- Our place in each answer's ordered list of recommended entities ("#2 of 7")
+-- and a position-weighted visibility score built from it
+-- ============================================
+
+-- 1. llm_responses: rank of us and the full ordered list
+ALTER TABLE llm_responses
+  ADD COLUMN IF NOT EXISTS mention_rank INTEGER,
+  ADD COLUMN IF NOT EXISTS ranked_count INTEGER,
+  ADD COLUMN IF NOT EXISTS ranked_entities JSONB;
+
+COMMENT ON COLUMN llm_responses.mention_rank IS '1-based rank of the brand in the answer''s recommendation list. NULL when not listed (mention_position still holds the legacy third-of-response bucket)';
+COMMENT ON COLUMN llm_responses.ranked_count IS 'Entities in the recommendation list';
+COMMENT ON COLUMN llm_responses.ranked_entities IS 'Ordered list: [{name, rank, isBrand}]. Competitor ranks are also stored on competitors_mentioned[].rank';
+
+-- 2. reports: position-weighted scores
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS position_scores JSONB;
+
+COMMENT ON COLUMN reports.position_scores IS 'Position-weighted visibility: {overall: 48, platforms: {chatgpt: {score: 40, medianRank: 2, medianRankedCount: 7}}}';
+
+-- 3. score_history: position-weighted trend
+ALTER TABLE score_history
+  ADD COLUMN IF NOT EXISTS position_score DECIMAL(5,2);
+
+COMMENT ON COLUMN score_history.position_score IS 'Position-weighted visibility score (first in a list = full credit, last = half). NULL before 059';
@@ -0,0 +1,10 @@
+-- ============================================
+-- CITATION ANALYTICS
+-- Per-scan rollup of the sources AI engines cite, for citation trends
+-- (the per-answer sources already live on llm_responses.sources)
+-- ============================================
+
+ALTER TABLE score_history
+  ADD COLUMN IF NOT EXISTS citation_stats JSONB;
+
+COMMENT ON COLUMN score_history.citation_stats IS 'Citation rollup: {total, own, competitor, thirdParty, topDomains: [{host, count, category}]}. NULL before 060';
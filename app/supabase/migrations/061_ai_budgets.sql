@@ -0,0 +1,28 @@
+-- ============================================
+-- AI BUDGETS
+-- Spend caps per scan run and per calendar month for each domain subscription
+-- and HiringBrand organization. Scans check spend before expensive steps and
+-- degrade (fewer samples, cheaper models, skipped steps) instead of overrunning
+-- ============================================
+
+-- 1. domain_subscriptions: budget overrides (NULL = app default)
+ALTER TABLE domain_subscriptions
+  ADD COLUMN IF NOT EXISTS ai_run_budget_cents INTEGER CHECK (ai_run_budget_cents IS NULL OR ai_run_budget_cents > 0),
+  ADD COLUMN IF NOT EXISTS ai_monthly_budget_cents INTEGER CHECK (ai_monthly_budget_cents IS NULL OR ai_monthly_budget_cents > 0);
+
+COMMENT ON COLUMN domain_subscriptions.ai_run_budget_cents IS 'Max AI spend per scan in cents. NULL uses AI_RUN_BUDGET_CENTS';
+COMMENT ON COLUMN domain_subscriptions.ai_monthly_budget_cents IS 'Max AI spend per calendar month (UTC) across this subscription''s scans. NULL uses AI_SUBSCRIPTION_MONTHLY_BUDGET_CENTS';
+
+-- 2. organizations: budget overrides for HiringBrand (NULL = app default)
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS ai_run_budget_cents INTEGER CHECK (ai_run_budget_cents IS NULL OR ai_run_budget_cents > 0),
+  ADD COLUMN IF NOT EXISTS ai_monthly_budget_cents INTEGER CHECK (ai_monthly_budget_cents IS NULL OR ai_monthly_budget_cents > 0);
+
+COMMENT ON COLUMN organizations.ai_run_budget_cents IS 'Max AI spend per HiringBrand scan in cents. NULL uses AI_HB_RUN_BUDGET_CENTS';
+COMMENT ON COLUMN organizations.ai_monthly_budget_cents IS 'Max AI spend per calendar month (UTC) across the organization''s scans. NULL uses AI_ORGANIZATION_MONTHLY_BUDGET_CENTS';
+
+-- 3. scan_runs: what the budget cut from this scan
+ALTER TABLE scan_runs
+  ADD COLUMN IF NOT EXISTS budget_limits JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN scan_runs.budget_limits IS 'Degradations applied to stay within budget: [{step, action, detail, spentCents, budgetCents, recordedAt}]. Empty = full scan';
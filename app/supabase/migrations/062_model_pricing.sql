@@ -0,0 +1,45 @@
+-- ============================================
+-- MODEL PRICING HISTORY
+-- Vendor prices per model, editable from the admin cost dashboard.
+-- Rows are never updated: a price change inserts a new row with a later
+-- effective_from, so api_costs recorded before the change keep their cost
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS model_pricing (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model TEXT NOT NULL,                                   -- Pricing key, e.g. 'gpt-4o-mini', 'tavily/search'
+  input_per_1k DECIMAL(12, 6) NOT NULL DEFAULT 0,        -- USD per 1K input tokens
+  output_per_1k DECIMAL(12, 6) NOT NULL DEFAULT 0,       -- USD per 1K output tokens
+  per_request_cents DECIMAL(10, 4) NOT NULL DEFAULT 0,   -- Flat cents per call (search APIs)
+  effective_from TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  note TEXT,
+  created_by TEXT,                                       -- Admin email
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (model, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_pricing_model_effective ON model_pricing(model, effective_from DESC);
+
+ALTER TABLE model_pricing ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE model_pricing IS 'Price history per model. Current price = latest effective_from <= now. Seeded from costs.ts defaults';
+
+-- Seed with the prices previously hard-coded in costs.ts (as of Jan 2025)
+INSERT INTO model_pricing (model, input_per_1k, output_per_1k, per_request_cents, effective_from, note, created_by)
+VALUES
+  ('gpt-4o', 0.0025, 0.01, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('gpt-4o-mini', 0.00015, 0.0006, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('gpt-4-turbo', 0.01, 0.03, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('o4-mini', 0.0011, 0.0044, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('o4-mini-search', 0.0011, 0.0044, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('claude-sonnet-4-20250514', 0.003, 0.015, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('claude-3-5-sonnet-20241022', 0.003, 0.015, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('claude-3-haiku-20240307', 0.00025, 0.00125, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('gemini-2.0-flash', 0.0001, 0.0004, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('gemini-2.5-flash', 0.00015, 0.0006, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('gemini-2.5-flash-grounded', 0.00015, 0.0006, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('gemini-1.5-pro', 0.00125, 0.005, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('sonar-pro', 0.003, 0.015, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('sonar', 0.001, 0.001, 0, '2025-01-01', 'Initial seed', 'migration'),
+  ('tavily/search', 0, 0, 1, '2025-01-01', 'Initial seed', 'migration')
+ON CONFLICT (model, effective_from) DO NOTHING;
@@ -0,0 +1,11 @@
+-- ============================================
+-- HEADLESS RENDER COMPARISON
+-- For client-side rendered sites, the crawler can render pages in a headless
+-- browser. The diff between raw HTML and the rendered DOM shows what AI
+-- crawlers that don't run JavaScript miss
+-- ============================================
+
+ALTER TABLE site_analyses
+  ADD COLUMN IF NOT EXISTS render_comparison JSONB;
+
+COMMENT ON COLUMN site_analyses.render_comparison IS 'Raw vs rendered content: {renderedAt, rawWordCount, renderedWordCount, missingWordPercent, pages: [{path, missingHeadings, missingTextSamples, ...}]}. NULL when not rendered';
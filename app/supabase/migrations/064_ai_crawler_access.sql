@@ -0,0 +1,10 @@
+-- ============================================
+-- AI CRAWLER ACCESS
+-- robots.txt evaluated for each AI crawler (GPTBot, ClaudeBot, PerplexityBot,
+-- Google-Extended, ...) so reports and action plans can flag blocked engines
+-- ============================================
+
+ALTER TABLE site_analyses
+  ADD COLUMN IF NOT EXISTS ai_crawler_access JSONB;
+
+COMMENT ON COLUMN site_analyses.ai_crawler_access IS 'Per AI crawler: [{agent, operator, purpose, status: allowed|partial|blocked, blockedPaths, explicit}]. NULL before 064';
@@ -0,0 +1,10 @@
+-- ============================================
+-- AI DISCOVERY FILES
+-- llms.txt, llms-full.txt and .well-known AI files found by the crawler,
+-- validated each scan (so a published llms.txt is re-checked weekly)
+-- ============================================
+
+ALTER TABLE site_analyses
+  ADD COLUMN IF NOT EXISTS ai_discovery JSONB;
+
+COMMENT ON COLUMN site_analyses.ai_discovery IS 'AI discovery audit: {checkedAt, files: [{kind, path, found, valid, issues, bytes, linkCount}]}. NULL before 065';
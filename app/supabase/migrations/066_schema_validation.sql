@@ -0,0 +1,10 @@
+-- ============================================
+-- STRUCTURED DATA VALIDATION
+-- Per-page JSON-LD findings: schema.org types, missing required/recommended
+-- properties, invalid values and @graph/@id linkage issues
+-- ============================================
+
+ALTER TABLE site_analyses
+  ADD COLUMN IF NOT EXISTS schema_validation JSONB;
+
+COMMENT ON COLUMN site_analyses.schema_validation IS 'Per-page JSON-LD validation: [{url, path, types, items: [{type, validatedAs, id, missingRequired, missingRecommended, invalidValues}], parseErrors, linkageIssues, errorCount, warningCount}]. Pages without JSON-LD omitted. NULL before 066';
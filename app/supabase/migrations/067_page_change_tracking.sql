@@ -0,0 +1,66 @@
+-- ============================================
+-- INCREMENTAL CRAWL & PAGE CHANGE TRACKING
+-- Weekly scans fingerprint each page and skip unchanged ones (sitemap lastmod,
+-- ETag / Last-Modified), reusing the previous scan's content. Edits between
+-- scans are recorded per page, and completed actions are verified when their
+-- target page changes.
+-- ============================================
+
+-- Enough of each page to reuse it without re-fetching
+ALTER TABLE crawled_pages
+  ADD COLUMN IF NOT EXISTS body_text TEXT,
+  ADD COLUMN IF NOT EXISTS schema_validation JSONB,
+  ADD COLUMN IF NOT EXISTS rendered_with_js BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS etag TEXT,
+  ADD COLUMN IF NOT EXISTS last_modified TEXT,
+  ADD COLUMN IF NOT EXISTS sitemap_lastmod TEXT,
+  ADD COLUMN IF NOT EXISTS fetch_status TEXT DEFAULT 'fetched'
+    CHECK (fetch_status IN ('fetched', 'not_modified', 'lastmod_unchanged'));
+
+COMMENT ON COLUMN crawled_pages.body_text IS 'Extracted body text (up to 5000 chars), reused when the page is unchanged. NULL before 067';
+COMMENT ON COLUMN crawled_pages.content_hash IS 'SHA-256 of title, description, H1, headings, body text and JSON-LD';
+COMMENT ON COLUMN crawled_pages.fetch_status IS 'fetched, not_modified (304 on conditional GET) or lastmod_unchanged (not fetched - sitemap lastmod same as previous scan)';
+
+-- Per-page change history
+CREATE TABLE IF NOT EXISTS page_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES scan_runs(id) ON DELETE CASCADE,       -- Scan that detected the change
+  previous_run_id UUID REFERENCES scan_runs(id) ON DELETE SET NULL,      -- Scan it was compared against
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  domain_subscription_id UUID REFERENCES domain_subscriptions(id) ON DELETE CASCADE,
+  domain TEXT NOT NULL,
+
+  url TEXT NOT NULL,
+  path TEXT NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('added', 'modified', 'removed')),
+  changed_fields TEXT[] DEFAULT '{}',   -- title, description, h1, headings, content, schema
+  word_count_before INTEGER,
+  word_count_after INTEGER,
+  summary TEXT,
+
+  detected_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_changes_run ON page_changes(run_id);
+CREATE INDEX IF NOT EXISTS idx_page_changes_lead ON page_changes(lead_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_page_changes_domain_subscription ON page_changes(domain_subscription_id, detected_at DESC);
+
+ALTER TABLE page_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Page changes are viewable" ON page_changes;
+CREATE POLICY "Page changes are viewable" ON page_changes
+  FOR SELECT
+  USING (true);
+
+COMMENT ON TABLE page_changes IS 'Pages added, edited or removed between consecutive scans of a domain';
+
+-- Completed actions confirmed by an edit to their target page
+ALTER TABLE action_items_history
+  ADD COLUMN IF NOT EXISTS target_page TEXT,
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS verified_run_id UUID REFERENCES scan_runs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS verified_change TEXT;
+
+COMMENT ON COLUMN action_items_history.verified_at IS 'When a scan detected an edit to target_page after the action was completed';
+COMMENT ON COLUMN action_items_history.verified_change IS 'Summary of the detected edit, e.g. "Title changed to ..., content +120 words"';
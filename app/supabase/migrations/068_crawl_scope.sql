@@ -0,0 +1,21 @@
+-- ============================================
+-- CRAWL SCOPE
+-- Per-subscription crawl settings: include/exclude path patterns, priority
+-- URLs, page limit (capped by tier), subdomains and locale folder.
+-- Patterns use robots.txt syntax ('*' wildcard, trailing '$' anchor).
+-- ============================================
+
+ALTER TABLE domain_subscriptions
+  ADD COLUMN IF NOT EXISTS crawl_include_patterns TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS crawl_exclude_patterns TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS crawl_priority_urls TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS crawl_max_pages INTEGER CHECK (crawl_max_pages IS NULL OR crawl_max_pages > 0),
+  ADD COLUMN IF NOT EXISTS crawl_include_subdomains BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS crawl_locale TEXT;
+
+COMMENT ON COLUMN domain_subscriptions.crawl_include_patterns IS 'Only crawl paths matching one of these patterns (empty = whole site). The homepage is always crawled';
+COMMENT ON COLUMN domain_subscriptions.crawl_exclude_patterns IS 'Never crawl paths matching these patterns';
+COMMENT ON COLUMN domain_subscriptions.crawl_priority_urls IS 'Paths or URLs crawled first, even if not in the sitemap';
+COMMENT ON COLUMN domain_subscriptions.crawl_max_pages IS 'Pages per scan. NULL (or above the tier limit) uses the tier limit (FeatureFlags.maxCrawlPages)';
+COMMENT ON COLUMN domain_subscriptions.crawl_include_subdomains IS 'Also crawl subdomains (e.g. blog.example.com)';
+COMMENT ON COLUMN domain_subscriptions.crawl_locale IS 'Only crawl this locale folder (e.g. en-au); other /xx/ or /xx-yy/ folders are skipped. NULL = all';
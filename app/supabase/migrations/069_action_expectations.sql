@@ -0,0 +1,41 @@
+-- ============================================
+-- ACTION EXPECTATIONS
+-- Machine-checkable outcomes on actions, page edits and PRD tasks
+-- (e.g. "FAQPage schema on /services"). Completed items are re-checked
+-- by every later scan and marked verified, not met or regressed.
+-- Page edit expectations live inside action_plans.page_edits (JSONB).
+-- ============================================
+
+ALTER TABLE action_items
+  ADD COLUMN IF NOT EXISTS expectations JSONB DEFAULT '[]';
+
+ALTER TABLE action_items_history
+  ADD COLUMN IF NOT EXISTS expectations JSONB DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS verification_status TEXT CHECK (verification_status IN ('verified', 'not_met', 'regressed')),
+  ADD COLUMN IF NOT EXISTS verification_evidence JSONB,
+  ADD COLUMN IF NOT EXISTS verification_checked_at TIMESTAMPTZ;
+
+ALTER TABLE prd_tasks
+  ADD COLUMN IF NOT EXISTS expectations JSONB DEFAULT '[]';
+
+ALTER TABLE prd_tasks_history
+  ADD COLUMN IF NOT EXISTS expectations JSONB DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS verification_status TEXT CHECK (verification_status IN ('verified', 'not_met', 'regressed')),
+  ADD COLUMN IF NOT EXISTS verification_evidence JSONB,
+  ADD COLUMN IF NOT EXISTS verification_checked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+-- Completed items still waiting on (or failing) verification
+CREATE INDEX IF NOT EXISTS idx_action_history_verification
+  ON action_items_history(lead_id, verification_status);
+CREATE INDEX IF NOT EXISTS idx_prd_history_verification
+  ON prd_tasks_history(lead_id, verification_status);
+
+COMMENT ON COLUMN action_items.expectations IS 'Checks a later scan runs to confirm the action was done: [{check, page, value}]';
+COMMENT ON COLUMN action_items_history.expectations IS 'Expectations copied from the action when it was completed';
+COMMENT ON COLUMN action_items_history.verification_status IS 'verified, not_met or regressed (verified before, undone since). NULL = not checked yet';
+COMMENT ON COLUMN action_items_history.verification_evidence IS 'Per-expectation results from the last check: [{expectation, outcome, evidence}]';
+COMMENT ON COLUMN prd_tasks.expectations IS 'Checks a later scan runs to confirm the task was done: [{check, page, value}]';
+COMMENT ON COLUMN prd_tasks_history.verification_status IS 'verified, not_met or regressed (verified before, undone since). NULL = not checked yet';
+COMMENT ON COLUMN prd_tasks_history.verification_evidence IS 'Per-expectation results from the last check: [{expectation, outcome, evidence}]';
+COMMENT ON COLUMN prd_tasks_history.verified_at IS 'When a scan first confirmed every expectation';
@@ -0,0 +1,15 @@
+-- ============================================
+-- QUESTION PERFORMANCE
+-- Link each scan prompt back to the subscriber question it was asked for,
+-- so per-question stats survive edits to the wording.
+-- Older prompts are matched by text (current or past versions).
+-- ============================================
+
+ALTER TABLE scan_prompts
+  ADD COLUMN IF NOT EXISTS subscriber_question_id UUID REFERENCES subscriber_questions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scan_prompts_subscriber_question
+  ON scan_prompts(subscriber_question_id)
+  WHERE subscriber_question_id IS NOT NULL;
+
+COMMENT ON COLUMN scan_prompts.subscriber_question_id IS 'Subscriber question this prompt was asked for (source = subscriber). NULL for researched prompts';
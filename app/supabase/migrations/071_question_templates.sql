@@ -0,0 +1,18 @@
+-- ============================================
+-- QUESTION TEMPLATES
+-- Subscriber questions can use {location}, {service} and {audience}
+-- variables. Each scan expands a template into one prompt per value
+-- (from the site analysis); the prompt keeps the template and values
+-- so results can be grouped by template and by value.
+-- ============================================
+
+ALTER TABLE scan_prompts
+  ADD COLUMN IF NOT EXISTS template_text TEXT,
+  ADD COLUMN IF NOT EXISTS template_values JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_scan_prompts_template
+  ON scan_prompts(run_id, subscriber_question_id)
+  WHERE template_text IS NOT NULL;
+
+COMMENT ON COLUMN scan_prompts.template_text IS 'Question template this prompt was expanded from, e.g. "Best {service} in {location}?". NULL for plain questions';
+COMMENT ON COLUMN scan_prompts.template_values IS 'Values substituted into the template: {"location": "Sydney", "service": "Plumbing"}';
@@ -0,0 +1,16 @@
+-- ============================================
+-- SEARCHER LOCATION
+-- "Simulate a customer in city X" per domain subscription. When set,
+-- every AI platform is queried as if the user were there (ChatGPT and
+-- Perplexity user location, Gemini grounding coordinates, Tavily country).
+-- When NULL, the location comes from the question or the site analysis.
+-- ============================================
+
+ALTER TABLE domain_subscriptions
+  ADD COLUMN IF NOT EXISTS simulated_city TEXT,
+  ADD COLUMN IF NOT EXISTS simulated_region TEXT,
+  ADD COLUMN IF NOT EXISTS simulated_country_code TEXT CHECK (simulated_country_code IS NULL OR simulated_country_code ~ '^[A-Z]{2}$');
+
+COMMENT ON COLUMN domain_subscriptions.simulated_city IS 'City the simulated customer searches from. NULL = use the question or business location';
+COMMENT ON COLUMN domain_subscriptions.simulated_region IS 'State/region for the simulated customer (optional)';
+COMMENT ON COLUMN domain_subscriptions.simulated_country_code IS 'ISO 3166-1 alpha-2 country for the simulated customer, e.g. AU';
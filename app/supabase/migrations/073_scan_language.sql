@@ -0,0 +1,27 @@
+-- ============================================
+-- SCAN LANGUAGE
+-- Language a domain subscription or HiringBrand monitored domain is scanned
+-- in (ISO 639-1). Questions are researched and asked in that language, and
+-- non-English answers and questions get an English translation for reports.
+-- ============================================
+
+ALTER TABLE domain_subscriptions
+  ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en' CHECK (language ~ '^[a-z]{2}$');
+
+ALTER TABLE monitored_domains
+  ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en' CHECK (language ~ '^[a-z]{2}$');
+
+ALTER TABLE scan_runs
+  ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE scan_prompts
+  ADD COLUMN IF NOT EXISTS prompt_translation TEXT;
+
+ALTER TABLE llm_responses
+  ADD COLUMN IF NOT EXISTS response_translation TEXT;
+
+COMMENT ON COLUMN domain_subscriptions.language IS 'Language questions are researched and asked in (ISO 639-1), e.g. en, mi, ja';
+COMMENT ON COLUMN monitored_domains.language IS 'Language employer questions are researched and asked in (ISO 639-1)';
+COMMENT ON COLUMN scan_runs.language IS 'Language this scan was run in - reports offer translations when not en';
+COMMENT ON COLUMN scan_prompts.prompt_translation IS 'English translation of a non-English question. NULL for English scans';
+COMMENT ON COLUMN llm_responses.response_translation IS 'English translation of a non-English AI answer. NULL for English scans';
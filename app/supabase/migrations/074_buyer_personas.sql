@@ -0,0 +1,51 @@
+-- ============================================
+-- BUYER PERSONAS
+-- Buyer personas a domain subscriber defines (role, budget, company size,
+-- pain points). Questions are researched from each persona's viewpoint and
+-- tagged with it, so visibility can be broken down by persona.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS buyer_personas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain_subscription_id UUID NOT NULL REFERENCES domain_subscriptions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  role TEXT,
+  budget TEXT,
+  company_size TEXT,
+  pain_points TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_buyer_personas_subscription ON buyer_personas(domain_subscription_id, sort_order);
+
+ALTER TABLE buyer_personas ENABLE ROW LEVEL SECURITY;
+
+-- Service role handles auth
+CREATE POLICY "Buyer personas are viewable" ON buyer_personas
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER update_buyer_personas_updated_at
+  BEFORE UPDATE ON buyer_personas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Questions asked on behalf of a persona
+ALTER TABLE subscriber_questions
+  ADD COLUMN IF NOT EXISTS persona_id UUID REFERENCES buyer_personas(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_subscriber_questions_persona ON subscriber_questions(persona_id) WHERE persona_id IS NOT NULL;
+
+-- The persona is copied onto each scan's prompts so past reports keep their
+-- breakdown after a persona is renamed or deleted
+ALTER TABLE scan_prompts
+  ADD COLUMN IF NOT EXISTS persona_id UUID REFERENCES buyer_personas(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS persona_name TEXT;
+
+COMMENT ON TABLE buyer_personas IS 'Buyer personas for a domain subscription - questions are researched and scored per persona';
+COMMENT ON COLUMN buyer_personas.pain_points IS 'Problems this buyer wants solved, used when researching their questions';
+COMMENT ON COLUMN subscriber_questions.persona_id IS 'Persona this question is asked for. NULL for general questions';
+COMMENT ON COLUMN scan_prompts.persona_id IS 'Persona the question was asked for (from subscriber_questions.persona_id)';
+COMMENT ON COLUMN scan_prompts.persona_name IS 'Persona name at scan time, for the per-persona breakdown in reports';
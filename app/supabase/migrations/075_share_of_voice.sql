@@ -0,0 +1,18 @@
+-- ============================================
+-- SHARE OF VOICE
+-- Fraction of AI recommendation slots held by us versus each tracked
+-- competitor, per question and platform, with a head-to-head matrix of
+-- which questions each competitor beats us on. Summarised into
+-- score_history so share is tracked over time.
+-- ============================================
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS share_of_voice JSONB;
+
+ALTER TABLE score_history
+  ADD COLUMN IF NOT EXISTS share_of_voice DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS competitor_share JSONB;
+
+COMMENT ON COLUMN reports.share_of_voice IS 'Recommendation slots held by us vs tracked competitors, per question and platform, plus head-to-head results (see lib/ai/share-of-voice.ts)';
+COMMENT ON COLUMN score_history.share_of_voice IS 'Percentage of recommendation slots that went to us. NULL before 075';
+COMMENT ON COLUMN score_history.competitor_share IS 'Percentage of recommendation slots per tracked competitor: {"Acme": 18}. NULL before 075';
@@ -0,0 +1,36 @@
+-- ============================================
+-- COMPETITOR ENTITIES
+-- Canonical competitors per domain subscription, with the aliases seen for
+-- them and a resolved domain. Scans merge name variants ("Deloitte Digital",
+-- "Deloitte Australia") into one entity; subscribers can merge or split by
+-- hand. Reports regroup raw competitor names under these entities.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS competitor_entities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain_subscription_id UUID NOT NULL REFERENCES domain_subscriptions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  domain TEXT,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_competitor_entities_subscription_name
+  ON competitor_entities(domain_subscription_id, lower(name));
+
+ALTER TABLE competitor_entities ENABLE ROW LEVEL SECURITY;
+
+-- Service role handles auth
+CREATE POLICY "Competitor entities are viewable" ON competitor_entities
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER update_competitor_entities_updated_at
+  BEFORE UPDATE ON competitor_entities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE competitor_entities IS 'Canonical competitors for a domain subscription - raw names from answers are grouped under these (see lib/ai/competitor-entities.ts)';
+COMMENT ON COLUMN competitor_entities.domain IS 'Competitor site resolved from cited sources, also used to merge name variants';
+COMMENT ON COLUMN competitor_entities.aliases IS 'Other names AI used for this competitor';
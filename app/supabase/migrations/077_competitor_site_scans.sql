@@ -0,0 +1,50 @@
+-- ============================================
+-- COMPETITOR SITE SCANS
+-- Optional crawl of each tracked competitor's website after a scan: AI
+-- readiness signals, schema coverage and detected tech stack, shown side by
+-- side with ours in the Competitors tab.
+-- ============================================
+
+-- Competitor's website (entered by the subscriber, else resolved from cited sources)
+ALTER TABLE subscriber_competitors
+  ADD COLUMN IF NOT EXISTS domain TEXT;
+
+-- Opt-in per domain subscription
+ALTER TABLE domain_subscriptions
+  ADD COLUMN IF NOT EXISTS scan_competitor_sites BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS competitor_site_scans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES scan_runs(id) ON DELETE CASCADE,
+  competitor_id UUID REFERENCES subscriber_competitors(id) ON DELETE SET NULL,
+  competitor_name TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'complete' CHECK (status IN ('complete', 'failed')),
+  error TEXT,
+  pages_crawled INTEGER NOT NULL DEFAULT 0,
+  has_sitemap BOOLEAN NOT NULL DEFAULT FALSE,
+  has_robots_txt BOOLEAN NOT NULL DEFAULT FALSE,
+  has_meta_descriptions BOOLEAN NOT NULL DEFAULT FALSE,
+  schema_types TEXT[] NOT NULL DEFAULT '{}',
+  schema_error_pages INTEGER NOT NULL DEFAULT 0,
+  ai_crawler_access JSONB NOT NULL DEFAULT '[]',
+  ai_discovery JSONB,
+  tech_stack JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(run_id, domain)
+);
+
+CREATE INDEX IF NOT EXISTS idx_competitor_site_scans_run ON competitor_site_scans(run_id);
+
+ALTER TABLE competitor_site_scans ENABLE ROW LEVEL SECURITY;
+
+-- Service role handles auth
+CREATE POLICY "Competitor site scans are viewable" ON competitor_site_scans
+  FOR SELECT
+  USING (true);
+
+COMMENT ON COLUMN subscriber_competitors.domain IS 'Competitor website crawled when scan_competitor_sites is on. NULL falls back to competitor_entities.domain';
+COMMENT ON COLUMN domain_subscriptions.scan_competitor_sites IS 'Crawl tracked competitors'' websites after each scan (see lib/ai/competitor-sites.ts)';
+COMMENT ON TABLE competitor_site_scans IS 'Crawl-based AI readiness, schema coverage and tech stack of tracked competitors, per scan';
+COMMENT ON COLUMN competitor_site_scans.tech_stack IS 'CMS, framework, hosting, analytics and client-side rendering from platform detection';
@@ -0,0 +1,47 @@
+-- ============================================
+-- BRAND FACT SHEETS
+-- Ground truth about the business (address, founding year, services, pricing,
+-- people) built from the crawl and site analysis, editable by the subscriber.
+-- Brand recall and service check answers are checked against it and each is
+-- classified correct / outdated / wrong / fabricated, with the false claims
+-- listed in the report's AI Misinformation section.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS brand_fact_sheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain_subscription_id UUID NOT NULL UNIQUE REFERENCES domain_subscriptions(id) ON DELETE CASCADE,
+  business_name TEXT,
+  address TEXT,
+  founded_year INTEGER,
+  services TEXT[] NOT NULL DEFAULT '{}',
+  pricing TEXT,
+  people JSONB NOT NULL DEFAULT '[]',
+  notes TEXT,
+  edited_by_user BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE brand_fact_sheets ENABLE ROW LEVEL SECURITY;
+
+-- Service role handles auth
+CREATE POLICY "Brand fact sheets are viewable" ON brand_fact_sheets
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER update_brand_fact_sheets_updated_at
+  BEFORE UPDATE ON brand_fact_sheets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Fact check of each brand_recall / service_check answer
+ALTER TABLE brand_awareness_results
+  ADD COLUMN IF NOT EXISTS accuracy TEXT CHECK (accuracy IN ('correct', 'outdated', 'wrong', 'fabricated')),
+  ADD COLUMN IF NOT EXISTS false_claims JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON TABLE brand_fact_sheets IS 'Ground-truth facts AI answers about the brand are checked against (see lib/ai/fact-sheet.ts)';
+COMMENT ON COLUMN brand_fact_sheets.people IS 'Founders and key staff: [{name, role}]';
+COMMENT ON COLUMN brand_fact_sheets.notes IS 'Other facts in the subscriber''s words, e.g. former names or closed locations';
+COMMENT ON COLUMN brand_fact_sheets.edited_by_user IS 'TRUE once the subscriber has edited it - scans stop rebuilding it from the crawl';
+COMMENT ON COLUMN brand_awareness_results.accuracy IS 'Worst verdict among the answer''s claims; NULL when not checked (other query types, no fact sheet, budget)';
+COMMENT ON COLUMN brand_awareness_results.false_claims IS 'Claims that contradict the fact sheet: [{topic, claim, fact, verdict}]';
@@ -0,0 +1,25 @@
+-- ============================================
+-- BRAND SENTIMENT
+-- Sentiment and recommendation strength for outrankllm answers that mention
+-- the brand, and a sentiment-adjusted visibility score next to the raw one.
+-- Sentiment reuses HiringBrand's llm_responses columns (044, 048, 050).
+-- ============================================
+
+-- 1. llm_responses: how strongly the answer recommends us
+ALTER TABLE llm_responses
+  ADD COLUMN IF NOT EXISTS recommendation_strength TEXT
+    CHECK (recommendation_strength IN ('top_pick', 'recommended', 'mentioned', 'discouraged'));
+
+COMMENT ON COLUMN llm_responses.recommendation_strength IS 'outrankllm: top_pick, recommended, mentioned (no recommendation) or discouraged. NULL when not mentioned or not scored';
+
+-- 2. reports: sentiment-adjusted scores
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS sentiment_scores JSONB;
+
+COMMENT ON COLUMN reports.sentiment_scores IS 'Sentiment-adjusted visibility: {overall: 41, platforms: {chatgpt: {score: 35, scored: 12, byStrength: {top_pick: 2, recommended: 7}}}}. NULL when no answer was scored';
+
+-- 3. score_history: sentiment-adjusted trend
+ALTER TABLE score_history
+  ADD COLUMN IF NOT EXISTS sentiment_adjusted_score DECIMAL(5,2);
+
+COMMENT ON COLUMN score_history.sentiment_adjusted_score IS 'Visibility with each mention credited by sentiment and recommendation strength (a discouraging mention counts for nothing). NULL before 079 or when sentiment was skipped';